@@ -0,0 +1,33 @@
+// Scheduled heuristic detection for every workspace
+// Called by the Vercel cron in vercel.json (or any external scheduler) with Authorization: Bearer <CRON_SECRET>,
+// so quiet repositories still get stale-PR and inactive-branch alerts without webhook traffic
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireCronSecret } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { runRecordedHeuristicDetection } from '@/lib/heuristics'
+
+export const maxDuration = 300
+
+export async function GET(req: NextRequest) {
+  const unauthorized = requireCronSecret(req)
+  if (unauthorized) return unauthorized
+
+  const db = createServiceClient()
+  const { data: workspaces } = await db.from('workspaces').select('id')
+
+  const start = Date.now()
+  const results: Array<{ workspace_id: string; run_id: string | null; alerts_generated: number; error: string | null }> = []
+  // Sequential on purpose: each run issues several queries per rule
+  for (const ws of workspaces ?? []) {
+    const { runId, alerts, error } = await runRecordedHeuristicDetection(ws.id, 'schedule')
+    results.push({ workspace_id: ws.id, run_id: runId, alerts_generated: alerts.length, error })
+  }
+
+  return NextResponse.json({
+    workspaces: results.length,
+    failed: results.filter((r) => r.error).length,
+    elapsed_ms: Date.now() - start,
+    results,
+  })
+}
@@ -0,0 +1,37 @@
+// Job queue worker: drains due jobs from the jobs table (see src/lib/job-queue.ts)
+// Called every minute by the Vercel cron in vercel.json (or any external scheduler) with Authorization: Bearer <CRON_SECRET>
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireCronSecret } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { runRecordedHeuristicDetection } from '@/lib/heuristics'
+import { drainJobs } from '@/lib/job-queue'
+
+export const maxDuration = 300
+
+// Leave time under maxDuration for the heuristic runs after the drain
+const DRAIN_BUDGET_MS = 200_000
+
+export async function GET(req: NextRequest) {
+  const unauthorized = requireCronSecret(req)
+  if (unauthorized) return unauthorized
+
+  const db = createServiceClient()
+  const start = Date.now()
+  const results = await drainJobs(db, { limit: 500, deadline: start + DRAIN_BUDGET_MS })
+
+  // One heuristic run per workspace that received new GitHub data, rather than one per delivery or resync
+  const workspaces = new Set(results.filter((r) => r.status === 'succeeded').map((r) => r.workspace_id))
+  for (const workspaceId of workspaces) {
+    await runRecordedHeuristicDetection(workspaceId, 'webhook')
+  }
+
+  return NextResponse.json({
+    jobs: results.length,
+    succeeded: results.filter((r) => r.status === 'succeeded').length,
+    retrying: results.filter((r) => r.status === 'queued').length,
+    failed: results.filter((r) => r.status === 'failed').length,
+    elapsed_ms: Date.now() - start,
+    results,
+  })
+}
@@ -0,0 +1,45 @@
+// Scheduled incremental resync: queues one repo_resync job per workspace with bound repositories, and a blame_sync
+// job refreshing blame ownership of files changed since the last run
+// Called daily by the Vercel cron in vercel.json (or any external scheduler) with Authorization: Bearer <CRON_SECRET>;
+// the /api/cron/jobs worker runs the jobs, so a slow GitHub API doesn't hold this request open
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requireCronSecret } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { enqueueJob } from '@/lib/job-queue'
+
+// Resync failures are mostly rate limits or revoked tokens, so retry less than webhook deliveries
+const RESYNC_MAX_ATTEMPTS = 3
+
+export async function GET(req: NextRequest) {
+  const unauthorized = requireCronSecret(req)
+  if (unauthorized) return unauthorized
+
+  const db = createServiceClient()
+  const [{ data: repos }, { data: pending }] = await Promise.all([
+    db.from('workspace_repositories').select('workspace_id'),
+    db.from('jobs').select('workspace_id, type').in('type', ['repo_resync', 'blame_sync']).in('status', ['queued', 'running']),
+  ])
+
+  // A workspace whose previous resync is still queued or retrying doesn't get a second one
+  const busy = new Set((pending ?? []).filter((j) => j.type === 'repo_resync').map((j) => j.workspace_id))
+  const blameBusy = new Set((pending ?? []).filter((j) => j.type === 'blame_sync').map((j) => j.workspace_id))
+  const workspaces = [...new Set((repos ?? []).map((r) => r.workspace_id as string))]
+
+  const queued: string[] = []
+  const failed: Array<{ workspace_id: string; error: string }> = []
+  for (const workspaceId of workspaces) {
+    if (!busy.has(workspaceId)) {
+      const { job, error } = await enqueueJob(db, workspaceId, 'repo_resync', {}, RESYNC_MAX_ATTEMPTS)
+      if (job) queued.push(job.id)
+      else failed.push({ workspace_id: workspaceId, error: error ?? 'Failed to queue resync' })
+    }
+    if (!blameBusy.has(workspaceId)) {
+      const { job, error } = await enqueueJob(db, workspaceId, 'blame_sync', {}, RESYNC_MAX_ATTEMPTS)
+      if (job) queued.push(job.id)
+      else failed.push({ workspace_id: workspaceId, error: error ?? 'Failed to queue blame sync' })
+    }
+  }
+
+  return NextResponse.json({ queued: queued.length, skipped: busy.size, failed })
+}
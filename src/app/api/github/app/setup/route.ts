@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { verifyJWT } from '@/lib/jwt'
+import { isGitHubAppConfigured, linkInstallation, saveInstallation, userCanAccessInstallation } from '@/lib/github-app'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/github/app/setup — The App's "Setup URL": GitHub redirects here after an install with
+// installation_id and the state issued by POST /api/workspaces/[id]/github-app
+export async function GET(req: NextRequest) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin
+  const params = req.nextUrl.searchParams
+
+  // The browser arrives without an Authorization header; the signed state names the workspace and the admin
+  const state = await verifyJWT(params.get('state') ?? '')
+  const workspaceId = state?.purpose === 'github_app_install' ? state.workspace_id as string : null
+  if (!workspaceId || !isGitHubAppConfigured()) {
+    return NextResponse.redirect(`${appUrl}/?error=github_app_state`)
+  }
+  // The dashboard opens Settings and reports the outcome from ?github_app=
+  const settingsUrl = `${appUrl}/dashboard/${workspaceId}`
+
+  // An org member without admin rights can only request the install; it arrives later as an installation event
+  const installationId = Number(params.get('installation_id'))
+  if (params.get('setup_action') === 'request' || !installationId) {
+    return NextResponse.redirect(`${settingsUrl}?github_app=requested`)
+  }
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', state!.user_id as string)
+    .single()
+  if (!member || member.role !== 'admin') {
+    return NextResponse.redirect(`${settingsUrl}?github_app=forbidden`)
+  }
+
+  // installation_id is only a query parameter: link it only if the admin's GitHub account can see it
+  let githubToken = req.cookies.get('github_token')?.value
+  if (!githubToken) {
+    const { data } = await db.from('users').select('github_access_token').eq('id', state!.user_id as string).single()
+    githubToken = data?.github_access_token ?? undefined
+  }
+  try {
+    if (!githubToken || !(await userCanAccessInstallation(githubToken, installationId))) {
+      return NextResponse.redirect(`${settingsUrl}?github_app=unverified`)
+    }
+    await saveInstallation(db, installationId)
+    await linkInstallation(db, workspaceId, installationId)
+  } catch (e) {
+    console.error('GitHub App setup error:', e)
+    return NextResponse.redirect(`${settingsUrl}?github_app=failed`)
+  }
+  return NextResponse.redirect(`${settingsUrl}?github_app=installed`)
+}
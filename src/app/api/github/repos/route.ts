@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
-import { fetchUserRepos } from '@/lib/github-api'
+import { fetchUserRepos, rateLimitErrorResponse } from '@/lib/github-api'
 import { createServiceClient } from '@/lib/supabase'
 
 // AR-VCS-013/014: GET /api/github/repos — Fetch & return the list of accessible repos
@@ -43,6 +43,8 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ repos: formatted })
   } catch (e: unknown) {
     console.error('Failed to fetch repos:', e)
+    const limited = rateLimitErrorResponse(e)
+    if (limited) return NextResponse.json(limited.body, limited.init)
     // If GitHub returns 401, the token is expired/revoked — clear it from DB
     if (e && typeof e === 'object' && 'status' in e && (e as { status: number }).status === 401) {
       const sb = createServiceClient()
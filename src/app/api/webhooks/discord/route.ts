@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase'
 import { detectIntent, extractEntities } from '@/lib/nlp'
+import { loadIdentityResolver, messageAuthor } from '@/lib/identities'
 
 // POST /api/webhooks/discord - receives Discord bot messages
 export async function POST(req: NextRequest) {
@@ -59,15 +60,16 @@ export async function POST(req: NextRequest) {
     sent_at: sent_at ?? new Date().toISOString(),
   }, { onConflict: 'workspace_id,message_id' })
 
-  // Auto-create blocker alert
+  // Auto-create blocker alert, attributed to the person behind the Discord account when known
   if (entities.isBlocker) {
+    const author = messageAuthor(await loadIdentityResolver(db, workspace_id), { user_id: user?.id, discord_id: author_discord_id, name: author_username })
     await db.from('alerts').insert({
       workspace_id,
       type: 'discord_blocker',
       severity: 'warning',
-      title: `Blocker reported by ${author_username}`,
+      title: `Blocker reported by ${author.name}`,
       description: content.slice(0, 200),
-      metadata: { author: author_username, channel: channel_name, entities },
+      metadata: { author: author.key, person_id: author.person?.id ?? null, channel: channel_name, entities },
     })
   }
 
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/supabase'
+import { handleInstallationEvent } from '@/lib/github-app'
+import { verifyWebhookSignature } from '@/lib/github-webhook'
+
+const INSTALLATION_EVENTS = ['installation', 'installation_repositories']
+
+// POST /api/webhooks/github/app — GitHub App webhook (the App's "Webhook URL"), signed with GITHUB_APP_WEBHOOK_SECRET.
+// Only installation changes are handled here; repository events keep arriving on each repository's own hook.
+export async function POST(req: NextRequest) {
+  const secret = process.env.GITHUB_APP_WEBHOOK_SECRET
+  if (!secret) return NextResponse.json({ error: 'GitHub App not configured' }, { status: 404 })
+
+  const rawBody = await req.text()
+  const signature = req.headers.get('x-hub-signature-256') ?? ''
+  if (!verifyWebhookSignature(rawBody, signature, secret)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  const event = req.headers.get('x-github-event') ?? ''
+  if (!INSTALLATION_EVENTS.includes(event)) return NextResponse.json({ ok: true, event, ignored: true })
+
+  const payload = JSON.parse(rawBody) as Record<string, unknown>
+  try {
+    await handleInstallationEvent(createServiceClient(), event, payload)
+  } catch (e) {
+    // A 500 makes the delivery show as failed in the App settings, where it can be redelivered
+    console.error('Installation event error:', e)
+    return NextResponse.json({ error: 'Failed to process installation event' }, { status: 500 })
+  }
+  return NextResponse.json({ ok: true, event, action: payload.action ?? null })
+}
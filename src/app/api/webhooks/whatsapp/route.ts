@@ -5,6 +5,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/supabase'
 import { detectIntent, extractEntities } from '@/lib/nlp'
+import { loadIdentityResolver, messageAuthor } from '@/lib/identities'
 
 export async function POST(req: NextRequest) {
   // Verify relay secret
@@ -59,15 +60,16 @@ export async function POST(req: NextRequest) {
     sent_at: sent_at ?? new Date().toISOString(),
   }, { onConflict: 'workspace_id,source,message_id' })
 
-  // Auto-create blocker alert
+  // Auto-create blocker alert, attributed to the person behind the phone number when known
   if (entities.isBlocker) {
+    const author = messageAuthor(await loadIdentityResolver(db, workspace_id), { phone: phone_number, name: sanitizedAuthor })
     await db.from('alerts').insert({
       workspace_id,
       type: 'whatsapp_blocker',
       severity: 'warning',
-      title: `Blocker reported by ${sanitizedAuthor} (WhatsApp)`,
+      title: `Blocker reported by ${author.name} (WhatsApp)`,
       description: sanitizedContent.slice(0, 200),
-      metadata: { author: sanitizedAuthor, source: 'whatsapp', entities },
+      metadata: { author: author.key, person_id: author.person?.id ?? null, source: 'whatsapp', entities },
     })
   }
 
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { createAlertCommentSchema, validateBody } from '@/lib/validation'
+
+type Params = { params: Promise<{ workspaceId: string; alertId: string }> }
+
+// GET /api/workspaces/[workspaceId]/alerts/[alertId]/comments - list comments on an alert
+export async function GET(req: NextRequest, { params }: Params) {
+  const { workspaceId, alertId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { data: comments, error: fetchErr } = await db
+    .from('alert_comments')
+    .select('id, content, created_at, user:users(id, name, avatar_url)')
+    .eq('workspace_id', workspaceId)
+    .eq('alert_id', alertId)
+    .order('created_at', { ascending: true })
+
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+
+  return NextResponse.json({ comments: comments ?? [] })
+}
+
+// POST /api/workspaces/[workspaceId]/alerts/[alertId]/comments - add a comment
+export async function POST(req: NextRequest, { params }: Params) {
+  const { workspaceId, alertId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { data: body, error: validationError } = await validateBody(req, createAlertCommentSchema)
+  if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
+
+  const { data: alert } = await db.from('alerts').select('id').eq('id', alertId).eq('workspace_id', workspaceId).single()
+  if (!alert) return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+
+  const { data: comment, error: insertErr } = await db
+    .from('alert_comments')
+    .insert({ alert_id: alertId, workspace_id: workspaceId, user_id: user!.id, content: body!.content })
+    .select('id, content, created_at, user:users(id, name, avatar_url)')
+    .single()
+
+  if (insertErr) return NextResponse.json({ error: insertErr.message }, { status: 500 })
+
+  return NextResponse.json({ comment }, { status: 201 })
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
-import { resolveAlertSchema, validateBody } from '@/lib/validation'
+import { updateAlertSchema, validateBody } from '@/lib/validation'
 
 export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
   const { workspaceId } = await params
@@ -16,6 +16,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
   return NextResponse.json({ alerts })
 }
 
+// PATCH /api/workspaces/[workspaceId]/alerts — resolve, reopen, acknowledge, snooze or assign an alert
 export async function PATCH(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
   const { workspaceId } = await params
   const { user, error } = await requireAuth(req)
@@ -25,9 +26,51 @@ export async function PATCH(req: NextRequest, { params }: { params: Promise<{ wo
   const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
   if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
 
-  const { data: body, error: validationError } = await validateBody(req, resolveAlertSchema)
+  const { data: body, error: validationError } = await validateBody(req, updateAlertSchema)
   if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
-  const { alert_id } = body!
-  await db.from('alerts').update({ resolved: true, resolved_at: new Date().toISOString() }).eq('id', alert_id).eq('workspace_id', workspaceId)
-  return NextResponse.json({ success: true })
+  const { alert_id, action, snoozed_until, assigned_to } = body!
+
+  const now = new Date().toISOString()
+  let update: Record<string, unknown>
+  switch (action) {
+    case 'resolve':
+      update = { resolved: true, resolved_at: now, resolved_by: user!.id, resolved_reason: 'manual' }
+      break
+    case 'reopen':
+      update = { resolved: false, resolved_at: null, resolved_by: null, resolved_reason: null }
+      break
+    case 'acknowledge':
+      update = { acknowledged: true, acknowledged_at: now, acknowledged_by: user!.id }
+      break
+    case 'unacknowledge':
+      update = { acknowledged: false, acknowledged_at: null, acknowledged_by: null }
+      break
+    case 'snooze':
+      if (new Date(snoozed_until!).getTime() <= Date.now()) return NextResponse.json({ error: 'snoozed_until must be in the future' }, { status: 400 })
+      update = { snoozed_until }
+      break
+    case 'unsnooze':
+      update = { snoozed_until: null }
+      break
+    case 'assign': {
+      // Only workspace members can own an alert; null clears the assignment
+      if (assigned_to) {
+        const { data: assignee } = await db.from('workspace_members').select('user_id').eq('workspace_id', workspaceId).eq('user_id', assigned_to).single()
+        if (!assignee) return NextResponse.json({ error: 'Assignee is not a workspace member' }, { status: 400 })
+      }
+      update = { assigned_to: assigned_to ?? null }
+      break
+    }
+  }
+
+  const { data: alert, error: updateErr } = await db
+    .from('alerts')
+    .update(update)
+    .eq('id', alert_id)
+    .eq('workspace_id', workspaceId)
+    .select('*')
+    .single()
+
+  if (updateErr || !alert) return NextResponse.json({ error: 'Alert not found' }, { status: 404 })
+  return NextResponse.json({ success: true, alert })
 }
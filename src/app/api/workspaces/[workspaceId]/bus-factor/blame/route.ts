@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { enqueueJob, runJob } from '@/lib/job-queue'
+import { resolveRepoFilter, repoFullName } from '@/lib/repositories'
+
+// Covers the sync itself, which runs after the response
+export const maxDuration = 300
+
+// Failures are mostly rate limits; the daily cron queues a fresh sync anyway
+const BLAME_SYNC_MAX_ATTEMPTS = 3
+
+// POST /api/workspaces/[workspaceId]/bus-factor/blame?repo=owner/name — Recompute blame ownership of the default
+// branch (admin). Without ?repo every bound repository is blamed; a sync already queued is returned instead
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> },
+) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .single()
+
+  if (!member || member.role !== 'admin') {
+    return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+  }
+
+  const { repos, repo, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  if (repos.length === 0) return NextResponse.json({ error: 'No repository bound' }, { status: 400 })
+
+  const { data: pending } = await db
+    .from('jobs')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .eq('type', 'blame_sync')
+    .eq('status', 'queued')
+    .limit(1)
+  if (pending && pending.length > 0) return NextResponse.json({ job_id: pending[0].id, created: false })
+
+  const { job, error: queueError } = await enqueueJob(db, workspaceId, 'blame_sync', { repo: repo ? repoFullName(repo) : null }, BLAME_SYNC_MAX_ATTEMPTS)
+  if (!job) return NextResponse.json({ error: queueError ?? 'Failed to queue blame sync' }, { status: 500 })
+
+  // Retries after a failure or rate limit are picked up by the /api/cron/jobs worker
+  after(() => runJob(db, job).catch(console.error))
+
+  return NextResponse.json({ job_id: job.id, created: true }, { status: 202 })
+}
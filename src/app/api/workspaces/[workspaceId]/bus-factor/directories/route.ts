@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { rowRepo } from '@/lib/heuristics'
+import { loadFileOwnership } from '@/lib/blame-ownership'
+import { findOwnershipNode, ownershipBreadcrumbs, rollupOwnership, type OwnershipNode } from '@/lib/ownership-rollup'
+import { resolveRepoFilter } from '@/lib/repositories'
+
+// One level is sent per request; the client drills down by asking for a child's path
+function withoutGrandchildren(node: OwnershipNode): OwnershipNode {
+  return { ...node, children: node.children.map((c) => ({ ...c, children: [] })) }
+}
+
+// GET /api/workspaces/[workspaceId]/bus-factor/directories?repo=owner/name&path=src/lib — bus factor of a directory
+// and of each directory and file directly under it (the workspace root without ?path)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { repo, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  const path = (req.nextUrl.searchParams.get('path') ?? '').replace(/^\/+|\/+$/g, '')
+
+  const { rows, model } = await loadFileOwnership(db, workspaceId, repo)
+  const root = rollupOwnership(rows.map((r) => ({ ...r, repo: rowRepo(r, '') })))
+  const node = findOwnershipNode(root, path)
+  if (!node) return NextResponse.json({ error: 'Path not found' }, { status: 404 })
+
+  return NextResponse.json({
+    ownershipModel: model,
+    path,
+    breadcrumbs: ownershipBreadcrumbs(root, path),
+    node: withoutGrandchildren(node),
+  })
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
-import { calculateKnowledgeConcentration } from '@/lib/heuristics'
+import { calculateKnowledgeConcentration, rowRepo, type KnowledgeShare } from '@/lib/heuristics'
+import { loadFileOwnership } from '@/lib/blame-ownership'
+import { resolveRepoFilter } from '@/lib/repositories'
 
+// GET /api/workspaces/[workspaceId]/bus-factor?repo=owner/name — per-file bus factor across (or within one of) the bound repos
 export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
   const { workspaceId } = await params
   const { user, error } = await requireAuth(req)
@@ -12,20 +15,25 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
   const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
   if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
 
-  const { data: fileAuthorship } = await db
-    .from('file_authorship')
-    .select('file_path, author_github_username, lines_added, lines_modified, commit_count')
-    .eq('workspace_id', workspaceId)
+  const { repo, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
 
-  const fileMap: Record<string, Array<{ author_github_username: string; lines_added: number; lines_modified: number }>> = {}
-  for (const fa of fileAuthorship ?? []) {
-    if (!fileMap[fa.file_path]) fileMap[fa.file_path] = []
-    fileMap[fa.file_path].push(fa)
+  // Blame ownership where it has been computed, cumulative authorship elsewhere
+  const { rows, model, blameComputedAt } = await loadFileOwnership(db, workspaceId, repo)
+
+  // The same path in two repositories is two different files
+  const fileMap: Record<string, { repo: string; file: string; authors: KnowledgeShare[] }> = {}
+  for (const fa of rows) {
+    const faRepo = rowRepo(fa, '')
+    const key = `${faRepo}:${fa.file_path}`
+    if (!fileMap[key]) fileMap[key] = { repo: faRepo, file: fa.file_path, authors: [] }
+    fileMap[key].authors.push(fa)
   }
 
-  const files = Object.entries(fileMap).map(([file, authors]) => {
+  const files = Object.values(fileMap).map(({ repo: fileRepo, file, authors }) => {
     const { busFactor, dominant_author, concentration } = calculateKnowledgeConcentration(authors)
     return {
+      repo: fileRepo || null,
       file,
       busFactor,
       dominant_author,
@@ -35,5 +43,5 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
     }
   }).sort((a, b) => b.concentration - a.concentration)
 
-  return NextResponse.json({ files, total: files.length })
+  return NextResponse.json({ files, total: files.length, ownershipModel: model, blameComputedAt })
 }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { rowRepo } from '@/lib/heuristics'
+import { loadFileOwnership } from '@/lib/blame-ownership'
+import { ORPHAN_THRESHOLD, simulateDeparture } from '@/lib/knowledge-loss'
+import { resolveRepoFilter } from '@/lib/repositories'
+
+const MAX_DEPARTING = 20
+
+// GET /api/workspaces/[workspaceId]/bus-factor/simulate?without=alice,bob&threshold=0.2&repo=owner/name — bus factor
+// with the given contributors removed, and the files and directories nobody remaining knows well enough
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const search = req.nextUrl.searchParams
+  const departing = [...new Set((search.get('without') ?? '').split(',').map((u) => u.trim().replace(/^@/, '')).filter(Boolean))]
+  if (departing.length === 0) return NextResponse.json({ error: 'without must list at least one GitHub username' }, { status: 400 })
+  if (departing.length > MAX_DEPARTING) return NextResponse.json({ error: `At most ${MAX_DEPARTING} contributors at once` }, { status: 400 })
+  const rawThreshold = Number(search.get('threshold') ?? ORPHAN_THRESHOLD)
+  const threshold = Number.isFinite(rawThreshold) ? Math.min(Math.max(rawThreshold, 0.01), 1) : ORPHAN_THRESHOLD
+
+  const { repo, error: repoError } = await resolveRepoFilter(db, workspaceId, search.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+
+  const { rows, model } = await loadFileOwnership(db, workspaceId, repo)
+  const simulation = simulateDeparture(rows.map((r) => ({ ...r, repo: rowRepo(r, '') })), departing, { threshold })
+  return NextResponse.json({ ...simulation, ownershipModel: model })
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { detectCodeownersDrift, parseCodeowners } from '@/lib/codeowners'
+import { countFileChanges } from '@/lib/coupling'
+import { rateLimitErrorResponse, syncCodeowners } from '@/lib/github-api'
+import { resolveGitHubToken } from '@/lib/github-app'
+import { repoFullName, resolveRepoFilter } from '@/lib/repositories'
+
+// GET /api/workspaces/[workspaceId]/codeowners?repo=owner/name — the repository's CODEOWNERS (default: the primary
+// repository) compared with file_authorship and commit history: owners who never touched their paths, and busy files nobody owns
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  // CODEOWNERS is per repository, so without ?repo the primary one is analysed
+  const { repos, repo: filtered, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  const repo = filtered ?? repos[0]
+  if (!repo) return NextResponse.json({ error: 'No repository bound' }, { status: 400 })
+
+  const [{ data: stored }, { data: authorship }, { data: commits }] = await Promise.all([
+    db.from('workspace_repositories').select('codeowners_path, codeowners_content, codeowners_synced_at').eq('id', repo.id).single(),
+    db.from('file_authorship').select('file_path, author_github_username, lines_added, lines_modified')
+      .eq('workspace_id', workspaceId).eq('repo_owner', repo.repo_owner).eq('repo_name', repo.repo_name),
+    db.from('commits').select('files_list')
+      .eq('workspace_id', workspaceId).eq('repo_owner', repo.repo_owner).eq('repo_name', repo.repo_name).eq('is_unreachable', false)
+      .order('committed_at', { ascending: false }).limit(5000),
+  ])
+
+  const { rules, errors } = parseCodeowners(stored?.codeowners_content ?? '')
+  return NextResponse.json({
+    repo: repoFullName(repo),
+    path: stored?.codeowners_path ?? null,
+    syncedAt: stored?.codeowners_synced_at ?? null,
+    ruleCount: rules.length,
+    errors,
+    // Without a CODEOWNERS file every busy file is an unowned hotspot
+    drift: detectCodeownersDrift(rules, authorship ?? [], countFileChanges(commits ?? [])),
+  })
+}
+
+// POST /api/workspaces/[workspaceId]/codeowners?repo=owner/name — Fetch CODEOWNERS from GitHub again (admin)
+export async function POST(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') {
+    return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+  }
+
+  const { repos, repo: filtered, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  const repo = filtered ?? repos[0]
+  if (!repo) return NextResponse.json({ error: 'No repository bound' }, { status: 400 })
+
+  const resolved = await resolveGitHubToken(db, workspaceId, { owner: repo.repo_owner, name: repo.repo_name }, req.cookies.get('github_token')?.value)
+  if (!resolved) return NextResponse.json({ error: 'No GitHub token available for this workspace' }, { status: 400 })
+
+  try {
+    const path = await syncCodeowners(resolved.token, repo.repo_owner, repo.repo_name, workspaceId, repo.default_branch ?? 'HEAD')
+    return NextResponse.json({ repo: repoFullName(repo), path })
+  } catch (e) {
+    console.error('CODEOWNERS sync error:', e)
+    const limited = rateLimitErrorResponse(e)
+    if (limited) return NextResponse.json(limited.body, limited.init)
+    return NextResponse.json({ error: 'Failed to fetch CODEOWNERS' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { loadFileOwnership } from '@/lib/blame-ownership'
+import { suggestCodeowners } from '@/lib/codeowners'
+import { repoFullName, resolveRepoFilter } from '@/lib/repositories'
+
+// GET /api/workspaces/[workspaceId]/codeowners/suggest?repo=owner/name — a CODEOWNERS file generated from who
+// actually owns each directory (blame ownership where computed, else cumulative authorship)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { repos, repo: filtered, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  const repo = filtered ?? repos[0]
+  if (!repo) return NextResponse.json({ error: 'No repository bound' }, { status: 400 })
+
+  const { rows, model } = await loadFileOwnership(db, workspaceId, repo)
+  const { entries, content } = suggestCodeowners(rows)
+  return NextResponse.json({ repo: repoFullName(repo), ownershipModel: model, entries, content })
+}
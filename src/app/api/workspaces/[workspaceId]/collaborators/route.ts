@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
-import { fetchAndStoreCollaborators, detectExternalContributors, mapAuthorsToCollaborators } from '@/lib/github-api'
+import { fetchAndStoreCollaborators, detectExternalContributors, mapAuthorsToCollaborators, rateLimitErrorResponse } from '@/lib/github-api'
+import { loadIdentityResolver } from '@/lib/identities'
 
 // AR-VCS-023/024/025/026/027/028:
 // GET /api/workspaces/[workspaceId]/collaborators — Get collaborator info + external contributor detection
@@ -37,11 +38,11 @@ export async function GET(
     permissions: { admin: boolean; maintain: boolean; push: boolean; triage: boolean; pull: boolean }
   }>) ?? []
 
-  // AR-VCS-026: Map commit authors to collaborators
-  const { data: commits } = await db
-    .from('commits')
-    .select('author_github_username, author_email')
-    .eq('workspace_id', workspaceId)
+  // AR-VCS-026: Map commit authors to collaborators, through the identity registry
+  const [{ data: commits }, identities] = await Promise.all([
+    db.from('commits').select('author_github_username, author_email').eq('workspace_id', workspaceId),
+    loadIdentityResolver(db, workspaceId),
+  ])
 
   const authorMapping = mapAuthorsToCollaborators(
     (commits ?? []).map((c) => ({
@@ -49,10 +50,11 @@ export async function GET(
       author_email: c.author_email ?? '',
     })),
     collaborators,
+    identities,
   )
 
   // AR-VCS-027: Detect external contributors
-  const externalInfo = await detectExternalContributors(workspaceId)
+  const externalInfo = await detectExternalContributors(workspaceId, identities)
 
   return NextResponse.json({
     collaborators,
@@ -120,6 +122,8 @@ export async function POST(
     })
   } catch (e) {
     console.error('Collaborator refresh error:', e)
+    const limited = rateLimitErrorResponse(e)
+    if (limited) return NextResponse.json(limited.body, limited.init)
     return NextResponse.json({ error: 'Failed to refresh collaborators' }, { status: 502 })
   }
 }
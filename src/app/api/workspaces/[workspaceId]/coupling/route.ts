@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { computeChangeCoupling } from '@/lib/coupling'
+import { resolveRepoFilter } from '@/lib/repositories'
+
+// GET /api/workspaces/[workspaceId]/coupling?days=90&min_support=3&min_confidence=0.5&repo=owner/name — change coupling
+// between files of the same repository
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const search = req.nextUrl.searchParams
+  const { repo, error: repoError } = await resolveRepoFilter(db, workspaceId, search.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  const days = Math.min(Math.max(Number(search.get('days')) || 90, 1), 365)
+  const minSupport = Math.max(Number(search.get('min_support')) || 3, 2)
+  const rawConfidence = Number(search.get('min_confidence') ?? 0.5)
+  const minConfidence = Number.isFinite(rawConfidence) ? Math.min(Math.max(rawConfidence, 0), 1) : 0.5
+
+  const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString()
+  const repoMatch = repo ? { repo_owner: repo.repo_owner, repo_name: repo.repo_name } : {}
+  const { data: commits } = await db
+    .from('commits')
+    .select('repo_owner, repo_name, files_list')
+    .eq('workspace_id', workspaceId)
+    .match(repoMatch)
+    // Commits rewritten away by a force push never changed the branch together
+    .eq('is_unreachable', false)
+    .gt('committed_at', since)
+    .order('committed_at', { ascending: false })
+    .limit(2000)
+
+  const result = computeChangeCoupling(commits ?? [], { minSupport, minConfidence })
+  return NextResponse.json({ ...result, days, minSupport, minConfidence })
+}
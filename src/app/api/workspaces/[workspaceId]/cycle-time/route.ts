@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { computeCycleTimePercentiles, CYCLE_TIME_GROUP_BY, type CycleTimeGroupBy } from '@/lib/cycle-time'
+import { resolveRepoFilter } from '@/lib/repositories'
+
+// GET /api/workspaces/[workspaceId]/cycle-time?days=90&group_by=week&repo=owner/name — cycle-time percentiles per segment
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const search = req.nextUrl.searchParams
+  const groupBy = (search.get('group_by') ?? 'week') as CycleTimeGroupBy
+  if (!CYCLE_TIME_GROUP_BY.includes(groupBy)) {
+    return NextResponse.json({ error: `group_by must be one of: ${CYCLE_TIME_GROUP_BY.join(', ')}` }, { status: 400 })
+  }
+  const { repo, error: repoError } = await resolveRepoFilter(db, workspaceId, search.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  const days = Math.min(Math.max(Number(search.get('days')) || 90, 1), 365)
+  const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString()
+
+  const [{ data: metrics }, { data: prs }] = await Promise.all([
+    db.from('cycle_time_metrics')
+      .select('pull_request_id, coding_time_seconds, pickup_time_seconds, review_time_seconds, deployment_time_seconds, total_cycle_time_seconds, calculated_at')
+      .eq('workspace_id', workspaceId)
+      .gt('calculated_at', since)
+      .limit(5000),
+    db.from('pull_requests')
+      .select('id, author_github_username, base_branch, lines_added, lines_deleted, merged_at')
+      .eq('workspace_id', workspaceId)
+      .match(repo ? { repo_owner: repo.repo_owner, repo_name: repo.repo_name } : {})
+      .order('opened_at', { ascending: false })
+      .limit(5000),
+  ])
+
+  // PR attributes for author / branch / size bucketing; metrics without a known PR still count overall,
+  // unless a repo filter needs the PR to tell which repository they belong to
+  const prById = new Map((prs ?? []).map((pr) => [pr.id as string, pr]))
+  const samples = (metrics ?? []).filter((m) => !repo || prById.has(m.pull_request_id)).map((m) => {
+    const pr = prById.get(m.pull_request_id)
+    return {
+      ...m,
+      merged_at: pr?.merged_at ?? null,
+      author_github_username: pr?.author_github_username ?? null,
+      base_branch: pr?.base_branch ?? null,
+      lines_added: pr?.lines_added ?? null,
+      lines_deleted: pr?.lines_deleted ?? null,
+    }
+  })
+
+  return NextResponse.json({ days, groupBy, ...computeCycleTimePercentiles(samples, groupBy) })
+}
@@ -1,9 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
-import { calculateKnowledgeConcentration } from '@/lib/heuristics'
-import { fetchLiveDashboard } from '@/lib/github-api'
+import { calculateKnowledgeConcentration, rowRepo } from '@/lib/heuristics'
+import { loadFileOwnership, type OwnershipRow } from '@/lib/blame-ownership'
+import { fetchLiveDashboard, rateLimitErrorResponse } from '@/lib/github-api'
+import { installationTokenForRepo } from '@/lib/github-app'
+import { loadIdentityResolver } from '@/lib/identities'
+import { resolveRepoFilter } from '@/lib/repositories'
+
+// Per-file bus factor; the same path in two repositories is two different files
+function fileBusFactors(rows: OwnershipRow[]) {
+  const fileMap: Record<string, { repo: string; file: string; authors: typeof rows }> = {}
+  for (const fa of rows) {
+    const repo = rowRepo(fa, '')
+    const key = `${repo}:${fa.file_path}`
+    if (!fileMap[key]) fileMap[key] = { repo, file: fa.file_path, authors: [] }
+    fileMap[key].authors.push(fa)
+  }
+  return Object.values(fileMap).map(({ repo, file, authors }) => {
+    const { busFactor, dominant_author, concentration } = calculateKnowledgeConcentration(authors)
+    return { repo: repo || null, file, busFactor, dominant_author, concentration, authorCount: authors.length }
+  })
+}
 
+// GET /api/workspaces/[workspaceId]/dashboard?repo=owner/name — dashboard across every bound repo, or one of them
 export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
   const { workspaceId } = await params
   const { user, error } = await requireAuth(req)
@@ -18,16 +38,24 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
     .single()
   if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
 
-  // Check if workspace has a bound GitHub repo
-  const { data: workspace } = await db
-    .from('workspaces')
-    .select('github_repo_owner, github_repo_name')
-    .eq('id', workspaceId)
-    .single()
+  const { repos, repo, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+  // Alerts about one repository carry it in metadata.repo; workspace-wide alerts have none
+  const repoAlertFilter = repo ? `metadata->>repo.is.null,metadata->>repo.eq."${repo.repo_owner}/${repo.repo_name}"` : null
+
+  // Live GitHub data covers one repository; several bound repos are aggregated from the database instead
+  const liveRepo = repo ?? (repos.length === 1 ? repos[0] : null)
+  const repoOwner = liveRepo?.repo_owner
+  const repoName = liveRepo?.repo_name
+  // The GitHub App installation token when it covers the repo (no cookie needed), else the viewer's OAuth cookie
+  const githubToken = (liveRepo && await installationTokenForRepo(db, workspaceId, { owner: liveRepo.repo_owner, name: liveRepo.repo_name }))
+    || req.cookies.get('github_token')?.value
 
-  const githubToken = req.cookies.get('github_token')?.value
-  const repoOwner = workspace?.github_repo_owner
-  const repoName = workspace?.github_repo_name
+  // Team stats count each person once, whichever emails and logins they committed under
+  const identities = await loadIdentityResolver(db, workspaceId)
+
+  // Set when the live fetch hit GitHub's rate limit, so the UI can say why it is showing stored data
+  let githubRateLimit: { limit: number | null; remaining: number; reset_at: string | null } | null = null
 
   // If we have a bound repo + GitHub token, fetch LIVE data from GitHub
   if (githubToken && repoOwner && repoName) {
@@ -40,14 +68,15 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
         .select('role, user:users(id, name, avatar_url, github_username)')
         .eq('workspace_id', workspaceId)
 
-      // Fetch alerts from DB
-      const { data: alertsData } = await db
+      // Fetch alerts from DB (snoozed alerts stay hidden until their snooze expires)
+      let alertsQuery = db
         .from('alerts')
         .select('*')
         .eq('workspace_id', workspaceId)
         .eq('resolved', false)
-        .order('created_at', { ascending: false })
-        .limit(20)
+        .or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`)
+      if (repoAlertFilter) alertsQuery = alertsQuery.or(repoAlertFilter)
+      const { data: alertsData } = await alertsQuery.order('created_at', { ascending: false }).limit(20)
 
       // Fetch messages from DB (stored in discord_messages table)
       const { data: liveMessages } = await db
@@ -57,26 +86,14 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
         .order('sent_at', { ascending: false })
         .limit(50)
 
-      // Fetch file authorship from DB (populated during repo bind sync)
-      const { data: fileAuthorship } = await db
-        .from('file_authorship')
-        .select('file_path, author_github_username, lines_added, lines_modified, commit_count')
-        .eq('workspace_id', workspaceId)
+      // File ownership from DB: blame ownership once computed, else authorship populated during repo bind sync
+      const { rows: fileOwnership, model: ownershipModel } = await loadFileOwnership(db, workspaceId, { repo_owner: repoOwner, repo_name: repoName })
 
-      let criticalFiles: Array<{ file: string; busFactor: number; dominant_author: string | null; concentration: number; authorCount: number }> = []
+      let criticalFiles: Array<{ repo?: string | null; file: string; busFactor: number; dominant_author: string | null; concentration: number; authorCount: number }> = []
 
-      if (fileAuthorship && fileAuthorship.length > 0) {
-        // Per-file bus factor from authorship data
-        const fileMap: Record<string, Array<{ author_github_username: string; lines_added: number; lines_modified: number }>> = {}
-        for (const fa of fileAuthorship) {
-          if (!fileMap[fa.file_path]) fileMap[fa.file_path] = []
-          fileMap[fa.file_path].push(fa)
-        }
-        criticalFiles = Object.entries(fileMap)
-          .map(([file, authors]) => {
-            const { busFactor, dominant_author, concentration } = calculateKnowledgeConcentration(authors)
-            return { file, busFactor, dominant_author, concentration, authorCount: authors.length }
-          })
+      if (fileOwnership.length > 0) {
+        // Per-file bus factor from ownership data
+        criticalFiles = fileBusFactors(fileOwnership)
           .filter((f) => f.concentration > 80)
           .sort((a, b) => b.concentration - a.concentration)
           .slice(0, 10)
@@ -197,53 +214,59 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
       }
       // Commits
       for (const c of live.recentCommits) {
-        ensure(c.author, c.author_avatar)
-        teamMap[c.author].commits++
-        if (!teamMap[c.author].lastActive || c.date > teamMap[c.author].lastActive!) teamMap[c.author].lastActive = c.date
+        const k = identities.authorKey(c.author)
+        ensure(k, c.author_avatar)
+        teamMap[k].commits++
+        if (!teamMap[k].lastActive || c.date > teamMap[k].lastActive!) teamMap[k].lastActive = c.date
       }
       // Supplement from contributor list (total contributions)
       for (const c of live.contributors) {
-        ensure(c.username, c.avatar_url)
+        const k = identities.authorKey(c.username)
+        ensure(k, c.avatar_url)
         // Use GitHub contributor count if it's higher (it includes ALL commits, not just recent)
-        if (c.contributions > teamMap[c.username].commits) teamMap[c.username].commits = c.contributions
+        if (c.contributions > teamMap[k].commits) teamMap[k].commits = c.contributions
       }
       // PRs — lines added/deleted, open/merged/closed durations
       const prDurations: Record<string, number[]> = {}
       for (const pr of live.pullRequests) {
-        ensure(pr.author)
-        teamMap[pr.author].prsOpened++
-        teamMap[pr.author].prAdditions += pr.additions
-        teamMap[pr.author].prDeletions += pr.deletions
-        teamMap[pr.author].linesAdded += pr.additions
-        teamMap[pr.author].linesDeleted += pr.deletions
+        const k = identities.authorKey(pr.author)
+        ensure(k)
+        teamMap[k].prsOpened++
+        teamMap[k].prAdditions += pr.additions
+        teamMap[k].prDeletions += pr.deletions
+        teamMap[k].linesAdded += pr.additions
+        teamMap[k].linesDeleted += pr.deletions
         if (pr.state === 'merged') {
-          teamMap[pr.author].prsMerged++
+          teamMap[k].prsMerged++
           if (pr.merged_at) {
             const dur = (new Date(pr.merged_at).getTime() - new Date(pr.created_at).getTime()) / 3600000
-            if (!prDurations[pr.author]) prDurations[pr.author] = []
-            prDurations[pr.author].push(dur)
+            if (!prDurations[k]) prDurations[k] = []
+            prDurations[k].push(dur)
           }
         } else if (pr.state === 'closed') {
-          teamMap[pr.author].prsClosed++
+          teamMap[k].prsClosed++
         }
         // Active branches = open PRs (each open PR is a branch)
-        if (pr.state === 'open') teamMap[pr.author].activeBranches++
+        if (pr.state === 'open') teamMap[k].activeBranches++
       }
       for (const [u, durs] of Object.entries(prDurations)) {
         teamMap[u].avgPRDuration = Math.round((durs.reduce((a, b) => a + b, 0) / durs.length) * 100) / 100
       }
       // Issues
       for (const i of live.issues) {
-        ensure(i.author)
-        teamMap[i.author].issuesOpened++
+        const k = identities.authorKey(i.author)
+        ensure(k)
+        teamMap[k].issuesOpened++
         if (i.assignee) {
-          ensure(i.assignee)
-          teamMap[i.assignee].issuesAssigned++
+          const a = identities.authorKey(i.assignee)
+          ensure(a)
+          teamMap[a].issuesAssigned++
         }
       }
       // Health status
       for (const h of live.contributorHealth) {
-        if (teamMap[h.author]) teamMap[h.author].status = h.status
+        const k = identities.authorKey(h.author)
+        if (teamMap[k]) teamMap[k].status = h.status
       }
       const teamStats = Object.values(teamMap).sort((a, b) => b.commits - a.commits)
 
@@ -303,6 +326,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
         })),
         alerts: alertsData ?? [],
         criticalFiles,
+        ownershipModel: fileOwnership.length > 0 ? ownershipModel : 'contributors',
         codebaseBusFactor,
         members: members ?? [],
         healthHistory: [],
@@ -329,11 +353,15 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
       })
     } catch (e) {
       console.error('Live GitHub fetch failed, falling back to DB:', e)
+      githubRateLimit = rateLimitErrorResponse(e)?.body.rate_limit ?? null
       // Fall through to DB-based dashboard below
     }
   }
 
-  // Fallback: read from Supabase tables (original behavior)
+  // Fallback: read from Supabase tables (original behavior), across every bound repo unless ?repo= narrows it
+  const repoMatch = repo ? { repo_owner: repo.repo_owner, repo_name: repo.repo_name } : {}
+  let alertsQuery = db.from('alerts').select('*').eq('workspace_id', workspaceId).eq('resolved', false).or(`snoozed_until.is.null,snoozed_until.lt.${new Date().toISOString()}`)
+  if (repoAlertFilter) alertsQuery = alertsQuery.or(repoAlertFilter)
 
   const [
     { count: totalCommits },
@@ -344,20 +372,20 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
     { data: issues },
     { data: alertsData },
     { data: members },
-    { data: fileAuthorship },
+    { rows: fileOwnership, model: ownershipModel },
     { data: cycleMetrics },
     { data: healthHistory },
     { data: messages },
   ] = await Promise.all([
-    db.from('commits').select('*', { count: 'exact', head: true }).eq('workspace_id', workspaceId),
-    db.from('pull_requests').select('*', { count: 'exact', head: true }).eq('workspace_id', workspaceId).eq('state', 'open'),
-    db.from('issues').select('*', { count: 'exact', head: true }).eq('workspace_id', workspaceId).eq('state', 'open'),
-    db.from('commits').select('author_github_username, committed_at, commit_type, lines_added, lines_deleted').eq('workspace_id', workspaceId).order('committed_at', { ascending: false }).limit(100),
-    db.from('pull_requests').select('id, github_pr_number, title, state, author_github_username, opened_at, merged_at, lines_added, lines_deleted').eq('workspace_id', workspaceId).order('opened_at', { ascending: false }).limit(20),
-    db.from('issues').select('github_issue_number, title, state, assignee_github_username, opened_at').eq('workspace_id', workspaceId).order('opened_at', { ascending: false }).limit(20),
-    db.from('alerts').select('*').eq('workspace_id', workspaceId).eq('resolved', false).order('created_at', { ascending: false }).limit(20),
+    db.from('commits').select('*', { count: 'exact', head: true }).eq('workspace_id', workspaceId).eq('is_unreachable', false).match(repoMatch),
+    db.from('pull_requests').select('*', { count: 'exact', head: true }).eq('workspace_id', workspaceId).eq('state', 'open').match(repoMatch),
+    db.from('issues').select('*', { count: 'exact', head: true }).eq('workspace_id', workspaceId).eq('state', 'open').match(repoMatch),
+    db.from('commits').select('author_github_username, committed_at, commit_type, lines_added, lines_deleted').eq('workspace_id', workspaceId).eq('is_unreachable', false).match(repoMatch).order('committed_at', { ascending: false }).limit(100),
+    db.from('pull_requests').select('id, github_pr_number, repo_name, title, state, author_github_username, opened_at, merged_at, lines_added, lines_deleted').eq('workspace_id', workspaceId).match(repoMatch).order('opened_at', { ascending: false }).limit(20),
+    db.from('issues').select('github_issue_number, repo_name, title, state, assignee_github_username, opened_at').eq('workspace_id', workspaceId).match(repoMatch).order('opened_at', { ascending: false }).limit(20),
+    alertsQuery.order('created_at', { ascending: false }).limit(20),
     db.from('workspace_members').select('role, user:users(id, name, avatar_url, github_username)').eq('workspace_id', workspaceId),
-    db.from('file_authorship').select('file_path, author_github_username, lines_added, lines_modified, commit_count').eq('workspace_id', workspaceId),
+    loadFileOwnership(db, workspaceId, repo),
     db.from('cycle_time_metrics').select('pull_request_id, coding_time_seconds, pickup_time_seconds, review_time_seconds, deployment_time_seconds, total_cycle_time_seconds, calculated_at').eq('workspace_id', workspaceId).order('calculated_at', { ascending: false }).limit(20),
     db.from('health_snapshots').select('score, snapshot_at').eq('workspace_id', workspaceId).order('snapshot_at', { ascending: false }).limit(30),
     db.from('discord_messages').select('id, channel_name, author_discord_id, author_username, content, sent_at, intent, entities').eq('workspace_id', workspaceId).order('sent_at', { ascending: false }).limit(50),
@@ -366,7 +394,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
   // Contributor activity
   const contributorMap: Record<string, { commits: number; linesAdded: number; linesDeleted: number; lastActive: string }> = {}
   for (const c of commits ?? []) {
-    const k = c.author_github_username ?? 'unknown'
+    const k = identities.authorKey(c.author_github_username ?? 'unknown')
     if (!contributorMap[k]) contributorMap[k] = { commits: 0, linesAdded: 0, linesDeleted: 0, lastActive: c.committed_at }
     contributorMap[k].commits++
     contributorMap[k].linesAdded += c.lines_added ?? 0
@@ -377,16 +405,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
     .sort((a, b) => b.commits - a.commits)
 
   // Bus factor per file
-  const fileMap: Record<string, Array<{ author_github_username: string; lines_added: number; lines_modified: number }>> = {}
-  for (const fa of fileAuthorship ?? []) {
-    if (!fileMap[fa.file_path]) fileMap[fa.file_path] = []
-    fileMap[fa.file_path].push(fa)
-  }
-  const criticalFiles = Object.entries(fileMap)
-    .map(([file, authors]) => {
-      const { busFactor, dominant_author, concentration } = calculateKnowledgeConcentration(authors)
-      return { file, busFactor, dominant_author, concentration, authorCount: authors.length }
-    })
+  const criticalFiles = fileBusFactors(fileOwnership)
     .filter((f) => f.concentration > 80)
     .sort((a, b) => b.concentration - a.concentration)
     .slice(0, 10)
@@ -408,8 +427,8 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
   const alertPenalty = Math.min(50, criticalAlerts * 15)
   const healthScore = Math.max(0, Math.round((commitScore + prScore + issueScore + busFactorScore) / 4 - alertPenalty))
 
-  // Save health snapshot
-  await db.from('health_snapshots').insert({
+  // Save health snapshot (the history tracks the whole workspace, not a single-repo view)
+  if (!repo) await db.from('health_snapshots').insert({
     workspace_id: workspaceId,
     score: healthScore,
     commit_score: commitScore,
@@ -462,7 +481,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
     }
   }
   for (const c of commits ?? []) {
-    const k = c.author_github_username ?? 'unknown'
+    const k = identities.authorKey(c.author_github_username ?? 'unknown')
     ensureDB(k)
     dbTeamMap[k].commits++
     dbTeamMap[k].linesAdded += c.lines_added ?? 0
@@ -471,7 +490,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
   }
   const dbPRDurations: Record<string, number[]> = {}
   for (const pr of prs ?? []) {
-    const k = pr.author_github_username ?? 'unknown'
+    const k = identities.authorKey(pr.author_github_username ?? 'unknown')
     ensureDB(k)
     dbTeamMap[k].prsOpened++
     dbTeamMap[k].prAdditions += pr.lines_added ?? 0
@@ -493,14 +512,16 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
   }
   for (const i of issues ?? []) {
     if (i.assignee_github_username) {
-      ensureDB(i.assignee_github_username)
-      dbTeamMap[i.assignee_github_username].issuesAssigned++
+      const k = identities.authorKey(i.assignee_github_username)
+      ensureDB(k)
+      dbTeamMap[k].issuesAssigned++
     }
   }
   // Resolve avatars from members
   for (const m of members ?? []) {
     const gu = (m.user as { github_username?: string })?.github_username
-    if (gu && dbTeamMap[gu]) dbTeamMap[gu].avatar_url = (m.user as { avatar_url?: string })?.avatar_url ?? null
+    const k = gu && identities.authorKey(gu)
+    if (k && dbTeamMap[k]) dbTeamMap[k].avatar_url = (m.user as { avatar_url?: string })?.avatar_url ?? null
   }
   // Activity status
   const nowDB = Date.now()
@@ -527,6 +548,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
     issues: issues ?? [],
     alerts: alertsData ?? [],
     criticalFiles,
+    ownershipModel,
     members: members ?? [],
     healthHistory: healthHistory ?? [],
     wipPerUser,
@@ -542,5 +564,6 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ work
       entities: m.entities,
     })),
     teamStats: dbTeamStats,
+    githubRateLimit,
   })
 }
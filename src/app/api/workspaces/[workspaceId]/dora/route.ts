@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { computeDoraMetrics } from '@/lib/dora'
+import { resolveRepoFilter } from '@/lib/repositories'
+
+// GET /api/workspaces/[workspaceId]/dora?days=30&repo=owner/name — DORA metrics per deployment environment
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { repo, error: repoError } = await resolveRepoFilter(db, workspaceId, req.nextUrl.searchParams.get('repo'))
+  if (repoError) return NextResponse.json({ error: repoError }, { status: 400 })
+
+  const days = Math.min(Math.max(Number(req.nextUrl.searchParams.get('days')) || 30, 1), 365)
+  const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString()
+
+  const { data: deployments } = await db
+    .from('deployments')
+    .select('repo_owner, repo_name, environment, state, finished_at, lead_time_seconds')
+    .eq('workspace_id', workspaceId)
+    .match(repo ? { repo_owner: repo.repo_owner, repo_name: repo.repo_name } : {})
+    .gt('finished_at', since)
+    .order('finished_at', { ascending: true })
+    .limit(5000)
+
+  return NextResponse.json({ days, environments: computeDoraMetrics(deployments ?? [], days) })
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { DEFAULT_ESCALATION_STEPS, getEscalationSteps, resolveEscalationSteps } from '@/lib/escalation'
+import { escalationPolicySchema, validateBody } from '@/lib/validation'
+
+// GET /api/workspaces/[workspaceId]/escalation-policy — ordered escalation steps for critical alerts
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const steps = await getEscalationSteps(db, workspaceId)
+  return NextResponse.json({ steps, defaults: DEFAULT_ESCALATION_STEPS })
+}
+
+// PUT /api/workspaces/[workspaceId]/escalation-policy — replace the policy (admin only)
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+
+  const { data: body, error: validationError } = await validateBody(req, escalationPolicySchema)
+  if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
+
+  const steps = resolveEscalationSteps(body!.steps)
+  const { error: upsertErr } = await db.from('escalation_policies').upsert({
+    workspace_id: workspaceId,
+    steps,
+    updated_by: user!.id,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'workspace_id' })
+
+  if (upsertErr) return NextResponse.json({ error: upsertErr.message }, { status: 500 })
+
+  return NextResponse.json({ steps })
+}
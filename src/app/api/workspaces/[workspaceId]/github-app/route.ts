@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { signJWT } from '@/lib/jwt'
+import { appInstallUrl, INSTALLATION_COLUMNS, isGitHubAppConfigured } from '@/lib/github-app'
+
+// GET /api/workspaces/[workspaceId]/github-app — Whether the GitHub App is set up, and the workspace's installation
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> },
+) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .single()
+
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { data: workspace } = await db.from('workspaces').select('github_installation_id').eq('id', workspaceId).single()
+  const { data: installation } = workspace?.github_installation_id
+    ? await db.from('github_installations').select(INSTALLATION_COLUMNS).eq('installation_id', workspace.github_installation_id).maybeSingle()
+    : { data: null }
+
+  return NextResponse.json({
+    configured: isGitHubAppConfigured(),
+    installable: isGitHubAppConfigured() && !!process.env.GITHUB_APP_SLUG,
+    installation,
+  })
+}
+
+// POST /api/workspaces/[workspaceId]/github-app — Install URL for the GitHub App (admin); the setup callback
+// links the new installation to this workspace
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> },
+) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .single()
+
+  if (!member || member.role !== 'admin') {
+    return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+  }
+
+  if (!isGitHubAppConfigured()) {
+    return NextResponse.json({ error: 'GitHub App is not configured on this server' }, { status: 400 })
+  }
+  const state = await signJWT({ purpose: 'github_app_install', workspace_id: workspaceId, user_id: user!.id }, '1h')
+  const url = appInstallUrl(state)
+  if (!url) return NextResponse.json({ error: 'GITHUB_APP_SLUG is not set' }, { status: 400 })
+  return NextResponse.json({ url })
+}
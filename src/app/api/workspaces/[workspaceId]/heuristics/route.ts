@@ -1,8 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
-import { runHeuristicDetection } from '@/lib/heuristics'
+import { getHeuristicRule, runRecordedHeuristicDetection } from '@/lib/heuristics'
+import { runHeuristicsSchema, validateBody } from '@/lib/validation'
 
+// GET /api/workspaces/[workspaceId]/heuristics — recent heuristic run history
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const limit = Math.min(Number(req.nextUrl.searchParams.get('limit') ?? 20) || 20, 100)
+  const { data: runs } = await db
+    .from('heuristic_runs')
+    .select('id, trigger, rule_id, started_at, finished_at, duration_ms, alerts_generated, error')
+    .eq('workspace_id', workspaceId)
+    .order('started_at', { ascending: false })
+    .limit(limit)
+
+  return NextResponse.json({ runs: runs ?? [] })
+}
+
+// POST /api/workspaces/[workspaceId]/heuristics — run all enabled rules, or a single rule via { rule_id }
 export async function POST(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
   const { workspaceId } = await params
   const { user, error } = await requireAuth(req)
@@ -12,6 +35,16 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ wor
   const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
   if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
 
-  const alerts = await runHeuristicDetection(workspaceId)
-  return NextResponse.json({ alerts_generated: alerts.length, alerts })
+  // The body is optional: the dashboard's "Run checks now" button posts without one
+  let ruleId: string | undefined
+  if (req.headers.get('content-type')?.includes('application/json')) {
+    const { data: body, error: validationError } = await validateBody(req, runHeuristicsSchema)
+    if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
+    ruleId = body!.rule_id
+  }
+  if (ruleId && !getHeuristicRule(ruleId)) return NextResponse.json({ error: `Unknown rule: ${ruleId}` }, { status: 404 })
+
+  const { runId, alerts, error: runError } = await runRecordedHeuristicDetection(workspaceId, 'manual', { ruleId })
+  if (runError) return NextResponse.json({ error: runError, run_id: runId }, { status: 500 })
+  return NextResponse.json({ alerts_generated: alerts.length, alerts, run_id: runId })
 }
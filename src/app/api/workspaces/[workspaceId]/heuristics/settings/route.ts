@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { DEFAULT_HEURISTIC_SETTINGS, getHeuristicRule, getHeuristicSettings, getRuleOverrides, listHeuristicRules } from '@/lib/heuristics'
+import { heuristicSettingsSchema, validateBody } from '@/lib/validation'
+
+// GET /api/workspaces/[workspaceId]/heuristics/settings — effective thresholds and rules for this workspace
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const settings = await getHeuristicSettings(db, workspaceId)
+  const rules = listHeuristicRules(await getRuleOverrides(db, workspaceId))
+  return NextResponse.json({ settings, defaults: DEFAULT_HEURISTIC_SETTINGS, rules })
+}
+
+// PATCH /api/workspaces/[workspaceId]/heuristics/settings — update thresholds and rule overrides (admin only)
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+
+  const { data: body, error: validationError } = await validateBody(req, heuristicSettingsSchema)
+  if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
+
+  const { rule_overrides: overrideUpdates, ...thresholds } = body!
+  const unknownRule = Object.keys(overrideUpdates ?? {}).find((ruleId) => !getHeuristicRule(ruleId))
+  if (unknownRule) return NextResponse.json({ error: `Unknown rule: ${unknownRule}` }, { status: 400 })
+
+  const current = await getHeuristicSettings(db, workspaceId)
+  const ruleOverrides = await getRuleOverrides(db, workspaceId)
+  for (const [ruleId, override] of Object.entries(overrideUpdates ?? {})) {
+    ruleOverrides[ruleId] = { ...ruleOverrides[ruleId], ...override }
+  }
+
+  const { error: upsertErr } = await db.from('heuristic_settings').upsert({
+    workspace_id: workspaceId,
+    ...current,
+    ...thresholds,
+    rule_overrides: ruleOverrides,
+    updated_by: user!.id,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'workspace_id' })
+
+  if (upsertErr) return NextResponse.json({ error: upsertErr.message }, { status: 500 })
+
+  const settings = await getHeuristicSettings(db, workspaceId)
+  return NextResponse.json({ settings, rules: listHeuristicRules(ruleOverrides) })
+}
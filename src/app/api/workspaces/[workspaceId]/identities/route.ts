@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import {
+  createIdentityResolver,
+  IDENTITY_KINDS,
+  loadMemberAccounts,
+  loadWorkspacePeople,
+  normalizeIdentity,
+  observedIdentities,
+  planIdentityMerge,
+  suggestIdentityMerges,
+  type Identity,
+  type IdentityKind,
+} from '@/lib/identities'
+import { mergeIdentitiesSchema, validateBody } from '@/lib/validation'
+
+// Recent authors are enough to find the identities worth merging
+const OBSERVED_LIMIT = 2000
+
+// GET /api/workspaces/[workspaceId]/identities — registered people with their identities, and suggested merges
+// from commit authors, chat authors and member accounts
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const [people, members, { data: commits }, { data: discordMessages }, { data: whatsappMessages }] = await Promise.all([
+    loadWorkspacePeople(db, workspaceId),
+    loadMemberAccounts(db, workspaceId),
+    db.from('commits').select('author_github_username, author_email, author_name')
+      .eq('workspace_id', workspaceId).order('committed_at', { ascending: false }).limit(OBSERVED_LIMIT),
+    db.from('discord_messages').select('author_discord_id, author_username')
+      .eq('workspace_id', workspaceId).neq('author_discord_id', 'app').order('sent_at', { ascending: false }).limit(OBSERVED_LIMIT),
+    db.from('communication_messages').select('author_identifier, author_name')
+      .eq('workspace_id', workspaceId).eq('source', 'whatsapp').order('sent_at', { ascending: false }).limit(OBSERVED_LIMIT),
+  ])
+
+  const resolver = createIdentityResolver(people, members)
+  const observed = observedIdentities({ commits: commits ?? [], discordMessages: discordMessages ?? [], whatsappMessages: whatsappMessages ?? [], members })
+  return NextResponse.json({ people, suggestions: suggestIdentityMerges(observed, resolver) })
+}
+
+// POST /api/workspaces/[workspaceId]/identities — register identities as one person (admin). Identities already
+// belonging to other people merge those people into the kept one
+export async function POST(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+
+  const { data: body, error: validationError } = await validateBody(req, mergeIdentitiesSchema)
+  if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
+
+  const identities: Identity[] = []
+  for (const { kind, value } of body!.identities) {
+    const normalized = normalizeIdentity(kind, value)
+    if (!normalized) return NextResponse.json({ error: `Not a valid ${kind} identity: ${value}` }, { status: 400 })
+    identities.push({ kind, value: normalized })
+  }
+
+  const { data: existing } = await db.from('person_identities').select('person_id, kind, value').eq('workspace_id', workspaceId)
+  if (body!.person_id) {
+    const { data: person } = await db.from('workspace_people').select('id').eq('id', body!.person_id).eq('workspace_id', workspaceId).single()
+    if (!person) return NextResponse.json({ error: 'Person not found' }, { status: 404 })
+  }
+  const plan = planIdentityMerge((existing ?? []) as Array<Identity & { person_id: string }>, identities, body!.person_id)
+
+  let personId = plan.targetId
+  if (!personId) {
+    const github = identities.find((i) => i.kind === 'github')
+    const { data: created, error: createErr } = await db.from('workspace_people').insert({
+      workspace_id: workspaceId,
+      display_name: body!.display_name ?? github?.value ?? identities[0].value,
+      created_by: user!.id,
+    }).select('id').single()
+    if (createErr || !created) return NextResponse.json({ error: createErr?.message ?? 'Failed to create person' }, { status: 500 })
+    personId = created.id as string
+  } else if (body!.display_name) {
+    await db.from('workspace_people').update({ display_name: body!.display_name }).eq('id', personId)
+  }
+
+  if (plan.mergedPeople.length > 0) {
+    await db.from('person_identities').update({ person_id: personId }).in('person_id', plan.mergedPeople)
+    await db.from('workspace_people').delete().in('id', plan.mergedPeople)
+  }
+  if (plan.insert.length > 0) {
+    const { error: insertErr } = await db.from('person_identities').insert(
+      plan.insert.map((i) => ({ workspace_id: workspaceId, person_id: personId, kind: i.kind, value: i.value })),
+    )
+    if (insertErr) return NextResponse.json({ error: insertErr.message }, { status: 500 })
+  }
+
+  const person = (await loadWorkspacePeople(db, workspaceId)).find((p) => p.id === personId)
+  return NextResponse.json({ person, merged: plan.mergedPeople.length })
+}
+
+// DELETE /api/workspaces/[workspaceId]/identities?person=ID[&kind=email&value=a@b.c] — split a person back into
+// separate identities, or detach one identity from them (admin)
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+
+  const search = req.nextUrl.searchParams
+  const personId = search.get('person')
+  if (!personId) return NextResponse.json({ error: 'person is required' }, { status: 400 })
+  const kind = search.get('kind')
+
+  if (kind) {
+    const value = IDENTITY_KINDS.includes(kind as IdentityKind) ? normalizeIdentity(kind as IdentityKind, search.get('value')) : null
+    if (!value) return NextResponse.json({ error: 'kind and value must name a valid identity' }, { status: 400 })
+    await db.from('person_identities').delete().eq('workspace_id', workspaceId).eq('person_id', personId).eq('kind', kind).eq('value', value)
+    return NextResponse.json({ ok: true })
+  }
+
+  // Identities go with the person (ON DELETE CASCADE)
+  await db.from('workspace_people').delete().eq('id', personId).eq('workspace_id', workspaceId)
+  return NextResponse.json({ ok: true })
+}
@@ -3,6 +3,7 @@ import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
 import { detectIntent, extractEntities } from '@/lib/nlp'
 import { classifyMessageIntent } from '@/lib/gemini'
+import { loadIdentityResolver, messageAuthor } from '@/lib/identities'
 
 // We use the existing discord_messages table for all messages.
 // In-app messages use author_discord_id = 'app' to distinguish from Discord messages.
@@ -110,6 +111,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ wor
       channel_name: 'general',
       author_discord_id: 'app',
       author_username: user!.name ?? user!.email ?? 'Unknown',
+      user_id: user!.id,
       content: trimmed,
       intent,
       entities: { ...entities, aiSummary },
@@ -126,13 +128,14 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ wor
 
   // Auto-create blocker alert if NLP detects blocker
   if (entities.isBlocker) {
+    const author = messageAuthor(await loadIdentityResolver(db, workspaceId), { user_id: user!.id, name: user!.name ?? 'team member' })
     await db.from('alerts').insert({
       workspace_id: workspaceId,
       type: 'blocker',
       severity: 'warning',
-      title: `Blocker reported by ${user!.name ?? 'team member'}`,
+      title: `Blocker reported by ${author.name}`,
       description: trimmed.slice(0, 200),
-      metadata: { author: user!.name, source: 'app', entities },
+      metadata: { author: author.key, person_id: author.person?.id ?? null, source: 'app', entities },
     }).then(({ error: alertErr }) => {
       if (alertErr) console.error('[messages POST] alert insert error:', alertErr.message)
     })
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { markNotificationsReadSchema, validateBody } from '@/lib/validation'
+
+// GET /api/workspaces/[workspaceId]/notifications — the caller's latest notifications in this workspace
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { data: notifications } = await db
+    .from('notifications')
+    .select('id, alert_id, title, body, read_at, created_at')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .order('created_at', { ascending: false })
+    .limit(30)
+
+  const unread = (notifications ?? []).filter((n) => !n.read_at).length
+  return NextResponse.json({ notifications: notifications ?? [], unread })
+}
+
+// PATCH /api/workspaces/[workspaceId]/notifications — mark the given (or all) notifications read
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: body, error: validationError } = await validateBody(req, markNotificationsReadSchema)
+  if (validationError) return NextResponse.json({ error: validationError }, { status: 400 })
+
+  let query = db
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .is('read_at', null)
+  if (body!.notification_ids) query = query.in('id', body!.notification_ids)
+
+  const { error: updateErr } = await query
+  if (updateErr) return NextResponse.json({ error: updateErr.message }, { status: 500 })
+
+  return NextResponse.json({ success: true })
+}
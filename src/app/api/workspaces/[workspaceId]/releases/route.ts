@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+
+// GET /api/workspaces/[workspaceId]/releases?limit=50 — releases and tags, newest first, for the releases timeline
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const limit = Math.min(Math.max(Number(req.nextUrl.searchParams.get('limit')) || 50, 1), 200)
+
+  const { data: rows } = await db
+    .from('releases')
+    .select('id, repo_owner, repo_name, tag_name, kind, name, is_draft, is_prerelease, author_github_username, target_commitish, url, published_at, created_at')
+    .eq('workspace_id', workspaceId)
+    .is('deleted_at', null)
+    .eq('is_draft', false)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  // A release is placed on the timeline when it was published, a bare tag when it was pushed
+  const releases = (rows ?? [])
+    .map((r) => ({ ...r, released_at: (r.published_at as string | null) ?? (r.created_at as string) }))
+    .sort((a, b) => b.released_at.localeCompare(a.released_at))
+
+  return NextResponse.json({ releases })
+}
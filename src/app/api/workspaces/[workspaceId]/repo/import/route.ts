@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { enqueueJob, runJob } from '@/lib/job-queue'
+import { createRepoImport, failRepoImport, importProgress, REPO_IMPORT_COLUMNS, type RepoImport } from '@/lib/history-import'
+import { parseRepoParam, repoFullName } from '@/lib/repositories'
+
+// Covers the first import slice, which starts after the response
+export const maxDuration = 300
+
+function importResponse(row: RepoImport) {
+  return {
+    id: row.id,
+    repo: repoFullName(row),
+    status: row.status,
+    phase: row.phase,
+    progress: importProgress(row),
+    rate_limited_until: row.rate_limited_until,
+    last_error: row.last_error,
+    started_at: row.started_at,
+    finished_at: row.finished_at,
+  }
+}
+
+// GET /api/workspaces/[workspaceId]/repo/import — Latest full-history import per bound repository, with progress
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> },
+) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .single()
+
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const { data } = await db
+    .from('repo_imports')
+    .select(REPO_IMPORT_COLUMNS)
+    .eq('workspace_id', workspaceId)
+    .order('started_at', { ascending: false })
+    .limit(100)
+
+  // Newest first, so the first row seen per repository is its latest import
+  const latest = new Map<string, RepoImport>()
+  for (const row of (data ?? []) as unknown as RepoImport[]) {
+    if (!latest.has(repoFullName(row))) latest.set(repoFullName(row), row)
+  }
+
+  return NextResponse.json({ imports: [...latest.values()].map(importResponse) })
+}
+
+// POST /api/workspaces/[workspaceId]/repo/import?repo=owner/name — Start a resumable full-history import (admin)
+// An import already in progress for the repository is returned instead of starting a second one
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> },
+) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .single()
+
+  if (!member || member.role !== 'admin') {
+    return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+  }
+
+  const ref = parseRepoParam(req.nextUrl.searchParams.get('repo'))
+  if (!ref) return NextResponse.json({ error: 'repo must be owner/name' }, { status: 400 })
+
+  const { data: bound } = await db
+    .from('workspace_repositories')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .eq('repo_owner', ref.owner)
+    .eq('repo_name', ref.name)
+    .maybeSingle()
+  if (!bound) return NextResponse.json({ error: 'Repository not bound' }, { status: 404 })
+
+  const { repoImport, created, error: createError } = await createRepoImport(db, workspaceId, ref.owner, ref.name)
+  if (!repoImport) return NextResponse.json({ error: createError ?? 'Failed to start import' }, { status: 500 })
+  if (!created) return NextResponse.json({ import: importResponse(repoImport), created: false })
+
+  const { job, error: queueError } = await enqueueJob(db, workspaceId, 'repo_import', { import_id: repoImport.id })
+  if (!job) {
+    // Don't leave an import that no job will ever run blocking the next attempt
+    await failRepoImport(db, repoImport.id, queueError ?? 'Failed to queue import')
+    return NextResponse.json({ error: queueError ?? 'Failed to queue import' }, { status: 500 })
+  }
+
+  // Run the first slice once the response is sent; later slices are picked up by the /api/cron/jobs worker
+  after(() => runJob(db, job).catch(console.error))
+
+  return NextResponse.json({ import: importResponse(repoImport), created: true, job_id: job.id }, { status: 202 })
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { runRecordedHeuristicDetection } from '@/lib/heuristics'
+import { parseRepoParam } from '@/lib/repositories'
+import { resyncChangedData, resyncWorkspace } from '@/lib/resync'
+
+export const maxDuration = 300
+
+// POST /api/workspaces/[workspaceId]/repo/resync?repo=owner/name — Fetch what changed on GitHub since the last sync
+// and reconcile it (admin). Without ?repo every bound repository is resynced.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> },
+) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', user!.id)
+    .single()
+
+  if (!member || member.role !== 'admin') {
+    return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+  }
+
+  const repoParam = req.nextUrl.searchParams.get('repo')
+  if (repoParam && !parseRepoParam(repoParam)) {
+    return NextResponse.json({ error: 'repo must be owner/name' }, { status: 400 })
+  }
+
+  // A GitHub App installation token is used where one covers the repository; otherwise prefer the
+  // signed-in user's GitHub token, with the one stored at bind time as the fallback
+  const { results, error: resyncError } = await resyncWorkspace(db, workspaceId, {
+    token: req.cookies.get('github_token')?.value,
+    repo: repoParam,
+  })
+  if (resyncError) return NextResponse.json({ error: resyncError }, { status: 400 })
+  if (repoParam && results.length === 0) return NextResponse.json({ error: 'Repository not bound' }, { status: 404 })
+
+  if (resyncChangedData(results)) runRecordedHeuristicDetection(workspaceId, 'manual').catch(console.error)
+
+  return NextResponse.json({ results })
+}
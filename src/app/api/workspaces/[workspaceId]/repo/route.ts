@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth-middleware'
 import { createServiceClient } from '@/lib/supabase'
-import { bindRepository, verifyRepoAccess } from '@/lib/github-api'
+import { bindRepository, rateLimitErrorResponse, verifyRepoAccess } from '@/lib/github-api'
+import { findRepoInstallation } from '@/lib/github-app'
+import { listWorkspaceRepositories, parseRepoParam, repoFullName, syncPrimaryRepository } from '@/lib/repositories'
 import { validateBody } from '@/lib/validation'
 import { z } from 'zod'
 
@@ -11,7 +13,7 @@ const bindRepoSchema = z.object({
 })
 
 // AR-VCS-015/016/017/018/019/020/021/022/023/024/025:
-// POST /api/workspaces/[workspaceId]/repo — Bind a GitHub repo to this workspace
+// POST /api/workspaces/[workspaceId]/repo — Bind a GitHub repo to this workspace (in addition to any already bound)
 export async function POST(
   req: NextRequest,
   { params }: { params: Promise<{ workspaceId: string }> },
@@ -48,12 +50,15 @@ export async function POST(
   const appUrl = process.env.NEXT_PUBLIC_APP_URL!
 
   try {
+    // With the GitHub App installed on the repository's account, sync runs on installation tokens
+    const installation = await findRepoInstallation(db, body!.owner, body!.repo)
     const result = await bindRepository(
       githubToken,
       workspaceId,
       body!.owner,
       body!.repo,
       appUrl,
+      installation,
     )
 
     if (!result.success) {
@@ -64,14 +69,17 @@ export async function POST(
       message: 'Repository bound successfully',
       webhookId: result.webhookId,
       sync: result.syncSummary,
+      installationId: installation?.id ?? null,
     })
   } catch (e) {
     console.error('Repo binding error:', e)
+    const limited = rateLimitErrorResponse(e)
+    if (limited) return NextResponse.json(limited.body, limited.init)
     return NextResponse.json({ error: 'Failed to bind repository' }, { status: 500 })
   }
 }
 
-// GET /api/workspaces/[workspaceId]/repo — Get current repo binding info
+// GET /api/workspaces/[workspaceId]/repo — Get current repo bindings (`repo` is the primary, `repositories` lists all)
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ workspaceId: string }> },
@@ -99,6 +107,7 @@ export async function GET(
   if (!workspace) return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
 
   const isBound = !!workspace.github_repo_owner && !!workspace.github_repo_name
+  const repositories = await listWorkspaceRepositories(db, workspaceId)
 
   return NextResponse.json({
     bound: isBound,
@@ -111,12 +120,24 @@ export async function GET(
       private: workspace.github_repo_private,
       webhook_active: !!workspace.github_webhook_id,
     } : null,
+    repositories: repositories.map((r) => ({
+      owner: r.repo_owner,
+      name: r.repo_name,
+      full_name: repoFullName(r),
+      url: r.repo_url,
+      default_branch: r.default_branch,
+      private: r.is_private,
+      webhook_active: !!r.webhook_id,
+      installation_id: r.installation_id,
+      last_resync_at: r.last_resync_at,
+      last_resync_summary: r.last_resync_summary,
+    })),
     collaborators: workspace.collaborators ?? [],
     collaborators_updated_at: workspace.collaborators_updated_at,
   })
 }
 
-// DELETE /api/workspaces/[workspaceId]/repo — Unbind the repo
+// DELETE /api/workspaces/[workspaceId]/repo?repo=owner/name — Unbind one repo, or every repo without ?repo
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ workspaceId: string }> },
@@ -137,6 +158,20 @@ export async function DELETE(
     return NextResponse.json({ error: 'Admin only' }, { status: 403 })
   }
 
+  const repoParam = req.nextUrl.searchParams.get('repo')
+  if (repoParam) {
+    const ref = parseRepoParam(repoParam)
+    if (!ref) return NextResponse.json({ error: 'repo must be owner/name' }, { status: 400 })
+    const { data: removed } = await db.from('workspace_repositories').delete()
+      .eq('workspace_id', workspaceId).eq('repo_owner', ref.owner).eq('repo_name', ref.name)
+      .select('id')
+    if (!removed || removed.length === 0) return NextResponse.json({ error: 'Repository not bound' }, { status: 404 })
+    // The next oldest repository becomes the primary one
+    await syncPrimaryRepository(db, workspaceId)
+    return NextResponse.json({ message: 'Repository unbound' })
+  }
+
+  await db.from('workspace_repositories').delete().eq('workspace_id', workspaceId)
   await db.from('workspaces').update({
     github_repo_url: null,
     github_repo_owner: null,
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { fetchPullRequestFiles } from '@/lib/github-api'
+import { resolveGitHubToken } from '@/lib/github-app'
+import { getReviewerStats, requestedReviewers, suggestReviewers } from '@/lib/reviews'
+
+// GET /api/workspaces/[workspaceId]/reviewer-suggestions?pr=42 — ranked reviewers for open PRs (or one PR)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member) return NextResponse.json({ error: 'Not a member' }, { status: 403 })
+
+  const prParam = req.nextUrl.searchParams.get('pr')
+  let query = db
+    .from('pull_requests')
+    .select('github_pr_number, author_github_username, head_branch, repo_owner, repo_name, raw_payload')
+    .eq('workspace_id', workspaceId)
+    .eq('state', 'open')
+    .order('opened_at', { ascending: false })
+    .limit(30)
+  if (prParam) query = query.eq('github_pr_number', Number(prParam))
+  const { data: prs } = await query
+  if (prParam && (!prs || prs.length === 0)) return NextResponse.json({ error: 'Open pull request not found' }, { status: 404 })
+  if (!prs || prs.length === 0) return NextResponse.json({ suggestions: [] })
+
+  const headBranches = [...new Set(prs.map((pr) => pr.head_branch as string).filter(Boolean))]
+  const [{ data: branchCommits }, { data: authorship }, reviewerStats] = await Promise.all([
+    headBranches.length > 0
+      ? db.from('commits').select('repo_owner, repo_name, branch, files_list').eq('workspace_id', workspaceId).in('branch', headBranches).eq('is_unreachable', false).limit(5000)
+      : Promise.resolve({ data: [] as Array<{ repo_owner: string; repo_name: string; branch: string; files_list: string[] | null }> }),
+    db.from('file_authorship').select('repo_owner, repo_name, file_path, author_github_username, lines_added, lines_modified').eq('workspace_id', workspaceId),
+    getReviewerStats(db, workspaceId),
+  ])
+
+  const filesByBranch = new Map<string, Set<string>>()
+  // Keyed by repository too: two repos can both have a `fix/login` branch
+  for (const c of branchCommits ?? []) {
+    const key = `${c.repo_owner}/${c.repo_name}:${c.branch}`
+    if (!filesByBranch.has(key)) filesByBranch.set(key, new Set())
+    for (const file of c.files_list ?? []) filesByBranch.get(key)!.add(file)
+  }
+
+  const suggestions = []
+  for (const pr of prs) {
+    let changedFiles = [...(filesByBranch.get(`${pr.repo_owner}/${pr.repo_name}:${pr.head_branch}`) ?? [])]
+    // Branches from forks have no pushed commits here; ask GitHub for the PR's files instead
+    if (changedFiles.length === 0 && pr.repo_owner && pr.repo_name) {
+      const resolved = await resolveGitHubToken(db, workspaceId, { owner: pr.repo_owner, name: pr.repo_name })
+      if (resolved) {
+        changedFiles = await fetchPullRequestFiles(resolved.token, pr.repo_owner, pr.repo_name, pr.github_pr_number).catch(() => [])
+      }
+    }
+    suggestions.push({
+      pr_number: pr.github_pr_number,
+      files: changedFiles.length,
+      reviewers: suggestReviewers({
+        changedFiles,
+        // Ownership only counts within the PR's repository
+        authorship: (authorship ?? []).filter((a) => a.repo_owner === pr.repo_owner && a.repo_name === pr.repo_name),
+        reviewerStats,
+        prAuthor: pr.author_github_username,
+        requested: requestedReviewers(pr.raw_payload),
+      }),
+    })
+  }
+
+  return NextResponse.json({ suggestions })
+}
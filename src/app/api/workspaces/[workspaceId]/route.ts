@@ -81,13 +81,30 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ w
   const tables = [
     'health_snapshots',
     'cycle_time_metrics',
+    'deployments',
+    'notifications',
+    'alert_comments',
     'alerts',
+    'heuristic_settings',
+    'heuristic_runs',
+    'escalation_policies',
+    'jobs',
+    'repo_imports',
+    'webhook_deliveries',
+    'blame_ownership',
     'file_authorship',
+    'module_imports',
+    'person_identities',
+    'workspace_people',
     'discord_messages',
     'commits',
+    'pr_review_comments',
+    'pr_reviews',
     'pull_requests',
     'issues',
+    'releases',
     'branches',
+    'workspace_repositories',
     'workspace_invitations',
     'workspace_members',
   ]
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+import { runRecordedHeuristicDetection } from '@/lib/heuristics'
+import { isDeliveryInFlight, processDelivery, WEBHOOK_DELIVERY_COLUMNS, type WebhookDelivery } from '@/lib/github-webhook'
+
+type Params = { params: Promise<{ workspaceId: string; deliveryId: string }> }
+
+// POST /api/workspaces/[workspaceId]/webhook-deliveries/[deliveryId]/replay - re-run a stored delivery (admin)
+export async function POST(req: NextRequest, { params }: Params) {
+  const { workspaceId, deliveryId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+
+  const { data: delivery } = await db
+    .from('webhook_deliveries')
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .eq('workspace_id', workspaceId)
+    .eq('id', deliveryId)
+    .maybeSingle()
+  if (!delivery) return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+  // A delivery left in 'processing' by a crashed or timed-out run can be replayed once the lock is stale
+  if (isDeliveryInFlight(delivery as WebhookDelivery)) return NextResponse.json({ error: 'Delivery is being processed' }, { status: 409 })
+
+  const result = await processDelivery(db, delivery as WebhookDelivery)
+  if (result.ok) runRecordedHeuristicDetection(workspaceId, 'webhook').catch(console.error)
+
+  return NextResponse.json({ ok: result.ok, error: result.error, elapsed_ms: result.elapsed_ms }, { status: result.ok ? 200 : 500 })
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth-middleware'
+import { createServiceClient } from '@/lib/supabase'
+
+const STATUSES = ['received', 'processing', 'processed', 'failed']
+
+// GET /api/workspaces/[workspaceId]/webhook-deliveries?status=failed&limit=50 — GitHub webhook delivery log (admin)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ workspaceId: string }> }) {
+  const { workspaceId } = await params
+  const { user, error } = await requireAuth(req)
+  if (error) return error
+
+  const db = createServiceClient()
+  const { data: member } = await db.from('workspace_members').select('role').eq('workspace_id', workspaceId).eq('user_id', user!.id).single()
+  if (!member || member.role !== 'admin') return NextResponse.json({ error: 'Admin only' }, { status: 403 })
+
+  const status = req.nextUrl.searchParams.get('status')
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ error: `status must be one of: ${STATUSES.join(', ')}` }, { status: 400 })
+  }
+  const limit = Math.min(Math.max(Number(req.nextUrl.searchParams.get('limit')) || 50, 1), 200)
+
+  let query = db
+    .from('webhook_deliveries')
+    .select('id, delivery_id, event, action, status, error, attempts, elapsed_ms, received_at, processed_at')
+    .eq('workspace_id', workspaceId)
+    .order('received_at', { ascending: false })
+    .limit(limit)
+  if (status) query = query.eq('status', status)
+
+  const { data: deliveries, error: fetchErr } = await query
+  if (fetchErr) return NextResponse.json({ error: fetchErr.message }, { status: 500 })
+
+  return NextResponse.json({ deliveries: deliveries ?? [] })
+}
@@ -47,6 +47,17 @@ export async function POST(req: NextRequest) {
 
   if (wErr) return NextResponse.json({ error: wErr.message }, { status: 500 })
 
+  // A repository entered at creation is the workspace's first (manually configured) repository
+  if (github_repo_owner && github_repo_name) {
+    await db.from('workspace_repositories').insert({
+      workspace_id: workspace.id,
+      repo_owner: github_repo_owner,
+      repo_name: github_repo_name,
+      repo_url: github_repo_url || null,
+      webhook_secret: webhookSecret,
+    })
+  }
+
   // Add creator as admin
   await db.from('workspace_members').insert({
     workspace_id: workspace.id,
@@ -1,6 +1,6 @@
 'use client'
 
-import { use, useEffect, useState, useRef } from 'react'
+import { use, useCallback, useEffect, useState, useRef } from 'react'
 import { useAuth } from '@/hooks/useAuth'
 import { useDashboard } from '@/hooks/useDashboard'
 import { useRouter } from 'next/navigation'
@@ -10,7 +10,8 @@ import {
   Shield, RefreshCw, Bell, GitBranch, ChevronRight, Copy, X,
   CheckCircle, AlertCircle, Info, Zap, BarChart2, BookOpen, MessageSquare,
   ChevronLeft, Search, Hash, Github, LogOut, Send, Trash2, UserMinus,
-  Pencil, Mail, Calendar, Save, KeyRound, Brain, ListTodo, Target, Plus, CircleDot, Flame, Sparkles, Loader2
+  Pencil, Mail, Calendar, Save, KeyRound, Brain, ListTodo, Target, Plus, CircleDot, Flame, Sparkles, Loader2,
+  BellOff, Eye, UserPlus, Tag, History
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
@@ -31,17 +32,92 @@ import {
 import { Line as ChartLine, Bar as ChartBar } from 'react-chartjs-2'
 import { formatDistanceToNow } from 'date-fns'
 import { supabase } from '@/lib/supabase'
+import { squarify } from '@/lib/treemap'
 
 ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Filler, ChartTooltip, Legend)
 
 type Tab = 'overview' | 'commits' | 'prs' | 'issues' | 'alerts' | 'bus-factor' | 'team' | 'messages' | 'insights' | 'settings'
 
+type CycleTimePercentiles = { p50: number; p75: number; p90: number; p95: number } | null
+
+type ImportCount = { imported: number; total: number | null; percent: number | null }
+type GitHubAppState = {
+  configured: boolean
+  installable: boolean
+  installation: { installation_id: number; account_login: string; account_type: string | null; suspended_at: string | null } | null
+}
+
+type RepoImportState = {
+  id: string; repo: string; status: 'queued' | 'running' | 'waiting' | 'completed' | 'failed'; phase: 'commits' | 'pull_requests' | 'issues' | 'done'
+  progress: { commits: ImportCount; pullRequests: ImportCount; issues: ImportCount }
+  rate_limited_until: string | null; last_error: string | null; started_at: string; finished_at: string | null
+}
+
+type OwnershipTreeNode = {
+  path: string; name: string; type: 'repository' | 'directory' | 'file'; files: number; weight: number
+  busFactor: number; dominant_author: string | null; concentration: number; authorCount: number; criticalFiles: number
+  children: OwnershipTreeNode[]
+}
+
+type DepartureSimulation = {
+  departing: string[]; threshold: number; busFactorBefore: number; busFactorAfter: number
+  files: number; affectedFiles: number; orphanedFileCount: number; orphanedDirectoryCount: number; affectedLines: number; orphanedLines: number
+  orphanedFiles: Array<{ repo: string | null; file: string; lines: number; departingShare: number; remainingAuthor: string | null; remainingShare: number }>
+  orphanedDirectories: Array<{ path: string; files: number; orphanedFiles: number; lines: number; remainingAuthor: string | null; remainingShare: number }>
+}
+
+type CodeownersReport = {
+  repo: string; path: string | null; syncedAt: string | null; ruleCount: number
+  errors: Array<{ line: number; text: string; reason: string }>
+  drift: {
+    files: number; ownedFiles: number
+    staleRules: Array<{ pattern: string; line: number; owners: string[]; files: number; untouchedOwners: string[]; unverifiableOwners: string[]; topAuthors: Array<{ author: string; share: number }> }>
+    unownedHotspots: Array<{ file: string; commits: number; authorCount: number; topAuthor: string | null }>
+  }
+}
+
+type IdentityKind = 'github' | 'email' | 'discord' | 'phone'
+type IdentityRegistry = {
+  people: Array<{ id: string; display_name: string; identities: Array<{ kind: IdentityKind; value: string }> }>
+  suggestions: Array<{ identities: Array<{ kind: IdentityKind; value: string; name: string | null; person_id: string | null }>; reasons: string[]; display_name: string }>
+}
+
+type ResyncCounts = { added: number; updated: number; unchanged: number }
+type RepoResyncSummary = { repo: string; commits: ResyncCounts; pullRequests: ResyncCounts; issues: ResyncCounts; truncated?: string[]; error: string | null }
+
+// e.g. "2 commits added, 1 PR updated" — or "Up to date"
+function describeResync(summary: RepoResyncSummary) {
+  if (summary.error) return `Failed: ${summary.error}`
+  const parts: string[] = []
+  for (const [counts, noun] of [[summary.commits, 'commit'], [summary.pullRequests, 'PR'], [summary.issues, 'issue']] as const) {
+    if (counts.added) parts.push(`${counts.added} ${noun}${counts.added !== 1 ? 's' : ''} added`)
+    if (counts.updated) parts.push(`${counts.updated} ${noun}${counts.updated !== 1 ? 's' : ''} updated`)
+  }
+  // Stored before resyncs recorded truncation, summaries have no `truncated`
+  if (summary.truncated?.length) parts.push('more changes than one resync covers, run a full history import')
+  return parts.length > 0 ? parts.join(', ') : 'Up to date'
+}
+
 const SEVERITY_CONFIG = {
   critical: { icon: AlertCircle, color: 'text-red-400', bg: 'bg-red-400/10 border-red-400/30' },
   warning: { icon: AlertTriangle, color: 'text-yellow-400', bg: 'bg-yellow-400/10 border-yellow-400/30' },
   info: { icon: Info, color: 'text-blue-400', bg: 'bg-blue-400/10 border-blue-400/30' },
 }
 
+const ESCALATION_ACTION_LABELS: Record<string, string> = {
+  notify_assignee: 'Notify assignee',
+  notify_admins: 'Notify admins',
+  discord: 'Post to Discord',
+  create_alert: 'Raise escalation alert',
+}
+
+const DORA_BAND_CLASSES: Record<string, string> = {
+  elite: 'bg-emerald-500/10 text-emerald-400',
+  high: 'bg-blue-500/10 text-blue-400',
+  medium: 'bg-yellow-500/10 text-yellow-400',
+  low: 'bg-red-500/10 text-red-400',
+}
+
 const TYPE_COLORS: Record<string, string> = {
   feat: 'bg-emerald-500/20 text-emerald-400',
   fix: 'bg-red-500/20 text-red-400',
@@ -228,11 +304,51 @@ function ForceGraph({ nodes, links }: {
   )
 }
 
+// Directory treemap: tile area is knowledge weight, color is bus factor; directories open on click
+const TREEMAP_MAX_TILES = 60
+
+function OwnershipTreemap({ nodes, onOpen }: { nodes: OwnershipTreeNode[]; onOpen: (path: string) => void }) {
+  const tiles = nodes.filter((n) => n.weight > 0).slice(0, TREEMAP_MAX_TILES)
+  // Laid out in a 200 × 100 box, the container's aspect ratio, then placed in percentages
+  const rects = squarify(tiles.map((n) => n.weight), 200, 100)
+  return (
+    <div className="relative w-full aspect-[2/1] bg-background rounded-lg border border-border overflow-hidden">
+      {tiles.map((n, i) => {
+        const r = rects[i]
+        const tone = n.busFactor <= 1 ? 'bg-red-500/25 hover:bg-red-500/35 text-red-200'
+          : n.busFactor === 2 ? 'bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-100'
+          : 'bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-100'
+        const opens = n.type !== 'file'
+        return (
+          <button
+            key={n.path}
+            type="button"
+            disabled={!opens}
+            onClick={() => opens && onOpen(n.path)}
+            title={`${n.path}${opens ? '/' : ''} — bus factor ${n.busFactor}, ${n.concentration}% ${n.dominant_author ?? ''}${opens ? ` · ${n.files} file${n.files !== 1 ? 's' : ''}, ${n.criticalFiles} critical` : ''}`}
+            className={`absolute border border-background p-1 text-left overflow-hidden transition-colors ${tone} ${opens ? 'cursor-pointer' : 'cursor-default'}`}
+            style={{ left: `${r.x / 2}%`, top: `${r.y}%`, width: `${r.width / 2}%`, height: `${r.height}%` }}
+          >
+            {r.width > 14 && r.height > 10 && (
+              <>
+                <p className="text-[10px] font-mono font-medium truncate">{n.name}{opens ? '/' : ''}</p>
+                <p className="text-[9px] opacity-80 truncate">bus factor {n.busFactor} · {n.concentration}%</p>
+              </>
+            )}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
 export default function WorkspaceDashboard({ params }: { params: Promise<{ workspaceId: string }> }) {
   const { workspaceId } = use(params)
   const { user, token, logout, setTokenAndUser } = useAuth()
   const router = useRouter()
-  const { data, loading, error, refetch } = useDashboard(workspaceId)
+  // `owner/name` of the repository the dashboard is narrowed to; null shows every bound repository
+  const [repoFilter, setRepoFilter] = useState<string | null>(null)
+  const { data, loading, error, refetch } = useDashboard(workspaceId, repoFilter)
   const [tab, setTab] = useState<Tab>('overview')
   const [wsInfo, setWsInfo] = useState<{ name: string; github_webhook_secret?: string; discord_channel_id?: string; github_repo_owner?: string; github_repo_name?: string } | null>(null)
   const [inviteUrl, setInviteUrl] = useState<string | null>(null)
@@ -381,16 +497,23 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
   }, [tab, workspaceId, token])
 
   // Repo binding state
-  const [repoBinding, setRepoBinding] = useState<{ bound: boolean; repo: { owner: string; name: string; url: string; webhook_active: boolean; default_branch: string; private: boolean } | null; collaborators: Array<{ username: string; avatar_url: string; role_name: string; permissions: Record<string,boolean> }>; collaborators_updated_at: string | null } | null>(null)
+  const [repoBinding, setRepoBinding] = useState<{ bound: boolean; repo: { owner: string; name: string; url: string; webhook_active: boolean; default_branch: string; private: boolean } | null; repositories?: Array<{ owner: string; name: string; full_name: string; url: string; default_branch: string; private: boolean; webhook_active: boolean; installation_id: number | null; last_resync_at: string | null; last_resync_summary: RepoResyncSummary | null }>; collaborators: Array<{ username: string; avatar_url: string; role_name: string; permissions: Record<string,boolean> }>; collaborators_updated_at: string | null } | null>(null)
   const [repoList, setRepoList] = useState<Array<{ id: number; full_name: string; name: string; owner: string; owner_avatar: string; private: boolean; description: string | null; language: string | null; updated_at: string; permissions: { admin: boolean; push: boolean; pull: boolean } | null }>>([])
   const [repoSearch, setRepoSearch] = useState('')
   const [repoLoading, setRepoLoading] = useState(false)
   const [bindingLoading, setBindingLoading] = useState(false)
   const [heuristicsLoading, setHeuristicsLoading] = useState(false)
   const [resolvingAlertId, setResolvingAlertId] = useState<string | null>(null)
+  const [openCommentsAlertId, setOpenCommentsAlertId] = useState<string | null>(null)
+  const [alertComments, setAlertComments] = useState<Array<{ id: string; content: string; created_at: string; user: { id: string; name: string; avatar_url: string | null } | null }>>([])
+  const [alertCommentDraft, setAlertCommentDraft] = useState('')
+  const [notifications, setNotifications] = useState<Array<{ id: string; alert_id: string | null; title: string; body: string | null; read_at: string | null; created_at: string }>>([])
+  const [escalationSteps, setEscalationSteps] = useState<Array<{ after_hours: number; action: string }>>([])
+  const [escalationSaving, setEscalationSaving] = useState(false)
   const [inviteLoading, setInviteLoading] = useState(false)
   const [collabRefreshing, setCollabRefreshing] = useState(false)
   const [unbindLoading, setUnbindLoading] = useState(false)
+  const [resyncingRepo, setResyncingRepo] = useState<string | null>(null)
   const [collabInfo, setCollabInfo] = useState<{ external_contributors: { total: number; collaborators: number; external: string[] }; author_mapping: { mapped_count: number; unmapped_authors: string[] } } | null>(null)
   const [removingMemberId, setRemovingMemberId] = useState<string | null>(null)
   const [deletingMsgId, setDeletingMsgId] = useState<string | null>(null)
@@ -417,6 +540,39 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
   const [aiRetryCountdown, setAiRetryCountdown] = useState(0)
   const [commitSummary, setCommitSummary] = useState<{ summary: string; highlights: string[]; authorBreakdown: Record<string, string>; taskProgress: Array<{ taskId: string; taskTitle: string; status: 'addressed' | 'partially-addressed' | 'not-addressed'; evidence: string }>; completionPercent: number; workInsight: string } | null>(null)
   const [commitSummarizing, setCommitSummarizing] = useState(false)
+  const [heuristicSettings, setHeuristicSettings] = useState<Record<string, number> | null>(null)
+  const [heuristicDefaults, setHeuristicDefaults] = useState<Record<string, number> | null>(null)
+  const [heuristicSettingsSaving, setHeuristicSettingsSaving] = useState(false)
+  const [heuristicRules, setHeuristicRules] = useState<Array<{ id: string; type: string; name: string; defaultSeverity: string; enabled: boolean; severity: string }>>([])
+  const [runningRuleId, setRunningRuleId] = useState<string | null>(null)
+  const [heuristicRuns, setHeuristicRuns] = useState<Array<{ id: string; trigger: 'schedule' | 'manual' | 'webhook'; rule_id: string | null; started_at: string; duration_ms: number | null; alerts_generated: number; error: string | null }>>([])
+  const [cycleTime, setCycleTime] = useState<{ count: number; overall: Record<string, CycleTimePercentiles>; buckets: Array<{ key: string; count: number; segments: Record<string, CycleTimePercentiles> }> } | null>(null)
+  const [cycleTimeGroupBy, setCycleTimeGroupBy] = useState<'week' | 'author' | 'base_branch' | 'size'>('week')
+  const [cycleTimeSegment, setCycleTimeSegment] = useState<'coding' | 'pickup' | 'review' | 'deployment' | 'total'>('total')
+  const [dora, setDora] = useState<{ days: number; environments: Array<{ environment: string; deployments: number; failures: number; deploymentFrequency: { perWeek: number; band: string | null }; leadTime: { medianHours: number | null; band: string | null }; changeFailureRate: { percent: number | null; band: string | null }; timeToRestore: { medianHours: number | null; incidents: number; band: string | null } }> } | null>(null)
+  const [doraEnvironment, setDoraEnvironment] = useState<string | null>(null)
+  const [releases, setReleases] = useState<Array<{ id: string; repo_name: string; tag_name: string; kind: 'tag' | 'release'; name: string | null; is_prerelease: boolean; author_github_username: string | null; url: string | null; released_at: string }>>([])
+  const [reviewers, setReviewers] = useState<Array<{ reviewer: string; reviews: number; prsReviewed: number; approvals: number; changesRequested: number; comments: number; pendingRequests: number; medianResponseHours: number | null }>>([])
+  const [reviewerSuggestions, setReviewerSuggestions] = useState<Record<number, Array<{ reviewer: string; score: number; alreadyRequested: boolean; reasons: string[] }>>>({})
+  const [webhookDeliveries, setWebhookDeliveries] = useState<Array<{ id: string; delivery_id: string; event: string; action: string | null; status: 'received' | 'queued' | 'processing' | 'processed' | 'failed'; error: string | null; attempts: number; elapsed_ms: number | null; received_at: string }>>([])
+  const [deliveryFilter, setDeliveryFilter] = useState<'failed' | 'all'>('failed')
+  const [replayingDeliveryId, setReplayingDeliveryId] = useState<string | null>(null)
+  const [repoImports, setRepoImports] = useState<Record<string, RepoImportState>>({})
+  const [startingImport, setStartingImport] = useState<string | null>(null)
+  const [githubApp, setGithubApp] = useState<GitHubAppState | null>(null)
+  const [installingApp, setInstallingApp] = useState(false)
+  const [computingBlame, setComputingBlame] = useState(false)
+  const [ownershipPath, setOwnershipPath] = useState('')
+  const [leaving, setLeaving] = useState<string[]>([])
+  const [departureSim, setDepartureSim] = useState<DepartureSimulation | null>(null)
+  const [codeowners, setCodeowners] = useState<CodeownersReport | null>(null)
+  const [suggestedCodeowners, setSuggestedCodeowners] = useState<string | null>(null)
+  const [suggestingCodeowners, setSuggestingCodeowners] = useState(false)
+  const [refreshingCodeowners, setRefreshingCodeowners] = useState(false)
+  const [identityRegistry, setIdentityRegistry] = useState<IdentityRegistry | null>(null)
+  const [mergingIdentities, setMergingIdentities] = useState<string | null>(null)
+  const [ownershipTree, setOwnershipTree] = useState<{ path: string; breadcrumbs: Array<{ path: string; name: string }>; node: OwnershipTreeNode } | null>(null)
+  const [coupling, setCoupling] = useState<{ commitsAnalyzed: number; totalPairs: number; flaggedCount: number; days: number; pairs: Array<{ repo: string | null; file_a: string; file_b: string; support: number; confidence: number; cross_directory: boolean; flagged: boolean }> } | null>(null)
 
   // Derive admin status from members data
   const isAdmin = data?.members?.some((m) => m.user?.id === user?.id && m.role === 'admin') ?? false
@@ -432,6 +588,217 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
       .finally(() => setTodosLoading(false))
   }, [tab, token, workspaceId])
 
+  // Fetch heuristic run history when alerts tab is active
+  const fetchHeuristicRuns = useCallback(() => {
+    if (!token) return
+    fetch(`/api/workspaces/${workspaceId}/heuristics`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setHeuristicRuns(d.runs ?? []))
+      .catch(() => {})
+  }, [token, workspaceId])
+
+  useEffect(() => {
+    if (tab === 'alerts') fetchHeuristicRuns()
+  }, [tab, fetchHeuristicRuns])
+
+  // Escalation notifications for the header bell
+  const fetchNotifications = useCallback(() => {
+    if (!token) return
+    fetch(`/api/workspaces/${workspaceId}/notifications`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setNotifications(d.notifications ?? []))
+      .catch(() => {})
+  }, [token, workspaceId])
+
+  useEffect(() => { fetchNotifications() }, [fetchNotifications])
+
+  const markNotificationsRead = async () => {
+    if (!token || !notifications.some((n) => !n.read_at)) return
+    await fetch(`/api/workspaces/${workspaceId}/notifications`, {
+      method: 'PATCH',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    }).catch(() => {})
+    setNotifications((prev) => prev.map((n) => ({ ...n, read_at: n.read_at ?? new Date().toISOString() })))
+  }
+
+  // Fetch cycle-time percentiles when overview tab is active
+  useEffect(() => {
+    if (tab !== 'overview' || !token) return
+    const query = new URLSearchParams({ group_by: cycleTimeGroupBy, ...(repoFilter && { repo: repoFilter }) })
+    fetch(`/api/workspaces/${workspaceId}/cycle-time?${query}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setCycleTime(d.overall ? d : null))
+      .catch(() => {})
+  }, [tab, token, workspaceId, cycleTimeGroupBy, repoFilter])
+
+  // Fetch DORA metrics when overview tab is active
+  useEffect(() => {
+    if (tab !== 'overview' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/dora${repoFilter ? `?repo=${encodeURIComponent(repoFilter)}` : ''}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setDora(d.environments ? d : null))
+      .catch(() => {})
+  }, [tab, token, workspaceId, repoFilter])
+
+  // Fetch releases timeline when overview tab is active
+  useEffect(() => {
+    if (tab !== 'overview' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/releases?limit=20`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setReleases(d.releases ?? []))
+      .catch(() => {})
+  }, [tab, token, workspaceId])
+
+  // Fetch reviewer load when team tab is active
+  useEffect(() => {
+    if (tab !== 'team' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/reviews`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setReviewers(d.reviewers ?? []))
+      .catch(() => {})
+  }, [tab, token, workspaceId])
+
+  // Fetch reviewer suggestions for open PRs when PRs tab is active
+  useEffect(() => {
+    if (tab !== 'prs' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/reviewer-suggestions`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d: { suggestions?: Array<{ pr_number: number; reviewers: Array<{ reviewer: string; score: number; alreadyRequested: boolean; reasons: string[] }> }> }) =>
+        setReviewerSuggestions(Object.fromEntries((d.suggestions ?? []).map((s) => [s.pr_number, s.reviewers]))))
+      .catch(() => {})
+  }, [tab, token, workspaceId])
+
+  // Fetch change coupling when bus factor tab is active
+  useEffect(() => {
+    if (tab !== 'bus-factor' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/coupling${repoFilter ? `?repo=${encodeURIComponent(repoFilter)}` : ''}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setCoupling(d.pairs ? d : null))
+      .catch(() => {})
+  }, [tab, token, workspaceId, repoFilter])
+
+  // Directory rollup of the bus factor tab's treemap; a repo filter change starts again from the top
+  useEffect(() => { setOwnershipPath('') }, [repoFilter])
+  useEffect(() => {
+    if (tab !== 'bus-factor' || !token) return
+    const query = new URLSearchParams({ path: ownershipPath, ...(repoFilter && { repo: repoFilter }) })
+    fetch(`/api/workspaces/${workspaceId}/bus-factor/directories?${query}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.node) setOwnershipTree(d)
+        // The directory is gone (e.g. after a resync); go back to the top
+        else if (ownershipPath) setOwnershipPath('')
+        else setOwnershipTree(null)
+      })
+      .catch(() => {})
+  }, [tab, token, workspaceId, repoFilter, ownershipPath])
+
+  // CODEOWNERS drift for the filtered (or primary) repository
+  const fetchCodeowners = useCallback(() => {
+    if (!token) return
+    fetch(`/api/workspaces/${workspaceId}/codeowners${repoFilter ? `?repo=${encodeURIComponent(repoFilter)}` : ''}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setCodeowners(d.drift ? d : null))
+      .catch(() => {})
+  }, [token, workspaceId, repoFilter])
+  useEffect(() => { setSuggestedCodeowners(null) }, [repoFilter])
+  useEffect(() => {
+    if (tab === 'bus-factor') fetchCodeowners()
+  }, [tab, fetchCodeowners])
+
+  // Identity registry — who is the same person across emails, GitHub, Discord and WhatsApp
+  const fetchIdentities = useCallback(() => {
+    if (!token) return
+    fetch(`/api/workspaces/${workspaceId}/identities`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setIdentityRegistry(d.people ? d : null))
+      .catch(() => {})
+  }, [token, workspaceId])
+  useEffect(() => {
+    if (tab === 'team') fetchIdentities()
+  }, [tab, fetchIdentities])
+
+  // "What if they leave" simulation for the contributors picked in the team tab
+  useEffect(() => {
+    if (tab !== 'team' || !token || leaving.length === 0) { setDepartureSim(null); return }
+    const query = new URLSearchParams({ without: leaving.join(','), ...(repoFilter && { repo: repoFilter }) })
+    fetch(`/api/workspaces/${workspaceId}/bus-factor/simulate?${query}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setDepartureSim(d.departing ? d : null))
+      .catch(() => {})
+  }, [tab, token, workspaceId, repoFilter, leaving])
+
+  // Fetch webhook delivery log when settings tab is active (admin only)
+  const fetchWebhookDeliveries = useCallback(() => {
+    if (!token || !isAdmin) return
+    const query = deliveryFilter === 'failed' ? '?status=failed' : ''
+    fetch(`/api/workspaces/${workspaceId}/webhook-deliveries${query}`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setWebhookDeliveries(d.deliveries ?? []))
+      .catch(() => {})
+  }, [token, isAdmin, workspaceId, deliveryFilter])
+
+  useEffect(() => {
+    if (tab === 'settings') fetchWebhookDeliveries()
+  }, [tab, fetchWebhookDeliveries])
+
+  // Full-history import progress on the settings tab, polled while an import is still in progress
+  const importsActive = Object.values(repoImports).some((i) => ['queued', 'running', 'waiting'].includes(i.status))
+  useEffect(() => {
+    if (tab !== 'settings' || !token) return
+    const load = () => fetch(`/api/workspaces/${workspaceId}/repo/import`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setRepoImports(Object.fromEntries((d.imports ?? []).map((i: RepoImportState) => [i.repo, i]))))
+      .catch(() => {})
+    load()
+    if (!importsActive) return
+    const interval = setInterval(load, 5000)
+    return () => clearInterval(interval)
+  }, [tab, token, workspaceId, importsActive])
+
+  // GitHub App installation status on the settings tab
+  useEffect(() => {
+    if (tab !== 'settings' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/github-app`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => { if (d.configured !== undefined) setGithubApp(d) })
+      .catch(() => {})
+  }, [tab, token, workspaceId])
+
+  // Back from the GitHub App install (/api/github/app/setup redirects here with ?github_app=)
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const outcome = params.get('github_app')
+    if (!outcome) return
+    setTab('settings')
+    if (outcome === 'installed') toast.success('GitHub App installed — covered repositories now sync with it')
+    else if (outcome === 'requested') toast.info('GitHub App install requested — an organization owner needs to approve it')
+    else if (outcome === 'forbidden') toast.error('Only workspace admins can install the GitHub App')
+    else if (outcome === 'unverified') toast.error('Your GitHub account has no access to that installation — sign in with GitHub again and retry')
+    else toast.error('Failed to link the GitHub App installation')
+    params.delete('github_app')
+    window.history.replaceState(null, '', `${window.location.pathname}${params.size ? `?${params}` : ''}`)
+  }, [])
+
+  // Fetch escalation policy when settings tab is active
+  useEffect(() => {
+    if (tab !== 'settings' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/escalation-policy`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setEscalationSteps(d.steps ?? []))
+      .catch(() => {})
+  }, [tab, token, workspaceId])
+
+  // Fetch heuristic thresholds when settings tab is active
+  useEffect(() => {
+    if (tab !== 'settings' || !token) return
+    fetch(`/api/workspaces/${workspaceId}/heuristics/settings`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => { setHeuristicSettings(d.settings ?? null); setHeuristicDefaults(d.defaults ?? null); setHeuristicRules(d.rules ?? []) })
+      .catch(() => {})
+  }, [tab, token, workspaceId])
+
   useEffect(() => {
     if (!user) router.push('/')
   }, [user, router])
@@ -458,6 +825,7 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
     const channel = supabase.channel(`workspace-${workspaceId}`)
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'alerts', filter: `workspace_id=eq.${workspaceId}` }, () => {
         refetch()
+        fetchNotifications()
         toast.warning('New alert detected', { description: 'Dashboard updated' })
       })
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'commits', filter: `workspace_id=eq.${workspaceId}` }, () => {
@@ -465,7 +833,7 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
       })
       .subscribe()
     return () => { supabase.removeChannel(channel) }
-  }, [workspaceId, refetch])
+  }, [workspaceId, refetch, fetchNotifications])
 
   const generateInvite = async () => {
     if (!token) return
@@ -498,6 +866,51 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
     finally { setResolvingAlertId(null) }
   }
 
+  const updateAlert = async (alertId: string, payload: Record<string, unknown>, successMessage: string) => {
+    if (!token) return
+    setResolvingAlertId(alertId)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/alerts`, {
+        method: 'PATCH',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alert_id: alertId, ...payload }),
+      })
+      const d = await res.json()
+      if (res.ok) { refetch(); toast.success(successMessage) }
+      else toast.error(d.error)
+    } catch { toast.error('Failed to update alert') }
+    finally { setResolvingAlertId(null) }
+  }
+
+  const snoozeAlert = (alertId: string, hours: number) =>
+    updateAlert(alertId, { action: 'snooze', snoozed_until: new Date(Date.now() + hours * 3600 * 1000).toISOString() }, `Alert snoozed for ${hours < 24 ? `${hours}h` : `${hours / 24}d`}`)
+
+  const toggleAlertComments = (alertId: string) => {
+    if (openCommentsAlertId === alertId) { setOpenCommentsAlertId(null); return }
+    setOpenCommentsAlertId(alertId)
+    setAlertComments([])
+    setAlertCommentDraft('')
+    if (!token) return
+    fetch(`/api/workspaces/${workspaceId}/alerts/${alertId}/comments`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((r) => r.json())
+      .then((d) => setAlertComments(d.comments ?? []))
+      .catch(() => toast.error('Failed to load comments'))
+  }
+
+  const postAlertComment = async (alertId: string) => {
+    if (!token || !alertCommentDraft.trim()) return
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/alerts/${alertId}/comments`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content: alertCommentDraft }),
+      })
+      const d = await res.json()
+      if (res.ok) { setAlertComments((prev) => [...prev, d.comment]); setAlertCommentDraft('') }
+      else toast.error(d.error)
+    } catch { toast.error('Failed to post comment') }
+  }
+
   const runHeuristics = async () => {
     if (!token || heuristicsLoading) return
     setHeuristicsLoading(true)
@@ -509,10 +922,89 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
       const d = await res.json()
       if (res.ok) { refetch(); toast.success(`Heuristics ran: ${d.alerts_generated} alerts`) }
       else toast.error(d.error)
+      fetchHeuristicRuns()
     } catch { toast.error('Heuristic scan failed') }
     finally { setHeuristicsLoading(false) }
   }
 
+  const saveHeuristicSettings = async () => {
+    if (!token || !heuristicSettings || heuristicSettingsSaving) return
+    setHeuristicSettingsSaving(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/heuristics/settings`, {
+        method: 'PATCH',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(heuristicSettings),
+      })
+      const d = await res.json()
+      if (res.ok) { setHeuristicSettings(d.settings); toast.success('Heuristic thresholds saved') }
+      else toast.error(d.error)
+    } catch { toast.error('Failed to save thresholds') }
+    finally { setHeuristicSettingsSaving(false) }
+  }
+
+  const saveEscalationPolicy = async () => {
+    if (!token || escalationSaving) return
+    setEscalationSaving(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/escalation-policy`, {
+        method: 'PUT',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ steps: escalationSteps }),
+      })
+      const d = await res.json()
+      if (res.ok) { setEscalationSteps(d.steps); toast.success('Escalation policy saved') }
+      else toast.error(d.error)
+    } catch { toast.error('Failed to save escalation policy') }
+    finally { setEscalationSaving(false) }
+  }
+
+  const replayWebhookDelivery = async (id: string) => {
+    if (!token || replayingDeliveryId) return
+    setReplayingDeliveryId(id)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/webhook-deliveries/${id}/replay`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      const d = await res.json()
+      if (res.ok) { toast.success('Delivery replayed'); refetch() }
+      else toast.error(d.error || 'Replay failed')
+      fetchWebhookDeliveries()
+    } catch { toast.error('Failed to replay delivery') }
+    finally { setReplayingDeliveryId(null) }
+  }
+
+  const updateHeuristicRule = async (ruleId: string, override: { enabled?: boolean; severity?: string }) => {
+    if (!token) return
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/heuristics/settings`, {
+        method: 'PATCH',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule_overrides: { [ruleId]: override } }),
+      })
+      const d = await res.json()
+      if (res.ok) setHeuristicRules(d.rules ?? [])
+      else toast.error(d.error)
+    } catch { toast.error('Failed to update rule') }
+  }
+
+  const runHeuristicRule = async (ruleId: string) => {
+    if (!token || runningRuleId) return
+    setRunningRuleId(ruleId)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/heuristics`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rule_id: ruleId }),
+      })
+      const d = await res.json()
+      if (res.ok) { refetch(); toast.success(`${ruleId}: ${d.alerts_generated} alerts`) }
+      else toast.error(d.error)
+    } catch { toast.error('Rule run failed') }
+    finally { setRunningRuleId(null) }
+  }
+
   const tabs: { id: Tab; label: string; icon: React.ElementType }[] = [
     { id: 'overview', label: 'Overview', icon: Activity },
     { id: 'commits', label: 'Commits', icon: GitCommit },
@@ -587,26 +1079,149 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
     finally { setCollabRefreshing(false) }
   }
 
-  // Unbind repo
-  const unbindRepo = async () => {
+  // Unbind one repository (`owner/name`); the workspace stays bound to any others
+  const unbindRepo = async (fullName: string) => {
     if (!token) return
-    if (!confirm('This will disconnect the repository from this workspace. Historical data will remain. Continue?')) return
+    if (!confirm(`This will disconnect ${fullName} from this workspace. Historical data will remain. Continue?`)) return
     setUnbindLoading(true)
     try {
-      const res = await fetch(`/api/workspaces/${workspaceId}/repo`, {
+      const res = await fetch(`/api/workspaces/${workspaceId}/repo?repo=${encodeURIComponent(fullName)}`, {
         method: 'DELETE', headers: { Authorization: `Bearer ${token}` },
       })
       if (res.ok) {
-        toast.success('Repository unbound')
-        setRepoBinding({ bound: false, repo: null, collaborators: [], collaborators_updated_at: null })
-        setCollabInfo(null)
+        toast.success(`${fullName} unbound`)
+        const binding = await fetch(`/api/workspaces/${workspaceId}/repo`, { headers: { Authorization: `Bearer ${token}` } }).then((r) => r.json())
+        setRepoBinding(binding)
+        if (!binding.bound) setCollabInfo(null)
+        if (repoFilter === fullName) setRepoFilter(null)
+        else refetch()
       } else toast.error('Failed to unbind repo')
     } catch { toast.error('Failed to unbind repo') }
     finally { setUnbindLoading(false) }
   }
 
+  // Incremental resync: fetch what webhooks missed since the last sync
+  const resyncRepo = async (fullName: string) => {
+    if (!token) return
+    setResyncingRepo(fullName)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/repo/resync?repo=${encodeURIComponent(fullName)}`, {
+        method: 'POST', headers: { Authorization: `Bearer ${token}` },
+      })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Resync failed'); return }
+      const summary: RepoResyncSummary | undefined = d.results?.[0]
+      if (summary?.error) toast.error(`${fullName}: ${describeResync(summary)}`)
+      else if (summary) toast.success(`${fullName}: ${describeResync(summary)}`)
+      fetch(`/api/workspaces/${workspaceId}/repo`, { headers: { Authorization: `Bearer ${token}` } })
+        .then((r) => r.json()).then((b) => setRepoBinding(b))
+      refetch()
+    } catch { toast.error('Resync failed') }
+    finally { setResyncingRepo(null) }
+  }
+
+  const startImport = async (fullName: string) => {
+    if (!token) return
+    setStartingImport(fullName)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/repo/import?repo=${encodeURIComponent(fullName)}`, {
+        method: 'POST', headers: { Authorization: `Bearer ${token}` },
+      })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Failed to start import'); return }
+      toast.success(d.created ? `Importing the full history of ${fullName}` : `${fullName} is already being imported`)
+      setRepoImports((prev) => ({ ...prev, [fullName]: d.import }))
+    } catch { toast.error('Failed to start import') }
+    finally { setStartingImport(null) }
+  }
+
+  const computeBlameOwnership = async () => {
+    if (!token) return
+    setComputingBlame(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/bus-factor/blame${repoFilter ? `?repo=${encodeURIComponent(repoFilter)}` : ''}`, {
+        method: 'POST', headers: { Authorization: `Bearer ${token}` },
+      })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Failed to compute blame ownership'); return }
+      toast.success(d.created ? 'Computing ownership from git blame — refresh in a few minutes' : 'A blame ownership sync is already queued')
+    } catch { toast.error('Failed to compute blame ownership') }
+    finally { setComputingBlame(false) }
+  }
+
+  const refreshCodeowners = async () => {
+    if (!token) return
+    setRefreshingCodeowners(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/codeowners${repoFilter ? `?repo=${encodeURIComponent(repoFilter)}` : ''}`, {
+        method: 'POST', headers: { Authorization: `Bearer ${token}` },
+      })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Failed to fetch CODEOWNERS'); return }
+      toast.success(d.path ? `Fetched ${d.path}` : `No CODEOWNERS file in ${d.repo}`)
+      fetchCodeowners()
+    } catch { toast.error('Failed to fetch CODEOWNERS') }
+    finally { setRefreshingCodeowners(false) }
+  }
+
+  const suggestCodeowners = async () => {
+    if (!token) return
+    setSuggestingCodeowners(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/codeowners/suggest${repoFilter ? `?repo=${encodeURIComponent(repoFilter)}` : ''}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Failed to suggest CODEOWNERS'); return }
+      if (d.entries.length === 0) { toast.info('Not enough ownership data to suggest owners yet'); return }
+      setSuggestedCodeowners(d.content)
+    } catch { toast.error('Failed to suggest CODEOWNERS') }
+    finally { setSuggestingCodeowners(false) }
+  }
+
+  const mergeIdentities = async (suggestion: IdentityRegistry['suggestions'][number]) => {
+    if (!token) return
+    const key = suggestion.identities.map((i) => `${i.kind}:${i.value}`).join('|')
+    setMergingIdentities(key)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/identities`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ identities: suggestion.identities.map(({ kind, value }) => ({ kind, value })), display_name: suggestion.display_name }),
+      })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Failed to merge identities'); return }
+      toast.success(`Merged into ${d.person?.display_name ?? suggestion.display_name}`)
+      fetchIdentities()
+      refetch()
+    } catch { toast.error('Failed to merge identities') }
+    finally { setMergingIdentities(null) }
+  }
+
+  const splitPerson = async (personId: string) => {
+    if (!token) return
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/identities?person=${personId}`, { method: 'DELETE', headers: { Authorization: `Bearer ${token}` } })
+      if (!res.ok) { toast.error('Failed to split identities'); return }
+      fetchIdentities()
+      refetch()
+    } catch { toast.error('Failed to split identities') }
+  }
+
+  const installGitHubApp = async () => {
+    if (!token) return
+    setInstallingApp(true)
+    try {
+      const res = await fetch(`/api/workspaces/${workspaceId}/github-app`, { method: 'POST', headers: { Authorization: `Bearer ${token}` } })
+      const d = await res.json()
+      if (!res.ok) { toast.error(d.error ?? 'Failed to start the GitHub App install'); setInstallingApp(false); return }
+      window.location.href = d.url
+    } catch { toast.error('Failed to start the GitHub App install'); setInstallingApp(false) }
+  }
+
+  const boundRepoNames = new Set((repoBinding?.repositories ?? []).map((r) => r.full_name))
   const filteredRepos = repoList.filter((r) =>
-    r.full_name.toLowerCase().includes(repoSearch.toLowerCase())
+    !boundRepoNames.has(r.full_name) && r.full_name.toLowerCase().includes(repoSearch.toLowerCase())
   )
 
   if (loading && !data) {
@@ -663,6 +1278,18 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
             )}
           </div>
           <div className="flex items-center gap-1.5">
+            {(repoBinding?.repositories?.length ?? 0) > 1 && (
+              <select
+                value={repoFilter ?? ''}
+                onChange={(e) => setRepoFilter(e.target.value || null)}
+                className="px-2 py-1.5 mr-1 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+              >
+                <option value="">All repositories</option>
+                {repoBinding!.repositories!.map((r) => (
+                  <option key={r.full_name} value={r.full_name}>{r.full_name}</option>
+                ))}
+              </select>
+            )}
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button variant="ghost" size="icon-sm" onClick={runHeuristics} disabled={heuristicsLoading} className="rounded-lg hover:bg-muted transition-colors">
@@ -679,6 +1306,34 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
               </TooltipTrigger>
               <TooltipContent>Refresh data</TooltipContent>
             </Tooltip>
+            <DropdownMenu onOpenChange={(open) => { if (open) markNotificationsRead() }}>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon-sm" className="relative rounded-lg hover:bg-muted transition-colors">
+                  <Bell className="size-4" />
+                  {notifications.some((n) => !n.read_at) && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-500 text-[9px] font-semibold text-white flex items-center justify-center">
+                      {notifications.filter((n) => !n.read_at).length}
+                    </span>
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-80 p-1.5">
+                <p className="px-2.5 py-2 text-xs font-semibold text-foreground">Notifications</p>
+                <Separator className="my-1" />
+                {notifications.length === 0 ? (
+                  <p className="px-2.5 py-4 text-xs text-muted-foreground text-center">Nothing to see here</p>
+                ) : (
+                  <div className="max-h-80 overflow-y-auto">
+                    {notifications.map((n) => (
+                      <DropdownMenuItem key={n.id} onClick={() => setTab('alerts')} className="rounded-md flex-col items-start gap-0.5">
+                        <span className={`text-xs ${n.read_at ? 'text-muted-foreground' : 'font-medium text-foreground'}`}>{n.title}</span>
+                        <span className="text-[10px] text-muted-foreground">{formatDistanceToNow(new Date(n.created_at), { addSuffix: true })}</span>
+                      </DropdownMenuItem>
+                    ))}
+                  </div>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Separator orientation="vertical" className="h-5 mx-1.5" />
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -739,6 +1394,13 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                 Live data from GitHub
               </div>
             )}
+            {data.githubRateLimit && (
+              <div className="flex items-center gap-2 text-xs text-yellow-600 dark:text-yellow-400">
+                <AlertTriangle className="size-3.5" />
+                GitHub rate limit reached — showing stored data
+                {data.githubRateLimit.reset_at && ` until ${new Date(data.githubRateLimit.reset_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+              </div>
+            )}
             {/* Stat cards row */}
             <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
               <StatCard icon={GitCommit} label="Total Commits" value={data.overview.totalCommits} sub="all time" />
@@ -747,7 +1409,7 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
               <StatCard icon={AlertCircle} label="Open Issues" value={data.overview.openIssues}
                 sub="in backlog" />
               <StatCard icon={Clock} label="Avg Cycle Time" value={formatSeconds(data.overview.avgCycleTimeSeconds)}
-                sub="commit to merge" />
+                sub={cycleTime?.overall.total ? `p90 ${formatSeconds(cycleTime.overall.total.p90)}` : 'commit to merge'} />
               <StatCard icon={Activity} label="WIP Count" value={data.overview.totalWIP ?? 0}
                 sub="active PRs (updated <7d)" />
             </div>
@@ -1015,44 +1677,96 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
             </CardContent>
             </Card>
 
-            {/* Cycle Time Trend */}
-            {data.cycleTimeTrend && data.cycleTimeTrend.length > 0 && (
+            {/* Cycle Time Percentiles */}
+            {cycleTime && cycleTime.count > 0 && (
               <Card className="py-0 shadow-sm border-border/50">
               <CardContent className="p-5">
-                <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide mb-4 flex items-center gap-1.5">
-                  <Clock className="w-3.5 h-3.5" /> Cycle Time Trend (hours)
-                </p>
+                <div className="flex items-center justify-between gap-3 mb-4">
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                    <Clock className="w-3.5 h-3.5" /> Cycle Time Percentiles (hours)
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={cycleTimeSegment}
+                      onChange={(e) => setCycleTimeSegment(e.target.value as typeof cycleTimeSegment)}
+                      className="px-2 py-1.5 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+                    >
+                      <option value="total">Total</option>
+                      <option value="coding">Coding</option>
+                      <option value="pickup">Pickup</option>
+                      <option value="review">Review</option>
+                      <option value="deployment">Deployment</option>
+                    </select>
+                    <select
+                      value={cycleTimeGroupBy}
+                      onChange={(e) => setCycleTimeGroupBy(e.target.value as typeof cycleTimeGroupBy)}
+                      className="px-2 py-1.5 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+                    >
+                      <option value="week">By week</option>
+                      <option value="author">By author</option>
+                      <option value="base_branch">By base branch</option>
+                      <option value="size">By PR size</option>
+                    </select>
+                  </div>
+                </div>
                 {(() => {
-                  const trendData = [...data.cycleTimeTrend].reverse().map((m, i) => ({
-                    label: `PR ${i + 1}`,
-                    coding: m.codingTime ? Math.round(m.codingTime / 3600) : 0,
-                    pickup: m.pickupTime ? Math.round(m.pickupTime / 3600) : 0,
-                    review: m.reviewTime ? Math.round(m.reviewTime / 3600) : 0,
-                    deploy: m.deploymentTime ? Math.round(m.deploymentTime / 3600) : 0,
-                  }))
+                  const toHours = (s: number | undefined) => (s === undefined ? null : Math.round((s / 3600) * 10) / 10)
+                  const overall = cycleTime.overall[cycleTimeSegment]
+                  const buckets = cycleTime.buckets.filter((b) => b.segments[cycleTimeSegment])
                   return (
-                    <div className="h-[180px]">
-                      <ChartLine
-                        data={{
-                          labels: trendData.map((d) => d.label),
-                          datasets: [
-                            { label: 'Coding', data: trendData.map((d) => d.coding), borderColor: '#404040', backgroundColor: 'rgba(64,64,64,0.15)', fill: true, tension: 0.4, pointRadius: 2 },
-                            { label: 'Pickup', data: trendData.map((d) => d.pickup), borderColor: '#737373', backgroundColor: 'rgba(115,115,115,0.15)', fill: true, tension: 0.4, pointRadius: 2 },
-                            { label: 'Review', data: trendData.map((d) => d.review), borderColor: '#a3a3a3', backgroundColor: 'rgba(163,163,163,0.15)', fill: true, tension: 0.4, pointRadius: 2 },
-                            { label: 'Deploy', data: trendData.map((d) => d.deploy), borderColor: '#d4d4d4', backgroundColor: 'rgba(212,212,212,0.15)', fill: true, tension: 0.4, pointRadius: 2 },
-                          ],
-                        }}
-                        options={{
-                          responsive: true,
-                          maintainAspectRatio: false,
-                          interaction: { mode: 'index' as const, intersect: false },
-                          plugins: { legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 8, usePointStyle: true, pointStyle: 'circle', padding: 16, color: 'hsl(var(--muted-foreground))', font: { size: 10 } } } },
-                          scales: {
-                            x: { grid: { display: false }, ticks: { color: 'hsl(var(--muted-foreground))', font: { size: 10 } } },
-                            y: { grid: { color: 'hsl(var(--border))' }, ticks: { color: 'hsl(var(--muted-foreground))', font: { size: 10 } } },
-                          },
-                        }}
-                      />
+                    <div className="space-y-4">
+                      <div className="grid grid-cols-4 gap-3">
+                        {(['p50', 'p75', 'p90', 'p95'] as const).map((p) => (
+                          <div key={p} className="text-center">
+                            <p className="text-lg font-bold text-foreground">{overall ? `${toHours(overall[p])}h` : '—'}</p>
+                            <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{p}</p>
+                          </div>
+                        ))}
+                      </div>
+                      {cycleTimeGroupBy === 'week' ? (
+                        <div className="h-[180px]">
+                          <ChartLine
+                            data={{
+                              labels: buckets.map((b) => b.key),
+                              datasets: [
+                                { label: 'p50', data: buckets.map((b) => toHours(b.segments[cycleTimeSegment]?.p50)), borderColor: '#a3a3a3', backgroundColor: 'transparent', fill: false, tension: 0.4, pointRadius: 2 },
+                                { label: 'p75', data: buckets.map((b) => toHours(b.segments[cycleTimeSegment]?.p75)), borderColor: '#737373', backgroundColor: 'rgba(115,115,115,0.25)', fill: '-1', tension: 0.4, pointRadius: 0 },
+                                { label: 'p90', data: buckets.map((b) => toHours(b.segments[cycleTimeSegment]?.p90)), borderColor: '#525252', backgroundColor: 'rgba(82,82,82,0.18)', fill: '-1', tension: 0.4, pointRadius: 0 },
+                                { label: 'p95', data: buckets.map((b) => toHours(b.segments[cycleTimeSegment]?.p95)), borderColor: '#404040', backgroundColor: 'rgba(64,64,64,0.12)', fill: '-1', tension: 0.4, pointRadius: 0 },
+                              ],
+                            }}
+                            options={{
+                              responsive: true,
+                              maintainAspectRatio: false,
+                              interaction: { mode: 'index' as const, intersect: false },
+                              plugins: { legend: { display: true, position: 'bottom' as const, labels: { boxWidth: 8, usePointStyle: true, pointStyle: 'circle', padding: 16, color: 'hsl(var(--muted-foreground))', font: { size: 10 } } } },
+                              scales: {
+                                x: { grid: { display: false }, ticks: { color: 'hsl(var(--muted-foreground))', font: { size: 10 } } },
+                                y: { grid: { color: 'hsl(var(--border))' }, ticks: { color: 'hsl(var(--muted-foreground))', font: { size: 10 } } },
+                              },
+                            }}
+                          />
+                        </div>
+                      ) : (
+                        <div className="divide-y divide-border">
+                          <div className="pb-2 grid grid-cols-12 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">
+                            <span className="col-span-4">{cycleTimeGroupBy === 'size' ? 'PR size' : cycleTimeGroupBy === 'author' ? 'Author' : 'Base branch'}</span>
+                            <span className="col-span-2 text-right">PRs</span>
+                            <span className="col-span-2 text-right">p50</span>
+                            <span className="col-span-2 text-right">p90</span>
+                            <span className="col-span-2 text-right">p95</span>
+                          </div>
+                          {buckets.map((b) => (
+                            <div key={b.key} className="py-2 grid grid-cols-12 items-center text-xs">
+                              <span className="col-span-4 font-medium text-foreground truncate">{b.key}</span>
+                              <span className="col-span-2 text-right text-muted-foreground">{b.count}</span>
+                              <span className="col-span-2 text-right text-foreground">{toHours(b.segments[cycleTimeSegment]?.p50)}h</span>
+                              <span className="col-span-2 text-right text-foreground">{toHours(b.segments[cycleTimeSegment]?.p90)}h</span>
+                              <span className="col-span-2 text-right text-foreground">{toHours(b.segments[cycleTimeSegment]?.p95)}h</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )
                 })()}
@@ -1060,6 +1774,86 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
               </Card>
             )}
 
+            {/* DORA metrics per deployment environment */}
+            {dora && dora.environments.length > 0 && (() => {
+              const env = dora.environments.find((e) => e.environment === doraEnvironment) ?? dora.environments[0]
+              const tiles = [
+                { label: 'Deployment Frequency', value: `${env.deploymentFrequency.perWeek}/wk`, band: env.deploymentFrequency.band },
+                { label: 'Lead Time for Changes', value: env.leadTime.medianHours !== null ? `${env.leadTime.medianHours}h` : '—', band: env.leadTime.band },
+                { label: 'Change Failure Rate', value: env.changeFailureRate.percent !== null ? `${env.changeFailureRate.percent}%` : '—', band: env.changeFailureRate.band },
+                { label: 'Time to Restore', value: env.timeToRestore.medianHours !== null ? `${env.timeToRestore.medianHours}h` : '—', band: env.timeToRestore.band },
+              ]
+              return (
+                <Card className="py-0 shadow-sm border-border/50">
+                <CardContent className="p-5 space-y-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                      <Zap className="w-3.5 h-3.5" /> DORA Metrics (last {dora.days} days)
+                    </p>
+                    <select
+                      value={env.environment}
+                      onChange={(e) => setDoraEnvironment(e.target.value)}
+                      className="px-2 py-1.5 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+                    >
+                      {dora.environments.map((e) => (
+                        <option key={e.environment} value={e.environment}>{e.environment}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    {tiles.map((t) => (
+                      <div key={t.label} className="p-3 rounded-lg border border-border/50 bg-muted/20">
+                        <p className="text-[10px] text-muted-foreground uppercase tracking-wide">{t.label}</p>
+                        <p className="text-xl font-bold text-foreground mt-1">{t.value}</p>
+                        {t.band ? (
+                          <span className={`inline-block mt-1.5 text-[10px] px-1.5 py-0.5 rounded font-medium capitalize ${DORA_BAND_CLASSES[t.band]}`}>{t.band}</span>
+                        ) : (
+                          <span className="inline-block mt-1.5 text-[10px] text-muted-foreground">Not enough data</span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-muted-foreground">
+                    {env.deployments} finished deployment{env.deployments !== 1 ? 's' : ''} · {env.failures} failed · {env.timeToRestore.incidents} restored incident{env.timeToRestore.incidents !== 1 ? 's' : ''}
+                  </p>
+                </CardContent>
+                </Card>
+              )
+            })()}
+
+            {/* Releases timeline */}
+            {releases.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50">
+              <CardContent className="p-5">
+                <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide mb-4 flex items-center gap-1.5">
+                  <Tag className="w-3.5 h-3.5" /> Releases
+                </p>
+                <div className="relative pl-4 border-l border-border/60 space-y-4">
+                  {releases.map((r) => (
+                    <div key={r.id} className="relative">
+                      <span className={`absolute -left-[21px] top-1 w-2.5 h-2.5 rounded-full border-2 border-background ${r.kind === 'release' ? 'bg-primary' : 'bg-muted-foreground/40'}`} />
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {r.url ? (
+                          <a href={r.url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-foreground hover:text-primary">{r.name ?? r.tag_name}</a>
+                        ) : (
+                          <span className="text-sm font-medium text-foreground">{r.name ?? r.tag_name}</span>
+                        )}
+                        <span className="text-[10px] px-1.5 py-0.5 rounded font-medium bg-muted text-muted-foreground font-mono">{r.tag_name}</span>
+                        {r.is_prerelease && <span className="text-[10px] px-1.5 py-0.5 rounded font-medium bg-yellow-500/10 text-yellow-400">pre-release</span>}
+                        {r.kind === 'tag' && <span className="text-[10px] text-muted-foreground">tag only</span>}
+                      </div>
+                      <p className="text-[10px] text-muted-foreground mt-0.5">
+                        {r.repo_name}
+                        {r.author_github_username && ` · ${r.author_github_username}`}
+                        {' · '}{formatDistanceToNow(new Date(r.released_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+              </Card>
+            )}
+
             {/* WIP per User */}
             {data.wipPerUser && data.wipPerUser.length > 0 && (
               <Card className="py-0 shadow-sm border-border/50">
@@ -1321,6 +2115,22 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                                 {cycleInfo.totalCycleTime != null && <Badge variant="outline" className="text-[10px] bg-zinc-500/10 text-zinc-300 border-zinc-500/20 hover:bg-zinc-500/10">Total {formatSeconds(cycleInfo.totalCycleTime)}</Badge>}
                               </div>
                             )}
+                            {pr.state === 'open' && (reviewerSuggestions[pr.github_pr_number]?.length ?? 0) > 0 && (
+                              <div className="mt-2.5 space-y-1">
+                                <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wide flex items-center gap-1">
+                                  <Eye className="w-3 h-3" /> Suggested reviewers
+                                </p>
+                                {reviewerSuggestions[pr.github_pr_number].map((r) => (
+                                  <div key={r.reviewer} className="flex items-center gap-2 text-[11px] min-w-0" title={r.reasons.join(' · ')}>
+                                    <span className="font-medium text-foreground shrink-0">@{r.reviewer}</span>
+                                    {r.alreadyRequested && (
+                                      <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded font-medium bg-blue-500/10 text-blue-400">requested</span>
+                                    )}
+                                    <span className="text-muted-foreground truncate">{r.reasons.join(' · ')}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
                           </div>
                           <div className="text-right shrink-0">
                             <p className="text-xs text-emerald-400">+{pr.lines_added}</p>
@@ -1434,34 +2244,166 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
               data.alerts.map((alert) => {
                 const cfg = SEVERITY_CONFIG[alert.severity as keyof typeof SEVERITY_CONFIG] ?? SEVERITY_CONFIG.info
                 const Icon = cfg.icon
+                const assignee = data.members.find((m) => m.user?.id === alert.assigned_to)?.user
                 return (
-                  <div key={alert.id} className={`flex items-start gap-3 p-4 rounded-xl border ${cfg.bg}`}>
+                  <div key={alert.id} className={`p-4 rounded-xl border ${cfg.bg}`}>
+                  <div className="flex items-start gap-3">
                     <Icon className={`w-5 h-5 mt-0.5 shrink-0 ${cfg.color}`} />
                     <div className="flex-1 min-w-0">
                       <p className="text-sm font-medium text-foreground">{alert.title}</p>
                       <p className="text-xs text-muted-foreground mt-1">{alert.description}</p>
-                      <p className="text-xs text-muted-foreground mt-2">{formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}</p>
+                      <div className="flex flex-wrap items-center gap-2 mt-2">
+                        <p className="text-xs text-muted-foreground">{formatDistanceToNow(new Date(alert.created_at), { addSuffix: true })}</p>
+                        {(alert.occurrence_count ?? 1) > 1 && (
+                          <Badge variant="outline" className="text-[10px]" title={alert.last_seen_at ? `Last seen ${formatDistanceToNow(new Date(alert.last_seen_at), { addSuffix: true })}` : undefined}>
+                            Seen {alert.occurrence_count}×
+                          </Badge>
+                        )}
+                        {alert.acknowledged && <Badge variant="outline" className="text-[10px]">Acknowledged</Badge>}
+                        {assignee && <Badge variant="outline" className="text-[10px]">Assigned to {assignee.name}</Badge>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-0.5 shrink-0">
+                      <button onClick={() => updateAlert(alert.id, { action: alert.acknowledged ? 'unacknowledge' : 'acknowledge' }, alert.acknowledged ? 'Acknowledgement cleared' : 'Alert acknowledged')} disabled={resolvingAlertId === alert.id} className={`p-1 transition-colors rounded disabled:opacity-50 ${alert.acknowledged ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`} title={alert.acknowledged ? 'Clear acknowledgement' : 'Acknowledge'}>
+                        <Eye className="w-4 h-4" />
+                      </button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <button disabled={resolvingAlertId === alert.id} className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded disabled:opacity-50" title="Snooze">
+                            <BellOff className="w-4 h-4" />
+                          </button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-36 p-1.5">
+                          {[1, 4, 24, 168].map((hours) => (
+                            <DropdownMenuItem key={hours} onClick={() => snoozeAlert(alert.id, hours)} className="rounded-md text-xs">
+                              {hours < 24 ? `${hours} hour${hours > 1 ? 's' : ''}` : hours === 24 ? '1 day' : '1 week'}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <button disabled={resolvingAlertId === alert.id} className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded disabled:opacity-50" title="Assign">
+                            <UserPlus className="w-4 h-4" />
+                          </button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end" className="w-48 p-1.5">
+                          {data.members.filter((m) => m.user).map((m) => (
+                            <DropdownMenuItem key={m.user.id} onClick={() => updateAlert(alert.id, { action: 'assign', assigned_to: m.user.id }, `Assigned to ${m.user.name}`)} className="rounded-md text-xs">
+                              {m.user.name}
+                            </DropdownMenuItem>
+                          ))}
+                          {alert.assigned_to && (
+                            <DropdownMenuItem onClick={() => updateAlert(alert.id, { action: 'assign', assigned_to: null }, 'Assignment cleared')} className="rounded-md text-xs">
+                              Unassign
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      <button onClick={() => toggleAlertComments(alert.id)} className={`p-1 transition-colors rounded ${openCommentsAlertId === alert.id ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'}`} title="Comments">
+                        <MessageSquare className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => resolveAlert(alert.id)} disabled={resolvingAlertId === alert.id} className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded disabled:opacity-50" title="Resolve">
+                        {resolvingAlertId === alert.id ? <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <X className="w-4 h-4" />}
+                      </button>
                     </div>
-                    <button onClick={() => resolveAlert(alert.id)} disabled={resolvingAlertId === alert.id} className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded shrink-0 disabled:opacity-50" title="Resolve">
-                      {resolvingAlertId === alert.id ? <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <X className="w-4 h-4" />}
-                    </button>
+                  </div>
+                  {(alert.escalation_log?.length ?? 0) > 0 && (
+                    <div className="mt-2 ml-8 flex flex-wrap gap-1.5">
+                      {alert.escalation_log!.map((entry, i) => (
+                        <Badge key={i} variant="outline" className={`text-[10px] ${entry.result === 'failed' ? 'text-red-400' : entry.result === 'skipped' ? 'text-muted-foreground' : ''}`} title={entry.detail}>
+                          {ESCALATION_ACTION_LABELS[entry.action] ?? entry.action} · {entry.result} {formatDistanceToNow(new Date(entry.executed_at), { addSuffix: true })}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  {openCommentsAlertId === alert.id && (
+                    <div className="mt-3 ml-8 space-y-2">
+                      {alertComments.map((c) => (
+                        <div key={c.id} className="text-xs">
+                          <span className="font-medium text-foreground">{c.user?.name ?? 'Unknown'}</span>
+                          <span className="text-muted-foreground"> · {formatDistanceToNow(new Date(c.created_at), { addSuffix: true })}</span>
+                          <p className="text-muted-foreground mt-0.5 whitespace-pre-wrap">{c.content}</p>
+                        </div>
+                      ))}
+                      <div className="flex gap-2">
+                        <Input
+                          value={alertCommentDraft}
+                          onChange={(e) => setAlertCommentDraft(e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') postAlertComment(alert.id) }}
+                          placeholder="Add a comment..."
+                          className="h-8 text-xs"
+                        />
+                        <Button size="sm" onClick={() => postAlertComment(alert.id)} disabled={!alertCommentDraft.trim()} className="h-8">
+                          <Send className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                   </div>
                 )
               })
             )}
+
+            {/* Heuristic run history */}
+            {heuristicRuns.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50">
+                <CardContent className="p-5 space-y-3">
+                <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+                  <Clock className="w-3.5 h-3.5" /> Recent Heuristic Runs
+                </h3>
+                <div className="space-y-1.5">
+                  {heuristicRuns.map((run) => (
+                    <div key={run.id} className="flex items-center justify-between gap-3 text-xs">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge variant="outline" className="text-[10px] capitalize shrink-0">{run.trigger}</Badge>
+                        {run.rule_id && <span className="font-mono text-[10px] text-muted-foreground shrink-0">{run.rule_id}</span>}
+                        {run.error
+                          ? <span className="text-red-400 truncate" title={run.error}>Failed: {run.error}</span>
+                          : <span className="text-foreground">{run.alerts_generated} alert{run.alerts_generated !== 1 ? 's' : ''}</span>}
+                      </div>
+                      <span className="text-muted-foreground shrink-0">
+                        {run.duration_ms !== null ? `${(run.duration_ms / 1000).toFixed(1)}s · ` : ''}
+                        {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
 
         {/* BUS FACTOR TAB */}
         {tab === 'bus-factor' && data && (
           <div className="space-y-4">
-            <div>
-              <h2 className="text-sm font-semibold text-foreground">Knowledge Distribution</h2>
-              <p className="text-xs text-muted-foreground mt-0.5">
-                {data.criticalFiles.some(f => f.file.startsWith('@'))
-                  ? 'Contributor commit concentration — how dependent is the project on individual contributors?'
-                  : 'Files with high concentration (single-author risk)'}
-              </p>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <h2 className="text-sm font-semibold text-foreground">Knowledge Distribution</h2>
+                  {data.ownershipModel && data.ownershipModel !== 'contributors' && (
+                    <Badge variant="outline" className="text-[10px]" title={{
+                      blame: 'Current git blame of the default branch, weighted by how recently each line was written',
+                      authorship: 'Lines added and modified per author over all synced commits',
+                      mixed: 'Git blame where computed, cumulative authorship for the other repositories',
+                    }[data.ownershipModel]}>
+                      {{ blame: 'Model: git blame + recency', authorship: 'Model: cumulative authorship', mixed: 'Model: blame + authorship' }[data.ownershipModel]}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {data.criticalFiles.some(f => f.file.startsWith('@'))
+                    ? 'Contributor commit concentration — how dependent is the project on individual contributors?'
+                    : 'Files with high concentration (single-author risk)'}
+                </p>
+              </div>
+              {isAdmin && (repoBinding?.repositories?.length ?? 0) > 0 && (
+                <Button size="sm" variant="outline" className="h-7 text-xs" disabled={computingBlame} onClick={computeBlameOwnership}>
+                  {computingBlame ? <Loader2 className="w-3 h-3 mr-1.5 animate-spin" /> : <History className="w-3 h-3 mr-1.5" />}
+                  {data.ownershipModel === 'blame' ? 'Refresh blame' : 'Compute from blame'}
+                </Button>
+              )}
             </div>
 
             {/* Codebase bus factor summary */}
@@ -1547,75 +2489,240 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                 </div>
                 </CardContent>
               </Card>
-            ) : (
-              /* Per-file bus factor (from file_authorship) */
+            ) : (
+              /* Per-file bus factor (from blame_ownership or file_authorship) */
+              <Card className="py-0 shadow-sm border-border/50 overflow-hidden">
+                <CardContent className="p-0">
+                <div className="px-5 py-3.5 border-b border-border grid grid-cols-4 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">
+                  <span className="col-span-2">File</span>
+                  <span>Dominant Author</span>
+                  <span className="text-right">Concentration</span>
+                </div>
+                <div className="divide-y divide-border">
+                  {data.criticalFiles.map((f) => (
+                    <div key={`${f.repo ?? ''}:${f.file}`} className="px-5 py-3 grid grid-cols-4 items-center gap-2 hover:bg-muted/30 transition-colors">
+                      <div className="col-span-2 min-w-0">
+                        <p className="text-xs font-mono text-foreground truncate">{f.file}</p>
+                        <p className="text-[10px] text-muted-foreground mt-0.5">{(repoBinding?.repositories?.length ?? 0) > 1 && f.repo ? `${f.repo} · ` : ''}{f.authorCount} author{f.authorCount !== 1 ? 's' : ''} · bus factor {f.busFactor}</p>
+                      </div>
+                      <span className="text-xs text-muted-foreground truncate">{f.dominant_author}</span>
+                      <div className="text-right">
+                        <div className="inline-flex items-center gap-1.5">
+                          <div className="w-16 h-1.5 bg-muted rounded-full overflow-hidden">
+                            <div className={`h-full rounded-full ${f.concentration > 90 ? 'bg-red-400' : f.concentration > 75 ? 'bg-yellow-400' : 'bg-emerald-400'}`}
+                              style={{ width: `${f.concentration}%` }} />
+                          </div>
+                          <span className={`text-xs font-medium ${f.concentration > 90 ? 'text-red-400' : f.concentration > 75 ? 'text-yellow-400' : 'text-emerald-400'}`}>
+                            {f.concentration}%
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Force-directed dependency graph */}
+            {data.criticalFiles.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50">
+              <CardContent className="p-5">
+                <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide mb-4 flex items-center gap-1.5">
+                  <GitBranch className="w-3.5 h-3.5" /> Dependency Risk Map (Force Graph)
+                </p>
+                {(() => {
+                  // Build graph data: nodes are files, links connect files sharing the same dominant author
+                  const nodes = data.criticalFiles.slice(0, 20).map((f) => ({
+                    id: f.file,
+                    label: f.file.split('/').pop() ?? f.file,
+                    concentration: f.concentration,
+                    busFactor: f.busFactor,
+                    dominant: f.dominant_author,
+                    val: Math.max(1, 100 - f.busFactor * 20),
+                  }))
+                  const links: Array<{ source: string; target: string }> = []
+                  for (let i = 0; i < nodes.length; i++) {
+                    for (let j = i + 1; j < nodes.length; j++) {
+                      if (nodes[i].dominant && nodes[i].dominant === nodes[j].dominant) {
+                        links.push({ source: nodes[i].id, target: nodes[j].id })
+                      }
+                    }
+                  }
+                  return (
+                    <div className="w-full h-[300px] bg-background rounded-lg border border-border overflow-hidden relative">
+                      <ForceGraph nodes={nodes} links={links} />
+                    </div>
+                  )
+                })()}
+              </CardContent>
+              </Card>
+            )}
+
+            {/* Directory rollups — bus factor per directory, drilled down through a treemap */}
+            {ownershipTree && ownershipTree.node.children.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50">
+                <CardContent className="p-5 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-xs font-semibold text-foreground">Ownership by Directory</p>
+                    <p className="text-[10px] text-muted-foreground mt-0.5">
+                      Area is knowledge volume, color is bus factor. {ownershipTree.node.path || 'Everything'}: bus factor {ownershipTree.node.busFactor} · {ownershipTree.node.files} file{ownershipTree.node.files !== 1 ? 's' : ''}, {ownershipTree.node.criticalFiles} critical
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 text-[10px] text-muted-foreground flex-shrink-0">
+                    <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-red-500/40" />1</span>
+                    <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-yellow-500/40" />2</span>
+                    <span className="inline-flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-sm bg-emerald-500/40" />3+</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-wrap text-[11px]">
+                  {ownershipTree.breadcrumbs.map((c, i) => (
+                    <span key={c.path} className="inline-flex items-center gap-1">
+                      {i > 0 && <ChevronRight className="w-3 h-3 text-muted-foreground" />}
+                      {i < ownershipTree.breadcrumbs.length - 1 ? (
+                        <button type="button" className="font-mono text-muted-foreground hover:text-foreground" onClick={() => setOwnershipPath(c.path)}>{c.name}</button>
+                      ) : (
+                        <span className="font-mono text-foreground">{c.name}</span>
+                      )}
+                    </span>
+                  ))}
+                </div>
+                <OwnershipTreemap nodes={ownershipTree.node.children} onOpen={setOwnershipPath} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* CODEOWNERS drift — declared owners compared with who actually writes the code */}
+            {codeowners && (
+              <Card className="py-0 shadow-sm border-border/50 overflow-hidden">
+                <CardContent className="p-0">
+                <div className="px-5 py-3.5 border-b border-border flex items-start justify-between gap-3">
+                  <div>
+                    <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                      <Shield className="w-3.5 h-3.5" /> CODEOWNERS
+                    </p>
+                    <p className="text-[10px] text-muted-foreground mt-0.5">
+                      {codeowners.path
+                        ? <>{codeowners.repo}: <span className="font-mono">{codeowners.path}</span> · {codeowners.ruleCount} rule{codeowners.ruleCount !== 1 ? 's' : ''} · {codeowners.drift.ownedFiles} of {codeowners.drift.files} files owned</>
+                        : <>No CODEOWNERS file in {codeowners.repo}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {isAdmin && (
+                      <Button size="sm" variant="outline" className="h-7 text-xs" disabled={refreshingCodeowners} onClick={refreshCodeowners}>
+                        {refreshingCodeowners ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />} Re-fetch
+                      </Button>
+                    )}
+                    <Button size="sm" variant="outline" className="h-7 text-xs" disabled={suggestingCodeowners} onClick={suggestCodeowners}>
+                      {suggestingCodeowners ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />} Suggest CODEOWNERS
+                    </Button>
+                  </div>
+                </div>
+                {codeowners.errors.length > 0 && (
+                  <div className="px-5 py-2.5 border-b border-border space-y-0.5">
+                    {codeowners.errors.map((e) => (
+                      <p key={e.line} className="text-[10px] text-yellow-400">Line {e.line} ignored: {e.reason}</p>
+                    ))}
+                  </div>
+                )}
+                {codeowners.drift.staleRules.length > 0 && (
+                  <div className="border-b border-border">
+                    <p className="px-5 pt-3 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">Owners who never touched their paths</p>
+                    <div className="divide-y divide-border">
+                      {codeowners.drift.staleRules.map((r) => (
+                        <div key={r.line} className="px-5 py-2.5 flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className="text-xs font-mono text-foreground truncate" title={r.pattern}>{r.pattern}</p>
+                            <p className="text-[10px] text-muted-foreground">
+                              {r.files} file{r.files !== 1 ? 's' : ''} · written by {r.topAuthors.map((a) => `${a.author} (${a.share}%)`).join(', ') || 'nobody'}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1 flex-wrap justify-end shrink-0">
+                            {r.untouchedOwners.map((o) => (
+                              <span key={o} className="text-[10px] px-1.5 py-0.5 rounded font-medium bg-red-500/10 text-red-400">{o}</span>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {codeowners.drift.unownedHotspots.length > 0 && (
+                  <div className="border-b border-border">
+                    <p className="px-5 pt-3 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">Busy files without an owner</p>
+                    <div className="divide-y divide-border">
+                      {codeowners.drift.unownedHotspots.map((h) => (
+                        <div key={h.file} className="px-5 py-2.5 flex items-center justify-between gap-3">
+                          <p className="text-xs font-mono text-foreground truncate" title={h.file}>{h.file}</p>
+                          <span className="text-[10px] text-muted-foreground shrink-0">
+                            {h.commits} commits · {h.authorCount} author{h.authorCount !== 1 ? 's' : ''}{h.topAuthor && ` · mostly ${h.topAuthor}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {codeowners.drift.staleRules.length === 0 && codeowners.drift.unownedHotspots.length === 0 && (
+                  <p className="px-5 py-3 text-xs text-muted-foreground border-b border-border">Declared owners match who actually changes the code.</p>
+                )}
+                {suggestedCodeowners && (
+                  <div className="px-5 py-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wide">Suggested CODEOWNERS</p>
+                      <div className="flex items-center gap-1">
+                        <button onClick={() => { navigator.clipboard.writeText(suggestedCodeowners); toast.success('Copied!') }} className="p-1 text-muted-foreground hover:text-foreground"><Copy className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => setSuggestedCodeowners(null)} className="p-1 text-muted-foreground hover:text-foreground"><X className="w-3.5 h-3.5" /></button>
+                      </div>
+                    </div>
+                    <pre className="text-[11px] font-mono bg-muted/40 rounded-md p-3 overflow-x-auto max-h-64">{suggestedCodeowners}</pre>
+                  </div>
+                )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Change coupling — files that keep changing together */}
+            {coupling && coupling.pairs.length > 0 && (
               <Card className="py-0 shadow-sm border-border/50 overflow-hidden">
                 <CardContent className="p-0">
-                <div className="px-5 py-3.5 border-b border-border grid grid-cols-4 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">
-                  <span className="col-span-2">File</span>
-                  <span>Dominant Author</span>
-                  <span className="text-right">Concentration</span>
+                <div className="px-5 py-3.5 border-b border-border">
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                    <GitCommit className="w-3.5 h-3.5" /> Change Coupling
+                  </p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">
+                    {coupling.commitsAnalyzed} commits in the last {coupling.days} days · {coupling.flaggedCount} cross-directory pair{coupling.flaggedCount !== 1 ? 's' : ''} flagged
+                  </p>
+                </div>
+                <div className="px-5 py-2.5 border-b border-border grid grid-cols-12 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">
+                  <span className="col-span-4">File A</span>
+                  <span className="col-span-4">File B</span>
+                  <span className="col-span-2 text-right">Co-changes</span>
+                  <span className="col-span-2 text-right">Confidence</span>
                 </div>
                 <div className="divide-y divide-border">
-                  {data.criticalFiles.map((f) => (
-                    <div key={f.file} className="px-5 py-3 grid grid-cols-4 items-center gap-2 hover:bg-muted/30 transition-colors">
-                      <div className="col-span-2 min-w-0">
-                        <p className="text-xs font-mono text-foreground truncate">{f.file}</p>
-                        <p className="text-[10px] text-muted-foreground mt-0.5">{f.authorCount} author{f.authorCount !== 1 ? 's' : ''} · bus factor {f.busFactor}</p>
+                  {coupling.pairs.map((p) => (
+                    <div key={`${p.repo ?? ''}:${p.file_a}|${p.file_b}`} className="px-5 py-3 grid grid-cols-12 items-center gap-2 hover:bg-muted/30 transition-colors">
+                      <div className="col-span-4 min-w-0">
+                        <p className="text-xs font-mono text-foreground truncate" title={p.file_a}>{p.file_a}</p>
+                        {(repoBinding?.repositories?.length ?? 0) > 1 && p.repo && <p className="text-[10px] text-muted-foreground">{p.repo}</p>}
                       </div>
-                      <span className="text-xs text-muted-foreground truncate">{f.dominant_author}</span>
-                      <div className="text-right">
-                        <div className="inline-flex items-center gap-1.5">
-                          <div className="w-16 h-1.5 bg-muted rounded-full overflow-hidden">
-                            <div className={`h-full rounded-full ${f.concentration > 90 ? 'bg-red-400' : f.concentration > 75 ? 'bg-yellow-400' : 'bg-emerald-400'}`}
-                              style={{ width: `${f.concentration}%` }} />
-                          </div>
-                          <span className={`text-xs font-medium ${f.concentration > 90 ? 'text-red-400' : f.concentration > 75 ? 'text-yellow-400' : 'text-emerald-400'}`}>
-                            {f.concentration}%
-                          </span>
-                        </div>
+                      <div className="col-span-4 min-w-0 flex items-center gap-1.5">
+                        <p className="text-xs font-mono text-foreground truncate" title={p.file_b}>{p.file_b}</p>
+                        {p.flagged && (
+                          <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded font-medium bg-yellow-500/10 text-yellow-400">cross-directory</span>
+                        )}
                       </div>
+                      <span className="col-span-2 text-right text-xs text-muted-foreground">{p.support}</span>
+                      <span className={`col-span-2 text-right text-xs font-medium ${p.confidence >= 0.8 ? 'text-red-400' : p.confidence >= 0.5 ? 'text-yellow-400' : 'text-emerald-400'}`}>
+                        {Math.round(p.confidence * 100)}%
+                      </span>
                     </div>
                   ))}
                 </div>
                 </CardContent>
               </Card>
             )}
-
-            {/* Force-directed dependency graph */}
-            {data.criticalFiles.length > 0 && (
-              <Card className="py-0 shadow-sm border-border/50">
-              <CardContent className="p-5">
-                <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide mb-4 flex items-center gap-1.5">
-                  <GitBranch className="w-3.5 h-3.5" /> Dependency Risk Map (Force Graph)
-                </p>
-                {(() => {
-                  // Build graph data: nodes are files, links connect files sharing the same dominant author
-                  const nodes = data.criticalFiles.slice(0, 20).map((f) => ({
-                    id: f.file,
-                    label: f.file.split('/').pop() ?? f.file,
-                    concentration: f.concentration,
-                    busFactor: f.busFactor,
-                    dominant: f.dominant_author,
-                    val: Math.max(1, 100 - f.busFactor * 20),
-                  }))
-                  const links: Array<{ source: string; target: string }> = []
-                  for (let i = 0; i < nodes.length; i++) {
-                    for (let j = i + 1; j < nodes.length; j++) {
-                      if (nodes[i].dominant && nodes[i].dominant === nodes[j].dominant) {
-                        links.push({ source: nodes[i].id, target: nodes[j].id })
-                      }
-                    }
-                  }
-                  return (
-                    <div className="w-full h-[300px] bg-background rounded-lg border border-border overflow-hidden relative">
-                      <ForceGraph nodes={nodes} links={links} />
-                    </div>
-                  )
-                })()}
-              </CardContent>
-              </Card>
-            )}
           </div>
         )}
 
@@ -1895,6 +3002,90 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                   </Card>
                 )}
 
+                {/* Knowledge-loss simulation — contributors picked with "What if they leave?" */}
+                {leaving.length > 0 && (
+                  <Card className="py-0 shadow-sm border-border/50 overflow-hidden">
+                    <CardContent className="p-0">
+                    <div className="px-5 py-3.5 border-b border-border flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-2 flex-wrap min-w-0">
+                        <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                          <UserMinus className="w-3.5 h-3.5" /> If they leave
+                        </p>
+                        {leaving.map((u) => (
+                          <Badge key={u} variant="outline" className="text-[10px] gap-1">
+                            {u}
+                            <button type="button" aria-label={`Remove ${u}`} onClick={() => setLeaving((prev) => prev.filter((p) => p !== u))}>
+                              <X className="w-2.5 h-2.5" />
+                            </button>
+                          </Badge>
+                        ))}
+                      </div>
+                      <Button size="sm" variant="ghost" className="h-6 text-[10px] px-2" onClick={() => setLeaving([])}>Clear</Button>
+                    </div>
+                    {!departureSim ? (
+                      <div className="px-5 py-6 text-center"><Loader2 className="w-4 h-4 animate-spin text-muted-foreground mx-auto" /></div>
+                    ) : (
+                      <>
+                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 px-5 py-4 border-b border-border">
+                          <div>
+                            <p className={`text-lg font-bold ${departureSim.busFactorAfter < departureSim.busFactorBefore ? 'text-red-400' : 'text-foreground'}`}>
+                              {departureSim.busFactorBefore} → {departureSim.busFactorAfter}
+                            </p>
+                            <p className="text-[9px] text-muted-foreground uppercase tracking-wide">Codebase bus factor</p>
+                          </div>
+                          <div>
+                            <p className={`text-lg font-bold ${departureSim.orphanedFileCount > 0 ? 'text-red-400' : 'text-emerald-400'}`}>{departureSim.orphanedFileCount}</p>
+                            <p className="text-[9px] text-muted-foreground uppercase tracking-wide">Orphaned files (of {departureSim.affectedFiles} touched)</p>
+                          </div>
+                          <div>
+                            <p className="text-lg font-bold text-foreground">{departureSim.orphanedDirectoryCount}</p>
+                            <p className="text-[9px] text-muted-foreground uppercase tracking-wide">Orphaned directories</p>
+                          </div>
+                          <div>
+                            <p className="text-lg font-bold text-foreground">~{departureSim.orphanedLines.toLocaleString()}</p>
+                            <p className="text-[9px] text-muted-foreground uppercase tracking-wide">Lines orphaned · ~{departureSim.affectedLines.toLocaleString()} theirs</p>
+                          </div>
+                        </div>
+                        <p className="px-5 pt-3 text-[10px] text-muted-foreground">
+                          Orphaned: nobody remaining holds {Math.round(departureSim.threshold * 100)}% or more of the knowledge.
+                        </p>
+                        {departureSim.orphanedDirectories.length > 0 && (
+                          <div className="px-5 pt-3">
+                            <p className="text-[10px] font-medium text-muted-foreground uppercase tracking-wide mb-1.5">Directories</p>
+                            <div className="flex flex-wrap gap-1.5">
+                              {departureSim.orphanedDirectories.slice(0, 12).map((d) => (
+                                <Badge key={d.path} variant="outline" className="text-[10px] font-mono bg-red-400/10 text-red-400 border-red-400/30"
+                                  title={`${d.orphanedFiles} of ${d.files} files orphaned, ~${d.lines.toLocaleString()} lines${d.remainingAuthor ? ` · best remaining: ${d.remainingAuthor} (${d.remainingShare}%)` : ''}`}>
+                                  {d.path}/
+                                </Badge>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        {departureSim.orphanedFiles.length > 0 ? (
+                          <div className="divide-y divide-border mt-3 border-t border-border max-h-72 overflow-y-auto">
+                            {departureSim.orphanedFiles.slice(0, 25).map((f) => (
+                              <div key={`${f.repo ?? ''}:${f.file}`} className="px-5 py-2 grid grid-cols-12 items-center gap-2">
+                                <div className="col-span-7 min-w-0">
+                                  <p className="text-xs font-mono text-foreground truncate">{f.file}</p>
+                                  {(repoBinding?.repositories?.length ?? 0) > 1 && f.repo && <p className="text-[10px] text-muted-foreground">{f.repo}</p>}
+                                </div>
+                                <span className="col-span-2 text-[10px] text-muted-foreground text-right">~{f.lines.toLocaleString()} lines</span>
+                                <span className="col-span-3 text-[10px] text-muted-foreground text-right truncate">
+                                  {f.remainingAuthor ? `${f.remainingAuthor} ${f.remainingShare}%` : 'nobody left'}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="px-5 py-4 text-xs text-muted-foreground">No files would be left without a knowledgeable owner.</p>
+                        )}
+                      </>
+                    )}
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Contributor cards */}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                   {data.teamStats.map((member) => {
@@ -1923,9 +3114,20 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                               )}
                             </div>
                           </div>
-                          <Badge variant="outline" className={`text-[10px] ${statusColors[member.status] ?? statusColors.inactive}`}>
-                            {member.status}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            <Button
+                              size="sm"
+                              variant={leaving.includes(member.username) ? 'secondary' : 'ghost'}
+                              className="h-6 text-[10px] px-2"
+                              onClick={() => setLeaving((prev) => prev.includes(member.username) ? prev.filter((u) => u !== member.username) : [...prev, member.username])}
+                            >
+                              <UserMinus className="w-3 h-3 mr-1" />
+                              {leaving.includes(member.username) ? 'In simulation' : 'What if they leave?'}
+                            </Button>
+                            <Badge variant="outline" className={`text-[10px] ${statusColors[member.status] ?? statusColors.inactive}`}>
+                              {member.status}
+                            </Badge>
+                          </div>
                         </div>
 
                         {/* Stats grid */}
@@ -1992,6 +3194,110 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                 </div>
               </>
             )}
+
+            {/* Identity registry — one person behind several emails, logins and chat accounts */}
+            {identityRegistry && (identityRegistry.people.length > 0 || identityRegistry.suggestions.length > 0) && (
+              <Card className="py-0 shadow-sm border-border/50 overflow-hidden">
+                <CardContent className="p-0">
+                <div className="px-5 py-3.5 border-b border-border">
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                    <Users className="w-3.5 h-3.5" /> Contributor Identities
+                  </p>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">
+                    Emails, GitHub logins, Discord accounts and phone numbers counted as one person in team stats and blocker alerts
+                  </p>
+                </div>
+                {identityRegistry.suggestions.length > 0 && (
+                  <div className="border-b border-border">
+                    <p className="px-5 pt-3 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">Suggested merges</p>
+                    <div className="divide-y divide-border">
+                      {identityRegistry.suggestions.map((s) => {
+                        const key = s.identities.map((i) => `${i.kind}:${i.value}`).join('|')
+                        return (
+                          <div key={key} className="px-5 py-2.5 flex items-center justify-between gap-3">
+                            <div className="min-w-0 space-y-1">
+                              <p className="text-xs font-medium text-foreground">{s.display_name}</p>
+                              <div className="flex items-center gap-1 flex-wrap">
+                                {s.identities.map((i) => (
+                                  <Badge key={`${i.kind}:${i.value}`} variant="outline" className="text-[10px] font-mono" title={i.name ?? undefined}>{i.kind}: {i.value}</Badge>
+                                ))}
+                              </div>
+                              <p className="text-[10px] text-muted-foreground">{s.reasons.join(' · ')}</p>
+                            </div>
+                            {isAdmin && (
+                              <Button size="sm" variant="outline" className="h-7 text-xs shrink-0" disabled={mergingIdentities === key} onClick={() => mergeIdentities(s)}>
+                                {mergingIdentities === key ? <Loader2 className="w-3 h-3 animate-spin" /> : <UserPlus className="w-3 h-3" />} Merge
+                              </Button>
+                            )}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
+                {identityRegistry.people.length > 0 && (
+                  <div>
+                    <p className="px-5 pt-3 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">People</p>
+                    <div className="divide-y divide-border">
+                      {identityRegistry.people.map((p) => (
+                        <div key={p.id} className="px-5 py-2.5 flex items-center justify-between gap-3">
+                          <div className="min-w-0 space-y-1">
+                            <p className="text-xs font-medium text-foreground">{p.display_name}</p>
+                            <div className="flex items-center gap-1 flex-wrap">
+                              {p.identities.map((i) => (
+                                <Badge key={`${i.kind}:${i.value}`} variant="outline" className="text-[10px] font-mono">{i.kind}: {i.value}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                          {isAdmin && (
+                            <Button size="sm" variant="ghost" className="h-7 text-xs shrink-0" onClick={() => splitPerson(p.id)}>
+                              <X className="w-3 h-3" /> Split
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Review load — from pull_request_review events */}
+            {reviewers.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50 overflow-hidden">
+                <CardContent className="p-0">
+                <div className="px-5 py-3.5 border-b border-border">
+                  <p className="text-xs text-muted-foreground font-medium uppercase tracking-wide flex items-center gap-1.5">
+                    <Eye className="w-3.5 h-3.5" /> Review Load (last 30 days)
+                  </p>
+                </div>
+                <div className="px-5 py-2.5 border-b border-border grid grid-cols-12 text-[10px] font-medium text-muted-foreground uppercase tracking-wide">
+                  <span className="col-span-3">Reviewer</span>
+                  <span className="col-span-2 text-right">Reviews</span>
+                  <span className="col-span-2 text-right">Pending</span>
+                  <span className="col-span-3 text-right">Approved / Changes / Comments</span>
+                  <span className="col-span-2 text-right">Median Response</span>
+                </div>
+                <div className="divide-y divide-border">
+                  {reviewers.map((r) => (
+                    <div key={r.reviewer} className="px-5 py-3 grid grid-cols-12 items-center gap-2 hover:bg-muted/30 transition-colors">
+                      <div className="col-span-3 min-w-0">
+                        <p className="text-xs font-medium text-foreground truncate">{r.reviewer}</p>
+                        <p className="text-[10px] text-muted-foreground">{r.prsReviewed} PR{r.prsReviewed !== 1 ? 's' : ''} reviewed</p>
+                      </div>
+                      <span className="col-span-2 text-right text-xs text-foreground">{r.reviews}</span>
+                      <span className={`col-span-2 text-right text-xs font-medium ${r.pendingRequests > 3 ? 'text-red-400' : r.pendingRequests > 1 ? 'text-yellow-400' : 'text-muted-foreground'}`}>{r.pendingRequests}</span>
+                      <span className="col-span-3 text-right text-xs text-muted-foreground">{r.approvals} / {r.changesRequested} / {r.comments}</span>
+                      <span className={`col-span-2 text-right text-xs font-medium ${r.medianResponseHours === null ? 'text-muted-foreground' : r.medianResponseHours > 24 ? 'text-red-400' : r.medianResponseHours > 8 ? 'text-yellow-400' : 'text-emerald-400'}`}>
+                        {r.medianResponseHours === null ? '—' : `${r.medianResponseHours}h`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
 
@@ -2680,27 +3986,71 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
               <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
                 <GitBranch className="w-4 h-4" /> Repository Binding
               </h3>
-              {repoBinding?.bound && repoBinding.repo ? (
+              {repoBinding?.bound && (
                 <div className="space-y-3">
-                  <div className="flex items-center justify-between bg-muted rounded-lg p-3">
-                    <div className="flex items-center gap-3">
-                      <GitBranch className="w-5 h-5 text-primary" />
-                      <div>
-                        <a href={repoBinding.repo.url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-foreground hover:text-primary transition-colors">
-                          {repoBinding.repo.owner}/{repoBinding.repo.name}
-                        </a>
-                        <div className="flex items-center gap-2 mt-0.5">
-                          {repoBinding.repo.private && <span className="text-[10px] px-1.5 py-0.5 bg-yellow-500/10 text-yellow-400 rounded">Private</span>}
-                          <span className="text-[10px] text-muted-foreground">default: {repoBinding.repo.default_branch}</span>
-                          {repoBinding.repo.webhook_active && <span className="text-[10px] px-1.5 py-0.5 bg-emerald-500/10 text-emerald-400 rounded flex items-center gap-1"><CheckCircle className="w-2.5 h-2.5" /> Webhook active</span>}
+                  {(repoBinding.repositories ?? []).map((r) => (
+                    <div key={r.full_name} className="flex items-center justify-between bg-muted rounded-lg p-3">
+                      <div className="flex items-center gap-3">
+                        <GitBranch className="w-5 h-5 text-primary" />
+                        <div>
+                          <a href={r.url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-foreground hover:text-primary transition-colors">
+                            {r.full_name}
+                          </a>
+                          <div className="flex items-center gap-2 mt-0.5">
+                            {r.private && <span className="text-[10px] px-1.5 py-0.5 bg-yellow-500/10 text-yellow-400 rounded">Private</span>}
+                            <span className="text-[10px] text-muted-foreground">default: {r.default_branch}</span>
+                            {r.webhook_active && <span className="text-[10px] px-1.5 py-0.5 bg-emerald-500/10 text-emerald-400 rounded flex items-center gap-1"><CheckCircle className="w-2.5 h-2.5" /> Webhook active</span>}
+                            {r.installation_id && <span className="text-[10px] px-1.5 py-0.5 bg-primary/10 text-primary rounded" title="Synced with the GitHub App installation token, independent of any user">GitHub App</span>}
+                          </div>
+                          {r.last_resync_at && (
+                            <p className={`text-[10px] mt-1 ${r.last_resync_summary?.error ? 'text-red-400' : 'text-muted-foreground'}`}>
+                              Resynced {formatDistanceToNow(new Date(r.last_resync_at), { addSuffix: true })}
+                              {r.last_resync_summary && ` · ${describeResync(r.last_resync_summary)}`}
+                            </p>
+                          )}
+                          {repoImports[r.full_name] && (() => {
+                            const imp = repoImports[r.full_name]
+                            const { commits, pullRequests, issues } = imp.progress
+                            const count = (c: ImportCount) => `${c.imported.toLocaleString()}${c.total !== null ? ` / ${c.total.toLocaleString()}` : ''}`
+                            return (
+                              <div className="mt-1.5 space-y-1">
+                                <p className={`text-[10px] ${imp.status === 'failed' ? 'text-red-400' : 'text-muted-foreground'}`}>
+                                  {imp.status === 'completed' ? `History imported ${formatDistanceToNow(new Date(imp.finished_at ?? imp.started_at), { addSuffix: true })}` :
+                                    imp.status === 'failed' ? `Import failed: ${imp.last_error ?? 'unknown error'}` :
+                                    imp.status === 'waiting' && imp.rate_limited_until ? `Rate limited, resuming ${formatDistanceToNow(new Date(imp.rate_limited_until), { addSuffix: true })}` :
+                                    'Importing full history'}
+                                  {' · '}imported {count(commits)} commits, {count(pullRequests)} PRs, {count(issues)} issues
+                                </p>
+                                {imp.status !== 'completed' && imp.status !== 'failed' && (
+                                  <div className="w-48 h-1 bg-background rounded-full overflow-hidden">
+                                    <div className="h-full bg-primary rounded-full transition-all" style={{ width: `${(imp.phase === 'commits' ? commits.percent : imp.phase === 'pull_requests' ? pullRequests.percent : issues.percent) ?? 0}%` }} />
+                                  </div>
+                                )}
+                              </div>
+                            )
+                          })()}
                         </div>
                       </div>
+                      <div className="flex items-center gap-1">
+                        {isAdmin && !['queued', 'running', 'waiting'].includes(repoImports[r.full_name]?.status ?? '') && (
+                          <button onClick={() => startImport(r.full_name)} disabled={startingImport !== null} title="Page through every commit, PR and issue; resumes after restarts and rate limits" className="text-xs text-muted-foreground hover:text-foreground transition-colors px-2 py-1 rounded hover:bg-background/60 disabled:opacity-50 flex items-center gap-1">
+                            <History className="w-3.5 h-3.5" />
+                            {startingImport === r.full_name ? 'Starting...' : 'Import history'}
+                          </button>
+                        )}
+                        {isAdmin && (
+                          <button onClick={() => resyncRepo(r.full_name)} disabled={resyncingRepo !== null} title="Fetch anything the webhook missed since the last sync" className="text-xs text-muted-foreground hover:text-foreground transition-colors px-2 py-1 rounded hover:bg-background/60 disabled:opacity-50 flex items-center gap-1">
+                            <RefreshCw className={`w-3.5 h-3.5 ${resyncingRepo === r.full_name ? 'animate-spin' : ''}`} />
+                            {resyncingRepo === r.full_name ? 'Resyncing...' : 'Resync'}
+                          </button>
+                        )}
+                        <button onClick={() => unbindRepo(r.full_name)} disabled={unbindLoading} className="text-xs text-red-400 hover:text-red-300 transition-colors px-2 py-1 rounded hover:bg-red-400/10 disabled:opacity-50 flex items-center gap-1">
+                          {unbindLoading ? <div className="w-3 h-3 border-2 border-red-400 border-t-transparent rounded-full animate-spin" /> : <X className="w-3.5 h-3.5" />}
+                          {unbindLoading ? 'Unbinding...' : 'Unbind'}
+                        </button>
+                      </div>
                     </div>
-                    <button onClick={unbindRepo} disabled={unbindLoading} className="text-xs text-red-400 hover:text-red-300 transition-colors px-2 py-1 rounded hover:bg-red-400/10 disabled:opacity-50 flex items-center gap-1">
-                      {unbindLoading ? <div className="w-3 h-3 border-2 border-red-400 border-t-transparent rounded-full animate-spin" /> : <X className="w-3.5 h-3.5" />}
-                      {unbindLoading ? 'Unbinding...' : 'Unbind'}
-                    </button>
-                  </div>
+                  ))}
                   {/* Manual webhook info */}
                   <details className="text-xs text-muted-foreground">
                     <summary className="cursor-pointer hover:text-foreground transition-colors">Manual webhook details</summary>
@@ -2721,50 +4071,67 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
                           <button onClick={() => { navigator.clipboard.writeText(wsInfo.github_webhook_secret ?? ''); toast.success('Copied!') }} className="p-1 hover:text-foreground"><Copy className="w-3.5 h-3.5" /></button>
                         </div>
                       </div>}
-                      <div><span>Events:</span> <code className="text-foreground ml-1">push, pull_request, issues, deployment_status, member</code></div>
+                      <div><span>Events:</span> <code className="text-foreground ml-1">push, create, delete, release, pull_request, pull_request_review, pull_request_review_comment, issues, deployment_status, member</code></div>
                     </div>
                   </details>
                 </div>
-              ) : (
-                <div className="space-y-3">
-                  <p className="text-xs text-muted-foreground">Select a GitHub repository to monitor. This will configure webhooks, fetch historical data, and sync collaborators.</p>
-                  {repoList.length === 0 ? (
-                    <button onClick={fetchRepos} disabled={repoLoading} className="px-4 py-2 bg-primary text-primary-foreground rounded-lg text-xs font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors flex items-center gap-2">
-                      {repoLoading ? <><RefreshCw className="w-3.5 h-3.5 animate-spin" /> Loading repos...</> : <><GitBranch className="w-3.5 h-3.5" /> Browse Repositories</>}
+              )}
+              {githubApp?.configured && (
+                <div className="flex items-center justify-between bg-muted rounded-lg p-3">
+                  <div>
+                    <p className="text-xs font-medium text-foreground">GitHub App</p>
+                    <p className="text-[10px] text-muted-foreground mt-0.5">
+                      {githubApp.installation
+                        ? `Installed on ${githubApp.installation.account_login}${githubApp.installation.suspended_at ? ' (suspended)' : ''} — repositories it covers sync without a user's token`
+                        : 'Not installed — syncing uses the GitHub token of whoever bound each repository'}
+                    </p>
+                  </div>
+                  {isAdmin && githubApp.installable && (
+                    <button onClick={installGitHubApp} disabled={installingApp} className="text-xs text-muted-foreground hover:text-foreground transition-colors px-2 py-1 rounded hover:bg-background/60 disabled:opacity-50 flex items-center gap-1 shrink-0">
+                      <Github className="w-3.5 h-3.5" />
+                      {installingApp ? 'Redirecting...' : githubApp.installation ? 'Configure' : 'Install GitHub App'}
                     </button>
-                  ) : (
-                    <div className="space-y-2">
-                      <div className="relative">
-                        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
-                        <input value={repoSearch} onChange={(e) => setRepoSearch(e.target.value)} placeholder="Filter repositories..." className="w-full pl-8 pr-3 py-2 bg-muted border border-border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-ring text-foreground" />
-                      </div>
-                      <div className="max-h-64 overflow-y-auto border border-border rounded-lg divide-y divide-border">
-                        {filteredRepos.slice(0, 50).map((r) => (
-                          <button key={r.id} onClick={() => bindRepo(r.owner, r.name)} disabled={bindingLoading}
-                            className="w-full text-left px-3 py-2.5 hover:bg-muted/50 transition-colors disabled:opacity-50 flex items-center justify-between group">
-                            <div className="flex items-center gap-2 min-w-0">
-                              <img src={r.owner_avatar} alt="" className="w-5 h-5 rounded-full" />
-                              <div className="min-w-0">
-                                <span className="text-xs font-medium text-foreground block truncate">{r.full_name}</span>
-                                <div className="flex items-center gap-2">
-                                  {r.description && <span className="text-[10px] text-muted-foreground truncate max-w-[200px]">{r.description}</span>}
-                                  {r.language && <span className="text-[10px] text-muted-foreground">{r.language}</span>}
-                                  {r.private && <span className="text-[10px] px-1 py-0 bg-yellow-500/10 text-yellow-400 rounded">Private</span>}
-                                </div>
-                              </div>
-                            </div>
-                            <span className="text-[10px] text-primary opacity-0 group-hover:opacity-100 transition-opacity shrink-0 ml-2">
-                              {bindingLoading ? 'Binding...' : 'Select'}
-                            </span>
-                          </button>
-                        ))}
-                        {filteredRepos.length === 0 && <div className="text-xs text-muted-foreground text-center py-4">No matching repositories found</div>}
-                      </div>
-                      <button onClick={() => setRepoList([])} className="text-xs text-muted-foreground hover:text-foreground transition-colors">Cancel</button>
-                    </div>
                   )}
                 </div>
               )}
+              <div className="space-y-3">
+                <p className="text-xs text-muted-foreground">{repoBinding?.bound ? 'Add another GitHub repository to this workspace. Each repository gets its own webhook and historical sync.' : 'Select a GitHub repository to monitor. This will configure webhooks, fetch historical data, and sync collaborators.'}</p>
+                {repoList.length === 0 ? (
+                  <button onClick={fetchRepos} disabled={repoLoading} className="px-4 py-2 bg-primary text-primary-foreground rounded-lg text-xs font-medium hover:bg-primary/90 disabled:opacity-50 transition-colors flex items-center gap-2">
+                    {repoLoading ? <><RefreshCw className="w-3.5 h-3.5 animate-spin" /> Loading repos...</> : <><GitBranch className="w-3.5 h-3.5" /> {repoBinding?.bound ? 'Add Repository' : 'Browse Repositories'}</>}
+                  </button>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="relative">
+                      <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+                      <input value={repoSearch} onChange={(e) => setRepoSearch(e.target.value)} placeholder="Filter repositories..." className="w-full pl-8 pr-3 py-2 bg-muted border border-border rounded-lg text-xs focus:outline-none focus:ring-2 focus:ring-ring text-foreground" />
+                    </div>
+                    <div className="max-h-64 overflow-y-auto border border-border rounded-lg divide-y divide-border">
+                      {filteredRepos.slice(0, 50).map((r) => (
+                        <button key={r.id} onClick={() => bindRepo(r.owner, r.name)} disabled={bindingLoading}
+                          className="w-full text-left px-3 py-2.5 hover:bg-muted/50 transition-colors disabled:opacity-50 flex items-center justify-between group">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <img src={r.owner_avatar} alt="" className="w-5 h-5 rounded-full" />
+                            <div className="min-w-0">
+                              <span className="text-xs font-medium text-foreground block truncate">{r.full_name}</span>
+                              <div className="flex items-center gap-2">
+                                {r.description && <span className="text-[10px] text-muted-foreground truncate max-w-[200px]">{r.description}</span>}
+                                {r.language && <span className="text-[10px] text-muted-foreground">{r.language}</span>}
+                                {r.private && <span className="text-[10px] px-1 py-0 bg-yellow-500/10 text-yellow-400 rounded">Private</span>}
+                              </div>
+                            </div>
+                          </div>
+                          <span className="text-[10px] text-primary opacity-0 group-hover:opacity-100 transition-opacity shrink-0 ml-2">
+                            {bindingLoading ? 'Binding...' : 'Select'}
+                          </span>
+                        </button>
+                      ))}
+                      {filteredRepos.length === 0 && <div className="text-xs text-muted-foreground text-center py-4">No matching repositories found</div>}
+                    </div>
+                    <button onClick={() => setRepoList([])} className="text-xs text-muted-foreground hover:text-foreground transition-colors">Cancel</button>
+                  </div>
+                )}
+              </div>
             </CardContent>
             </Card>
 
@@ -2835,6 +4202,216 @@ export default function WorkspaceDashboard({ params }: { params: Promise<{ works
               </Card>
             )}
 
+            {/* Heuristic thresholds */}
+            {heuristicSettings && (
+              <Card className="py-0 shadow-sm border-border/50">
+              <CardContent className="p-5 space-y-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                    <Zap className="w-4 h-4" /> Heuristic Thresholds
+                  </h3>
+                  <p className="text-xs text-muted-foreground mt-1">When alerts fire and cycle-time phases are flagged for this workspace</p>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {[
+                    { key: 'inactive_branch_days', label: 'Inactive branch', unit: 'days' },
+                    { key: 'stale_pr_hours', label: 'Stale PR', unit: 'hours' },
+                    { key: 'wip_threshold', label: 'WIP limit', unit: 'open PRs' },
+                    { key: 'cycle_time_threshold_hours', label: 'Total cycle time', unit: 'hours' },
+                    { key: 'coding_time_threshold_hours', label: 'Coding time', unit: 'hours' },
+                    { key: 'deployment_time_threshold_hours', label: 'Deployment time', unit: 'hours' },
+                  ].map((field) => (
+                    <div key={field.key} className="space-y-1">
+                      <label className="text-[10px] text-muted-foreground uppercase tracking-wide">{field.label} ({field.unit})</label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={heuristicSettings[field.key] ?? ''}
+                        disabled={!isAdmin}
+                        onChange={(e) => setHeuristicSettings((prev) => prev ? { ...prev, [field.key]: Number(e.target.value) } : prev)}
+                      />
+                      {heuristicDefaults && <p className="text-[10px] text-muted-foreground">Default: {heuristicDefaults[field.key]}</p>}
+                    </div>
+                  ))}
+                </div>
+                {isAdmin && (
+                  <Button size="sm" onClick={saveHeuristicSettings} disabled={heuristicSettingsSaving} className="gap-1.5">
+                    {heuristicSettingsSaving ? <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <Save className="w-3 h-3" />}
+                    Save thresholds
+                  </Button>
+                )}
+              </CardContent>
+              </Card>
+            )}
+
+            {/* Heuristic rules */}
+            {heuristicRules.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50">
+              <CardContent className="p-5 space-y-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                    <Shield className="w-4 h-4" /> Heuristic Rules
+                  </h3>
+                  <p className="text-xs text-muted-foreground mt-1">Switch individual checks on or off and override the severity of the alerts they raise</p>
+                </div>
+                <div className="space-y-1">
+                  {heuristicRules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between gap-3 py-2">
+                      <div className="min-w-0">
+                        <p className="text-xs font-medium text-foreground">{rule.name}</p>
+                        <p className="text-[10px] text-muted-foreground mt-0.5 font-mono">{rule.id} · {rule.type}</p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <select
+                          value={rule.severity}
+                          disabled={!isAdmin}
+                          onChange={(e) => updateHeuristicRule(rule.id, { severity: e.target.value })}
+                          className="px-2 py-1 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+                        >
+                          <option value="critical">Critical</option>
+                          <option value="warning">Warning</option>
+                          <option value="info">Info</option>
+                        </select>
+                        {isAdmin && (
+                          <Button variant="ghost" size="sm" onClick={() => runHeuristicRule(rule.id)} disabled={runningRuleId !== null} className="text-xs gap-1">
+                            {runningRuleId === rule.id ? <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <Zap className="w-3 h-3" />}
+                            Run
+                          </Button>
+                        )}
+                        <Switch
+                          checked={rule.enabled}
+                          disabled={!isAdmin}
+                          onCheckedChange={(checked) => updateHeuristicRule(rule.id, { enabled: checked })}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+              </Card>
+            )}
+
+            {/* Escalation policy */}
+            {escalationSteps.length > 0 && (
+              <Card className="py-0 shadow-sm border-border/50">
+              <CardContent className="p-5 space-y-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                    <Bell className="w-4 h-4" /> Escalation Policy
+                  </h3>
+                  <p className="text-xs text-muted-foreground mt-1">What happens while a critical alert stays unacknowledged, measured from when it was raised</p>
+                </div>
+                <div className="space-y-2">
+                  {escalationSteps.map((step, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <span className="text-[10px] text-muted-foreground uppercase tracking-wide w-12 shrink-0">Step {i + 1}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={step.after_hours}
+                        disabled={!isAdmin}
+                        onChange={(e) => setEscalationSteps((prev) => prev.map((s, j) => j === i ? { ...s, after_hours: Number(e.target.value) } : s))}
+                        className="w-20 h-8 text-xs"
+                      />
+                      <span className="text-xs text-muted-foreground shrink-0">hours →</span>
+                      <select
+                        value={step.action}
+                        disabled={!isAdmin}
+                        onChange={(e) => setEscalationSteps((prev) => prev.map((s, j) => j === i ? { ...s, action: e.target.value } : s))}
+                        className="flex-1 px-2 py-1.5 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+                      >
+                        {Object.entries(ESCALATION_ACTION_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                      {isAdmin && escalationSteps.length > 1 && (
+                        <button onClick={() => setEscalationSteps((prev) => prev.filter((_, j) => j !== i))} className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded" title="Remove step">
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {isAdmin && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={escalationSteps.length >= 10}
+                      onClick={() => setEscalationSteps((prev) => [...prev, { after_hours: (prev[prev.length - 1]?.after_hours ?? 0) + 2, action: 'notify_admins' }])}
+                      className="gap-1.5"
+                    >
+                      <Plus className="w-3 h-3" /> Add step
+                    </Button>
+                    <Button size="sm" onClick={saveEscalationPolicy} disabled={escalationSaving} className="gap-1.5">
+                      {escalationSaving ? <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <Save className="w-3 h-3" />}
+                      Save policy
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+              </Card>
+            )}
+
+            {/* Webhook deliveries */}
+            {isAdmin && repoBinding?.bound && (
+              <Card className="py-0 shadow-sm border-border/50">
+              <CardContent className="p-5 space-y-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                      <Github className="w-4 h-4" /> Webhook Deliveries
+                    </h3>
+                    <p className="text-xs text-muted-foreground mt-1">GitHub events are stored and queued for processing; failed deliveries can be replayed</p>
+                  </div>
+                  <select
+                    value={deliveryFilter}
+                    onChange={(e) => setDeliveryFilter(e.target.value as 'failed' | 'all')}
+                    className="px-2 py-1.5 text-xs bg-background border border-border rounded-lg text-foreground focus:outline-none focus:ring-1 focus:ring-primary"
+                  >
+                    <option value="failed">Failed</option>
+                    <option value="all">All recent</option>
+                  </select>
+                </div>
+                {webhookDeliveries.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">{deliveryFilter === 'failed' ? 'No failed deliveries' : 'No deliveries recorded yet'}</p>
+                ) : (
+                  <div className="divide-y divide-border border border-border/50 rounded-lg">
+                    {webhookDeliveries.map((d) => (
+                      <div key={d.id} className="px-3 py-2.5 flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs font-medium text-foreground">{d.event}{d.action ? `.${d.action}` : ''}</span>
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium ${
+                              d.status === 'failed' ? 'bg-red-500/10 text-red-400' :
+                              d.status === 'processed' ? 'bg-emerald-500/10 text-emerald-400' :
+                              d.status === 'queued' ? 'bg-blue-500/10 text-blue-400' :
+                              'bg-yellow-500/10 text-yellow-400'
+                            }`}>
+                              {d.status}
+                            </span>
+                            {d.attempts > 1 && <span className="text-[10px] text-muted-foreground">{d.attempts} attempts</span>}
+                          </div>
+                          <p className="text-[10px] text-muted-foreground truncate mt-0.5">
+                            {formatDistanceToNow(new Date(d.received_at), { addSuffix: true })}
+                            {d.elapsed_ms !== null && ` · ${d.elapsed_ms}ms`}
+                            {d.error && ` · ${d.error}`}
+                          </p>
+                        </div>
+                        {d.status !== 'processing' && (
+                          <Button variant="outline" size="sm" onClick={() => replayWebhookDelivery(d.id)} disabled={replayingDeliveryId === d.id} className="gap-1.5 shrink-0">
+                            {replayingDeliveryId === d.id ? <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+                            Replay
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+              </Card>
+            )}
+
             {/* Invite */}
             <Card className="py-0 shadow-sm border-border/50">
             <CardContent className="p-5 space-y-4">
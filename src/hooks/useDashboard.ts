@@ -18,8 +18,10 @@ interface DashboardData {
   recentCommits: Array<{ sha?: string; author_github_username: string; author_avatar?: string | null; committed_at: string; commit_type: string; message?: string; lines_added: number; lines_deleted: number }>
   pullRequests: Array<{ id: string; github_pr_number: number; title: string; state: string; author_github_username: string; opened_at: string; merged_at: string | null; lines_added: number; lines_deleted: number }>
   issues: Array<{ github_issue_number: number; title: string; state: string; assignee_github_username: string | null; opened_at: string; labels?: string[] }>
-  alerts: Array<{ id: string; type: string; severity: string; title: string; description: string; created_at: string; resolved: boolean }>
-  criticalFiles: Array<{ file: string; busFactor: number; dominant_author: string | null; concentration: number; authorCount: number }>
+  alerts: Array<{ id: string; type: string; severity: string; title: string; description: string; created_at: string; resolved: boolean; acknowledged?: boolean; snoozed_until?: string | null; assigned_to?: string | null; occurrence_count?: number; last_seen_at?: string | null; escalation_log?: Array<{ action: string; after_hours: number; executed_at: string; result: 'sent' | 'skipped' | 'failed'; detail?: string }> }>
+  criticalFiles: Array<{ file: string; repo?: string; busFactor: number; dominant_author: string | null; concentration: number; authorCount: number }>
+  // Which data the per-file bus factor came from; 'contributors' is the live fallback without file data
+  ownershipModel?: 'blame' | 'authorship' | 'mixed' | 'contributors' | null
   codebaseBusFactor?: number
   members: Array<{ role: string; user: { id: string; name: string; avatar_url: string | null; github_username: string | null } }>
   healthHistory: Array<{ score: number; snapshot_at: string }>
@@ -36,9 +38,12 @@ interface DashboardData {
     lastActive: string | null;
   }>
   liveSource?: boolean
+  /** Set when live data was skipped because the GitHub token hit its rate limit */
+  githubRateLimit?: { limit: number | null; remaining: number; reset_at: string | null } | null
 }
 
-export function useDashboard(workspaceId: string | null) {
+/** `repo` narrows the dashboard to one bound repository (`owner/name`); omitted means every repository */
+export function useDashboard(workspaceId: string | null, repo: string | null = null) {
   const { token } = useAuth()
   const [data, setData] = useState<DashboardData | null>(null)
   const [loading, setLoading] = useState(false)
@@ -49,7 +54,8 @@ export function useDashboard(workspaceId: string | null) {
     setLoading(true)
     setError(null)
     try {
-      const res = await fetch(`/api/workspaces/${workspaceId}/dashboard`, {
+      const query = repo ? `?repo=${encodeURIComponent(repo)}` : ''
+      const res = await fetch(`/api/workspaces/${workspaceId}/dashboard${query}`, {
         headers: { Authorization: `Bearer ${token}` },
       })
       if (!res.ok) throw new Error('Failed to load dashboard')
@@ -60,7 +66,7 @@ export function useDashboard(workspaceId: string | null) {
     } finally {
       setLoading(false)
     }
-  }, [workspaceId, token])
+  }, [workspaceId, token, repo])
 
   useEffect(() => { fetch_() }, [fetch_])
 
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest'
+import { verifyCronSecret } from '../auth-middleware'
+
+describe('verifyCronSecret', () => {
+  it('accepts the configured secret as a Bearer token', () => {
+    expect(verifyCronSecret('Bearer s3cret', 's3cret')).toBe(true)
+  })
+
+  it('rejects wrong, truncated and missing tokens', () => {
+    expect(verifyCronSecret('Bearer s3creT', 's3cret')).toBe(false)
+    expect(verifyCronSecret('Bearer s3cre', 's3cret')).toBe(false)
+    expect(verifyCronSecret('s3cret', 's3cret')).toBe(false)
+    expect(verifyCronSecret(null, 's3cret')).toBe(false)
+  })
+
+  it('rejects everything when no secret is configured', () => {
+    expect(verifyCronSecret('Bearer ', '')).toBe(false)
+    expect(verifyCronSecret('Bearer undefined', undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { aggregateBlame, blameQuery, recencyWeight, BLAME_HALF_LIFE_DAYS, type BlameRange } from '../blame-ownership'
+
+const DAY = 24 * 3600 * 1000
+const now = new Date('2026-01-01T00:00:00Z').getTime()
+const daysAgo = (days: number) => new Date(now - days * DAY).toISOString()
+
+function range(startingLine: number, endingLine: number, committedDate: string, login: string | null, name: string | null = null): BlameRange {
+  return { startingLine, endingLine, commit: { committedDate, author: { name, email: null, user: login ? { login } : null } } }
+}
+
+describe('recencyWeight', () => {
+  it('is 1 for work done now and halves every half-life', () => {
+    expect(recencyWeight(daysAgo(0), now)).toBe(1)
+    expect(recencyWeight(daysAgo(BLAME_HALF_LIFE_DAYS), now)).toBeCloseTo(0.5, 10)
+    expect(recencyWeight(daysAgo(2 * BLAME_HALF_LIFE_DAYS), now)).toBeCloseTo(0.25, 10)
+  })
+
+  it('treats future dates (clock skew) as now', () => {
+    expect(recencyWeight(daysAgo(-3), now)).toBe(1)
+  })
+})
+
+describe('aggregateBlame', () => {
+  it('sums surviving lines per author and weights them by age', () => {
+    const shares = aggregateBlame([
+      range(1, 10, daysAgo(0), 'alice'),
+      range(11, 30, daysAgo(BLAME_HALF_LIFE_DAYS), 'bob'),
+      range(31, 35, daysAgo(10), 'alice'),
+    ], now)
+    expect(shares.map((s) => s.author_github_username)).toEqual(['alice', 'bob'])
+    expect(shares[0].lines).toBe(15)
+    expect(shares[0].last_commit_at).toBe(daysAgo(0))
+    expect(shares[1].lines).toBe(20)
+    expect(shares[1].weighted_lines).toBeCloseTo(10, 10)
+  })
+
+  it('ranks recent work above a larger amount of old work', () => {
+    const shares = aggregateBlame([
+      range(1, 100, daysAgo(3 * BLAME_HALF_LIFE_DAYS), 'veteran'),
+      range(101, 160, daysAgo(5), 'newcomer'),
+    ], now)
+    expect(shares[0].author_github_username).toBe('newcomer')
+  })
+
+  it('falls back to the git author name for commits without a GitHub user', () => {
+    const shares = aggregateBlame([range(1, 3, daysAgo(1), null, 'Local Dev'), range(4, 4, daysAgo(1), null)], now)
+    expect(shares.map((s) => s.author_github_username).sort()).toEqual(['Local Dev', 'unknown'])
+  })
+
+  it('returns nothing for an empty file', () => {
+    expect(aggregateBlame([], now)).toEqual([])
+  })
+})
+
+describe('blameQuery', () => {
+  it('declares one path variable and one aliased blame field per file', () => {
+    const query = blameQuery(3)
+    expect(query).toContain('$p0: String!, $p1: String!, $p2: String!')
+    expect(query).toContain('f2: blame(path: $p2)')
+    expect(query).not.toContain('$p3')
+    expect(query).toContain('object(expression: $ref)')
+  })
+})
@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest'
+import { codeownersPatternToRegExp, detectCodeownersDrift, matchCodeowners, parseCodeowners, suggestCodeowners } from '../codeowners'
+import { countFileChanges } from '../coupling'
+import { commitRow, fileAuthorshipRows, type GitHubCommit } from '../github-api'
+
+const matches = (pattern: string, path: string) => codeownersPatternToRegExp(pattern)!.test(path)
+
+describe('codeownersPatternToRegExp', () => {
+  it('matches everything with *', () => {
+    expect(matches('*', 'README.md')).toBe(true)
+    expect(matches('*', 'src/lib/auth.ts')).toBe(true)
+  })
+
+  it('matches unanchored patterns at any depth', () => {
+    expect(matches('*.js', 'index.js')).toBe(true)
+    expect(matches('*.js', 'src/app/index.js')).toBe(true)
+    expect(matches('*.js', 'src/app/index.ts')).toBe(false)
+    expect(matches('logs', 'build/logs/today.txt')).toBe(true)
+  })
+
+  it('anchors patterns containing a slash to the root', () => {
+    expect(matches('/build/logs/', 'build/logs/today.txt')).toBe(true)
+    expect(matches('/build/logs/', 'app/build/logs/today.txt')).toBe(false)
+    expect(matches('docs/guide.md', 'docs/guide.md')).toBe(true)
+    expect(matches('docs/guide.md', 'src/docs/guide.md')).toBe(false)
+  })
+
+  it('limits dir/* to direct children', () => {
+    expect(matches('docs/*', 'docs/getting-started.md')).toBe(true)
+    expect(matches('docs/*', 'docs/build-app/troubleshooting.md')).toBe(false)
+  })
+
+  it('matches a trailing-slash directory anywhere, covering everything below it', () => {
+    expect(matches('apps/', 'apps/web/page.tsx')).toBe(true)
+    expect(matches('apps/', 'packages/apps/index.ts')).toBe(true)
+    expect(matches('apps/', 'apps')).toBe(false)
+  })
+
+  it('supports ** as any number of directories', () => {
+    expect(matches('**/logs', 'logs/a.txt')).toBe(true)
+    expect(matches('**/logs', 'deep/down/logs/a.txt')).toBe(true)
+    expect(matches('/docs/**', 'docs/a/b/c.md')).toBe(true)
+    expect(matches('a/**/b', 'a/b/file')).toBe(true)
+    expect(matches('a/**/b', 'a/x/y/b/file')).toBe(true)
+    expect(matches('a/**/b', 'c/a/x/b/file')).toBe(false)
+  })
+
+  it('treats ? as a single non-slash character', () => {
+    expect(matches('file?.txt', 'file1.txt')).toBe(true)
+    expect(matches('file?.txt', 'file10.txt')).toBe(false)
+  })
+
+  it('rejects syntax GitHub does not support', () => {
+    expect(codeownersPatternToRegExp('!important.md')).toBeNull()
+    expect(codeownersPatternToRegExp('file[0-9].txt')).toBeNull()
+  })
+})
+
+describe('parseCodeowners', () => {
+  it('skips comments and blank lines and strips inline comments', () => {
+    const { rules, errors } = parseCodeowners('# Owners\n\n*       @alice # everyone\n/docs/ @acme/writers docs@acme.com\n')
+    expect(errors).toEqual([])
+    expect(rules.map((r) => [r.pattern, r.owners, r.line])).toEqual([
+      ['*', ['@alice'], 3],
+      ['/docs/', ['@acme/writers', 'docs@acme.com'], 4],
+    ])
+  })
+
+  it('keeps escaped spaces and hashes in patterns', () => {
+    const { rules } = parseCodeowners('my\\ docs/ @alice\n\\#notes.md @bob')
+    expect(matchCodeowners(rules, 'my docs/readme.md')?.owners).toEqual(['@alice'])
+    expect(matchCodeowners(rules, '#notes.md')?.owners).toEqual(['@bob'])
+  })
+
+  it('reports invalid owners and unsupported patterns', () => {
+    const { rules, errors } = parseCodeowners('*.js alice\n!vendor/ @bob\n*.ts @carol')
+    expect(rules.map((r) => r.pattern)).toEqual(['*.ts'])
+    expect(errors.map((e) => e.line)).toEqual([1, 2])
+    expect(errors[0].reason).toContain('alice')
+  })
+
+  it('allows a pattern without owners', () => {
+    const { rules, errors } = parseCodeowners('/generated/')
+    expect(errors).toEqual([])
+    expect(rules[0].owners).toEqual([])
+  })
+})
+
+describe('matchCodeowners', () => {
+  it('lets the last matching rule win', () => {
+    const { rules } = parseCodeowners('* @alice\n*.ts @bob\n/src/legacy/ @carol')
+    expect(matchCodeowners(rules, 'README.md')?.owners).toEqual(['@alice'])
+    expect(matchCodeowners(rules, 'src/app.ts')?.owners).toEqual(['@bob'])
+    expect(matchCodeowners(rules, 'src/legacy/old.ts')?.owners).toEqual(['@carol'])
+  })
+
+  it('returns null when nothing matches', () => {
+    const { rules } = parseCodeowners('/docs/ @alice')
+    expect(matchCodeowners(rules, 'src/app.ts')).toBeNull()
+  })
+})
+
+const row = (file_path: string, author: string, lines: number) =>
+  ({ file_path, author_github_username: author, lines_added: lines, lines_modified: 0 })
+const changes = (counts: Record<string, number> = {}) => new Map(Object.entries(counts))
+
+describe('detectCodeownersDrift', () => {
+  it('flags rules whose user owners never touched their files', () => {
+    const { rules } = parseCodeowners('/src/ @alice @acme/core\n/docs/ @bob')
+    const drift = detectCodeownersDrift(rules, [
+      row('src/a.ts', 'carol', 80),
+      row('src/b.ts', 'dave', 20),
+      row('docs/x.md', 'bob', 10),
+    ], changes())
+    expect(drift.files).toBe(3)
+    expect(drift.ownedFiles).toBe(3)
+    expect(drift.staleRules).toHaveLength(1)
+    const stale = drift.staleRules[0]
+    expect(stale.pattern).toBe('/src/')
+    expect(stale.untouchedOwners).toEqual(['@alice'])
+    expect(stale.unverifiableOwners).toEqual(['@acme/core'])
+    expect(stale.topAuthors).toEqual([{ author: 'carol', share: 80 }, { author: 'dave', share: 20 }])
+  })
+
+  it('matches owners to authors case-insensitively', () => {
+    const { rules } = parseCodeowners('* @Alice')
+    expect(detectCodeownersDrift(rules, [row('a.ts', 'alice', 5)], changes()).staleRules).toEqual([])
+  })
+
+  it('lists frequently changed files without owners', () => {
+    const { rules } = parseCodeowners('/docs/ @bob\n/generated/')
+    const drift = detectCodeownersDrift(rules, [
+      row('src/hot.ts', 'carol', 50),
+      row('src/hot.ts', 'dave', 10),
+      row('src/cold.ts', 'carol', 50),
+      row('generated/api.ts', 'bot', 900),
+      row('docs/x.md', 'bob', 10),
+    ], changes({ 'src/hot.ts': 12, 'src/cold.ts': 2, 'generated/api.ts': 30, 'docs/x.md': 40 }))
+    expect(drift.ownedFiles).toBe(1)
+    expect(drift.unownedHotspots.map((h) => h.file)).toEqual(['generated/api.ts', 'src/hot.ts'])
+    expect(drift.unownedHotspots[1]).toEqual({ file: 'src/hot.ts', commits: 12, authorCount: 2, topAuthor: 'carol' })
+  })
+
+  it('treats every busy file as unowned without a CODEOWNERS file', () => {
+    const drift = detectCodeownersDrift([], [row('a.ts', 'alice', 5)], changes({ 'a.ts': 12 }))
+    expect(drift.ownedFiles).toBe(0)
+    expect(drift.unownedHotspots).toHaveLength(1)
+  })
+
+  it('counts changes from stored commits, not from authorship rows', () => {
+    // Twelve commits by one author to one file, stored the way the history sync stores them
+    const authorship = new Map<string, ReturnType<typeof fileAuthorshipRows>[number]>()
+    const commits = Array.from({ length: 12 }, (_, i): GitHubCommit => ({
+      sha: `sha${i}`,
+      commit: { message: `Tweak ${i}`, author: { name: 'Carol', email: 'carol@acme.com', date: `2026-01-${String(i + 1).padStart(2, '0')}T00:00:00Z` } },
+      author: { login: 'carol', avatar_url: '' },
+      files: [{ filename: 'src/hot.ts', additions: 5, deletions: 1, status: 'modified' }],
+    }))
+    for (const c of commits) {
+      // Upserts on (file, author) replace the previous row
+      for (const r of fileAuthorshipRows(c, c, 'acme', 'app', 'ws')) authorship.set(`${r.file_path}:${r.author_github_username}`, r)
+    }
+    const rows = [...authorship.values()]
+    expect(rows).toHaveLength(1)
+    expect(rows[0].commit_count).toBe(1)
+
+    const stored = commits.map((c) => commitRow(c, c, 'acme', 'app', 'ws'))
+    const drift = detectCodeownersDrift([], rows, countFileChanges(stored))
+    expect(drift.unownedHotspots).toEqual([{ file: 'src/hot.ts', commits: 12, authorCount: 1, topAuthor: 'carol' }])
+  })
+})
+
+describe('suggestCodeowners', () => {
+  const rows = [
+    row('README.md', 'alice', 40),
+    row('src/lib/a.ts', 'alice', 100),
+    row('src/lib/b.ts', 'alice', 100),
+    row('src/lib/c.ts', 'bob', 20),
+    row('src/ui/a.tsx', 'carol', 80),
+    row('src/ui/b.tsx', 'carol', 80),
+    row('src/ui/c.tsx', 'carol', 80),
+    row('tools/x.sh', 'dave', 10),
+  ]
+
+  it('emits a default owner and directories whose owners differ from their parent', () => {
+    const { entries } = suggestCodeowners(rows)
+    expect(entries.map((e) => [e.pattern, e.owners])).toEqual([
+      ['*', ['@alice', '@carol']],
+      ['/src/', ['@carol']],
+      ['/src/lib/', ['@alice']],
+    ])
+    // src/ui has the same owner as src; tools is too small
+    expect(entries.find((e) => e.path === 'src/ui')).toBeUndefined()
+    expect(entries[2]).toMatchObject({ files: 3, share: 91 })
+  })
+
+  it('produces a file that parses back to the same owners', () => {
+    const { content } = suggestCodeowners(rows)
+    const { rules, errors } = parseCodeowners(content)
+    expect(errors).toEqual([])
+    expect(matchCodeowners(rules, 'src/lib/a.ts')?.owners).toEqual(['@alice'])
+    expect(matchCodeowners(rules, 'src/ui/b.tsx')?.owners).toEqual(['@carol'])
+    expect(matchCodeowners(rules, 'tools/x.sh')?.owners).toEqual(['@alice', '@carol'])
+  })
+
+  it('skips authors that are not GitHub logins', () => {
+    const { entries } = suggestCodeowners([row('a.ts', 'Jane Doe', 90), row('b.ts', 'bob', 10)])
+    expect(entries).toEqual([{ path: '', pattern: '*', owners: ['@bob'], files: 2, share: 10 }])
+  })
+})
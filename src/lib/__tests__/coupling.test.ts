@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { computeChangeCoupling } from '../coupling'
+
+const commit = (...files: string[]) => ({ files_list: files })
+
+describe('computeChangeCoupling', () => {
+  it('counts co-changes and confidence in both directions', () => {
+    const result = computeChangeCoupling([
+      commit('src/api/users.ts', 'src/ui/UserList.tsx'),
+      commit('src/api/users.ts', 'src/ui/UserList.tsx'),
+      commit('src/api/users.ts', 'src/ui/UserList.tsx'),
+      commit('src/api/users.ts'),
+    ], { minSupport: 3 })
+
+    expect(result.commitsAnalyzed).toBe(4)
+    expect(result.pairs).toHaveLength(1)
+    expect(result.pairs[0]).toMatchObject({
+      file_a: 'src/api/users.ts',
+      file_b: 'src/ui/UserList.tsx',
+      support: 3,
+      confidence_ab: 0.75,
+      confidence_ba: 1,
+      confidence: 1,
+      cross_directory: true,
+      flagged: true,
+    })
+  })
+
+  it('only flags cross-directory pairs above the confidence threshold', () => {
+    const result = computeChangeCoupling([
+      commit('src/lib/a.ts', 'src/lib/b.ts'),
+      commit('src/lib/a.ts', 'src/lib/b.ts'),
+      commit('src/lib/a.ts', 'docs/a.md'),
+      commit('src/lib/a.ts', 'docs/a.md'),
+      commit('docs/a.md'),
+      commit('docs/a.md'),
+      commit('docs/a.md'),
+      commit('src/lib/a.ts'),
+      commit('src/lib/a.ts'),
+    ], { minSupport: 2, minConfidence: 0.5 })
+
+    const sameDir = result.pairs.find((p) => p.file_b === 'src/lib/b.ts')!
+    const weak = result.pairs.find((p) => p.file_a === 'docs/a.md')!
+    expect(sameDir.cross_directory).toBe(false)
+    expect(sameDir.flagged).toBe(false)
+    expect(weak.cross_directory).toBe(true)
+    expect(weak.confidence).toBe(0.4)
+    expect(weak.flagged).toBe(false)
+    expect(result.flaggedCount).toBe(0)
+  })
+
+  it('skips empty and oversized commits and pairs below minimum support', () => {
+    const huge = commit(...Array.from({ length: 40 }, (_, i) => `src/gen/file${i}.ts`))
+    const result = computeChangeCoupling([
+      huge, huge, huge,
+      { files_list: null },
+      commit('a/x.ts', 'b/y.ts'),
+      commit('a/x.ts', 'b/y.ts'),
+    ], { minSupport: 3, maxFilesPerCommit: 30 })
+
+    expect(result.commitsAnalyzed).toBe(2)
+    expect(result.totalPairs).toBe(0)
+    expect(result.pairs).toEqual([])
+  })
+
+  it('ignores duplicate paths within a commit', () => {
+    const result = computeChangeCoupling([
+      commit('a/x.ts', 'a/x.ts', 'b/y.ts'),
+      commit('a/x.ts', 'b/y.ts'),
+    ], { minSupport: 2 })
+
+    expect(result.pairs).toHaveLength(1)
+    expect(result.pairs[0].confidence).toBe(1)
+  })
+
+  it('keeps the same paths in different repositories apart', () => {
+    const inRepo = (repo_name: string, ...files: string[]) => ({ files_list: files, repo_owner: 'acme', repo_name })
+    const result = computeChangeCoupling([
+      inRepo('web', 'src/a.ts', 'lib/b.ts'),
+      inRepo('web', 'src/a.ts', 'lib/b.ts'),
+      inRepo('api', 'src/a.ts', 'lib/b.ts'),
+      inRepo('api', 'src/a.ts'),
+      inRepo('api', 'src/a.ts'),
+    ], { minSupport: 1 })
+
+    expect(result.pairs.map((p) => [p.repo, p.support, p.confidence_ba])).toEqual([
+      ['acme/web', 2, 1],
+      ['acme/api', 1, 0.33],
+    ])
+  })
+
+  it('orders flagged pairs first, then by support, and applies the limit', () => {
+    const result = computeChangeCoupling([
+      ...Array.from({ length: 5 }, () => commit('lib/a.ts', 'lib/b.ts')),
+      ...Array.from({ length: 3 }, () => commit('api/c.ts', 'ui/d.tsx')),
+      ...Array.from({ length: 4 }, () => commit('api/e.ts', 'ui/f.tsx')),
+    ], { minSupport: 3, limit: 2 })
+
+    expect(result.totalPairs).toBe(3)
+    expect(result.flaggedCount).toBe(2)
+    expect(result.pairs.map((p) => p.file_a)).toEqual(['api/e.ts', 'api/c.ts'])
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeCycleTimePercentiles,
+  percentile,
+  prSizeBucket,
+  summarizePercentiles,
+  weekStart,
+  type CycleTimeSample,
+} from '../cycle-time'
+
+const HOUR = 3600
+
+const sample = (total: number, overrides: Partial<CycleTimeSample> = {}): CycleTimeSample => ({
+  coding_time_seconds: null,
+  pickup_time_seconds: null,
+  review_time_seconds: null,
+  deployment_time_seconds: null,
+  total_cycle_time_seconds: total,
+  calculated_at: '2026-03-04T12:00:00Z',
+  ...overrides,
+})
+
+describe('percentile', () => {
+  it('interpolates between closest ranks', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+    expect(percentile(values, 50)).toBe(5.5)
+    expect(percentile(values, 90)).toBeCloseTo(9.1)
+    expect(percentile([42], 95)).toBe(42)
+  })
+})
+
+describe('summarizePercentiles', () => {
+  it('returns p50/p75/p90/p95 and null for no data', () => {
+    expect(summarizePercentiles([100, 0, 300, 200, 400])).toEqual({ p50: 200, p75: 300, p90: 360, p95: 380 })
+    expect(summarizePercentiles([])).toBeNull()
+  })
+})
+
+describe('prSizeBucket', () => {
+  it('labels PRs by lines added + deleted', () => {
+    expect(prSizeBucket(3, 2)).toBe('XS')
+    expect(prSizeBucket(60, 30)).toBe('S')
+    expect(prSizeBucket(200, 100)).toBe('M')
+    expect(prSizeBucket(800, 100)).toBe('L')
+    expect(prSizeBucket(1500, 0)).toBe('XL')
+  })
+})
+
+describe('weekStart', () => {
+  it('returns the Monday of the week in UTC', () => {
+    expect(weekStart('2026-03-04T12:00:00Z')).toBe('2026-03-02')
+    expect(weekStart('2026-03-08T23:59:00Z')).toBe('2026-03-02')
+    expect(weekStart('2026-03-09T00:00:00Z')).toBe('2026-03-09')
+  })
+})
+
+describe('computeCycleTimePercentiles', () => {
+  it('reports every segment overall and skips missing values', () => {
+    const result = computeCycleTimePercentiles([
+      sample(10 * HOUR, { coding_time_seconds: 2 * HOUR }),
+      sample(20 * HOUR),
+    ], 'week')
+
+    expect(result.count).toBe(2)
+    expect(result.overall.total).toEqual({ p50: 15 * HOUR, p75: 17.5 * HOUR, p90: 19 * HOUR, p95: 19.5 * HOUR })
+    expect(result.overall.coding?.p50).toBe(2 * HOUR)
+    expect(result.overall.review).toBeNull()
+  })
+
+  it('buckets by week, oldest first, using the merge date when known', () => {
+    const result = computeCycleTimePercentiles([
+      sample(HOUR, { calculated_at: '2026-03-10T00:00:00Z' }),
+      sample(HOUR, { calculated_at: '2026-03-10T00:00:00Z', merged_at: '2026-03-03T00:00:00Z' }),
+      sample(HOUR, { calculated_at: '2026-03-04T00:00:00Z' }),
+    ], 'week')
+
+    expect(result.buckets.map((b) => [b.key, b.count])).toEqual([['2026-03-02', 2], ['2026-03-09', 1]])
+  })
+
+  it('orders PR size buckets from XS to XL', () => {
+    const result = computeCycleTimePercentiles([
+      sample(HOUR, { lines_added: 5000 }),
+      sample(HOUR, { lines_added: 1 }),
+      sample(HOUR, { lines_added: 150 }),
+    ], 'size')
+
+    expect(result.buckets.map((b) => b.key)).toEqual(['XS', 'M', 'XL'])
+  })
+
+  it('orders author and branch buckets by PR count', () => {
+    const result = computeCycleTimePercentiles([
+      sample(HOUR, { author_github_username: 'bob' }),
+      sample(HOUR, { author_github_username: 'alice' }),
+      sample(HOUR, { author_github_username: 'alice' }),
+      sample(HOUR),
+    ], 'author')
+
+    expect(result.buckets.map((b) => b.key)).toEqual(['alice', 'bob', 'unknown'])
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  changeLeadTimeSeconds,
+  computeDoraMetrics,
+  deploymentFrequencyBand,
+  restoreTimesSeconds,
+  type DoraDeployment,
+} from '../dora'
+
+const deploy = (state: string, finishedAt: string, environment = 'production', leadTimeSeconds: number | null = null): DoraDeployment => ({
+  environment,
+  state,
+  finished_at: finishedAt,
+  lead_time_seconds: leadTimeSeconds,
+})
+
+describe('changeLeadTimeSeconds', () => {
+  it('returns the median commit age at deploy time', () => {
+    const lead = changeLeadTimeSeconds(
+      ['2026-01-01T00:00:00Z', '2026-01-01T10:00:00Z', '2026-01-01T11:00:00Z'],
+      '2026-01-01T12:00:00Z',
+    )
+    expect(lead).toBe(2 * 3600)
+  })
+
+  it('ignores commits dated after the deployment and returns null without commits', () => {
+    expect(changeLeadTimeSeconds(['2026-01-02T00:00:00Z'], '2026-01-01T00:00:00Z')).toBeNull()
+    expect(changeLeadTimeSeconds([], '2026-01-01T00:00:00Z')).toBeNull()
+  })
+})
+
+describe('restoreTimesSeconds', () => {
+  it('measures from the first failure of an incident to the next success', () => {
+    const times = restoreTimesSeconds([
+      deploy('success', '2026-01-01T00:00:00Z'),
+      deploy('failure', '2026-01-01T01:00:00Z'),
+      deploy('error', '2026-01-01T01:30:00Z'),
+      deploy('success', '2026-01-01T03:00:00Z'),
+      deploy('failure', '2026-01-01T05:00:00Z'),
+    ])
+    expect(times).toEqual([2 * 3600])
+  })
+
+  it('does not let a success in one repository restore a failure in another', () => {
+    const times = restoreTimesSeconds([
+      { ...deploy('failure', '2026-01-01T00:00:00Z'), repo_owner: 'acme', repo_name: 'api' },
+      { ...deploy('success', '2026-01-01T00:10:00Z'), repo_owner: 'acme', repo_name: 'web' },
+      { ...deploy('success', '2026-01-01T02:00:00Z'), repo_owner: 'acme', repo_name: 'api' },
+    ])
+    expect(times).toEqual([2 * 3600])
+  })
+})
+
+describe('deploymentFrequencyBand', () => {
+  it('bands by successful deployments per week', () => {
+    expect(deploymentFrequencyBand(10)).toBe('elite')
+    expect(deploymentFrequencyBand(2)).toBe('high')
+    expect(deploymentFrequencyBand(0.5)).toBe('medium')
+    expect(deploymentFrequencyBand(0.1)).toBe('low')
+    expect(deploymentFrequencyBand(0)).toBeNull()
+  })
+})
+
+describe('computeDoraMetrics', () => {
+  it('computes the four metrics per environment', () => {
+    const metrics = computeDoraMetrics([
+      deploy('success', '2026-01-01T00:00:00Z', 'production', 3600),
+      deploy('failure', '2026-01-02T00:00:00Z', 'production'),
+      deploy('success', '2026-01-02T00:30:00Z', 'production', 3 * 3600),
+      deploy('success', '2026-01-03T00:00:00Z', 'production', 5 * 3600),
+      deploy('success', '2026-01-03T00:00:00Z', 'staging', 600),
+    ], 7)
+
+    expect(metrics.map((m) => m.environment)).toEqual(['production', 'staging'])
+    const production = metrics[0]
+    expect(production.deployments).toBe(4)
+    expect(production.failures).toBe(1)
+    expect(production.deploymentFrequency).toEqual({ perWeek: 3, band: 'high' })
+    expect(production.leadTime).toEqual({ medianHours: 3, band: 'elite' })
+    expect(production.changeFailureRate).toEqual({ percent: 25, band: 'high' })
+    expect(production.timeToRestore).toEqual({ medianHours: 0.5, incidents: 1, band: 'elite' })
+  })
+
+  it('reports missing data as null bands and drops unfinished environments', () => {
+    const metrics = computeDoraMetrics([
+      deploy('failure', '2026-01-01T00:00:00Z', 'production'),
+      deploy('in_progress', '2026-01-01T00:00:00Z', 'preview'),
+    ], 30)
+
+    expect(metrics).toHaveLength(1)
+    expect(metrics[0].deploymentFrequency.band).toBeNull()
+    expect(metrics[0].leadTime).toEqual({ medianHours: null, band: null })
+    expect(metrics[0].changeFailureRate).toEqual({ percent: 100, band: 'low' })
+    expect(metrics[0].timeToRestore.band).toBeNull()
+  })
+})
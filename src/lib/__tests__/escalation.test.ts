@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_ESCALATION_STEPS, dueEscalationSteps, ESCALATION_MAX_ATTEMPTS, resolveEscalationSteps, type EscalationLogEntry } from '../escalation'
+
+describe('resolveEscalationSteps', () => {
+  it('falls back to the default policy', () => {
+    expect(resolveEscalationSteps(null)).toEqual(DEFAULT_ESCALATION_STEPS)
+    expect(resolveEscalationSteps([])).toEqual(DEFAULT_ESCALATION_STEPS)
+    expect(resolveEscalationSteps([{ after_hours: 1, action: 'page_everyone' }])).toEqual(DEFAULT_ESCALATION_STEPS)
+  })
+
+  it('orders steps by delay and drops invalid ones', () => {
+    const steps = resolveEscalationSteps([
+      { after_hours: 4, action: 'discord' },
+      { after_hours: 0, action: 'notify_assignee' },
+      { after_hours: -1, action: 'notify_admins' },
+      { after_hours: 2, action: 'notify_admins' },
+    ])
+    expect(steps).toEqual([
+      { after_hours: 0, action: 'notify_assignee' },
+      { after_hours: 2, action: 'notify_admins' },
+      { after_hours: 4, action: 'discord' },
+    ])
+  })
+})
+
+describe('dueEscalationSteps', () => {
+  const steps = resolveEscalationSteps([
+    { after_hours: 0, action: 'notify_assignee' },
+    { after_hours: 2, action: 'notify_admins' },
+    { after_hours: 4, action: 'discord' },
+  ])
+  const createdAt = '2024-01-10T10:00:00Z'
+
+  it('returns every step whose delay has elapsed', () => {
+    const due = dueEscalationSteps(steps, [], createdAt, new Date('2024-01-10T12:30:00Z'))
+    expect(due.map((s) => s.action)).toEqual(['notify_assignee', 'notify_admins'])
+  })
+
+  it('skips steps already recorded in the log', () => {
+    const log: EscalationLogEntry[] = [
+      { action: 'notify_assignee', after_hours: 0, executed_at: '2024-01-10T10:05:00Z', result: 'sent' },
+      { action: 'notify_admins', after_hours: 2, executed_at: '2024-01-10T12:05:00Z', result: 'skipped' },
+    ]
+    const due = dueEscalationSteps(steps, log, createdAt, new Date('2024-01-10T14:30:00Z'))
+    expect(due).toEqual([{ after_hours: 4, action: 'discord' }])
+  })
+
+  it('retries a failed step until it runs out of attempts', () => {
+    const failed = (minute: number): EscalationLogEntry => ({
+      action: 'notify_assignee', after_hours: 0, executed_at: `2024-01-10T10:0${minute}:00Z`, result: 'failed', detail: 'insert failed',
+    })
+    const now = new Date('2024-01-10T11:00:00Z')
+    expect(dueEscalationSteps(steps, [failed(1)], createdAt, now).map((s) => s.action)).toEqual(['notify_assignee'])
+    const exhausted = Array.from({ length: ESCALATION_MAX_ATTEMPTS }, (_, i) => failed(i))
+    expect(dueEscalationSteps(steps, exhausted, createdAt, now)).toEqual([])
+  })
+
+  it('treats a step with a changed delay as new', () => {
+    const log: EscalationLogEntry[] = [
+      { action: 'discord', after_hours: 6, executed_at: '2024-01-10T16:00:00Z', result: 'sent' },
+    ]
+    const due = dueEscalationSteps([{ after_hours: 4, action: 'discord' }], log, createdAt, new Date('2024-01-10T17:00:00Z'))
+    expect(due).toHaveLength(1)
+  })
+})
@@ -1,5 +1,13 @@
 import { describe, it, expect } from 'vitest'
-import { mapAuthorsToCollaborators, GitHubAPIError } from '../github-api'
+import {
+  mapAuthorsToCollaborators,
+  GitHubAPIError,
+  readRateLimit,
+  lastPageFromLink,
+  rateLimitBackoffUntil,
+  rateLimitErrorResponse,
+} from '../github-api'
+import { createIdentityResolver } from '../identities'
 
 describe('mapAuthorsToCollaborators', () => {
   const collaborators = [
@@ -58,6 +66,19 @@ describe('mapAuthorsToCollaborators', () => {
     expect(result.unmapped[0]).toBe('dave')
   })
 
+  it('maps an author\'s other emails and logins through the identity registry', () => {
+    const identities = createIdentityResolver([
+      { id: 'p1', display_name: 'Dave', identities: [{ kind: 'github', value: 'bob' }, { kind: 'email', value: 'bob@home.net' }] },
+    ])
+    const commits = [
+      { author_github_username: null, author_email: 'bob@home.net' },
+      { author_github_username: null, author_email: 'other@home.net' },
+    ]
+    const result = mapAuthorsToCollaborators(commits, collaborators, identities)
+    expect(result.mapped).toEqual([{ author: 'bob@home.net', collaborator: 'bob' }])
+    expect(result.unmapped).toEqual(['other@home.net'])
+  })
+
   it('handles empty inputs', () => {
     expect(mapAuthorsToCollaborators([], []).mapped).toHaveLength(0)
     expect(mapAuthorsToCollaborators([], []).unmapped).toHaveLength(0)
@@ -80,4 +101,79 @@ describe('GitHubAPIError', () => {
     const err = new GitHubAPIError(500, longBody, '/test')
     expect(err.message.length).toBeLessThan(500)
   })
+
+  it('reports when a rate-limited call may be retried', () => {
+    const rateLimit = { limit: 5000, remaining: 0, resetAt: 90_000 }
+    expect(new GitHubAPIError(403, 'API rate limit exceeded', '/x', rateLimit, true).rateLimitedUntil).toBe(90_000)
+    // A plain 403 carries the headers but is not a rate limit
+    expect(new GitHubAPIError(403, 'Forbidden', '/x', { ...rateLimit, remaining: 40 }).rateLimitedUntil).toBeNull()
+  })
+})
+
+describe('readRateLimit', () => {
+  it('reads the limit, remaining calls and the reset time', () => {
+    const headers = new Headers({ 'x-ratelimit-limit': '5000', 'x-ratelimit-remaining': '12', 'x-ratelimit-reset': '1700000000' })
+    expect(readRateLimit(headers)).toEqual({ limit: 5000, remaining: 12, resetAt: 1700000000000 })
+  })
+
+  it('prefers retry-after for secondary rate limits', () => {
+    const headers = new Headers({ 'x-ratelimit-remaining': '400', 'x-ratelimit-reset': '1700000000', 'retry-after': '60' })
+    expect(readRateLimit(headers, 1000).resetAt).toBe(61000)
+  })
+
+  it('returns nulls without rate-limit headers', () => {
+    expect(readRateLimit(new Headers())).toEqual({ limit: null, remaining: null, resetAt: null })
+  })
+})
+
+describe('lastPageFromLink', () => {
+  it('reads the last page, not the next one', () => {
+    const link = '<https://api.github.com/repositories/1/commits?per_page=1&page=2>; rel="next", ' +
+      '<https://api.github.com/repositories/1/commits?per_page=1&page=12000>; rel="last"'
+    expect(lastPageFromLink(link)).toBe(12000)
+  })
+
+  it('returns null for a single page', () => {
+    expect(lastPageFromLink(null)).toBeNull()
+    expect(lastPageFromLink('<https://api.github.com/x?page=1>; rel="prev"')).toBeNull()
+  })
+})
+
+describe('rateLimitBackoffUntil', () => {
+  const now = 1_000_000
+
+  it('lets calls through while the token has calls to spare', () => {
+    expect(rateLimitBackoffUntil({ limit: 5000, remaining: 200, resetAt: now + 60_000 }, false, now)).toBeNull()
+    expect(rateLimitBackoffUntil(undefined, false, now)).toBeNull()
+  })
+
+  it('backs off uncached calls at the reserve, until the reset', () => {
+    expect(rateLimitBackoffUntil({ limit: 5000, remaining: 10, resetAt: now + 60_000 }, false, now)).toBe(now + 60_000)
+  })
+
+  it('still sends conditional requests until the token is empty', () => {
+    const low = { limit: 5000, remaining: 3, resetAt: now + 60_000 }
+    expect(rateLimitBackoffUntil(low, true, now)).toBeNull()
+    expect(rateLimitBackoffUntil({ ...low, remaining: 0 }, true, now)).toBe(now + 60_000)
+  })
+
+  it('ignores state from a window that has already reset', () => {
+    expect(rateLimitBackoffUntil({ limit: 5000, remaining: 0, resetAt: now - 1 }, false, now)).toBeNull()
+  })
+})
+
+describe('rateLimitErrorResponse', () => {
+  const now = 1_000_000
+
+  it('builds a 429 with Retry-After and the limit state', () => {
+    const err = new GitHubAPIError(403, 'API rate limit exceeded', '/x', { limit: 5000, remaining: 0, resetAt: now + 90_500 }, true)
+    const res = rateLimitErrorResponse(err, now)
+    expect(res?.init).toEqual({ status: 429, headers: { 'Retry-After': '91' } })
+    expect(res?.body.rate_limit).toEqual({ limit: 5000, remaining: 0, reset_at: new Date(now + 90_500).toISOString() })
+  })
+
+  it('returns null for other errors', () => {
+    expect(rateLimitErrorResponse(new GitHubAPIError(404, 'Not Found', '/x'), now)).toBeNull()
+    expect(rateLimitErrorResponse(new Error('boom'), now)).toBeNull()
+  })
 })
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { installationRow, installationTokenNeedsRefresh } from '../github-app'
+
+describe('installationTokenNeedsRefresh', () => {
+  const now = new Date('2026-01-01T12:00:00Z').getTime()
+
+  it('keeps a token with plenty of time left', () => {
+    expect(installationTokenNeedsRefresh('2026-01-01T12:45:00Z', now)).toBe(false)
+  })
+
+  it('refreshes a token within five minutes of expiry, or already expired', () => {
+    expect(installationTokenNeedsRefresh('2026-01-01T12:04:00Z', now)).toBe(true)
+    expect(installationTokenNeedsRefresh('2026-01-01T11:00:00Z', now)).toBe(true)
+  })
+
+  it('mints when nothing is cached', () => {
+    expect(installationTokenNeedsRefresh(null, now)).toBe(true)
+    expect(installationTokenNeedsRefresh(undefined, now)).toBe(true)
+  })
+})
+
+describe('installationRow', () => {
+  it('maps an installation payload to a github_installations row', () => {
+    const row = installationRow({
+      id: 42,
+      account: { login: 'acme', type: 'Organization' },
+      repository_selection: 'selected',
+      suspended_at: null,
+    })
+    expect(row).toMatchObject({
+      installation_id: 42,
+      account_login: 'acme',
+      account_type: 'Organization',
+      repository_selection: 'selected',
+      suspended_at: null,
+    })
+  })
+
+  it('tolerates a missing account and optional fields', () => {
+    expect(installationRow({ id: 7, account: null })).toMatchObject({
+      installation_id: 7, account_login: '', account_type: null, repository_selection: null, suspended_at: null,
+    })
+  })
+})
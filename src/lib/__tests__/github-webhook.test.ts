@@ -0,0 +1,68 @@
+import crypto from 'crypto'
+import { describe, it, expect } from 'vitest'
+import { isDeliveryInFlight, isDuplicateDelivery, releaseRow, verifyWebhookSignature, type GitHubRelease } from '../github-webhook'
+
+describe('isDuplicateDelivery', () => {
+  const now = new Date('2026-01-01T12:00:00Z')
+
+  it('skips deliveries that were already processed', () => {
+    expect(isDuplicateDelivery({ status: 'processed', updated_at: '2025-12-01T00:00:00Z' }, now)).toBe(true)
+  })
+
+  it('skips deliveries that are already waiting in the queue', () => {
+    expect(isDuplicateDelivery({ status: 'queued', updated_at: '2026-01-01T11:59:00Z' }, now)).toBe(true)
+  })
+
+  it('reprocesses redelivered failures and deliveries that were only received', () => {
+    expect(isDuplicateDelivery({ status: 'failed', updated_at: '2026-01-01T11:59:00Z' }, now)).toBe(false)
+    expect(isDuplicateDelivery({ status: 'received', updated_at: '2026-01-01T11:59:00Z' }, now)).toBe(false)
+  })
+
+  it('treats in-flight deliveries as duplicates until they time out', () => {
+    expect(isDuplicateDelivery({ status: 'processing', updated_at: '2026-01-01T11:55:00Z' }, now)).toBe(true)
+    expect(isDuplicateDelivery({ status: 'processing', updated_at: '2026-01-01T11:30:00Z' }, now)).toBe(false)
+  })
+})
+
+describe('isDeliveryInFlight', () => {
+  const now = new Date('2026-01-01T12:00:00Z')
+
+  it('releases the processing lock of a delivery that crashed or timed out', () => {
+    expect(isDeliveryInFlight({ status: 'processing', updated_at: '2026-01-01T11:55:00Z' }, now)).toBe(true)
+    expect(isDeliveryInFlight({ status: 'processing', updated_at: '2026-01-01T11:30:00Z' }, now)).toBe(false)
+    expect(isDeliveryInFlight({ status: 'failed', updated_at: '2026-01-01T11:59:00Z' }, now)).toBe(false)
+  })
+})
+
+describe('releaseRow', () => {
+  const release: GitHubRelease = {
+    id: 42, tag_name: 'v1.2.0', name: '', draft: false, prerelease: true,
+    target_commitish: 'main', published_at: '2026-01-01T10:00:00Z',
+    html_url: 'https://github.com/acme/api/releases/tag/v1.2.0', author: { login: 'alice' },
+  }
+
+  it('stores a published release, naming it after the tag when untitled', () => {
+    const row = releaseRow(release, 'published')
+    expect(row).toMatchObject({ tag_name: 'v1.2.0', kind: 'release', name: 'v1.2.0', is_prerelease: true, author_github_username: 'alice' })
+    expect(row.deleted_at).toBeNull()
+  })
+
+  it('turns a deleted release back into a plain tag', () => {
+    expect(releaseRow(release, 'deleted')).toMatchObject({ tag_name: 'v1.2.0', kind: 'tag', github_release_id: null, published_at: null })
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"action":"created"}'
+  const sign = (secret: string) => 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex')
+
+  it('accepts a body signed with the secret', () => {
+    expect(verifyWebhookSignature(body, sign('s3cret'), 's3cret')).toBe(true)
+  })
+
+  it('rejects another secret, a tampered body or a missing signature', () => {
+    expect(verifyWebhookSignature(body, sign('other'), 's3cret')).toBe(false)
+    expect(verifyWebhookSignature(body + ' ', sign('s3cret'), 's3cret')).toBe(false)
+    expect(verifyWebhookSignature(body, '', 's3cret')).toBe(false)
+  })
+})
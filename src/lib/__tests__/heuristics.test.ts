@@ -1,5 +1,18 @@
 import { describe, it, expect } from 'vitest'
-import { calculateCycleTime, calculateKnowledgeConcentration } from '../heuristics'
+import {
+  calculateCycleTime,
+  calculateKnowledgeConcentration,
+  resolveHeuristicSettings,
+  resolveRuleOverrides,
+  listHeuristicRules,
+  getHeuristicRule,
+  findClearedAlerts,
+  alertFingerprint,
+  fingerprintAction,
+  rowRepo,
+  HEURISTIC_RULES,
+  DEFAULT_HEURISTIC_SETTINGS,
+} from '../heuristics'
 
 describe('calculateCycleTime', () => {
   it('calculates all phases for a full lifecycle PR', () => {
@@ -18,6 +31,18 @@ describe('calculateCycleTime', () => {
     expect(result.totalCycleTime).toBe(10800)  // 3h (opened → merged)
   })
 
+  it('measures pickup and review from the first real review when known', () => {
+    const result = calculateCycleTime({
+      opened_at: '2024-01-01T00:00:00Z',
+      first_review_at: '2024-01-01T01:00:00Z',   // review requested
+      first_reviewed_at: '2024-01-01T04:00:00Z', // first review submitted
+      merged_at: '2024-01-01T05:00:00Z',
+      closed_at: null,
+    })
+    expect(result.pickupTime).toBe(14400)      // 4h
+    expect(result.reviewTime).toBe(3600)       // 1h
+  })
+
   it('returns null for missing phases', () => {
     const result = calculateCycleTime({
       opened_at: '2024-01-01T00:00:00Z',
@@ -85,6 +110,136 @@ describe('calculateCycleTime', () => {
     })
     expect(result.deploymentTimeExceedsThreshold).toBe(true)
   })
+
+  it('uses workspace thresholds when provided', () => {
+    const pr = {
+      opened_at: '2024-01-01T00:00:00Z',
+      first_review_at: null,
+      merged_at: '2024-01-02T00:00:00Z', // 24h total
+      closed_at: null,
+    }
+    expect(calculateCycleTime(pr).exceedsThreshold).toBe(false)
+    const strict = calculateCycleTime(pr, { ...DEFAULT_HEURISTIC_SETTINGS, cycle_time_threshold_hours: 12 })
+    expect(strict.exceedsThreshold).toBe(true)
+  })
+})
+
+describe('resolveHeuristicSettings', () => {
+  it('returns defaults when no row is stored', () => {
+    expect(resolveHeuristicSettings(null)).toEqual(DEFAULT_HEURISTIC_SETTINGS)
+  })
+
+  it('overrides only the stored values', () => {
+    const settings = resolveHeuristicSettings({ inactive_branch_days: 7, stale_pr_hours: null })
+    expect(settings.inactive_branch_days).toBe(7)
+    expect(settings.stale_pr_hours).toBe(DEFAULT_HEURISTIC_SETTINGS.stale_pr_hours)
+    expect(settings.wip_threshold).toBe(DEFAULT_HEURISTIC_SETTINGS.wip_threshold)
+  })
+})
+
+describe('heuristic rule registry', () => {
+  it('registers every rule under a unique id', () => {
+    const ids = HEURISTIC_RULES.map((r) => r.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(getHeuristicRule('AR-HEU-002')?.type).toBe('stale_pr')
+    expect(getHeuristicRule('AR-HEU-999')).toBeNull()
+  })
+
+  it('enables every rule at its default severity without overrides', () => {
+    const rules = listHeuristicRules()
+    expect(rules.every((r) => r.enabled)).toBe(true)
+    expect(rules.every((r) => r.severity === r.defaultSeverity)).toBe(true)
+  })
+
+  it('applies enabled and severity overrides', () => {
+    const rules = listHeuristicRules({ 'AR-HEU-001': { enabled: false }, 'AR-HEU-007': { severity: 'critical' } })
+    const inactive = rules.find((r) => r.id === 'AR-HEU-001')!
+    const wip = rules.find((r) => r.id === 'AR-HEU-007')!
+    expect(inactive.enabled).toBe(false)
+    expect(inactive.severity).toBe('warning')
+    expect(wip.enabled).toBe(true)
+    expect(wip.severity).toBe('critical')
+  })
+})
+
+describe('resolveRuleOverrides', () => {
+  it('returns no overrides for empty or malformed input', () => {
+    expect(resolveRuleOverrides(null)).toEqual({})
+    expect(resolveRuleOverrides('nope')).toEqual({})
+    expect(resolveRuleOverrides([])).toEqual({})
+  })
+
+  it('drops unknown rules and invalid fields', () => {
+    const overrides = resolveRuleOverrides({
+      'AR-HEU-002': { enabled: false, severity: 'urgent' },
+      'AR-HEU-005': { severity: 'info' },
+      'AR-HEU-999': { enabled: false },
+      'AR-HEU-003': { enabled: 'no' },
+    })
+    expect(overrides).toEqual({
+      'AR-HEU-002': { enabled: false },
+      'AR-HEU-005': { severity: 'info' },
+    })
+  })
+})
+
+describe('findClearedAlerts', () => {
+  it('returns open alerts that are no longer detected', () => {
+    const open = [
+      { id: 'a1', fingerprint: 'stale_pr:acme/api#1' },
+      { id: 'a2', fingerprint: 'stale_pr:acme/api#2' },
+    ]
+    expect(findClearedAlerts(open, [{ fingerprint: 'stale_pr:acme/api#2' }])).toEqual(['a1'])
+  })
+
+  it('clears everything when the rule detects nothing', () => {
+    expect(findClearedAlerts([{ id: 'a1', fingerprint: 'inactive_branch:acme/api:x' }], [])).toEqual(['a1'])
+    expect(findClearedAlerts([], [])).toEqual([])
+  })
+
+  it('leaves legacy alerts stored without a fingerprint alone', () => {
+    expect(findClearedAlerts([{ id: 'a1', fingerprint: null }], [{ fingerprint: 'stale_pr:acme/api#1' }])).toEqual([])
+    expect(findClearedAlerts([{ id: 'a1', fingerprint: null }], [])).toEqual([])
+  })
+})
+
+describe('alertFingerprint', () => {
+  it('prefixes the subject key with the alert type', () => {
+    expect(alertFingerprint('stale_pr', 'acme/api#42')).toBe('stale_pr:acme/api#42')
+  })
+})
+
+describe('rowRepo', () => {
+  it('keys a row on its own repository', () => {
+    expect(rowRepo({ repo_owner: 'acme', repo_name: 'web' }, 'acme/api')).toBe('acme/web')
+  })
+
+  it('falls back to the primary repository for rows stored without one', () => {
+    expect(rowRepo({ repo_owner: null, repo_name: 'web' }, 'acme/api')).toBe('acme/api')
+    expect(rowRepo({}, 'acme/api')).toBe('acme/api')
+  })
+})
+
+describe('fingerprintAction', () => {
+  const now = new Date('2024-01-10T12:00:00Z')
+
+  it('inserts when the fingerprint has never been seen', () => {
+    expect(fingerprintAction(null, now)).toBe('insert')
+  })
+
+  it('updates an alert that is still open', () => {
+    expect(fingerprintAction({ resolved: false }, now)).toBe('update')
+  })
+
+  it('respects a manual resolution for an hour', () => {
+    const latest = { resolved: true, resolved_reason: 'manual', resolved_at: '2024-01-10T11:30:00Z' }
+    expect(fingerprintAction(latest, now)).toBe('skip')
+    expect(fingerprintAction({ ...latest, resolved_at: '2024-01-10T10:30:00Z' }, now)).toBe('insert')
+  })
+
+  it('raises again immediately after an auto-resolution', () => {
+    expect(fingerprintAction({ resolved: true, resolved_reason: 'auto', resolved_at: '2024-01-10T11:59:00Z' }, now)).toBe('insert')
+  })
 })
 
 describe('calculateKnowledgeConcentration', () => {
@@ -130,4 +285,14 @@ describe('calculateKnowledgeConcentration', () => {
     expect(result.dominant_author).toBe('alice') // 110 vs 90
     expect(result.concentration).toBeCloseTo(55, 0)
   })
+
+  it('accepts recency-weighted blame lines', () => {
+    const result = calculateKnowledgeConcentration([
+      { author_github_username: 'alice', weighted_lines: 25 },
+      { author_github_username: 'bob', weighted_lines: 75 },
+    ])
+    expect(result.dominant_author).toBe('bob')
+    expect(result.concentration).toBeCloseTo(75, 5)
+    expect(result.busFactor).toBe(1)
+  })
 })
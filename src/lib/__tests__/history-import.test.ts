@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { importProgress, rateLimitDelayMs } from '../history-import'
+
+describe('rateLimitDelayMs', () => {
+  const now = 1_000_000
+
+  it('does not wait while calls remain above the reserve', () => {
+    expect(rateLimitDelayMs({ remaining: 4000, resetAt: now + 600_000 }, now)).toBe(0)
+    expect(rateLimitDelayMs(null, now)).toBe(0)
+    expect(rateLimitDelayMs({ remaining: null, resetAt: null }, now)).toBe(0)
+  })
+
+  it('waits until the reset, plus slack, once the reserve is reached', () => {
+    expect(rateLimitDelayMs({ remaining: 10, resetAt: now + 30_000 }, now)).toBe(31_000)
+  })
+
+  it('only waits the slack when the reset has already passed', () => {
+    expect(rateLimitDelayMs({ remaining: 0, resetAt: now - 5000 }, now)).toBe(1000)
+  })
+})
+
+describe('importProgress', () => {
+  it('reports imported / total with a percentage', () => {
+    const progress = importProgress({
+      commits_imported: 4200, commits_total: 12000,
+      pull_requests_imported: 0, pull_requests_total: null,
+      issues_imported: 0, issues_total: 0,
+    })
+    expect(progress.commits).toEqual({ imported: 4200, total: 12000, percent: 35 })
+    expect(progress.pullRequests.percent).toBeNull()
+    expect(progress.issues.percent).toBe(100)
+  })
+
+  it('caps at 100% when more was imported than first counted', () => {
+    const progress = importProgress({
+      commits_imported: 105, commits_total: 100,
+      pull_requests_imported: 0, pull_requests_total: 0,
+      issues_imported: 0, issues_total: 0,
+    })
+    expect(progress.commits.percent).toBe(100)
+  })
+})
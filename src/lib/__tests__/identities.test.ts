@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createIdentityResolver,
+  messageAuthor,
+  normalizeIdentity,
+  noreplyLogin,
+  observedIdentities,
+  planIdentityMerge,
+  suggestIdentityMerges,
+} from '../identities'
+
+const people = [
+  {
+    id: 'p1',
+    display_name: 'Alice Smith',
+    identities: [
+      { kind: 'github' as const, value: 'AliceS' },
+      { kind: 'email' as const, value: 'alice@work.com' },
+      { kind: 'phone' as const, value: '+15551234567' },
+    ],
+  },
+]
+
+const members = [
+  { id: 'u1', name: 'Bob Jones', email: 'bob@work.com', github_username: 'bobj', discord_id: '111' },
+  { id: 'u2', name: 'Alice', email: 'alice@home.org', github_username: 'alices', discord_id: '222' },
+]
+
+describe('normalizeIdentity', () => {
+  it('normalizes each kind', () => {
+    expect(normalizeIdentity('github', '@octocat')).toBe('octocat')
+    expect(normalizeIdentity('email', ' Alice@Work.COM ')).toBe('alice@work.com')
+    expect(normalizeIdentity('phone', '+1 (555) 123-4567')).toBe('+15551234567')
+    expect(normalizeIdentity('phone', '15551234567@s.whatsapp.net')).toBe('15551234567')
+    expect(normalizeIdentity('discord', '123456789')).toBe('123456789')
+  })
+
+  it('rejects values that are not identities of that kind', () => {
+    expect(normalizeIdentity('github', 'John Doe')).toBeNull()
+    expect(normalizeIdentity('email', 'not-an-email')).toBeNull()
+    expect(normalizeIdentity('phone', '123')).toBeNull()
+    expect(normalizeIdentity('discord', 'app')).toBeNull()
+    expect(normalizeIdentity('email', '')).toBeNull()
+  })
+})
+
+describe('noreplyLogin', () => {
+  it('reads the login from GitHub no-reply emails', () => {
+    expect(noreplyLogin('12345+octocat@users.noreply.github.com')).toBe('octocat')
+    expect(noreplyLogin('octocat@users.noreply.github.com')).toBe('octocat')
+    expect(noreplyLogin('octocat@github.com')).toBeNull()
+  })
+})
+
+describe('createIdentityResolver', () => {
+  const resolver = createIdentityResolver(people, members)
+
+  it('resolves registered identities case-insensitively', () => {
+    expect(resolver.resolve('github', 'alices')?.id).toBe('p1')
+    expect(resolver.resolve('email', 'ALICE@work.com')?.id).toBe('p1')
+    expect(resolver.resolve('phone', '+1 555 123 4567')?.name).toBe('Alice Smith')
+  })
+
+  it('joins a registered member\'s other accounts to their person', () => {
+    expect(resolver.resolveUser('u2')?.id).toBe('p1')
+    expect(resolver.resolve('discord', '222')?.id).toBe('p1')
+    expect(resolver.resolve('email', 'alice@home.org')?.id).toBe('p1')
+  })
+
+  it('treats unregistered members as people', () => {
+    const bob = resolver.resolve('email', 'bob@work.com')
+    expect(bob).toEqual({ id: 'user:u1', name: 'Bob Jones', key: 'bobj' })
+    expect(resolver.resolveUser('u1')).toBe(bob)
+  })
+
+  it('keys authors by the person\'s GitHub login', () => {
+    expect(resolver.authorKey('alice@work.com')).toBe('AliceS')
+    expect(resolver.authorKey('alices')).toBe('AliceS')
+    expect(resolver.authorKey('bob@work.com')).toBe('bobj')
+    expect(resolver.authorKey('99+AliceS@users.noreply.github.com')).toBe('AliceS')
+  })
+
+  it('leaves unknown authors as they are, apart from no-reply emails', () => {
+    expect(resolver.authorKey('stranger')).toBe('stranger')
+    expect(resolver.authorKey('stranger@example.com')).toBe('stranger@example.com')
+    expect(resolver.authorKey('7+someone@users.noreply.github.com')).toBe('someone')
+  })
+
+  it('falls back to the display name for people without a GitHub login', () => {
+    const r = createIdentityResolver([{ id: 'p2', display_name: 'Carol', identities: [{ kind: 'email', value: 'carol@x.io' }] }])
+    expect(r.authorKey('carol@x.io')).toBe('Carol')
+  })
+})
+
+describe('messageAuthor', () => {
+  const resolver = createIdentityResolver(people, members)
+
+  it('attributes chat messages to people by user, Discord id or phone', () => {
+    expect(messageAuthor(resolver, { user_id: 'u1', name: 'bob@work.com' }).key).toBe('bobj')
+    expect(messageAuthor(resolver, { discord_id: '222', name: 'ally' })).toMatchObject({ key: 'AliceS', name: 'Alice Smith' })
+    expect(messageAuthor(resolver, { phone: '15551234567@s.whatsapp.net', name: 'A' }).person?.id).toBe('p1')
+  })
+
+  it('falls back to the message\'s display name', () => {
+    expect(messageAuthor(resolver, { discord_id: '999', name: 'mystery' })).toEqual({ key: 'mystery', name: 'mystery', person: null })
+  })
+})
+
+describe('suggestIdentityMerges', () => {
+  const empty = createIdentityResolver([])
+
+  it('links a commit\'s login and email', () => {
+    const observed = observedIdentities({ commits: [{ author_github_username: 'dave', author_email: 'd.k@corp.com', author_name: 'D K' }] })
+    const [s] = suggestIdentityMerges(observed, empty)
+    expect(s.identities.map((i) => `${i.kind}:${i.value}`)).toEqual(['github:dave', 'email:d.k@corp.com'])
+    expect(s.reasons).toEqual(['Same commit author'])
+  })
+
+  it('matches names across git, Discord and WhatsApp', () => {
+    const observed = observedIdentities({
+      commits: [{ author_github_username: 'erin@corp.com', author_email: 'erin@corp.com', author_name: 'Erin Núñez' }],
+      discordMessages: [{ author_discord_id: '333', author_username: 'erin_nunez' }],
+      whatsappMessages: [{ author_identifier: '+44 7700 900123', author_name: 'Erin Nunez' }],
+    })
+    const [s] = suggestIdentityMerges(observed, empty)
+    expect(s.identities.map((i) => i.kind)).toEqual(['email', 'discord', 'phone'])
+    expect(s.display_name).toBe('Erin Núñez')
+  })
+
+  it('links no-reply emails and email local parts to logins', () => {
+    const observed = observedIdentities({
+      commits: [
+        { author_github_username: 'frank', author_email: null, author_name: null },
+        { author_github_username: null, author_email: '5+frank@users.noreply.github.com', author_name: null },
+        { author_github_username: null, author_email: 'frank@home.net', author_name: null },
+      ],
+    })
+    const [s] = suggestIdentityMerges(observed, empty)
+    expect(s.identities).toHaveLength(3)
+    expect(s.reasons).toContain('GitHub no-reply email')
+  })
+
+  it('ignores short and generic names', () => {
+    const observed = observedIdentities({
+      commits: [{ author_github_username: null, author_email: 'admin@a.com', author_name: 'admin' }],
+      discordMessages: [{ author_discord_id: '1', author_username: 'admin' }, { author_discord_id: '2', author_username: 'Al' }],
+      whatsappMessages: [{ author_identifier: '+15550000000', author_name: 'al' }],
+    })
+    expect(suggestIdentityMerges(observed, empty)).toEqual([])
+  })
+
+  it('skips groups already resolved to one person', () => {
+    const resolver = createIdentityResolver(people, members)
+    const observed = observedIdentities({
+      commits: [{ author_github_username: 'alices', author_email: 'alice@work.com', author_name: 'Alice Smith' }],
+      members,
+    })
+    const suggestions = suggestIdentityMerges(observed, resolver)
+    expect(suggestions.every((s) => !s.identities.some((i) => i.value === 'alice@work.com'))).toBe(true)
+  })
+
+  it('suggests folding a member into a registered person', () => {
+    const resolver = createIdentityResolver(people, members)
+    const observed = observedIdentities({ commits: [{ author_github_username: 'bobj', author_email: 'bob@home.io', author_name: null }] })
+    const [s] = suggestIdentityMerges(observed, resolver)
+    expect(s.identities.map((i) => [i.value, i.person_id])).toEqual([['bobj', null], ['bob@home.io', null]])
+    expect(s.display_name).toBe('Bob Jones')
+  })
+})
+
+describe('planIdentityMerge', () => {
+  const existing = [
+    { kind: 'github' as const, value: 'AliceS', person_id: 'p1' },
+    { kind: 'email' as const, value: 'alice@home.org', person_id: 'p2' },
+  ]
+
+  it('creates a person when none of the identities is registered', () => {
+    expect(planIdentityMerge(existing, [{ kind: 'email', value: 'new@x.io' }])).toEqual({
+      targetId: null, mergedPeople: [], insert: [{ kind: 'email', value: 'new@x.io' }],
+    })
+  })
+
+  it('keeps the first registered person and folds in the others', () => {
+    const plan = planIdentityMerge(existing, [
+      { kind: 'github', value: 'alices' },
+      { kind: 'email', value: 'alice@home.org' },
+      { kind: 'discord', value: '222' },
+      { kind: 'discord', value: '222' },
+    ])
+    expect(plan).toEqual({ targetId: 'p1', mergedPeople: ['p2'], insert: [{ kind: 'discord', value: '222' }] })
+  })
+
+  it('honours an explicit target', () => {
+    const plan = planIdentityMerge(existing, [{ kind: 'github', value: 'AliceS' }], 'p2')
+    expect(plan).toEqual({ targetId: 'p2', mergedPeople: ['p1'], insert: [] })
+  })
+})
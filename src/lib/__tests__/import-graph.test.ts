@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isModuleFile,
+  parseImports,
+  resolveImport,
+  buildImportEdges,
+  findImportCycles,
+  componentEdges,
+  shortestCycle,
+} from '../import-graph'
+
+describe('isModuleFile', () => {
+  it('accepts TS/JS sources and skips declarations and build output', () => {
+    expect(isModuleFile('src/lib/jwt.ts')).toBe(true)
+    expect(isModuleFile('src/app/page.tsx')).toBe(true)
+    expect(isModuleFile('src/types/global.d.ts')).toBe(false)
+    expect(isModuleFile('node_modules/zod/index.js')).toBe(false)
+    expect(isModuleFile('README.md')).toBe(false)
+  })
+})
+
+describe('parseImports', () => {
+  it('finds static imports, re-exports and require calls', () => {
+    const source = [
+      "'use client'",
+      "import React, { useState } from 'react'",
+      "import './styles.css'",
+      'import {',
+      '  a,',
+      '  b,',
+      "} from './multi'",
+      "export * from './barrel'",
+      "export { x } from '../x'",
+      "const legacy = require('./legacy')",
+    ].join('\n')
+    expect(parseImports(source).sort()).toEqual(['../x', './barrel', './legacy', './multi', './styles.css', 'react'])
+  })
+
+  it('skips type-only imports, dynamic imports and comments', () => {
+    const source = [
+      "import type { User } from './types'",
+      "export type { Thing } from './things'",
+      "const lazy = () => import('./lazy')",
+      "// import { old } from './old'",
+      "/* import { older } from './older' */",
+    ].join('\n')
+    expect(parseImports(source)).toEqual([])
+  })
+})
+
+describe('resolveImport', () => {
+  const files = new Set(['src/lib/a.ts', 'src/lib/b/index.ts', 'src/components/Button.tsx', 'src/lib/util.ts'])
+
+  it('resolves relative paths with implicit extensions and index files', () => {
+    expect(resolveImport('src/lib/c.ts', './a', files)).toBe('src/lib/a.ts')
+    expect(resolveImport('src/lib/c.ts', './b', files)).toBe('src/lib/b/index.ts')
+    expect(resolveImport('src/app/page.tsx', '../components/Button', files)).toBe('src/components/Button.tsx')
+  })
+
+  it('resolves the @/ alias and .js specifiers that point at TS sources', () => {
+    expect(resolveImport('src/app/page.tsx', '@/lib/a', files)).toBe('src/lib/a.ts')
+    expect(resolveImport('src/lib/c.ts', './util.js', files)).toBe('src/lib/util.ts')
+  })
+
+  it('returns null for packages and missing files', () => {
+    expect(resolveImport('src/lib/c.ts', 'react', files)).toBeNull()
+    expect(resolveImport('src/lib/c.ts', './missing', files)).toBeNull()
+  })
+})
+
+describe('findImportCycles', () => {
+  it('returns no components for an acyclic graph', () => {
+    const edges = buildImportEdges([
+      { file_path: 'a.ts', imports: ['b.ts', 'c.ts'] },
+      { file_path: 'b.ts', imports: ['c.ts'] },
+      { file_path: 'c.ts', imports: [] },
+    ])
+    expect(findImportCycles(edges)).toEqual([])
+  })
+
+  it('finds each strongly connected component once', () => {
+    const edges = buildImportEdges([
+      { file_path: 'a.ts', imports: ['b.ts'] },
+      { file_path: 'b.ts', imports: ['c.ts'] },
+      { file_path: 'c.ts', imports: ['a.ts', 'd.ts'] },
+      { file_path: 'd.ts', imports: ['e.ts'] },
+      { file_path: 'e.ts', imports: ['d.ts'] },
+      { file_path: 'f.ts', imports: ['a.ts'] },
+    ])
+    expect(findImportCycles(edges)).toEqual([['a.ts', 'b.ts', 'c.ts'], ['d.ts', 'e.ts']])
+  })
+
+  it('treats a self-import as a cycle', () => {
+    expect(findImportCycles([{ from: 'a.ts', to: 'a.ts' }])).toEqual([['a.ts']])
+  })
+
+  it('handles long chains without recursion limits', () => {
+    const modules = Array.from({ length: 20000 }, (_, i) => ({ file_path: `m${i}.ts`, imports: [`m${(i + 1) % 20000}.ts`] }))
+    const cycles = findImportCycles(buildImportEdges(modules))
+    expect(cycles).toHaveLength(1)
+    expect(cycles[0]).toHaveLength(20000)
+  })
+})
+
+describe('shortestCycle', () => {
+  it('walks the component back to its first module', () => {
+    const edges = buildImportEdges([
+      { file_path: 'a.ts', imports: ['b.ts'] },
+      { file_path: 'b.ts', imports: ['c.ts', 'a.ts'] },
+      { file_path: 'c.ts', imports: ['a.ts'] },
+    ])
+    const [component] = findImportCycles(edges)
+    expect(shortestCycle(component, edges)).toEqual(['a.ts', 'b.ts', 'a.ts'])
+    expect(componentEdges(component, edges)).toHaveLength(4)
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { retryDelaySeconds, nextJobState } from '../job-queue'
+
+describe('retryDelaySeconds', () => {
+  it('doubles the delay after each failed attempt', () => {
+    expect(retryDelaySeconds(1)).toBe(30)
+    expect(retryDelaySeconds(2)).toBe(60)
+    expect(retryDelaySeconds(4)).toBe(240)
+  })
+
+  it('caps the delay at an hour', () => {
+    expect(retryDelaySeconds(20)).toBe(3600)
+  })
+})
+
+describe('nextJobState', () => {
+  const now = new Date('2026-01-01T12:00:00Z')
+
+  it('marks a successful attempt as succeeded', () => {
+    const next = nextJobState({ attempts: 1, max_attempts: 5 }, null, now)
+    expect(next.status).toBe('succeeded')
+    expect(next.last_error).toBeNull()
+  })
+
+  it('queues a failed attempt again after the backoff', () => {
+    const next = nextJobState({ attempts: 2, max_attempts: 5 }, 'Store commit: timeout', now)
+    expect(next.status).toBe('queued')
+    expect(next.last_error).toBe('Store commit: timeout')
+    expect(next).toHaveProperty('run_at', '2026-01-01T12:01:00.000Z')
+  })
+
+  it('fails the job for good once attempts run out', () => {
+    const next = nextJobState({ attempts: 5, max_attempts: 5 }, 'boom', now)
+    expect(next.status).toBe('failed')
+    expect(next).not.toHaveProperty('run_at')
+  })
+})
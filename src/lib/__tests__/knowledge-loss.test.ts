@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { simulateDeparture } from '../knowledge-loss'
+
+const row = (file_path: string, author: string, lines: number) =>
+  ({ file_path, author_github_username: author, lines_added: lines, lines_modified: 0 })
+
+const rows = [
+  row('src/lib/auth.ts', 'alice', 95),
+  row('src/lib/auth.ts', 'bob', 5),
+  row('src/lib/db.ts', 'alice', 50),
+  row('src/lib/db.ts', 'bob', 50),
+  row('src/app/page.tsx', 'carol', 80),
+  row('docs/setup.md', 'alice', 30),
+]
+
+describe('simulateDeparture', () => {
+  it('orphans files where nobody remaining reaches the threshold', () => {
+    const sim = simulateDeparture(rows, ['alice'])
+    expect(sim.affectedFiles).toBe(3)
+    // auth.ts: bob holds 5%; setup.md: nobody left. db.ts keeps bob at 50%
+    expect(sim.orphanedFiles.map((f) => f.file).sort()).toEqual(['docs/setup.md', 'src/lib/auth.ts'])
+    const auth = sim.orphanedFiles.find((f) => f.file === 'src/lib/auth.ts')!
+    expect(auth.departingShare).toBe(95)
+    expect(auth.remainingAuthor).toBe('bob')
+    expect(auth.remainingShare).toBe(5)
+    expect(sim.orphanedFiles.find((f) => f.file === 'docs/setup.md')!.remainingAuthor).toBeNull()
+  })
+
+  it('estimates affected and orphaned lines', () => {
+    const sim = simulateDeparture(rows, ['alice'])
+    expect(sim.affectedLines).toBe(175)
+    expect(sim.orphanedLines).toBe(130) // auth.ts 100 + setup.md 30
+  })
+
+  it('orphans directories by their remaining owners, not by their files', () => {
+    const sim = simulateDeparture(rows, ['alice'])
+    // docs/ loses everyone; src/lib keeps bob with 55 of 200; src/ keeps carol with 80 of 280
+    expect(sim.orphanedDirectories.map((d) => d.path)).toEqual(['docs'])
+    expect(sim.orphanedDirectories[0]).toMatchObject({ files: 1, orphanedFiles: 1, lines: 30 })
+  })
+
+  it('respects a custom threshold', () => {
+    const sim = simulateDeparture(rows, ['alice'], { threshold: 0.6 })
+    expect(sim.orphanedFiles.map((f) => f.file)).toContain('src/lib/db.ts')
+    expect(sim.orphanedDirectories.map((d) => d.path)).toContain('src/lib')
+  })
+
+  it('recomputes the codebase bus factor without the departing contributors', () => {
+    const sim = simulateDeparture(rows, ['alice'])
+    expect(sim.busFactorBefore).toBe(1) // alice holds 175 of 310
+    expect(sim.busFactorAfter).toBe(1) // carol 80 of 135
+    expect(simulateDeparture(rows, ['alice', 'bob', 'carol']).busFactorAfter).toBe(0)
+  })
+
+  it('matches usernames case-insensitively and handles several departures', () => {
+    const sim = simulateDeparture(rows, ['ALICE', 'Bob'])
+    expect(sim.orphanedFiles.map((f) => f.file)).toContain('src/lib/db.ts')
+    expect(sim.orphanedFiles.map((f) => f.file)).not.toContain('src/app/page.tsx')
+  })
+
+  it('prefers raw blame line counts over weights for line estimates', () => {
+    const sim = simulateDeparture([{ file_path: 'a.ts', author_github_username: 'alice', weighted_lines: 12.5, lines: 40 }], ['alice'])
+    expect(sim.orphanedLines).toBe(40)
+  })
+
+  it('puts directories under their repository when there are several', () => {
+    const sim = simulateDeparture([
+      { ...row('src/a.ts', 'alice', 10), repo: 'acme/api' },
+      { ...row('src/a.ts', 'bob', 10), repo: 'acme/web' },
+    ], ['alice'])
+    expect(sim.orphanedDirectories.map((d) => d.path).sort()).toEqual(['acme/api', 'acme/api/src'])
+    expect(sim.orphanedFiles).toEqual([expect.objectContaining({ repo: 'acme/api', file: 'src/a.ts' })])
+  })
+
+  it('changes nothing for someone with no knowledge', () => {
+    const sim = simulateDeparture(rows, ['dave'])
+    expect(sim.affectedFiles).toBe(0)
+    expect(sim.orphanedFiles).toEqual([])
+    expect(sim.busFactorAfter).toBe(sim.busFactorBefore)
+  })
+})
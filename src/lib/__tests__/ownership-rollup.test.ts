@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { findOwnershipNode, ownershipBreadcrumbs, rollupOwnership } from '../ownership-rollup'
+
+const rows = [
+  { file_path: 'src/lib/a.ts', author_github_username: 'alice', lines_added: 90, lines_modified: 0 },
+  { file_path: 'src/lib/a.ts', author_github_username: 'bob', lines_added: 10, lines_modified: 0 },
+  { file_path: 'src/lib/b.ts', author_github_username: 'bob', lines_added: 50, lines_modified: 0 },
+  { file_path: 'src/app/page.tsx', author_github_username: 'carol', lines_added: 40, lines_modified: 10 },
+  { file_path: 'README.md', author_github_username: 'alice', lines_added: 5, lines_modified: 0 },
+]
+
+describe('rollupOwnership', () => {
+  it('sums author weights up every directory', () => {
+    const root = rollupOwnership(rows)
+    expect(root.files).toBe(4)
+    expect(root.weight).toBe(205)
+    const lib = findOwnershipNode(root, 'src/lib')!
+    expect(lib.type).toBe('directory')
+    expect(lib.files).toBe(2)
+    expect(lib.weight).toBe(150)
+    expect(lib.dominant_author).toBe('alice') // 90 vs 60
+    expect(lib.authorCount).toBe(2)
+  })
+
+  it('gives a directory owned by one person a bus factor of 1', () => {
+    const app = findOwnershipNode(rollupOwnership(rows), 'src/app')!
+    expect(app.busFactor).toBe(1)
+    expect(app.concentration).toBe(100)
+  })
+
+  it('counts critical files under each directory', () => {
+    const root = rollupOwnership(rows)
+    // a.ts is 90% alice, b.ts 100% bob, page.tsx 100% carol, README.md 100% alice
+    expect(root.criticalFiles).toBe(4)
+    expect(findOwnershipNode(root, 'src/lib')!.criticalFiles).toBe(2)
+  })
+
+  it('orders children by weight, largest first', () => {
+    const src = findOwnershipNode(rollupOwnership(rows), 'src')!
+    expect(src.children.map((c) => c.name)).toEqual(['lib', 'app'])
+  })
+
+  it('accepts blame weights', () => {
+    const root = rollupOwnership([
+      { file_path: 'x/y.ts', author_github_username: 'alice', weighted_lines: 3 },
+      { file_path: 'x/y.ts', author_github_username: 'bob', weighted_lines: 1 },
+    ])
+    expect(findOwnershipNode(root, 'x')!.concentration).toBe(75)
+  })
+
+  it('groups files under their repository when there are several', () => {
+    const root = rollupOwnership([
+      { repo: 'acme/api', file_path: 'src/index.ts', author_github_username: 'alice', lines_added: 10, lines_modified: 0 },
+      { repo: 'acme/web', file_path: 'src/index.ts', author_github_username: 'bob', lines_added: 10, lines_modified: 0 },
+    ])
+    expect(root.children.map((c) => [c.type, c.path])).toEqual([['repository', 'acme/api'], ['repository', 'acme/web']])
+    expect(findOwnershipNode(root, 'acme/web/src/index.ts')!.dominant_author).toBe('bob')
+  })
+
+  it('does not add a repository level for a single repository', () => {
+    const root = rollupOwnership([{ repo: 'acme/api', file_path: 'src/index.ts', author_github_username: 'alice', lines_added: 1, lines_modified: 0 }])
+    expect(root.children[0].path).toBe('src')
+  })
+})
+
+describe('findOwnershipNode', () => {
+  it('returns the root for an empty path and null for an unknown one', () => {
+    const root = rollupOwnership(rows)
+    expect(findOwnershipNode(root, '')).toBe(root)
+    expect(findOwnershipNode(root, 'src/missing')).toBeNull()
+    // A prefix of a name is not a parent
+    expect(findOwnershipNode(root, 'sr')).toBeNull()
+  })
+})
+
+describe('ownershipBreadcrumbs', () => {
+  it('lists every level from the root down', () => {
+    expect(ownershipBreadcrumbs(rollupOwnership(rows), 'src/lib')).toEqual([
+      { path: '', name: 'All files' },
+      { path: 'src', name: 'src' },
+      { path: 'src/lib', name: 'lib' },
+    ])
+  })
+})
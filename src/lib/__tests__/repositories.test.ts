@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { parseRepoParam, repoFullName } from '../repositories'
+
+describe('parseRepoParam', () => {
+  it('splits owner/name', () => {
+    expect(parseRepoParam('acme/api')).toEqual({ owner: 'acme', name: 'api' })
+    expect(parseRepoParam(' acme-corp/web.app_2 ')).toEqual({ owner: 'acme-corp', name: 'web.app_2' })
+  })
+
+  it('rejects anything that is not a single owner/name pair', () => {
+    expect(parseRepoParam(null)).toBeNull()
+    expect(parseRepoParam('')).toBeNull()
+    expect(parseRepoParam('acme')).toBeNull()
+    expect(parseRepoParam('acme/api/extra')).toBeNull()
+    expect(parseRepoParam('acme/')).toBeNull()
+    expect(parseRepoParam('acme/api?x=1')).toBeNull()
+  })
+})
+
+describe('repoFullName', () => {
+  it('joins owner and name', () => {
+    expect(repoFullName({ repo_owner: 'acme', repo_name: 'api' })).toBe('acme/api')
+  })
+})
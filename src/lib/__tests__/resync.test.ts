@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { advanceCursor, classifyChange, cursorSince, nextCursor, resyncChangedData, type RepoResyncSummary } from '../resync'
+
+describe('cursorSince', () => {
+  it('starts the window an overlap before the cursor', () => {
+    expect(cursorSince('2024-01-10T12:00:00Z', '2024-01-01T00:00:00Z', 3600_000)).toBe('2024-01-10T11:00:00.000Z')
+  })
+
+  it('falls back to the bind time when no cursor is stored', () => {
+    expect(cursorSince(null, '2024-01-01T00:00:00Z', 0)).toBe('2024-01-01T00:00:00.000Z')
+  })
+})
+
+describe('advanceCursor', () => {
+  it('moves to the newest timestamp seen', () => {
+    expect(advanceCursor('2024-01-01T00:00:00Z', ['2024-01-03T00:00:00Z', '2024-01-02T00:00:00Z'])).toBe('2024-01-03T00:00:00.000Z')
+  })
+
+  it('never moves backwards and ignores missing values', () => {
+    expect(advanceCursor('2024-01-05T00:00:00Z', ['2024-01-03T00:00:00Z', null, undefined])).toBe('2024-01-05T00:00:00.000Z')
+    expect(advanceCursor(null, [])).toBeNull()
+  })
+})
+
+describe('nextCursor', () => {
+  const seen = ['2024-01-09T00:00:00Z', '2024-01-08T00:00:00Z']
+
+  it('advances past a listing that covered the whole window', () => {
+    expect(nextCursor('2024-01-01T00:00:00Z', seen, false)).toBe('2024-01-09T00:00:00.000Z')
+  })
+
+  it('keeps the cursor when the listing was truncated, so the unfetched older part is listed again', () => {
+    expect(nextCursor('2024-01-01T00:00:00Z', seen, true)).toBe('2024-01-01T00:00:00Z')
+    expect(nextCursor(null, seen, true)).toBeNull()
+  })
+})
+
+describe('classifyChange', () => {
+  const fields = ['title', 'state', 'closed_at', 'labels']
+
+  it('reports rows that were never stored as added', () => {
+    expect(classifyChange(undefined, { title: 'Fix' }, fields)).toBe('added')
+  })
+
+  it('ignores timestamp formatting and null vs undefined', () => {
+    const stored = { title: 'Fix', state: 'closed', closed_at: '2024-01-01T10:00:00+00:00', labels: ['bug'] }
+    const incoming = { title: 'Fix', state: 'closed', closed_at: '2024-01-01T10:00:00Z', labels: ['bug'], merged_at: undefined }
+    expect(classifyChange(stored, incoming, [...fields, 'merged_at'])).toBe('unchanged')
+  })
+
+  it('reports a changed field as updated', () => {
+    const stored = { title: 'Fix', state: 'open', closed_at: null, labels: ['bug'] }
+    expect(classifyChange(stored, { ...stored, state: 'closed', closed_at: '2024-01-02T00:00:00Z' }, fields)).toBe('updated')
+    expect(classifyChange(stored, { ...stored, labels: ['bug', 'p1'] }, fields)).toBe('updated')
+  })
+})
+
+describe('resyncChangedData', () => {
+  const counts = { added: 0, updated: 0, unchanged: 4 }
+  const summary: RepoResyncSummary = {
+    repo: 'acme/api', commits: counts, pullRequests: counts, issues: counts,
+    changes: { commits: [], pullRequests: [], issues: [] }, truncated: [], error: null, elapsed_ms: 10,
+  }
+
+  it('is false when every repository was already up to date', () => {
+    expect(resyncChangedData([summary])).toBe(false)
+  })
+
+  it('is true once anything was added or updated', () => {
+    expect(resyncChangedData([summary, { ...summary, issues: { added: 0, updated: 1, unchanged: 0 } }])).toBe(true)
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeReviewerStats,
+  firstRealReviewAt,
+  normalizeReviewState,
+  requestedReviewers,
+  suggestReviewers,
+  type PullRequestReview,
+  type ReviewedPullRequest,
+  type ReviewerStats,
+} from '../reviews'
+
+const review = (prNumber: number, reviewer: string, state: string, submittedAt: string, comments = 0, repo = 'app'): PullRequestReview => ({
+  github_pr_number: prNumber,
+  repo_owner: 'acme',
+  repo_name: repo,
+  reviewer_github_username: reviewer,
+  state,
+  submitted_at: submittedAt,
+  comment_count: comments,
+})
+
+const pr = (number: number, overrides: Partial<ReviewedPullRequest> = {}): ReviewedPullRequest => ({
+  github_pr_number: number,
+  repo_owner: 'acme',
+  repo_name: 'app',
+  state: 'closed',
+  author_github_username: 'author',
+  opened_at: '2026-01-01T00:00:00Z',
+  first_review_at: null,
+  requested_reviewers: [],
+  ...overrides,
+})
+
+describe('normalizeReviewState', () => {
+  it('accepts webhook and REST casing and rejects unknown states', () => {
+    expect(normalizeReviewState('approved')).toBe('approved')
+    expect(normalizeReviewState('CHANGES_REQUESTED')).toBe('changes_requested')
+    expect(normalizeReviewState('pending')).toBeNull()
+    expect(normalizeReviewState(undefined)).toBeNull()
+  })
+})
+
+describe('firstRealReviewAt', () => {
+  it('ignores the author replying to their own PR', () => {
+    const reviews = [
+      review(1, 'author', 'commented', '2026-01-01T01:00:00Z'),
+      review(1, 'bob', 'approved', '2026-01-01T05:00:00Z'),
+      review(1, 'carol', 'commented', '2026-01-01T03:00:00Z'),
+    ]
+    expect(firstRealReviewAt(reviews, 'author')).toBe('2026-01-01T03:00:00Z')
+    expect(firstRealReviewAt([reviews[0]], 'author')).toBeNull()
+  })
+})
+
+describe('computeReviewerStats', () => {
+  it('counts reviews, outcomes and comments per reviewer, excluding the author', () => {
+    const stats = computeReviewerStats([
+      review(1, 'bob', 'changes_requested', '2026-01-01T02:00:00Z', 3),
+      review(1, 'bob', 'approved', '2026-01-01T06:00:00Z'),
+      review(1, 'author', 'commented', '2026-01-01T03:00:00Z', 1),
+      review(2, 'bob', 'commented', '2026-01-02T00:00:00Z', 2),
+    ], [pr(1), pr(2, { opened_at: '2026-01-01T20:00:00Z' })])
+
+    expect(stats).toHaveLength(1)
+    expect(stats[0]).toMatchObject({
+      reviewer: 'bob',
+      reviews: 3,
+      prsReviewed: 2,
+      approvals: 1,
+      changesRequested: 1,
+      comments: 5,
+    })
+  })
+
+  it('measures response time from the review request, else from PR open', () => {
+    const stats = computeReviewerStats([
+      review(1, 'bob', 'approved', '2026-01-01T10:00:00Z'),
+      review(2, 'bob', 'approved', '2026-01-01T04:00:00Z'),
+    ], [
+      pr(1, { first_review_at: '2026-01-01T08:00:00Z' }),
+      pr(2),
+    ])
+
+    // 2h and 4h → median 3h
+    expect(stats[0].medianResponseHours).toBe(3)
+  })
+
+  it('counts pending review requests on open PRs and sorts by load', () => {
+    const stats = computeReviewerStats([
+      review(1, 'bob', 'approved', '2026-01-01T01:00:00Z'),
+    ], [
+      pr(1),
+      pr(2, { state: 'open', requested_reviewers: ['carol', 'bob'] }),
+      pr(3, { state: 'open', requested_reviewers: ['carol'] }),
+      pr(4, { state: 'closed', requested_reviewers: ['dave'] }),
+    ])
+
+    expect(stats.map((s) => [s.reviewer, s.pendingRequests])).toEqual([['bob', 1], ['carol', 2]])
+    expect(stats[1].medianResponseHours).toBeNull()
+  })
+
+  it('keeps PRs with the same number in different repositories apart', () => {
+    const stats = computeReviewerStats([
+      review(1, 'bob', 'approved', '2026-01-01T02:00:00Z', 0, 'app'),
+      review(1, 'bob', 'approved', '2026-01-01T05:00:00Z', 0, 'api'),
+      review(1, 'carol', 'commented', '2026-01-01T03:00:00Z', 0, 'api'),
+    ], [
+      pr(1),
+      pr(1, { repo_name: 'api', author_github_username: 'carol', opened_at: '2026-01-01T04:00:00Z' }),
+    ])
+
+    expect(stats).toHaveLength(1)
+    // 2h on app#1 and 1h on api#1
+    expect(stats[0]).toMatchObject({ reviewer: 'bob', prsReviewed: 2, medianResponseHours: 1.5 })
+  })
+})
+
+describe('requestedReviewers', () => {
+  it('reads logins from a stored pull_request payload', () => {
+    expect(requestedReviewers({ requested_reviewers: [{ login: 'bob' }, {}] })).toEqual(['bob'])
+    expect(requestedReviewers(null)).toEqual([])
+  })
+})
+
+describe('suggestReviewers', () => {
+  const authored = (file: string, author: string, lines: number) => ({
+    file_path: file, author_github_username: author, lines_added: lines, lines_modified: 0,
+  })
+  const stats = (reviewer: string, pendingRequests: number, medianResponseHours: number | null): ReviewerStats => ({
+    reviewer, reviews: 1, prsReviewed: 1, approvals: 0, changesRequested: 0, comments: 0, pendingRequests, medianResponseHours,
+  })
+
+  it('ranks by ownership of the changed files and never suggests the author', () => {
+    const suggestions = suggestReviewers({
+      changedFiles: ['src/a.ts', 'src/b.ts'],
+      authorship: [
+        authored('src/a.ts', 'author', 50),
+        authored('src/a.ts', 'bob', 30),
+        authored('src/a.ts', 'carol', 20),
+        authored('src/b.ts', 'bob', 60),
+        authored('src/b.ts', 'carol', 40),
+        authored('src/other.ts', 'dave', 500),
+      ],
+      reviewerStats: [],
+      prAuthor: 'author',
+    })
+
+    expect(suggestions.map((s) => s.reviewer)).toEqual(['bob', 'carol'])
+    expect(suggestions[0].ownership).toBe(0.45)
+    expect(suggestions[0].reasons[0]).toBe('Knows 2 of 2 changed files (45% ownership)')
+  })
+
+  it('weights down the dominant author of a changed file', () => {
+    const suggestions = suggestReviewers({
+      changedFiles: ['src/core.ts'],
+      authorship: [authored('src/core.ts', 'alice', 85), authored('src/core.ts', 'bob', 15)],
+      reviewerStats: [stats('bob', 0, 2)],
+      prAuthor: 'author',
+    })
+
+    const alice = suggestions.find((s) => s.reviewer === 'alice')!
+    expect(alice.ownership).toBe(0.43)
+    expect(alice.reasons).toContain('Dominant author of 1 changed file, weighted down to spread knowledge')
+  })
+
+  it('prefers reviewers with fewer open requests and faster responses', () => {
+    const suggestions = suggestReviewers({
+      changedFiles: ['src/a.ts'],
+      authorship: [authored('src/a.ts', 'bob', 50), authored('src/a.ts', 'carol', 50)],
+      reviewerStats: [stats('bob', 4, 48), stats('carol', 0, 1), stats('dave', 1, null)],
+      prAuthor: null,
+      requested: ['carol'],
+      limit: 2,
+    })
+
+    expect(suggestions.map((s) => s.reviewer)).toEqual(['carol', 'bob'])
+    expect(suggestions[0].alreadyRequested).toBe(true)
+    expect(suggestions[0].reasons).toEqual([
+      'Knows 1 of 1 changed file (50% ownership)',
+      'No open review requests',
+      'Median review response 1h',
+    ])
+    expect(suggestions[1].reasons).toContain('4 open review requests')
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { squarify } from '../treemap'
+
+const area = (r: { width: number; height: number }) => r.width * r.height
+
+describe('squarify', () => {
+  it('gives each tile an area proportional to its value, filling the box', () => {
+    const values = [6, 6, 4, 3, 2, 2, 1]
+    const rects = squarify(values, 6, 4)
+    rects.forEach((r, i) => expect(area(r)).toBeCloseTo(values[i], 6))
+    expect(rects.reduce((s, r) => s + area(r), 0)).toBeCloseTo(24, 6)
+  })
+
+  it('keeps tiles inside the box without overlapping', () => {
+    const rects = squarify([50, 20, 10, 10, 5, 3, 2], 200, 100)
+    for (const r of rects) {
+      expect(r.x).toBeGreaterThanOrEqual(-1e-9)
+      expect(r.y).toBeGreaterThanOrEqual(-1e-9)
+      expect(r.x + r.width).toBeLessThanOrEqual(200 + 1e-6)
+      expect(r.y + r.height).toBeLessThanOrEqual(100 + 1e-6)
+    }
+    for (let i = 0; i < rects.length; i++) {
+      for (let j = i + 1; j < rects.length; j++) {
+        const a = rects[i], b = rects[j]
+        const overlapX = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x)
+        const overlapY = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y)
+        expect(overlapX <= 1e-6 || overlapY <= 1e-6).toBe(true)
+      }
+    }
+  })
+
+  it('returns tiles in input order regardless of value order', () => {
+    const rects = squarify([1, 3], 4, 1)
+    expect(area(rects[0])).toBeCloseTo(1, 6)
+    expect(area(rects[1])).toBeCloseTo(3, 6)
+  })
+
+  it('gives zero-value tiles and empty boxes no area', () => {
+    expect(area(squarify([5, 0], 10, 10)[1])).toBe(0)
+    expect(squarify([1, 2], 0, 10).every((r) => area(r) === 0)).toBe(true)
+    expect(squarify([], 10, 10)).toEqual([])
+  })
+})
@@ -6,6 +6,11 @@ import {
   createWorkspaceSchema,
   createInviteSchema,
   resolveAlertSchema,
+  updateAlertSchema,
+  createAlertCommentSchema,
+  heuristicSettingsSchema,
+  runHeuristicsSchema,
+  escalationPolicySchema,
   discordWebhookMessageSchema,
   whatsappRelaySchema,
   validateBody,
@@ -171,6 +176,89 @@ describe('resolveAlertSchema', () => {
   })
 })
 
+describe('updateAlertSchema', () => {
+  const alert_id = 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11'
+
+  it('defaults to resolve', () => {
+    const result = updateAlertSchema.safeParse({ alert_id })
+    expect(result.success && result.data.action).toBe('resolve')
+  })
+
+  it('requires snoozed_until when snoozing', () => {
+    expect(updateAlertSchema.safeParse({ alert_id, action: 'snooze' }).success).toBe(false)
+    expect(updateAlertSchema.safeParse({ alert_id, action: 'snooze', snoozed_until: '2030-01-01T00:00:00Z' }).success).toBe(true)
+  })
+
+  it('allows clearing an assignment with null', () => {
+    expect(updateAlertSchema.safeParse({ alert_id, action: 'assign', assigned_to: null }).success).toBe(true)
+    expect(updateAlertSchema.safeParse({ alert_id, action: 'assign' }).success).toBe(false)
+  })
+
+  it('rejects unknown actions', () => {
+    expect(updateAlertSchema.safeParse({ alert_id, action: 'delete' }).success).toBe(false)
+  })
+})
+
+describe('createAlertCommentSchema', () => {
+  it('rejects blank comments', () => {
+    expect(createAlertCommentSchema.safeParse({ content: '   ' }).success).toBe(false)
+  })
+})
+
+describe('heuristicSettingsSchema', () => {
+  it('accepts a partial update', () => {
+    const result = heuristicSettingsSchema.safeParse({ inactive_branch_days: 7 })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects non-positive thresholds', () => {
+    const result = heuristicSettingsSchema.safeParse({ wip_threshold: 0 })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects fractional values', () => {
+    const result = heuristicSettingsSchema.safeParse({ stale_pr_hours: 1.5 })
+    expect(result.success).toBe(false)
+  })
+
+  it('accepts rule overrides', () => {
+    const result = heuristicSettingsSchema.safeParse({ rule_overrides: { 'AR-HEU-001': { enabled: false, severity: 'info' } } })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an unknown severity in rule overrides', () => {
+    const result = heuristicSettingsSchema.safeParse({ rule_overrides: { 'AR-HEU-001': { severity: 'urgent' } } })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('runHeuristicsSchema', () => {
+  it('accepts an empty body', () => {
+    expect(runHeuristicsSchema.safeParse({}).success).toBe(true)
+  })
+
+  it('rejects an empty rule id', () => {
+    expect(runHeuristicsSchema.safeParse({ rule_id: '' }).success).toBe(false)
+  })
+})
+
+describe('escalationPolicySchema', () => {
+  it('accepts ordered steps', () => {
+    const result = escalationPolicySchema.safeParse({
+      steps: [{ after_hours: 0, action: 'notify_assignee' }, { after_hours: 2, action: 'notify_admins' }],
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an empty policy', () => {
+    expect(escalationPolicySchema.safeParse({ steps: [] }).success).toBe(false)
+  })
+
+  it('rejects unknown actions', () => {
+    expect(escalationPolicySchema.safeParse({ steps: [{ after_hours: 1, action: 'sms' }] }).success).toBe(false)
+  })
+})
+
 describe('discordWebhookMessageSchema', () => {
   it('accepts valid message', () => {
     const result = discordWebhookMessageSchema.safeParse({
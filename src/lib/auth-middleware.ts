@@ -1,3 +1,4 @@
+import crypto from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyJWT, extractBearerToken } from './jwt'
 
@@ -12,3 +13,19 @@ export async function requireAuth(req: NextRequest) {
   }
   return { error: null, user: payload as { id: string; email: string; name: string } }
 }
+
+/** Whether an Authorization header carries `Bearer <secret>`, compared in constant time. No secret configured never matches */
+export function verifyCronSecret(authorization: string | null, secret: string | undefined): boolean {
+  if (!secret || !authorization) return false
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const actual = Buffer.from(authorization)
+  // timingSafeEqual needs equal lengths; the length itself isn't secret
+  if (actual.length !== expected.length) return false
+  return crypto.timingSafeEqual(actual, expected)
+}
+
+/** Cron routes: a 401 response unless the request carries Authorization: Bearer <CRON_SECRET>, else null */
+export function requireCronSecret(req: NextRequest): NextResponse | null {
+  if (verifyCronSecret(req.headers.get('authorization'), process.env.CRON_SECRET)) return null
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+}
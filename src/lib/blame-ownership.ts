@@ -0,0 +1,233 @@
+// Knowledge ownership from current git blame of the default branch (blame_ownership), fetched through GitHub's
+// GraphQL blame API. Unlike file_authorship, which only ever accumulates, lines that were since rewritten stop
+// counting for their old author, and surviving lines fade with age (half-life BLAME_HALF_LIFE_DAYS)
+
+import { createServiceClient } from './supabase'
+import { countFileChanges } from './coupling'
+import { ghFetch, ghGraphQL, GitHubAPIError } from './github-api'
+import { resolveGitHubToken } from './github-app'
+import { listWorkspaceRepositories, repoFullName, type WorkspaceRepository } from './repositories'
+import type { KnowledgeShare } from './heuristics'
+
+export type OwnershipModel = 'blame' | 'authorship'
+
+export interface BlameRange {
+  startingLine: number
+  endingLine: number
+  commit: {
+    committedDate: string
+    author: { name: string | null; email: string | null; user: { login: string } | null } | null
+  }
+}
+
+export interface BlameShare {
+  author_github_username: string
+  lines: number
+  weighted_lines: number
+  last_commit_at: string
+}
+
+/** A file-ownership row under either model, tagged with its repository; blame rows also carry their raw line count */
+export type OwnershipRow = KnowledgeShare & { repo_owner: string | null; repo_name: string | null; file_path: string; lines?: number }
+
+export interface BlameSyncResult {
+  repo: string
+  files: number
+  unchanged: number
+  removed: number
+  failed: number
+  error: string | null
+}
+
+type Db = ReturnType<typeof createServiceClient>
+
+// A line last touched a year ago counts a quarter as much as one written today
+export const BLAME_HALF_LIFE_DAYS = 180
+// Blame is one GraphQL call per file; the most-changed files are covered first
+const MAX_BLAME_FILES = 200
+const BLAME_BATCH_SIZE = 10
+
+export const BLAME_OWNERSHIP_COLUMNS = 'repo_owner, repo_name, file_path, author_github_username, lines, weighted_lines, last_commit_at, blob_sha, computed_at'
+
+/** Weight of knowledge last exercised at `date`: 1 now, halving every BLAME_HALF_LIFE_DAYS */
+export function recencyWeight(date: string, now = Date.now()): number {
+  const ageDays = Math.max(0, now - new Date(date).getTime()) / (24 * 3600 * 1000)
+  return 0.5 ** (ageDays / BLAME_HALF_LIFE_DAYS)
+}
+
+/** Blame ranges of one file summed per author: surviving lines, recency-weighted lines and their newest commit */
+export function aggregateBlame(ranges: BlameRange[], now = Date.now()): BlameShare[] {
+  const byAuthor = new Map<string, BlameShare>()
+  for (const range of ranges) {
+    const author = range.commit.author
+    const username = author?.user?.login ?? author?.name ?? author?.email ?? 'unknown'
+    const lines = range.endingLine - range.startingLine + 1
+    const share = byAuthor.get(username) ?? { author_github_username: username, lines: 0, weighted_lines: 0, last_commit_at: range.commit.committedDate }
+    share.lines += lines
+    share.weighted_lines += lines * recencyWeight(range.commit.committedDate, now)
+    if (range.commit.committedDate > share.last_commit_at) share.last_commit_at = range.commit.committedDate
+    byAuthor.set(username, share)
+  }
+  return [...byAuthor.values()].sort((a, b) => b.weighted_lines - a.weighted_lines)
+}
+
+/** One query blaming `count` files at a ref, aliased f0..fN with paths in $p0..$pN */
+export function blameQuery(count: number): string {
+  const params = Array.from({ length: count }, (_, i) => `$p${i}: String!`).join(', ')
+  const fields = Array.from({ length: count }, (_, i) =>
+    `f${i}: blame(path: $p${i}) { ranges { startingLine endingLine commit { committedDate author { name email user { login } } } } }`,
+  ).join('\n        ')
+  return `query($owner: String!, $name: String!, $ref: String!, ${params}) {
+  repository(owner: $owner, name: $name) {
+    object(expression: $ref) {
+      ... on Commit {
+        ${fields}
+      }
+    }
+  }
+}`
+}
+
+type BlameResponse = { repository: { object: Record<string, { ranges: BlameRange[] } | null> | null } | null }
+
+async function fetchBlames(token: string, owner: string, repo: string, ref: string, paths: string[]) {
+  const variables: Record<string, unknown> = { owner, name: repo, ref }
+  paths.forEach((p, i) => { variables[`p${i}`] = p })
+  const { data } = await ghGraphQL<BlameResponse>(token, blameQuery(paths.length), variables)
+  return paths.map((_, i) => data.repository?.object?.[`f${i}`]?.ranges ?? null)
+}
+
+/**
+ * Recompute blame ownership for one repository's default branch. Candidates are files that still exist and have
+ * commit history, most-changed first (by commits.files_list); files whose blob is unchanged since the last run are skipped.
+ */
+export async function syncRepositoryBlame(db: Db, token: string, workspaceId: string, repo: WorkspaceRepository): Promise<BlameSyncResult> {
+  const { repo_owner: owner, repo_name: name } = repo
+  const result: BlameSyncResult = { repo: repoFullName(repo), files: 0, unchanged: 0, removed: 0, failed: 0, error: null }
+  const ref = repo.default_branch ?? 'HEAD'
+
+  try {
+    const tree = await ghFetch<{ tree: Array<{ path: string; type: string; sha: string }> }>(
+      `/repos/${owner}/${name}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+      token,
+      { noCache: true },
+    )
+    const blobs = new Map(tree.tree.filter((e) => e.type === 'blob').map((e) => [e.path, e.sha]))
+
+    const [{ data: commits }, { data: existing }] = await Promise.all([
+      db.from('commits').select('files_list')
+        .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', name).eq('is_unreachable', false)
+        .order('committed_at', { ascending: false }).limit(5000),
+      db.from('blame_ownership').select('file_path, blob_sha')
+        .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', name),
+    ])
+
+    const changes = [...countFileChanges(commits ?? []).entries()].filter(([path]) => blobs.has(path))
+    const candidates = changes.sort((a, b) => b[1] - a[1]).slice(0, MAX_BLAME_FILES).map(([path]) => path)
+    const storedSha = new Map((existing ?? []).map((r) => [r.file_path as string, r.blob_sha as string | null]))
+    const stale = candidates.filter((path) => storedSha.get(path) !== blobs.get(path))
+    result.unchanged = candidates.length - stale.length
+
+    // Files deleted from the default branch (or no longer among the candidates) drop out of the model
+    const keep = new Set(candidates)
+    const dropped = [...storedSha.keys()].filter((path) => !keep.has(path))
+    for (let i = 0; i < dropped.length; i += 100) {
+      await db.from('blame_ownership').delete()
+        .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', name).in('file_path', dropped.slice(i, i + 100))
+    }
+    result.removed = dropped.length
+
+    const computedAt = new Date().toISOString()
+    for (let i = 0; i < stale.length; i += BLAME_BATCH_SIZE) {
+      const batch = stale.slice(i, i + BLAME_BATCH_SIZE)
+      const blames = await fetchBlames(token, owner, name, ref, batch)
+      for (const [j, path] of batch.entries()) {
+        const ranges = blames[j]
+        // Binary or oversized files have no blame
+        if (!ranges) { result.failed++; continue }
+        const rows = aggregateBlame(ranges).map((share) => ({
+          workspace_id: workspaceId,
+          repo_owner: owner,
+          repo_name: name,
+          file_path: path,
+          ...share,
+          blob_sha: blobs.get(path),
+          computed_at: computedAt,
+        }))
+        await db.from('blame_ownership').delete()
+          .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', name).eq('file_path', path)
+        if (rows.length > 0) {
+          const { error } = await db.from('blame_ownership').insert(rows)
+          if (error) throw new Error(`Store blame of ${path}: ${error.message}`)
+        }
+        result.files++
+      }
+    }
+  } catch (e: unknown) {
+    // Rate limits included: files already stored stay, and the next run skips them as unchanged
+    result.error = e instanceof GitHubAPIError && e.rateLimited
+      ? 'GitHub rate limit reached'
+      : e instanceof Error ? e.message : String(e)
+  }
+  return result
+}
+
+/** Recompute blame ownership for every bound repository of a workspace, or only `repo` (`owner/name`) */
+export async function syncWorkspaceBlame(db: Db, workspaceId: string, repo: string | null = null): Promise<BlameSyncResult[]> {
+  const repos = (await listWorkspaceRepositories(db, workspaceId)).filter((r) => !repo || repoFullName(r) === repo)
+  const results: BlameSyncResult[] = []
+  for (const r of repos) {
+    const resolved = await resolveGitHubToken(db, workspaceId, { owner: r.repo_owner, name: r.repo_name })
+    if (!resolved) {
+      results.push({ repo: repoFullName(r), files: 0, unchanged: 0, removed: 0, failed: 0, error: 'No GitHub token available for this workspace' })
+      continue
+    }
+    results.push(await syncRepositoryBlame(db, resolved.token, workspaceId, r))
+  }
+  return results
+}
+
+/**
+ * File ownership rows for bus-factor analysis: blame ownership for repositories that have it, cumulative
+ * authorship for the rest. `model` is the one in use ('mixed' when repositories differ, null without data).
+ * Blame weights are aged from when they were computed to now, so files blamed on different days compare fairly.
+ */
+export async function loadFileOwnership(
+  db: Db,
+  workspaceId: string,
+  repo: Pick<WorkspaceRepository, 'repo_owner' | 'repo_name'> | null = null,
+  now = Date.now(),
+): Promise<{
+  rows: OwnershipRow[]
+  model: OwnershipModel | 'mixed' | null
+  blameComputedAt: string | null
+}> {
+  let blameRowsQuery = db.from('blame_ownership').select(BLAME_OWNERSHIP_COLUMNS).eq('workspace_id', workspaceId)
+  let authorshipQuery = db.from('file_authorship')
+    .select('repo_owner, repo_name, file_path, author_github_username, lines_added, lines_modified')
+    .eq('workspace_id', workspaceId)
+  if (repo) {
+    blameRowsQuery = blameRowsQuery.eq('repo_owner', repo.repo_owner).eq('repo_name', repo.repo_name)
+    authorshipQuery = authorshipQuery.eq('repo_owner', repo.repo_owner).eq('repo_name', repo.repo_name)
+  }
+  const [{ data: blame }, { data: authorship }] = await Promise.all([blameRowsQuery, authorshipQuery])
+
+  const blamedRepos = new Set((blame ?? []).map((r) => `${r.repo_owner}/${r.repo_name}`))
+  const blameRows: OwnershipRow[] = (blame ?? []).map((r) => ({
+    repo_owner: r.repo_owner,
+    repo_name: r.repo_name,
+    file_path: r.file_path,
+    author_github_username: r.author_github_username,
+    lines: r.lines,
+    weighted_lines: r.weighted_lines * recencyWeight(r.computed_at, now),
+  }))
+  // Rows stored before multi-repo support have no repository; they belong to no blamed repository
+  const authorshipRows = (authorship ?? []).filter((r) => !blamedRepos.has(`${r.repo_owner}/${r.repo_name}`)) as OwnershipRow[]
+
+  const model = blameRows.length > 0 && authorshipRows.length > 0 ? 'mixed'
+    : blameRows.length > 0 ? 'blame'
+    : authorshipRows.length > 0 ? 'authorship'
+    : null
+  const blameComputedAt = (blame ?? []).reduce<string | null>((latest, r) => (!latest || r.computed_at > latest ? r.computed_at : latest), null)
+  return { rows: [...blameRows, ...authorshipRows], model, blameComputedAt }
+}
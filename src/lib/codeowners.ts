@@ -0,0 +1,297 @@
+// AR-KNOW: CODEOWNERS parsing, drift against real authorship, and a suggested file from ownership data
+// The file itself is fetched during repo sync (see syncCodeowners in github-api.ts); this module only parses and analyses it
+
+import { knowledgeWeight, type KnowledgeShare } from './heuristics'
+
+export interface CodeownersRule {
+  pattern: string
+  /** `@user`, `@org/team` or an email; empty means the paths are explicitly left without owners */
+  owners: string[]
+  /** 1-based line in the file */
+  line: number
+  regex: RegExp
+}
+
+export interface CodeownersError {
+  line: number
+  text: string
+  reason: string
+}
+
+export interface StaleOwnershipRule {
+  pattern: string
+  line: number
+  owners: string[]
+  /** Files with authorship data this rule decides the owners of */
+  files: number
+  /** Declared user owners who changed none of those files */
+  untouchedOwners: string[]
+  /** Teams and emails, which can't be matched against commit authors */
+  unverifiableOwners: string[]
+  /** Who actually wrote the files, with their share (0–100) */
+  topAuthors: Array<{ author: string; share: number }>
+}
+
+export interface UnownedHotspot {
+  file: string
+  commits: number
+  authorCount: number
+  topAuthor: string | null
+}
+
+export interface CodeownersDrift {
+  files: number
+  ownedFiles: number
+  staleRules: StaleOwnershipRule[]
+  unownedHotspots: UnownedHotspot[]
+}
+
+export interface SuggestedOwnersEntry {
+  /** Directory the entry covers ('' for the whole repository) */
+  path: string
+  pattern: string
+  owners: string[]
+  files: number
+  /** Share of the directory's knowledge the owners hold together (0–100) */
+  share: number
+}
+
+// GitHub uses the first of these it finds
+export const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS']
+
+// Files changed by at least this many commits are hotspots when nobody owns them
+const HOTSPOT_MIN_COMMITS = 10
+// Suggested entries: directories at most this deep, with at least this many files
+const SUGGEST_MAX_DEPTH = 3
+const SUGGEST_MIN_FILES = 3
+// Suggested owners: people covering half of a directory's knowledge, each holding at least 10%, at most 3
+const SUGGEST_MIN_SHARE = 0.1
+const SUGGEST_MAX_OWNERS = 3
+
+const OWNER_PATTERN = /^(@[A-Za-z0-9](?:[A-Za-z0-9-]*)(?:\/[A-Za-z0-9._-]+)?|[^@\s]+@[^@\s]+\.[^@\s]+)$/
+const GITHUB_LOGIN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/
+
+function escapeRegExp(c: string) {
+  return c.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+/**
+ * A CODEOWNERS pattern as a RegExp over repository-relative file paths, following GitHub's gitignore-style rules:
+ * a pattern with a slash at the start or in the middle is anchored to the root, otherwise it matches at any depth;
+ * a trailing slash matches directories only; a match on a directory covers every file below it, except that
+ * `dir/*` covers only the files directly in `dir`. Null for syntax GitHub doesn't support (`!`, `[ ]`).
+ */
+export function codeownersPatternToRegExp(pattern: string): RegExp | null {
+  if (pattern.startsWith('!') || /(^|[^\\])[[\]]/.test(pattern)) return null
+
+  let p = pattern
+  const directoryOnly = p.endsWith('/')
+  if (directoryOnly) p = p.slice(0, -1)
+  const anchored = p.includes('/')
+  if (p.startsWith('/')) p = p.slice(1)
+  if (!p) return directoryOnly ? /^.*$/ : null
+  const directChildrenOnly = p.endsWith('/*') && !p.endsWith('/**')
+
+  let re = ''
+  for (let i = 0; i < p.length; i++) {
+    const atSegmentStart = i === 0 || p[i - 1] === '/'
+    if (atSegmentStart && p.startsWith('**/', i)) { re += '(?:.*/)?'; i += 2; continue }
+    if (atSegmentStart && p.startsWith('**', i) && i + 2 === p.length) { re += '.*'; i += 1; continue }
+    const c = p[i]
+    if (c === '*') re += '[^/]*'
+    else if (c === '?') re += '[^/]'
+    else if (c === '\\' && i + 1 < p.length) re += escapeRegExp(p[++i])
+    else re += escapeRegExp(c)
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?'
+  const suffix = directChildrenOnly ? '$' : directoryOnly ? '/.*$' : '(?:/.*)?$'
+  return new RegExp(prefix + re + suffix)
+}
+
+/** Split on whitespace that isn't escaped, dropping the comment from the first unescaped `#` */
+function tokenize(line: string): string[] {
+  const tokens: string[] = []
+  let current = ''
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i]
+    if (c === '\\' && i + 1 < line.length) { current += c + line[++i]; continue }
+    if (c === '#') break
+    if (/\s/.test(c)) {
+      if (current) tokens.push(current)
+      current = ''
+      continue
+    }
+    current += c
+  }
+  if (current) tokens.push(current)
+  return tokens
+}
+
+/** Parse a CODEOWNERS file; invalid lines are skipped (as GitHub does) and reported in `errors` */
+export function parseCodeowners(content: string): { rules: CodeownersRule[]; errors: CodeownersError[] } {
+  const rules: CodeownersRule[] = []
+  const errors: CodeownersError[] = []
+  content.split(/\r?\n/).forEach((text, i) => {
+    const [pattern, ...owners] = tokenize(text)
+    if (!pattern) return
+    const regex = codeownersPatternToRegExp(pattern)
+    if (!regex) {
+      errors.push({ line: i + 1, text: text.trim(), reason: 'Unsupported pattern syntax (negation and character ranges are not supported)' })
+      return
+    }
+    const invalid = owners.filter((o) => !OWNER_PATTERN.test(o))
+    if (invalid.length > 0) {
+      errors.push({ line: i + 1, text: text.trim(), reason: `Invalid owner${invalid.length > 1 ? 's' : ''}: ${invalid.join(', ')}` })
+      return
+    }
+    rules.push({ pattern, owners, line: i + 1, regex })
+  })
+  return { rules, errors }
+}
+
+/** The rule deciding a file's owners: the last one that matches, or null */
+export function matchCodeowners(rules: CodeownersRule[], path: string): CodeownersRule | null {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(path)) return rules[i]
+  }
+  return null
+}
+
+/** `@user` → `user`; null for teams and emails */
+function ownerLogin(owner: string): string | null {
+  return owner.startsWith('@') && !owner.includes('/') ? owner.slice(1).toLowerCase() : null
+}
+
+/**
+ * Compare declared owners with file_authorship: rules whose user owners never changed any file the rule covers,
+ * and frequently changed files no rule gives an owner. `changes` counts commits per path (`countFileChanges`).
+ */
+export function detectCodeownersDrift(
+  rules: CodeownersRule[],
+  rows: Array<{ file_path: string; author_github_username: string; lines_added: number; lines_modified: number }>,
+  changes: Map<string, number>,
+  { minCommits = HOTSPOT_MIN_COMMITS, limit = 50 } = {},
+): CodeownersDrift {
+  const files = new Map<string, { authors: Map<string, number>; commits: number }>()
+  for (const row of rows) {
+    if (!files.has(row.file_path)) files.set(row.file_path, { authors: new Map(), commits: changes.get(row.file_path) ?? 0 })
+    const f = files.get(row.file_path)!
+    f.authors.set(row.author_github_username, (f.authors.get(row.author_github_username) ?? 0) + row.lines_added + row.lines_modified)
+  }
+
+  const byRule = new Map<CodeownersRule, { files: number; authors: Map<string, number> }>()
+  const unownedHotspots: UnownedHotspot[] = []
+  let ownedFiles = 0
+  for (const [path, f] of files) {
+    const rule = matchCodeowners(rules, path)
+    if (rule && rule.owners.length > 0) {
+      ownedFiles++
+      if (!byRule.has(rule)) byRule.set(rule, { files: 0, authors: new Map() })
+      const r = byRule.get(rule)!
+      r.files++
+      for (const [author, weight] of f.authors) r.authors.set(author, (r.authors.get(author) ?? 0) + weight)
+    } else if (f.commits >= minCommits) {
+      const top = [...f.authors.entries()].sort((a, b) => b[1] - a[1])[0]
+      unownedHotspots.push({ file: path, commits: f.commits, authorCount: f.authors.size, topAuthor: top?.[0] ?? null })
+    }
+  }
+
+  const staleRules: StaleOwnershipRule[] = []
+  for (const [rule, r] of byRule) {
+    const authors = new Set([...r.authors.keys()].map((a) => a.toLowerCase()))
+    const untouchedOwners = rule.owners.filter((o) => { const login = ownerLogin(o); return login !== null && !authors.has(login) })
+    if (untouchedOwners.length === 0) continue
+    const total = [...r.authors.values()].reduce((s, w) => s + w, 0)
+    staleRules.push({
+      pattern: rule.pattern,
+      line: rule.line,
+      owners: rule.owners,
+      files: r.files,
+      untouchedOwners,
+      unverifiableOwners: rule.owners.filter((o) => ownerLogin(o) === null),
+      topAuthors: [...r.authors.entries()].sort((a, b) => b[1] - a[1]).slice(0, 3)
+        .map(([author, weight]) => ({ author, share: total > 0 ? Math.round((weight / total) * 100) : 0 })),
+    })
+  }
+
+  // Rules where no listed person ever touched the files come first
+  const userOwners = (r: StaleOwnershipRule) => r.owners.length - r.unverifiableOwners.length
+  staleRules.sort((a, b) =>
+    Number(b.untouchedOwners.length === userOwners(b)) - Number(a.untouchedOwners.length === userOwners(a)) || b.files - a.files)
+
+  return {
+    files: files.size,
+    ownedFiles,
+    staleRules: staleRules.slice(0, limit),
+    unownedHotspots: unownedHotspots.sort((a, b) => b.commits - a.commits).slice(0, limit),
+  }
+}
+
+function suggestedOwners(authors: Map<string, number>): { owners: string[]; share: number } {
+  const total = [...authors.values()].reduce((s, w) => s + w, 0)
+  if (total <= 0) return { owners: [], share: 0 }
+  const owners: string[] = []
+  let covered = 0
+  for (const [author, weight] of [...authors.entries()].sort((a, b) => b[1] - a[1])) {
+    if (covered / total >= 0.5 || owners.length >= SUGGEST_MAX_OWNERS || weight / total < SUGGEST_MIN_SHARE) break
+    // Authors only known by a git name or email can't be GitHub owners
+    if (!GITHUB_LOGIN.test(author) || author === 'unknown') continue
+    owners.push(`@${author}`)
+    covered += weight
+  }
+  return { owners, share: Math.round((covered / total) * 100) }
+}
+
+/**
+ * A CODEOWNERS file from ownership data: `*` for the whole repository, then each directory (up to
+ * SUGGEST_MAX_DEPTH deep) whose owners differ from the entry above it. Owners are the people covering
+ * half of the directory's knowledge, as in its bus factor.
+ */
+export function suggestCodeowners(rows: Array<KnowledgeShare & { file_path: string }>): { entries: SuggestedOwnersEntry[]; content: string } {
+  const directories = new Map<string, { files: Set<string>; authors: Map<string, number> }>()
+  for (const row of rows) {
+    const segments = row.file_path.split('/').filter(Boolean)
+    const dirs = [''].concat(segments.slice(0, -1).slice(0, SUGGEST_MAX_DEPTH).map((_, i) => segments.slice(0, i + 1).join('/')))
+    const weight = knowledgeWeight(row)
+    for (const dir of dirs) {
+      if (!directories.has(dir)) directories.set(dir, { files: new Set(), authors: new Map() })
+      const d = directories.get(dir)!
+      d.files.add(row.file_path)
+      d.authors.set(row.author_github_username, (d.authors.get(row.author_github_username) ?? 0) + weight)
+    }
+  }
+
+  // Parents sort before their children, so each directory can compare itself with the entry covering it
+  const emitted = new Map<string, string[]>()
+  const entries: SuggestedOwnersEntry[] = []
+  for (const dir of [...directories.keys()].sort()) {
+    const d = directories.get(dir)!
+    if (dir && d.files.size < SUGGEST_MIN_FILES) continue
+    const { owners, share } = suggestedOwners(d.authors)
+    if (owners.length === 0) continue
+    // Nearest ancestor with an entry; the same owners again would be redundant
+    const up = (p: string) => p.slice(0, Math.max(0, p.lastIndexOf('/')))
+    let parent: string | null = dir ? up(dir) : null
+    while (parent !== null && !emitted.has(parent)) parent = parent ? up(parent) : null
+    if (parent !== null && emitted.get(parent)!.join(' ') === owners.join(' ')) continue
+    emitted.set(dir, owners)
+    entries.push({
+      path: dir,
+      pattern: dir ? `/${dir.replace(/ /g, '\\ ')}/` : '*',
+      owners,
+      files: d.files.size,
+      share,
+    })
+  }
+
+  const width = Math.max(0, ...entries.map((e) => e.pattern.length)) + 2
+  const content = [
+    '# Suggested from current code ownership; review before committing',
+    '# Later entries take precedence over earlier ones',
+    '',
+    ...entries.map((e) => `${e.pattern.padEnd(width)}${e.owners.join(' ')}`),
+    '',
+  ].join('\n')
+  return { entries, content }
+}
@@ -0,0 +1,97 @@
+// AR-KNOW: temporal (change) coupling between files, from commits.files_list history
+// Files that keep changing together are coupled even without an import between them
+
+import path from 'path'
+import { rowRepo } from './heuristics'
+
+export interface CouplingOptions {
+  /** Minimum number of commits a pair must share to be reported */
+  minSupport?: number
+  /** Minimum confidence for a cross-directory pair to be flagged */
+  minConfidence?: number
+  /** Commits touching more files than this (mass renames, formatting) are ignored */
+  maxFilesPerCommit?: number
+  limit?: number
+}
+
+export interface CouplingPair {
+  /** `owner/name` of the repository both files live in, or null for commits without one */
+  repo: string | null
+  file_a: string
+  file_b: string
+  /** Commits that changed both files */
+  support: number
+  /** P(b changes | a changes) and P(a changes | b changes) */
+  confidence_ab: number
+  confidence_ba: number
+  confidence: number
+  cross_directory: boolean
+  flagged: boolean
+}
+
+/**
+ * Commits that changed each path, from `commits.files_list`. file_authorship can't tell this: it has one row per
+ * file and author, so its counts measure authors rather than changes. Pass one repository's commits.
+ */
+export function countFileChanges(commits: Array<{ files_list: string[] | null }>): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const commit of commits) {
+    for (const file of new Set(commit.files_list ?? [])) counts.set(file, (counts.get(file) ?? 0) + 1)
+  }
+  return counts
+}
+
+export function computeChangeCoupling(
+  commits: Array<{ files_list: string[] | null; repo_owner?: string | null; repo_name?: string | null }>,
+  { minSupport = 3, minConfidence = 0.5, maxFilesPerCommit = 30, limit = 50 }: CouplingOptions = {},
+) {
+  // Files are keyed by repository too: the same path in two repositories is two different files
+  const changeCounts = new Map<string, number>()
+  const pairCounts = new Map<string, number>()
+  let analyzed = 0
+
+  for (const commit of commits) {
+    const files = [...new Set(commit.files_list ?? [])].sort()
+    if (files.length === 0 || files.length > maxFilesPerCommit) continue
+    analyzed++
+    const repo = rowRepo(commit, '')
+    for (const file of files) changeCounts.set(`${repo}\n${file}`, (changeCounts.get(`${repo}\n${file}`) ?? 0) + 1)
+    for (let i = 0; i < files.length; i++) {
+      for (let j = i + 1; j < files.length; j++) {
+        const key = `${repo}\n${files[i]}\n${files[j]}`
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + 1)
+      }
+    }
+  }
+
+  const pairs: CouplingPair[] = []
+  for (const [key, support] of pairCounts) {
+    if (support < minSupport) continue
+    const [repo, file_a, file_b] = key.split('\n')
+    const confidence_ab = support / changeCounts.get(`${repo}\n${file_a}`)!
+    const confidence_ba = support / changeCounts.get(`${repo}\n${file_b}`)!
+    const confidence = Math.max(confidence_ab, confidence_ba)
+    const cross_directory = path.posix.dirname(file_a) !== path.posix.dirname(file_b)
+    pairs.push({
+      repo: repo || null,
+      file_a,
+      file_b,
+      support,
+      confidence_ab: Math.round(confidence_ab * 100) / 100,
+      confidence_ba: Math.round(confidence_ba * 100) / 100,
+      confidence: Math.round(confidence * 100) / 100,
+      cross_directory,
+      flagged: cross_directory && confidence >= minConfidence,
+    })
+  }
+
+  // Flagged pairs first, then the strongest coupling
+  pairs.sort((a, b) => Number(b.flagged) - Number(a.flagged) || b.support - a.support || b.confidence - a.confidence)
+
+  return {
+    commitsAnalyzed: analyzed,
+    totalPairs: pairs.length,
+    flaggedCount: pairs.filter((p) => p.flagged).length,
+    pairs: pairs.slice(0, limit),
+  }
+}
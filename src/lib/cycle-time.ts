@@ -0,0 +1,112 @@
+// AR-FLOW: Percentile cycle-time analytics over cycle_time_metrics
+// Averages hide the long tail, so every segment is reported as p50/p75/p90/p95
+
+export type CycleTimeSegment = 'coding' | 'pickup' | 'review' | 'deployment' | 'total'
+export type CycleTimeGroupBy = 'week' | 'author' | 'base_branch' | 'size'
+
+export const CYCLE_TIME_SEGMENTS: CycleTimeSegment[] = ['coding', 'pickup', 'review', 'deployment', 'total']
+export const CYCLE_TIME_GROUP_BY: CycleTimeGroupBy[] = ['week', 'author', 'base_branch', 'size']
+export const CYCLE_TIME_PERCENTILES = [50, 75, 90, 95] as const
+
+export interface CycleTimeSample {
+  coding_time_seconds: number | null
+  pickup_time_seconds: number | null
+  review_time_seconds: number | null
+  deployment_time_seconds: number | null
+  total_cycle_time_seconds: number | null
+  calculated_at: string
+  merged_at?: string | null
+  author_github_username?: string | null
+  base_branch?: string | null
+  lines_added?: number | null
+  lines_deleted?: number | null
+}
+
+export type Percentiles = { p50: number; p75: number; p90: number; p95: number } | null
+
+export interface CycleTimeBucket {
+  key: string
+  count: number
+  segments: Record<CycleTimeSegment, Percentiles>
+}
+
+const SEGMENT_COLUMNS: Record<CycleTimeSegment, keyof CycleTimeSample> = {
+  coding: 'coding_time_seconds',
+  pickup: 'pickup_time_seconds',
+  review: 'review_time_seconds',
+  deployment: 'deployment_time_seconds',
+  total: 'total_cycle_time_seconds',
+}
+
+// Upper bound (exclusive) on lines added + deleted for each PR size label
+const PR_SIZES: Array<[string, number]> = [['XS', 10], ['S', 100], ['M', 400], ['L', 1000]]
+
+/** Percentile with linear interpolation between closest ranks (the "R-7" / Excel PERCENTILE.INC method) */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0]
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function summarizePercentiles(values: number[]): Percentiles {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const [p50, p75, p90, p95] = CYCLE_TIME_PERCENTILES.map((p) => Math.round(percentile(sorted, p)))
+  return { p50, p75, p90, p95 }
+}
+
+export function prSizeBucket(linesAdded: number, linesDeleted: number): string {
+  const lines = linesAdded + linesDeleted
+  return PR_SIZES.find(([, max]) => lines < max)?.[0] ?? 'XL'
+}
+
+/** Monday (UTC) of the week containing the date, as YYYY-MM-DD */
+export function weekStart(date: string): string {
+  const d = new Date(date)
+  d.setUTCHours(0, 0, 0, 0)
+  d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7))
+  return d.toISOString().slice(0, 10)
+}
+
+function bucketKey(sample: CycleTimeSample, groupBy: CycleTimeGroupBy): string {
+  switch (groupBy) {
+    case 'week': return weekStart(sample.merged_at ?? sample.calculated_at)
+    case 'author': return sample.author_github_username ?? 'unknown'
+    case 'base_branch': return sample.base_branch ?? 'unknown'
+    case 'size': return prSizeBucket(sample.lines_added ?? 0, sample.lines_deleted ?? 0)
+  }
+}
+
+function segmentPercentiles(samples: CycleTimeSample[]) {
+  return Object.fromEntries(CYCLE_TIME_SEGMENTS.map((segment) => {
+    const values = samples
+      .map((s) => s[SEGMENT_COLUMNS[segment]] as number | null | undefined)
+      .filter((v): v is number => typeof v === 'number' && v >= 0)
+    return [segment, summarizePercentiles(values)]
+  })) as Record<CycleTimeSegment, Percentiles>
+}
+
+/**
+ * p50/p75/p90/p95 per segment, overall and per bucket.
+ * Weeks are returned oldest first, sizes XS→XL, other groupings by PR count.
+ */
+export function computeCycleTimePercentiles(samples: CycleTimeSample[], groupBy: CycleTimeGroupBy) {
+  const groups = new Map<string, CycleTimeSample[]>()
+  for (const sample of samples) {
+    const key = bucketKey(sample, groupBy)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(sample)
+  }
+
+  const sizeOrder = [...PR_SIZES.map(([label]) => label), 'XL']
+  const buckets: CycleTimeBucket[] = [...groups.entries()]
+    .map(([key, rows]) => ({ key, count: rows.length, segments: segmentPercentiles(rows) }))
+    .sort((a, b) =>
+      groupBy === 'week' ? a.key.localeCompare(b.key)
+        : groupBy === 'size' ? sizeOrder.indexOf(a.key) - sizeOrder.indexOf(b.key)
+          : b.count - a.count || a.key.localeCompare(b.key))
+
+  return { count: samples.length, overall: segmentPercentiles(samples), buckets }
+}
@@ -0,0 +1,140 @@
+// DORA metrics (deployment frequency, lead time, change failure rate, time to restore)
+// computed from deployments rows written by the deployment_status webhook
+
+export type DeploymentState = 'pending' | 'queued' | 'in_progress' | 'success' | 'failure' | 'error'
+export type DoraBand = 'elite' | 'high' | 'medium' | 'low'
+
+export const DEPLOYMENT_STATES: DeploymentState[] = ['pending', 'queued', 'in_progress', 'success', 'failure', 'error']
+
+export interface DoraDeployment {
+  environment: string
+  repo_owner?: string | null
+  repo_name?: string | null
+  state: string
+  finished_at: string | null
+  lead_time_seconds: number | null
+}
+
+export interface DoraMetrics {
+  environment: string
+  deployments: number
+  failures: number
+  deploymentFrequency: { perWeek: number; band: DoraBand | null }
+  leadTime: { medianHours: number | null; band: DoraBand | null }
+  changeFailureRate: { percent: number | null; band: DoraBand | null }
+  timeToRestore: { medianHours: number | null; incidents: number; band: DoraBand | null }
+}
+
+const HOUR = 3600
+const DAY = 24 * HOUR
+
+// Band boundaries, following the State of DevOps report tiers
+export const DORA_THRESHOLDS = {
+  // Successful deployments per week: daily or better / weekly / monthly
+  deploymentsPerWeek: { elite: 7, high: 1, medium: 7 / 30 },
+  leadTimeSeconds: { elite: DAY, high: 7 * DAY, medium: 30 * DAY },
+  changeFailurePercent: { elite: 15, high: 30, medium: 45 },
+  timeToRestoreSeconds: { elite: HOUR, high: DAY, medium: 7 * DAY },
+}
+
+const FAILED_STATES = new Set(['failure', 'error'])
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+const roundHours = (seconds: number | null) => (seconds === null ? null : Math.round((seconds / HOUR) * 10) / 10)
+
+/** Band for a metric where lower is better (lead time, failure rate, restore time) */
+function lowerIsBetter(value: number | null, t: { elite: number; high: number; medium: number }): DoraBand | null {
+  if (value === null) return null
+  if (value <= t.elite) return 'elite'
+  if (value <= t.high) return 'high'
+  if (value <= t.medium) return 'medium'
+  return 'low'
+}
+
+export function deploymentFrequencyBand(perWeek: number): DoraBand | null {
+  const t = DORA_THRESHOLDS.deploymentsPerWeek
+  if (perWeek <= 0) return null
+  if (perWeek >= t.elite) return 'elite'
+  if (perWeek >= t.high) return 'high'
+  if (perWeek >= t.medium) return 'medium'
+  return 'low'
+}
+
+/**
+ * Lead time for changes of one deployment: median age of the commits it shipped.
+ * Commit times are the commits between the previous successful deployment and this one.
+ */
+export function changeLeadTimeSeconds(commitTimes: string[], deployedAt: string): number | null {
+  const deployed = new Date(deployedAt).getTime()
+  const ages = commitTimes
+    .map((t) => (deployed - new Date(t).getTime()) / 1000)
+    .filter((age) => Number.isFinite(age) && age >= 0)
+  const value = median(ages)
+  return value === null ? null : Math.round(value)
+}
+
+/**
+ * Restore times for one environment: from the first failed deployment of an incident
+ * to the next successful deployment of the same repository. Incidents that are still failing are not counted.
+ */
+export function restoreTimesSeconds(deployments: DoraDeployment[]): number[] {
+  const finished = deployments
+    .filter((d) => d.finished_at && (d.state === 'success' || FAILED_STATES.has(d.state)))
+    .sort((a, b) => new Date(a.finished_at!).getTime() - new Date(b.finished_at!).getTime())
+
+  const times: number[] = []
+  // A success in one repository doesn't restore a failure in another
+  const failedAt = new Map<string, number>()
+  for (const d of finished) {
+    const repo = `${d.repo_owner ?? ''}/${d.repo_name ?? ''}`
+    const at = new Date(d.finished_at!).getTime()
+    if (FAILED_STATES.has(d.state)) {
+      if (!failedAt.has(repo)) failedAt.set(repo, at)
+    } else if (failedAt.has(repo)) {
+      times.push((at - failedAt.get(repo)!) / 1000)
+      failedAt.delete(repo)
+    }
+  }
+  return times
+}
+
+function environmentMetrics(environment: string, deployments: DoraDeployment[], days: number): DoraMetrics {
+  const successes = deployments.filter((d) => d.state === 'success')
+  const failures = deployments.filter((d) => FAILED_STATES.has(d.state))
+  const finishedCount = successes.length + failures.length
+
+  const perWeek = Math.round((successes.length / days) * 7 * 100) / 100
+  const leadTime = median(successes.map((d) => d.lead_time_seconds).filter((s): s is number => s !== null))
+  const failurePercent = finishedCount > 0 ? Math.round((failures.length / finishedCount) * 1000) / 10 : null
+  const restores = restoreTimesSeconds(deployments)
+  const restore = median(restores)
+
+  return {
+    environment,
+    deployments: finishedCount,
+    failures: failures.length,
+    deploymentFrequency: { perWeek, band: deploymentFrequencyBand(perWeek) },
+    leadTime: { medianHours: roundHours(leadTime), band: lowerIsBetter(leadTime, DORA_THRESHOLDS.leadTimeSeconds) },
+    changeFailureRate: { percent: failurePercent, band: lowerIsBetter(failurePercent, DORA_THRESHOLDS.changeFailurePercent) },
+    timeToRestore: { medianHours: roundHours(restore), incidents: restores.length, band: lowerIsBetter(restore, DORA_THRESHOLDS.timeToRestoreSeconds) },
+  }
+}
+
+/** DORA metrics per environment over a window of `days`, busiest environment first */
+export function computeDoraMetrics(deployments: DoraDeployment[], days: number): DoraMetrics[] {
+  const byEnvironment = new Map<string, DoraDeployment[]>()
+  for (const d of deployments) {
+    if (!byEnvironment.has(d.environment)) byEnvironment.set(d.environment, [])
+    byEnvironment.get(d.environment)!.push(d)
+  }
+  return [...byEnvironment.entries()]
+    .map(([environment, rows]) => environmentMetrics(environment, rows, days))
+    .filter((m) => m.deployments > 0)
+    .sort((a, b) => b.deployments - a.deployments)
+}
@@ -0,0 +1,165 @@
+// AR-HEU-008: Multi-level escalation policies for critical alerts
+
+import { createServiceClient } from './supabase'
+import type { HeuristicContext, RuleFinding } from './heuristics'
+
+export type EscalationAction = 'notify_assignee' | 'notify_admins' | 'discord' | 'create_alert'
+
+export const ESCALATION_ACTIONS: EscalationAction[] = ['notify_assignee', 'notify_admins', 'discord', 'create_alert']
+
+export interface EscalationStep {
+  after_hours: number
+  action: EscalationAction
+}
+
+export interface EscalationLogEntry {
+  action: EscalationAction
+  after_hours: number
+  executed_at: string
+  result: 'sent' | 'skipped' | 'failed'
+  detail?: string
+}
+
+// A step that failed is retried on later passes, up to this many attempts in total
+export const ESCALATION_MAX_ATTEMPTS = 3
+
+// Workspaces without a policy keep the original behaviour: one "ESCALATED:" alert after 4 hours
+export const DEFAULT_ESCALATION_STEPS: EscalationStep[] = [{ after_hours: 4, action: 'create_alert' }]
+
+/** Validate a stored steps column, ordered by delay; falls back to the default policy */
+export function resolveEscalationSteps(raw: unknown): EscalationStep[] {
+  if (!Array.isArray(raw)) return DEFAULT_ESCALATION_STEPS
+  const steps = raw
+    .filter((s): s is EscalationStep =>
+      !!s && typeof s === 'object' &&
+      typeof s.after_hours === 'number' && Number.isFinite(s.after_hours) && s.after_hours >= 0 &&
+      ESCALATION_ACTIONS.includes(s.action))
+    .map((s) => ({ after_hours: s.after_hours, action: s.action }))
+    .sort((a, b) => a.after_hours - b.after_hours)
+  return steps.length > 0 ? steps : DEFAULT_ESCALATION_STEPS
+}
+
+export async function getEscalationSteps(db: ReturnType<typeof createServiceClient>, workspaceId: string) {
+  const { data } = await db
+    .from('escalation_policies')
+    .select('steps')
+    .eq('workspace_id', workspaceId)
+    .maybeSingle()
+  return data ? resolveEscalationSteps(data.steps) : DEFAULT_ESCALATION_STEPS
+}
+
+/**
+ * Steps whose delay has elapsed and that haven't been sent or skipped yet; failed steps stay due until they
+ * reach ESCALATION_MAX_ATTEMPTS. A step is identified by action + delay so editing the policy doesn't replay earlier steps.
+ */
+export function dueEscalationSteps(steps: EscalationStep[], log: EscalationLogEntry[], createdAt: string, now: Date) {
+  const ageHours = (now.getTime() - new Date(createdAt).getTime()) / 3600000
+  return steps.filter((step) => {
+    if (ageHours < step.after_hours) return false
+    const entries = log.filter((entry) => entry.action === step.action && entry.after_hours === step.after_hours)
+    return !entries.some((entry) => entry.result !== 'failed') && entries.length < ESCALATION_MAX_ATTEMPTS
+  })
+}
+
+type EscalatedAlert = { id: string; type: string; title: string; description: string; assigned_to: string | null }
+
+async function notifyUsers(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  userIds: string[],
+  alert: EscalatedAlert,
+) {
+  if (userIds.length === 0) return { result: 'skipped' as const, detail: 'No recipients' }
+  const { error } = await db.from('notifications').insert(userIds.map((userId) => ({
+    workspace_id: workspaceId,
+    user_id: userId,
+    alert_id: alert.id,
+    title: `Escalated: ${alert.title}`,
+    body: alert.description,
+  })))
+  if (error) return { result: 'failed' as const, detail: error.message }
+  return { result: 'sent' as const, detail: `${userIds.length} recipient${userIds.length !== 1 ? 's' : ''}` }
+}
+
+async function postToDiscord(db: ReturnType<typeof createServiceClient>, workspaceId: string, alert: EscalatedAlert) {
+  const token = process.env.DISCORD_BOT_TOKEN
+  const { data: ws } = await db.from('workspaces').select('discord_channel_id').eq('id', workspaceId).single()
+  if (!token || !ws?.discord_channel_id) return { result: 'skipped' as const, detail: 'No Discord channel configured' }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  const res = await fetch(`https://discord.com/api/v10/channels/${ws.discord_channel_id}/messages`, {
+    method: 'POST',
+    headers: { Authorization: `Bot ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      content: `🚨 **Escalated alert:** ${alert.title}\n${alert.description}\n${appUrl}/dashboard/${workspaceId}`.slice(0, 2000),
+    }),
+  })
+  if (!res.ok) return { result: 'failed' as const, detail: `Discord API ${res.status}` }
+  return { result: 'sent' as const }
+}
+
+/**
+ * Execute due policy steps for every open critical alert and record them in alerts.escalation_log.
+ * Returns the "ESCALATED:" alerts from create_alert steps for the heuristic runner to insert.
+ */
+export async function runEscalationPolicy({ db, workspaceId, now }: HeuristicContext): Promise<RuleFinding[]> {
+  const steps = await getEscalationSteps(db, workspaceId)
+
+  // Unresolved critical alerts that nobody has acknowledged or snoozed
+  const { data: criticalAlerts } = await db
+    .from('alerts')
+    .select('id, type, title, description, assigned_to, created_at, escalation_log')
+    .eq('workspace_id', workspaceId)
+    .eq('resolved', false)
+    .eq('acknowledged', false)
+    .eq('severity', 'critical')
+    .neq('type', 'escalation')
+    .or(`snoozed_until.is.null,snoozed_until.lt.${now.toISOString()}`)
+
+  let admins: string[] | null = null
+  const findings: RuleFinding[] = []
+
+  for (const alert of criticalAlerts ?? []) {
+    const log = (alert.escalation_log as EscalationLogEntry[] | null) ?? []
+    const due = dueEscalationSteps(steps, log, alert.created_at, now)
+    if (due.length === 0) continue
+
+    for (const step of due) {
+      let outcome: { result: EscalationLogEntry['result']; detail?: string }
+      try {
+        switch (step.action) {
+          case 'notify_assignee':
+            outcome = await notifyUsers(db, workspaceId, alert.assigned_to ? [alert.assigned_to] : [], alert)
+            break
+          case 'notify_admins':
+            if (!admins) {
+              const { data } = await db.from('workspace_members').select('user_id').eq('workspace_id', workspaceId).eq('role', 'admin')
+              admins = (data ?? []).map((m) => m.user_id as string)
+            }
+            outcome = await notifyUsers(db, workspaceId, admins, alert)
+            break
+          case 'discord':
+            outcome = await postToDiscord(db, workspaceId, alert)
+            break
+          case 'create_alert':
+            // Shares the fingerprint escalation:<original id>, so repeated passes refresh rather than duplicate it
+            findings.push({
+              key: alert.id,
+              title: `ESCALATED: ${alert.title}`,
+              description: `Critical alert "${alert.title}" has been unresolved for ${step.after_hours}+ hours. Requires immediate attention.`,
+              metadata: { original_alert_id: alert.id, original_type: alert.type },
+            })
+            outcome = { result: 'sent' }
+            break
+        }
+      } catch (e: unknown) {
+        outcome = { result: 'failed', detail: e instanceof Error ? e.message : String(e) }
+      }
+      log.push({ action: step.action, after_hours: step.after_hours, executed_at: now.toISOString(), ...outcome })
+    }
+
+    await db.from('alerts').update({ escalation_log: log }).eq('id', alert.id)
+  }
+
+  return findings
+}
@@ -1,35 +1,194 @@
 // GitHub API helper for repository discovery, webhook setup, historical sync, and collaborator management
 // Covers AR-VCS-013 through AR-VCS-028
 
+import { createHash } from 'crypto'
 import { createServiceClient } from './supabase'
 import { classifyCommit } from './semantic-analysis'
+import { isModuleFile, parseImports, resolveImport } from './import-graph'
+import { CODEOWNERS_LOCATIONS } from './codeowners'
+import { syncPrimaryRepository } from './repositories'
+import type { IdentityResolver } from './identities'
 
 const GITHUB_API = 'https://api.github.com'
 
 // ---- Shared fetch helper ----
 
-async function ghFetch<T>(path: string, token: string, options: RequestInit = {}): Promise<T> {
+export interface RateLimit {
+  /** Calls allowed per window (x-ratelimit-limit) */
+  limit: number | null
+  /** Calls left in the current window (x-ratelimit-remaining) */
+  remaining: number | null
+  /** Epoch ms when calls may resume: retry-after for secondary limits, else x-ratelimit-reset */
+  resetAt: number | null
+}
+
+export function readRateLimit(headers: Headers, now = Date.now()): RateLimit {
+  const limit = headers.get('x-ratelimit-limit')
+  const remaining = headers.get('x-ratelimit-remaining')
+  const reset = headers.get('x-ratelimit-reset')
+  const retryAfter = headers.get('retry-after')
+  return {
+    limit: limit === null ? null : Number(limit),
+    remaining: remaining === null ? null : Number(remaining),
+    resetAt: retryAfter !== null ? now + Number(retryAfter) * 1000 : reset !== null ? Number(reset) * 1000 : null,
+  }
+}
+
+/** Last page number from a Link header (`<...&page=42>; rel="last"`), i.e. the item count at per_page=1 */
+export function lastPageFromLink(link: string | null): number | null {
+  const match = link?.match(/[?&]page=(\d+)[^>]*>;\s*rel="last"/)
+  return match ? Number(match[1]) : null
+}
+
+// Uncached calls stop this many short of the limit, so webhooks and conditional requests still get through
+const RATE_LIMIT_RESERVE = 10
+const ETAG_CACHE_SIZE = 300
+
+/**
+ * When a call should wait until: the reset, once the token is down to the reserve (or out of calls
+ * for a conditional request, which costs nothing on a 304). Null when the call may go ahead.
+ */
+export function rateLimitBackoffUntil(rateLimit: RateLimit | undefined, conditional: boolean, now = Date.now()): number | null {
+  if (!rateLimit || rateLimit.remaining === null || rateLimit.resetAt === null || rateLimit.resetAt <= now) return null
+  return rateLimit.remaining <= (conditional ? 0 : RATE_LIMIT_RESERVE) ? rateLimit.resetAt : null
+}
+
+// Per server instance: the last rate-limit headers seen for each token, and GET responses by token + path
+// for If-None-Match. Keys hash the token so it is never held as a map key in the clear.
+// Both live in module memory only. On serverless each instance starts empty and sees only its own calls, so the
+// cache saves quota only for calls a warm instance repeats, and the backoff can't account for other instances;
+// GitHub's own 403/429 stays the backstop. Sharing them across instances would need a database or KV store
+const rateLimits = new Map<string, RateLimit>()
+const etagCache = new Map<string, { etag: string; data: unknown; link: string | null }>()
+
+function tokenKey(token: string) {
+  return createHash('sha256').update(token).digest('hex').slice(0, 16)
+}
+
+function cacheEtag(key: string, entry: { etag: string; data: unknown; link: string | null }) {
+  // Maps iterate in insertion order: re-inserting marks an entry recent, the first key is the oldest
+  etagCache.delete(key)
+  etagCache.set(key, entry)
+  if (etagCache.size > ETAG_CACHE_SIZE) etagCache.delete(etagCache.keys().next().value!)
+}
+
+interface GitHubRequestOptions extends RequestInit {
+  /** Skip the ETag cache, for reads that are never repeated (import pages, commit details, file contents) */
+  noCache?: boolean
+}
+
+async function ghRequest<T>(path: string, token: string, options: GitHubRequestOptions = {}): Promise<{ data: T; rateLimit: RateLimit; link: string | null }> {
+  const { noCache, ...init } = options
+  const key = tokenKey(token)
+  const cacheKey = `${key}:${path}`
+  const cached = !noCache && (init.method ?? 'GET') === 'GET' ? etagCache.get(cacheKey) : undefined
+  // GraphQL has its own budget (x-ratelimit-resource: graphql), separate from the REST one
+  const limitKey = path === '/graphql' ? `${key}:graphql` : key
+
+  const tracked = rateLimits.get(limitKey)
+  const backoffUntil = rateLimitBackoffUntil(tracked, !!cached)
+  if (backoffUntil !== null) {
+    throw new GitHubAPIError(429, 'Backing off until the GitHub rate limit resets', path, tracked!, true)
+  }
+
   const res = await fetch(`${GITHUB_API}${path}`, {
-    ...options,
+    ...init,
     headers: {
       Authorization: `Bearer ${token}`,
       Accept: 'application/vnd.github+json',
       'X-GitHub-Api-Version': '2022-11-28',
-      ...options.headers,
+      ...(cached && { 'If-None-Match': cached.etag }),
+      ...init.headers,
     },
   })
+  const rateLimit = readRateLimit(res.headers)
+  if (rateLimit.remaining !== null || rateLimit.resetAt !== null) rateLimits.set(limitKey, rateLimit)
+
+  if (res.status === 304 && cached) {
+    cacheEtag(cacheKey, cached)
+    return { data: cached.data as T, rateLimit, link: cached.link }
+  }
   if (!res.ok) {
     const body = await res.text().catch(() => '')
-    throw new GitHubAPIError(res.status, body, path)
+    // 403/429 with no calls left (or a retry-after) is a rate limit, not a permissions problem
+    const limited = (res.status === 403 || res.status === 429) && (rateLimit.remaining === 0 || res.headers.has('retry-after'))
+    // A secondary limit leaves calls in the window; treat the token as empty until retry-after passes
+    if (limited) rateLimits.set(limitKey, { ...rateLimit, remaining: 0 })
+    throw new GitHubAPIError(res.status, body, path, rateLimit, limited)
+  }
+
+  const data = await res.json() as T
+  const link = res.headers.get('link')
+  const etag = res.headers.get('etag')
+  if (!noCache && (init.method ?? 'GET') === 'GET') {
+    if (etag) cacheEtag(cacheKey, { etag, data, link })
+    else etagCache.delete(cacheKey)
   }
-  return res.json() as Promise<T>
+  return { data, rateLimit, link }
+}
+
+// Exported for github-app.ts, whose App JWT and installation token calls share the cache and rate-limit tracking
+export async function ghFetch<T>(path: string, token: string, options: GitHubRequestOptions = {}): Promise<T> {
+  return (await ghRequest<T>(path, token, options)).data
+}
+
+/**
+ * GitHub GraphQL API. Fields that fail (e.g. blame of a binary file) come back as null with an entry in
+ * `errors`; the call only throws when there is no data at all.
+ */
+export async function ghGraphQL<T>(token: string, query: string, variables: Record<string, unknown>): Promise<{ data: T; errors: Array<{ message: string; path?: Array<string | number> }> }> {
+  const { data, rateLimit } = await ghRequest<{ data: T | null; errors?: Array<{ type?: string; message: string; path?: Array<string | number> }> }>('/graphql', token, {
+    method: 'POST',
+    body: JSON.stringify({ query, variables }),
+    noCache: true,
+  })
+  if (!data.data) {
+    const message = data.errors?.map((e) => e.message).join('; ') || 'Empty GraphQL response'
+    // GraphQL reports its rate limit as a 200 with a RATE_LIMITED error
+    const limited = !!data.errors?.some((e) => e.type === 'RATE_LIMITED')
+    throw new GitHubAPIError(limited ? 429 : 200, message, '/graphql', rateLimit, limited)
+  }
+  return { data: data.data, errors: data.errors ?? [] }
 }
 
 export class GitHubAPIError extends Error {
-  constructor(public status: number, public body: string, public path: string) {
+  constructor(
+    public status: number,
+    public body: string,
+    public path: string,
+    /** Rate-limit headers of the failed response (or the tracked state when we backed off without calling) */
+    public rateLimit: RateLimit | null = null,
+    public rateLimited = false,
+  ) {
     super(`GitHub API ${status} on ${path}: ${body.slice(0, 200)}`)
     this.name = 'GitHubAPIError'
   }
+
+  /** Epoch ms when a rate-limited call may be retried, null for other errors */
+  get rateLimitedUntil(): number | null {
+    return this.rateLimited ? this.rateLimit?.resetAt ?? null : null
+  }
+}
+
+/**
+ * 429 response for a GitHub rate-limit error, with Retry-After and the limit state; null for any other error.
+ * Routes return it as `NextResponse.json(limited.body, limited.init)`.
+ */
+export function rateLimitErrorResponse(e: unknown, now = Date.now()) {
+  if (!(e instanceof GitHubAPIError) || !e.rateLimited) return null
+  const resetAt = e.rateLimitedUntil
+  const retryAfter = resetAt === null ? 60 : Math.max(1, Math.ceil((resetAt - now) / 1000))
+  return {
+    body: {
+      error: 'GitHub rate limit reached, try again later',
+      rate_limit: {
+        limit: e.rateLimit?.limit ?? null,
+        remaining: e.rateLimit?.remaining ?? 0,
+        reset_at: resetAt === null ? null : new Date(resetAt).toISOString(),
+      },
+    },
+    init: { status: 429, headers: { 'Retry-After': String(retryAfter) } },
+  }
 }
 
 // ---- Types ----
@@ -57,7 +216,7 @@ export interface GitHubCollaborator {
   permissions: { admin: boolean; maintain: boolean; push: boolean; triage: boolean; pull: boolean }
 }
 
-interface GitHubCommit {
+export interface GitHubCommit {
   sha: string
   commit: {
     message: string
@@ -68,7 +227,7 @@ interface GitHubCommit {
   files?: Array<{ filename: string; additions: number; deletions: number; status: string }>
 }
 
-interface GitHubPR {
+export interface GitHubPR {
   number: number
   title: string
   body: string | null
@@ -85,7 +244,7 @@ interface GitHubPR {
   requested_reviewers: Array<{ login: string }>
 }
 
-interface GitHubIssue {
+export interface GitHubIssue {
   number: number
   title: string
   body: string | null
@@ -94,6 +253,7 @@ interface GitHubIssue {
   assignee: { login: string } | null
   labels: Array<{ name: string }>
   created_at: string
+  updated_at: string
   closed_at: string | null
   pull_request?: unknown // present if it's a PR
 }
@@ -136,7 +296,8 @@ export async function verifyRepoAccess(token: string, owner: string, repo: strin
     const data = await ghFetch<GitHubRepo>(`/repos/${owner}/${repo}`, token)
     return { accessible: true, permissions: data.permissions ?? null }
   } catch (e) {
-    if (e instanceof GitHubAPIError && (e.status === 404 || e.status === 403)) {
+    // A rate-limited 403 says nothing about access; let it reach the route as a 429
+    if (e instanceof GitHubAPIError && !e.rateLimited && (e.status === 404 || e.status === 403)) {
       return { accessible: false, permissions: null }
     }
     throw e
@@ -145,6 +306,8 @@ export async function verifyRepoAccess(token: string, owner: string, repo: strin
 
 // ---- AR-VCS-018/019: Configure & validate webhook ----
 
+export const WEBHOOK_EVENTS = ['push', 'pull_request', 'pull_request_review', 'pull_request_review_comment', 'issues', 'deployment_status', 'member', 'create', 'delete', 'release']
+
 export async function setupWebhook(
   token: string,
   owner: string,
@@ -157,14 +320,16 @@ export async function setupWebhook(
     const existing = await ghFetch<GitHubWebhook[]>(`/repos/${owner}/${repo}/hooks`, token)
     const found = existing.find((h) => h.config.url === webhookUrl)
     if (found) {
-      // Already registered — validate it's active (AR-VCS-019)
-      if (found.active) {
-        return { success: true, webhookId: found.id }
-      }
-      // Re-activate
+      // Already registered — re-activate it (AR-VCS-019), add events registered by older versions,
+      // and set the secret we are about to verify against
+      const missingEvents = WEBHOOK_EVENTS.filter((e) => !found.events?.includes(e))
       await ghFetch(`/repos/${owner}/${repo}/hooks/${found.id}`, token, {
         method: 'PATCH',
-        body: JSON.stringify({ active: true }),
+        body: JSON.stringify({
+          active: true,
+          add_events: missingEvents,
+          config: { url: webhookUrl, content_type: 'json', secret, insecure_ssl: '0' },
+        }),
         headers: { 'Content-Type': 'application/json' },
       })
       return { success: true, webhookId: found.id }
@@ -184,7 +349,7 @@ export async function setupWebhook(
       body: JSON.stringify({
         name: 'web',
         active: true,
-        events: ['push', 'pull_request', 'issues', 'deployment_status', 'member'],
+        events: WEBHOOK_EVENTS,
         config: {
           url: webhookUrl,
           content_type: 'json',
@@ -204,6 +369,83 @@ export async function setupWebhook(
 
 // ---- AR-VCS-020: Fetch historical commits ----
 
+/** Store a listed commit with its stats and per-file authorship; stats stay 0 when the detail call fails */
+async function storeCommit(
+  db: ReturnType<typeof createServiceClient>,
+  token: string,
+  owner: string,
+  repo: string,
+  workspaceId: string,
+  c: GitHubCommit,
+) {
+  // Fetch full commit for files & stats
+  let fullCommit: GitHubCommit | null = null
+  try {
+    fullCommit = await ghFetch<GitHubCommit>(`/repos/${owner}/${repo}/commits/${c.sha}`, token, { noCache: true })
+  } catch { /* skip detailed data if rate-limited */ }
+  await saveCommit(db, owner, repo, workspaceId, c, fullCommit)
+}
+
+/** commits row for a commit from the REST API; `fullCommit` (the detail endpoint) brings files and stats */
+export function commitRow(c: GitHubCommit, fullCommit: GitHubCommit | null, owner: string, repo: string, workspaceId: string) {
+  const files = fullCommit?.files ?? []
+  const allFileNames = files.map((f) => f.filename)
+  const { type, summary, isHighImpact } = classifyCommit(c.commit.message, allFileNames)
+  return {
+    workspace_id: workspaceId,
+    sha: c.sha,
+    message: c.commit.message,
+    author_name: c.commit.author.name,
+    author_email: c.commit.author.email,
+    author_github_username: c.author?.login ?? null,
+    branch: null, // historical commits don't have reliable branch info
+    repo_owner: owner,
+    repo_name: repo,
+    lines_added: fullCommit?.stats?.additions ?? 0,
+    lines_deleted: fullCommit?.stats?.deletions ?? 0,
+    files_changed: files.length,
+    files_list: allFileNames,
+    committed_at: c.commit.author.date,
+    commit_type: type,
+    commit_summary: summary,
+    is_high_impact: isHighImpact,
+  }
+}
+
+/**
+ * file_authorship rows for a commit's files. Each upsert replaces the author's row for the file, so commit_count
+ * stays 1; per-path change counts come from commits.files_list (`countFileChanges`)
+ */
+export function fileAuthorshipRows(c: GitHubCommit, fullCommit: GitHubCommit | null, owner: string, repo: string, workspaceId: string) {
+  return (fullCommit?.files ?? []).map((file) => ({
+    workspace_id: workspaceId,
+    repo_owner: owner,
+    repo_name: repo,
+    file_path: file.filename,
+    author_github_username: c.author?.login ?? c.commit.author.email,
+    lines_added: file.additions,
+    lines_modified: file.deletions,
+    commit_count: 1,
+    last_modified_at: c.commit.author.date,
+    updated_at: new Date().toISOString(),
+  }))
+}
+
+async function saveCommit(
+  db: ReturnType<typeof createServiceClient>,
+  owner: string,
+  repo: string,
+  workspaceId: string,
+  c: GitHubCommit,
+  fullCommit: GitHubCommit | null,
+) {
+  await db.from('commits').upsert(commitRow(c, fullCommit, owner, repo, workspaceId), { onConflict: 'workspace_id,sha' })
+
+  for (const row of fileAuthorshipRows(c, fullCommit, owner, repo, workspaceId)) {
+    await db.from('file_authorship').upsert(row, { onConflict: 'workspace_id,repo_owner,repo_name,file_path,author_github_username' })
+  }
+}
+
 export async function fetchHistoricalCommits(
   token: string,
   owner: string,
@@ -219,53 +461,12 @@ export async function fetchHistoricalCommits(
     const commits = await ghFetch<GitHubCommit[]>(
       `/repos/${owner}/${repo}/commits?per_page=100&page=${page}`,
       token,
+      { noCache: true },
     )
     if (commits.length === 0) break
 
     for (const c of commits) {
-      // Fetch full commit for files & stats
-      let fullCommit: GitHubCommit | null = null
-      try {
-        fullCommit = await ghFetch<GitHubCommit>(`/repos/${owner}/${repo}/commits/${c.sha}`, token)
-      } catch { /* skip detailed data if rate-limited */ }
-
-      const files = fullCommit?.files ?? []
-      const allFileNames = files.map((f) => f.filename)
-      const { type, summary, isHighImpact } = classifyCommit(c.commit.message, allFileNames)
-
-      await db.from('commits').upsert({
-        workspace_id: workspaceId,
-        sha: c.sha,
-        message: c.commit.message,
-        author_name: c.commit.author.name,
-        author_email: c.commit.author.email,
-        author_github_username: c.author?.login ?? null,
-        branch: null, // historical commits don't have reliable branch info
-        repo_owner: owner,
-        repo_name: repo,
-        lines_added: fullCommit?.stats?.additions ?? 0,
-        lines_deleted: fullCommit?.stats?.deletions ?? 0,
-        files_changed: files.length,
-        files_list: allFileNames,
-        committed_at: c.commit.author.date,
-        commit_type: type,
-        commit_summary: summary,
-        is_high_impact: isHighImpact,
-      }, { onConflict: 'workspace_id,sha' })
-
-      // File authorship
-      for (const file of files) {
-        await db.from('file_authorship').upsert({
-          workspace_id: workspaceId,
-          file_path: file.filename,
-          author_github_username: c.author?.login ?? c.commit.author.email,
-          lines_added: file.additions,
-          lines_modified: file.deletions,
-          commit_count: 1,
-          last_modified_at: c.commit.author.date,
-          updated_at: new Date().toISOString(),
-        }, { onConflict: 'workspace_id,file_path,author_github_username' })
-      }
+      await storeCommit(db, token, owner, repo, workspaceId, c)
       totalSynced++
     }
 
@@ -278,6 +479,28 @@ export async function fetchHistoricalCommits(
 
 // ---- AR-VCS-021: Fetch historical pull requests ----
 
+/** pull_requests row for a PR from the REST API (the list endpoint has no line counts, so those stay undefined) */
+export function pullRequestRow(pr: GitHubPR, owner: string, repo: string, workspaceId: string) {
+  return {
+    workspace_id: workspaceId,
+    github_pr_number: pr.number,
+    title: pr.title,
+    body: pr.body,
+    state: pr.merged_at ? 'merged' : pr.state,
+    author_github_username: pr.user.login,
+    head_branch: pr.head.ref,
+    base_branch: pr.base.ref,
+    repo_owner: owner,
+    repo_name: repo,
+    lines_added: pr.additions,
+    lines_deleted: pr.deletions,
+    opened_at: pr.created_at,
+    closed_at: pr.closed_at,
+    merged_at: pr.merged_at,
+    updated_at: pr.updated_at,
+  }
+}
+
 export async function fetchHistoricalPRs(
   token: string,
   owner: string,
@@ -293,28 +516,12 @@ export async function fetchHistoricalPRs(
     const prs = await ghFetch<GitHubPR[]>(
       `/repos/${owner}/${repo}/pulls?state=all&per_page=100&page=${page}&sort=updated&direction=desc`,
       token,
+      { noCache: true },
     )
     if (prs.length === 0) break
 
     for (const pr of prs) {
-      await db.from('pull_requests').upsert({
-        workspace_id: workspaceId,
-        github_pr_number: pr.number,
-        title: pr.title,
-        body: pr.body,
-        state: pr.merged_at ? 'merged' : pr.state,
-        author_github_username: pr.user.login,
-        head_branch: pr.head.ref,
-        base_branch: pr.base.ref,
-        repo_owner: owner,
-        repo_name: repo,
-        lines_added: pr.additions,
-        lines_deleted: pr.deletions,
-        opened_at: pr.created_at,
-        closed_at: pr.closed_at,
-        merged_at: pr.merged_at,
-        updated_at: pr.updated_at,
-      }, { onConflict: 'workspace_id,github_pr_number,repo_owner,repo_name' })
+      await db.from('pull_requests').upsert(pullRequestRow(pr, owner, repo, workspaceId), { onConflict: 'workspace_id,github_pr_number,repo_owner,repo_name' })
       totalSynced++
     }
 
@@ -325,8 +532,52 @@ export async function fetchHistoricalPRs(
   return totalSynced
 }
 
+// ---- Files changed by a pull request (reviewer suggestions) ----
+
+export async function fetchPullRequestFiles(token: string, owner: string, repo: string, prNumber: number, maxPages = 3) {
+  const files: string[] = []
+  for (let page = 1; page <= maxPages; page++) {
+    const batch = await ghFetch<Array<{ filename: string }>>(
+      `/repos/${owner}/${repo}/pulls/${prNumber}/files?per_page=100&page=${page}`,
+      token,
+    )
+    files.push(...batch.map((f) => f.filename))
+    if (batch.length < 100) break
+  }
+  return files
+}
+
+// ---- Commits dropped by a force push ----
+
+/**
+ * SHAs reachable from `head` but not from `base` (the compare API's `base...head`).
+ * After a force push, comparing new...old lists the commits the push dropped; GitHub returns at most 250.
+ */
+export async function fetchCompareCommits(token: string, owner: string, repo: string, base: string, head: string) {
+  const compare = await ghFetch<{ commits: Array<{ sha: string }> }>(`/repos/${owner}/${repo}/compare/${base}...${head}`, token)
+  return compare.commits.map((c) => c.sha)
+}
+
 // ---- AR-VCS-022: Fetch historical issues ----
 
+export function issueRow(issue: GitHubIssue, owner: string, repo: string, workspaceId: string) {
+  return {
+    workspace_id: workspaceId,
+    github_issue_number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    author_github_username: issue.user.login,
+    assignee_github_username: issue.assignee?.login ?? null,
+    repo_owner: owner,
+    repo_name: repo,
+    labels: issue.labels.map((l) => l.name),
+    opened_at: issue.created_at,
+    closed_at: issue.closed_at,
+    updated_at: new Date().toISOString(),
+  }
+}
+
 export async function fetchHistoricalIssues(
   token: string,
   owner: string,
@@ -342,6 +593,7 @@ export async function fetchHistoricalIssues(
     const issues = await ghFetch<GitHubIssue[]>(
       `/repos/${owner}/${repo}/issues?state=all&per_page=100&page=${page}&sort=updated&direction=desc`,
       token,
+      { noCache: true },
     )
     if (issues.length === 0) break
 
@@ -349,21 +601,7 @@ export async function fetchHistoricalIssues(
       // Skip pull requests (GitHub returns PRs in issues endpoint too)
       if (issue.pull_request) continue
 
-      await db.from('issues').upsert({
-        workspace_id: workspaceId,
-        github_issue_number: issue.number,
-        title: issue.title,
-        body: issue.body,
-        state: issue.state,
-        author_github_username: issue.user.login,
-        assignee_github_username: issue.assignee?.login ?? null,
-        repo_owner: owner,
-        repo_name: repo,
-        labels: issue.labels.map((l) => l.name),
-        opened_at: issue.created_at,
-        closed_at: issue.closed_at,
-        updated_at: new Date().toISOString(),
-      }, { onConflict: 'workspace_id,github_issue_number,repo_owner,repo_name' })
+      await db.from('issues').upsert(issueRow(issue, owner, repo, workspaceId), { onConflict: 'workspace_id,github_issue_number,repo_owner,repo_name' })
       totalSynced++
     }
 
@@ -374,6 +612,134 @@ export async function fetchHistoricalIssues(
   return totalSynced
 }
 
+// ---- Incremental resync (src/lib/resync.ts) ----
+
+// Listings page through the whole window; past this many pages (10,000 items) the rest is left to a full-history import
+const RESYNC_MAX_PAGES = 100
+
+/**
+ * A resync listing: `truncated` when it stopped at `maxPages` with more to fetch. The listings run newest first,
+ * so a truncated one is missing the oldest part of the window.
+ */
+export interface ResyncListing<T> {
+  items: T[]
+  truncated: boolean
+}
+
+/** Default-branch commits dated after `since`, newest first */
+export async function fetchCommitsSince(token: string, owner: string, repo: string, since: string, maxPages = RESYNC_MAX_PAGES): Promise<ResyncListing<GitHubCommit>> {
+  const commits: GitHubCommit[] = []
+  for (let page = 1; page <= maxPages; page++) {
+    const batch = await ghFetch<GitHubCommit[]>(
+      `/repos/${owner}/${repo}/commits?since=${encodeURIComponent(since)}&per_page=100&page=${page}`,
+      token,
+    )
+    commits.push(...batch)
+    if (batch.length < 100) return { items: commits, truncated: false }
+  }
+  return { items: commits, truncated: true }
+}
+
+/** PRs updated after `since`; the list is sorted by update time, so paging stops at the first older PR */
+export async function fetchPullRequestsUpdatedSince(token: string, owner: string, repo: string, since: string, maxPages = RESYNC_MAX_PAGES): Promise<ResyncListing<GitHubPR>> {
+  const prs: GitHubPR[] = []
+  for (let page = 1; page <= maxPages; page++) {
+    const batch = await ghFetch<GitHubPR[]>(
+      `/repos/${owner}/${repo}/pulls?state=all&per_page=100&page=${page}&sort=updated&direction=desc`,
+      token,
+    )
+    const updated = batch.filter((pr) => pr.updated_at > since)
+    prs.push(...updated)
+    if (batch.length < 100 || updated.length < batch.length) return { items: prs, truncated: false }
+  }
+  return { items: prs, truncated: true }
+}
+
+/** Issues (not PRs) updated after `since` */
+export async function fetchIssuesUpdatedSince(token: string, owner: string, repo: string, since: string, maxPages = RESYNC_MAX_PAGES): Promise<ResyncListing<GitHubIssue>> {
+  const issues: GitHubIssue[] = []
+  for (let page = 1; page <= maxPages; page++) {
+    const batch = await ghFetch<GitHubIssue[]>(
+      `/repos/${owner}/${repo}/issues?state=all&since=${encodeURIComponent(since)}&per_page=100&page=${page}&sort=updated&direction=desc`,
+      token,
+    )
+    issues.push(...batch.filter((issue) => !issue.pull_request))
+    if (batch.length < 100) return { items: issues, truncated: false }
+  }
+  return { items: issues, truncated: true }
+}
+
+/** Store commits found by a resync, with the same stats and authorship as the historical sync */
+export async function storeCommits(token: string, owner: string, repo: string, workspaceId: string, commits: GitHubCommit[]) {
+  const db = createServiceClient()
+  for (const c of commits) await storeCommit(db, token, owner, repo, workspaceId, c)
+}
+
+// ---- Full-history import (src/lib/history-import.ts) ----
+
+/** Item counts for the progress bar (issues include PRs on GitHub's side, so they are subtracted) and the head to pin commit paging to */
+export async function fetchImportTotals(token: string, owner: string, repo: string) {
+  const count = async (path: string) => {
+    const { data, link } = await ghRequest<unknown[]>(path, token)
+    return { total: lastPageFromLink(link) ?? data.length, first: data[0] }
+  }
+  const [commits, prs, issues] = await Promise.all([
+    // An empty repository answers 409 Conflict
+    count(`/repos/${owner}/${repo}/commits?per_page=1`).catch((e) => {
+      if (e instanceof GitHubAPIError && e.status === 409) return { total: 0, first: undefined }
+      throw e
+    }),
+    count(`/repos/${owner}/${repo}/pulls?state=all&per_page=1`),
+    count(`/repos/${owner}/${repo}/issues?state=all&per_page=1`),
+  ])
+  return {
+    headSha: (commits.first as GitHubCommit | undefined)?.sha ?? null,
+    commits: commits.total,
+    pullRequests: prs.total,
+    issues: Math.max(0, issues.total - prs.total),
+  }
+}
+
+/** One page of history reachable from `sha`, newest first; pinning the sha keeps pages stable while the import runs */
+export async function fetchCommitListPage(token: string, owner: string, repo: string, sha: string, page: number, perPage = 100) {
+  const { data, rateLimit } = await ghRequest<GitHubCommit[]>(
+    `/repos/${owner}/${repo}/commits?sha=${sha}&per_page=${perPage}&page=${page}`,
+    token,
+    { noCache: true },
+  )
+  return { commits: data, rateLimit }
+}
+
+/** One page of PRs, oldest first, so PRs opened during the import land on later pages */
+export async function fetchPullRequestPage(token: string, owner: string, repo: string, page: number, perPage = 100) {
+  const { data, rateLimit } = await ghRequest<GitHubPR[]>(
+    `/repos/${owner}/${repo}/pulls?state=all&sort=created&direction=asc&per_page=${perPage}&page=${page}`,
+    token,
+    { noCache: true },
+  )
+  return { pullRequests: data, rateLimit }
+}
+
+/** One page of the issues listing, oldest first; `issues` excludes the PRs GitHub mixes in, `size` counts them */
+export async function fetchIssuePage(token: string, owner: string, repo: string, page: number, perPage = 100) {
+  const { data, rateLimit } = await ghRequest<GitHubIssue[]>(
+    `/repos/${owner}/${repo}/issues?state=all&sort=created&direction=asc&per_page=${perPage}&page=${page}`,
+    token,
+    { noCache: true },
+  )
+  return { issues: data.filter((issue) => !issue.pull_request), size: data.length, rateLimit }
+}
+
+/**
+ * Store one commit with stats and file authorship. Unlike the bounded historical sync, a failed
+ * detail call throws (rate limits included), so the import retries the commit instead of storing zeros.
+ */
+export async function importCommit(token: string, owner: string, repo: string, workspaceId: string, c: GitHubCommit) {
+  const { data: fullCommit, rateLimit } = await ghRequest<GitHubCommit>(`/repos/${owner}/${repo}/commits/${c.sha}`, token, { noCache: true })
+  await saveCommit(createServiceClient(), owner, repo, workspaceId, c, fullCommit)
+  return rateLimit
+}
+
 // ---- AR-VCS-023/024/025: Fetch collaborators, roles, store metadata ----
 
 export async function fetchAndStoreCollaborators(
@@ -417,9 +783,11 @@ export async function fetchAndStoreCollaborators(
 
 // ---- AR-VCS-026: Map commit authors to collaborators ----
 
+// With an identity resolver, an author's emails and other logins count as the person's GitHub login
 export function mapAuthorsToCollaborators(
   commits: Array<{ author_github_username: string | null; author_email: string }>,
   collaborators: Array<{ username: string }>,
+  identities?: Pick<IdentityResolver, 'authorKey'>,
 ): {
   mapped: Array<{ author: string; collaborator: string }>
   unmapped: string[]
@@ -431,11 +799,12 @@ export function mapAuthorsToCollaborators(
   for (const commit of commits) {
     const author = commit.author_github_username ?? commit.author_email
     if (!author) continue
+    const person = identities ? identities.authorKey(author) : author
 
-    if (collabSet.has(author.toLowerCase())) {
-      mapped.push({ author, collaborator: author })
+    if (collabSet.has(person.toLowerCase())) {
+      mapped.push({ author, collaborator: person })
     } else {
-      unmappedSet.add(author)
+      unmappedSet.add(person)
     }
   }
 
@@ -444,7 +813,7 @@ export function mapAuthorsToCollaborators(
 
 // ---- AR-VCS-027: Detect contributors not formally listed as collaborators ----
 
-export async function detectExternalContributors(workspaceId: string) {
+export async function detectExternalContributors(workspaceId: string, identities?: Pick<IdentityResolver, 'authorKey'>) {
   const db = createServiceClient()
 
   // Get workspace collaborators
@@ -468,12 +837,14 @@ export async function detectExternalContributors(workspaceId: string) {
     .eq('workspace_id', workspaceId)
     .not('author_github_username', 'is', null)
 
+  // The same person committing under an email and a login is one author
+  const key = (author: string) => (identities ? identities.authorKey(author) : author)
   const allAuthors = new Set<string>()
   for (const c of commits ?? []) {
-    if (c.author_github_username) allAuthors.add(c.author_github_username)
+    if (c.author_github_username) allAuthors.add(key(c.author_github_username))
   }
   for (const p of prs ?? []) {
-    if (p.author_github_username) allAuthors.add(p.author_github_username)
+    if (p.author_github_username) allAuthors.add(key(p.author_github_username))
   }
 
   const external: string[] = []
@@ -499,19 +870,132 @@ export async function handleMemberEvent(
   return fetchAndStoreCollaborators(token, owner, repo, workspaceId)
 }
 
+// ---- AR-HEU-006: Sync the module import graph from repository sources ----
+
+const MAX_MODULE_FILES = 1500
+const MAX_MODULE_BYTES = 200_000
+
+interface GitHubTree {
+  tree: Array<{ path: string; type: string; sha: string; size?: number }>
+  truncated: boolean
+}
+
+/**
+ * Fetch TS/JS sources at `ref` through the contents API and store each file's imports in module_imports.
+ * Unchanged blobs (same sha) are not refetched; every file's imports are re-resolved against the current tree.
+ */
+export async function syncImportGraph(token: string, owner: string, repo: string, workspaceId: string, ref: string) {
+  const db = createServiceClient()
+  const tree = await ghFetch<GitHubTree>(`/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`, token, { noCache: true })
+  const moduleFiles = tree.tree
+    .filter((entry) => entry.type === 'blob' && isModuleFile(entry.path) && (entry.size ?? 0) <= MAX_MODULE_BYTES)
+    .slice(0, MAX_MODULE_FILES)
+  const filePaths = new Set(moduleFiles.map((f) => f.path))
+
+  const { data: stored } = await db
+    .from('module_imports')
+    .select('file_path, blob_sha, specifiers')
+    .eq('workspace_id', workspaceId)
+    .eq('repo_owner', owner)
+    .eq('repo_name', repo)
+  const storedByPath = new Map((stored ?? []).map((row) => [row.file_path as string, row]))
+
+  // Fetch changed sources a few at a time to stay polite with the API
+  const specifiersByPath = new Map<string, string[]>()
+  const changed = moduleFiles.filter((f) => storedByPath.get(f.path)?.blob_sha !== f.sha)
+  for (let i = 0; i < changed.length; i += 8) {
+    await Promise.all(changed.slice(i, i + 8).map(async (file) => {
+      try {
+        const encodedPath = file.path.split('/').map(encodeURIComponent).join('/')
+        const content = await ghFetch<{ content: string; encoding: string }>(
+          `/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`,
+          token,
+          { noCache: true },
+        )
+        const source = Buffer.from(content.content, content.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8')
+        specifiersByPath.set(file.path, parseImports(source))
+      } catch { /* leave the previous row in place if a single file can't be fetched */ }
+    }))
+  }
+
+  const now = new Date().toISOString()
+  const rows = moduleFiles
+    .filter((f) => specifiersByPath.has(f.path) || storedByPath.has(f.path))
+    .map((f) => {
+      const fresh = specifiersByPath.get(f.path)
+      const specifiers = fresh ?? ((storedByPath.get(f.path)?.specifiers as string[] | null) ?? [])
+      const imports = specifiers
+        .map((spec) => resolveImport(f.path, spec, filePaths))
+        .filter((target): target is string => target !== null)
+      return {
+        workspace_id: workspaceId,
+        repo_owner: owner,
+        repo_name: repo,
+        file_path: f.path,
+        blob_sha: fresh ? f.sha : storedByPath.get(f.path)!.blob_sha,
+        specifiers,
+        imports: [...new Set(imports)],
+        updated_at: now,
+      }
+    })
+
+  for (let i = 0; i < rows.length; i += 500) {
+    await db.from('module_imports').upsert(rows.slice(i, i + 500), { onConflict: 'workspace_id,repo_owner,repo_name,file_path' })
+  }
+
+  // Drop files that were deleted or renamed
+  const removed = [...storedByPath.keys()].filter((p) => !filePaths.has(p))
+  for (let i = 0; i < removed.length; i += 200) {
+    await db.from('module_imports').delete().eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', repo).in('file_path', removed.slice(i, i + 200))
+  }
+
+  return rows.length
+}
+
+/**
+ * Fetch the CODEOWNERS file GitHub would use at `ref` and store it on the bound repository (cleared when there
+ * is none). Returns its path. ETags make the repeat fetch on every resync cheap.
+ */
+export async function syncCodeowners(token: string, owner: string, repo: string, workspaceId: string, ref: string): Promise<string | null> {
+  let found: { path: string; content: string } | null = null
+  for (const path of CODEOWNERS_LOCATIONS) {
+    try {
+      const file = await ghFetch<{ content: string; encoding: string }>(`/repos/${owner}/${repo}/contents/${path}?ref=${encodeURIComponent(ref)}`, token)
+      found = { path, content: Buffer.from(file.content, file.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8') }
+      break
+    } catch (e) {
+      if (!(e instanceof GitHubAPIError && e.status === 404)) throw e
+    }
+  }
+
+  const db = createServiceClient()
+  await db.from('workspace_repositories').update({
+    codeowners_path: found?.path ?? null,
+    codeowners_content: found?.content ?? null,
+    codeowners_synced_at: new Date().toISOString(),
+  }).eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', repo)
+  return found?.path ?? null
+}
+
 // ---- Full repo binding orchestration (AR-VCS-015 through AR-VCS-025) ----
 
+/**
+ * `token` is the binding user's OAuth token, which must be able to read the repository. With `installation`
+ * (the GitHub App installed on the repository's account) everything after the access check uses the
+ * installation token, and the repository keeps syncing after that user leaves.
+ */
 export async function bindRepository(
   token: string,
   workspaceId: string,
   owner: string,
   repo: string,
   appUrl: string,
+  installation: { id: number; token: string } | null = null,
 ): Promise<{
   success: boolean
   error?: string
   webhookId?: number | null
-  syncSummary?: { commits: number; pullRequests: number; issues: number; collaborators: number }
+  syncSummary?: { commits: number; pullRequests: number; issues: number; collaborators: number; modules: number }
 }> {
   // 1. AR-VCS-017: Verify access
   const access = await verifyRepoAccess(token, owner, repo)
@@ -520,44 +1004,59 @@ export async function bindRepository(
   }
 
   const db = createServiceClient()
+  const ghToken = installation?.token ?? token
 
-  // 2. AR-VCS-016: Store selected repository (get repo info)
-  const repoInfo = await ghFetch<GitHubRepo>(`/repos/${owner}/${repo}`, token)
+  // 2. AR-VCS-016: Store selected repository (get repo info) alongside any already bound
+  const repoInfo = await ghFetch<GitHubRepo>(`/repos/${owner}/${repo}`, ghToken)
   const webhookSecret = (await import('crypto')).randomBytes(32).toString('hex')
+  // The historical sync below covers everything up to now; later resyncs start from here
+  const syncStartedAt = new Date().toISOString()
+
+  const { data: bound, error: bindError } = await db.from('workspace_repositories').upsert({
+    workspace_id: workspaceId,
+    repo_owner: owner,
+    repo_name: repo,
+    repo_url: repoInfo.html_url,
+    github_repo_id: repoInfo.id,
+    default_branch: repoInfo.default_branch,
+    is_private: repoInfo.private,
+    webhook_secret: webhookSecret,
+    installation_id: installation?.id ?? null,
+    commits_cursor: syncStartedAt,
+    pull_requests_cursor: syncStartedAt,
+    issues_cursor: syncStartedAt,
+    updated_at: new Date().toISOString(),
+  }, { onConflict: 'workspace_id,repo_owner,repo_name' }).select('id').single()
+  if (bindError || !bound) return { success: false, error: 'Failed to store repository' }
 
+  // Fallback for repositories no installation covers
   await db.from('workspaces').update({
-    github_repo_url: repoInfo.html_url,
-    github_repo_owner: owner,
-    github_repo_name: repo,
-    github_repo_id: repoInfo.id,
-    github_repo_default_branch: repoInfo.default_branch,
-    github_repo_private: repoInfo.private,
     github_access_token: token,
-    github_webhook_secret: webhookSecret,
     updated_at: new Date().toISOString(),
   }).eq('id', workspaceId)
 
-  // 3. AR-VCS-018/019: Setup webhook
+  // 3. AR-VCS-018/019: Setup webhook (one per repository, all posting to the workspace URL)
   const webhookUrl = `${appUrl}/api/webhooks/github?workspace_id=${workspaceId}`
-  const webhookResult = await setupWebhook(token, owner, repo, webhookUrl, webhookSecret)
+  const webhookResult = await setupWebhook(ghToken, owner, repo, webhookUrl, webhookSecret)
 
   if (webhookResult.success && webhookResult.webhookId) {
-    await db.from('workspaces').update({
-      github_webhook_id: webhookResult.webhookId,
-    }).eq('id', workspaceId)
+    await db.from('workspace_repositories').update({ webhook_id: webhookResult.webhookId }).eq('id', bound.id)
   }
-
-  // 4. AR-VCS-020/021/022: Historical data sync (run in parallel)
-  const [commitCount, prCount, issueCount] = await Promise.all([
-    fetchHistoricalCommits(token, owner, repo, workspaceId).catch(() => 0),
-    fetchHistoricalPRs(token, owner, repo, workspaceId).catch(() => 0),
-    fetchHistoricalIssues(token, owner, repo, workspaceId).catch(() => 0),
+  await syncPrimaryRepository(db, workspaceId)
+
+  // 4. AR-VCS-020/021/022: Historical data sync (run in parallel), plus the AR-HEU-006 import graph and CODEOWNERS
+  const [commitCount, prCount, issueCount, moduleCount] = await Promise.all([
+    fetchHistoricalCommits(ghToken, owner, repo, workspaceId).catch(() => 0),
+    fetchHistoricalPRs(ghToken, owner, repo, workspaceId).catch(() => 0),
+    fetchHistoricalIssues(ghToken, owner, repo, workspaceId).catch(() => 0),
+    syncImportGraph(ghToken, owner, repo, workspaceId, repoInfo.default_branch).catch(() => 0),
+    syncCodeowners(ghToken, owner, repo, workspaceId, repoInfo.default_branch).catch(() => null),
   ])
 
   // 5. AR-VCS-023/024/025: Fetch collaborators
   let collabCount = 0
   try {
-    const collabs = await fetchAndStoreCollaborators(token, owner, repo, workspaceId)
+    const collabs = await fetchAndStoreCollaborators(ghToken, owner, repo, workspaceId)
     collabCount = collabs.length
   } catch {
     // Not fatal — user might not have admin access to see collaborators
@@ -571,6 +1070,7 @@ export async function bindRepository(
       pullRequests: prCount,
       issues: issueCount,
       collaborators: collabCount,
+      modules: moduleCount,
     },
   }
 }
@@ -640,6 +1140,12 @@ export interface LiveDashboardData {
   }
 }
 
+// Live fetchers degrade to empty lists, except on a rate limit: that fails the whole live load so the
+// dashboard falls back to stored data instead of showing an empty repository
+function throwIfRateLimited(e: unknown) {
+  if (e instanceof GitHubAPIError && e.rateLimited) throw e
+}
+
 /** Fetch live contributors from GitHub */
 export async function fetchLiveContributors(token: string, owner: string, repo: string): Promise<LiveContributor[]> {
   try {
@@ -652,7 +1158,8 @@ export async function fetchLiveContributors(token: string, owner: string, repo:
       avatar_url: c.avatar_url,
       contributions: c.contributions,
     }))
-  } catch {
+  } catch (e) {
+    throwIfRateLimited(e)
     return []
   }
 }
@@ -675,7 +1182,8 @@ export async function fetchLiveCommits(token: string, owner: string, repo: strin
         commit_type: type,
       }
     })
-  } catch {
+  } catch (e) {
+    throwIfRateLimited(e)
     return []
   }
 }
@@ -700,7 +1208,8 @@ export async function fetchLivePRs(token: string, owner: string, repo: string):
       additions: pr.additions ?? 0,
       deletions: pr.deletions ?? 0,
     }))
-  } catch {
+  } catch (e) {
+    throwIfRateLimited(e)
     return []
   }
 }
@@ -723,7 +1232,8 @@ export async function fetchLiveIssues(token: string, owner: string, repo: string
       closed_at: issue.closed_at,
       labels: issue.labels.map((l) => l.name),
     }))
-  } catch {
+  } catch (e) {
+    throwIfRateLimited(e)
     return []
   }
 }
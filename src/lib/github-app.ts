@@ -0,0 +1,265 @@
+// GitHub App authentication: installation tokens minted with an App JWT, so syncing a repository doesn't
+// depend on the OAuth token of whoever bound it. Repositories no installation covers keep using OAuth tokens
+
+import { createPrivateKey } from 'crypto'
+import { SignJWT } from 'jose'
+import { createServiceClient } from './supabase'
+import { ghFetch, GitHubAPIError } from './github-api'
+import { listWorkspaceRepositories, repoFullName, type RepoRef } from './repositories'
+
+export interface GitHubInstallation {
+  installation_id: number
+  account_login: string
+  account_type: string | null
+  repository_selection: string | null
+  suspended_at: string | null
+}
+
+export interface ResolvedGitHubToken {
+  token: string
+  source: 'installation' | 'oauth'
+}
+
+/** `installation` object of GitHub's installation API and webhook payloads */
+interface InstallationPayload {
+  id: number
+  account: { login: string; type?: string } | null
+  repository_selection?: string
+  suspended_at?: string | null
+}
+
+type Db = ReturnType<typeof createServiceClient>
+
+export const INSTALLATION_COLUMNS = 'installation_id, account_login, account_type, repository_selection, suspended_at'
+
+// Installation tokens live an hour; one this close to expiry is replaced so a long sync doesn't outlive it
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000
+// GitHub rejects App JWTs valid for over 10 minutes; iat is backdated a minute for clock drift
+const APP_JWT_TTL_SECONDS = 9 * 60
+
+export function isGitHubAppConfigured() {
+  return !!(process.env.GITHUB_APP_ID && process.env.GITHUB_APP_PRIVATE_KEY)
+}
+
+/** Where an admin installs the App; GitHub sends `state` back to the setup URL. Null without GITHUB_APP_SLUG */
+export function appInstallUrl(state: string): string | null {
+  const slug = process.env.GITHUB_APP_SLUG
+  return slug ? `https://github.com/apps/${slug}/installations/new?state=${encodeURIComponent(state)}` : null
+}
+
+/** True when a cached installation token is missing or expires within the refresh margin */
+export function installationTokenNeedsRefresh(expiresAt: string | null | undefined, now = Date.now()): boolean {
+  if (!expiresAt) return true
+  return new Date(expiresAt).getTime() - now <= TOKEN_REFRESH_MARGIN_MS
+}
+
+export function installationRow(installation: InstallationPayload) {
+  return {
+    installation_id: installation.id,
+    account_login: installation.account?.login ?? '',
+    account_type: installation.account?.type ?? null,
+    repository_selection: installation.repository_selection ?? null,
+    suspended_at: installation.suspended_at ?? null,
+    updated_at: new Date().toISOString(),
+  }
+}
+
+// ---- Tokens ----
+
+let appJwtCache: { jwt: string; expiresAt: number } | null = null
+// Per server instance; github_installations holds the same tokens for the other instances
+const installationTokens = new Map<number, { token: string; expiresAt: string }>()
+
+async function appJwt(): Promise<string> {
+  const now = Date.now()
+  if (appJwtCache && appJwtCache.expiresAt - now > 60_000) return appJwtCache.jwt
+  // Env files usually hold the PEM with escaped newlines; GitHub's PKCS#1 download and PKCS#8 both load
+  const key = createPrivateKey(process.env.GITHUB_APP_PRIVATE_KEY!.replace(/\\n/g, '\n'))
+  const iat = Math.floor(now / 1000) - 60
+  const jwt = await new SignJWT({})
+    .setProtectedHeader({ alg: 'RS256' })
+    .setIssuer(process.env.GITHUB_APP_ID!)
+    .setIssuedAt(iat)
+    .setExpirationTime(iat + APP_JWT_TTL_SECONDS)
+    .sign(key)
+  appJwtCache = { jwt, expiresAt: (iat + APP_JWT_TTL_SECONDS) * 1000 }
+  return jwt
+}
+
+/** A valid token for the installation: cached in memory, then in github_installations, else freshly minted */
+export async function getInstallationToken(db: Db, installationId: number): Promise<string> {
+  const cached = installationTokens.get(installationId)
+  if (cached && !installationTokenNeedsRefresh(cached.expiresAt)) return cached.token
+
+  const { data: stored } = await db
+    .from('github_installations')
+    .select('access_token, access_token_expires_at')
+    .eq('installation_id', installationId)
+    .maybeSingle()
+  if (stored?.access_token && !installationTokenNeedsRefresh(stored.access_token_expires_at)) {
+    installationTokens.set(installationId, { token: stored.access_token, expiresAt: stored.access_token_expires_at })
+    return stored.access_token
+  }
+
+  const minted = await ghFetch<{ token: string; expires_at: string }>(
+    `/app/installations/${installationId}/access_tokens`,
+    await appJwt(),
+    { method: 'POST' },
+  )
+  installationTokens.set(installationId, { token: minted.token, expiresAt: minted.expires_at })
+  await db.from('github_installations').update({
+    access_token: minted.token,
+    access_token_expires_at: minted.expires_at,
+    updated_at: new Date().toISOString(),
+  }).eq('installation_id', installationId)
+  return minted.token
+}
+
+/** Installation token for a bound repository the App covers, or null (no App, no installation, or minting failed) */
+export async function installationTokenForRepo(db: Db, workspaceId: string, repo: RepoRef): Promise<string | null> {
+  if (!isGitHubAppConfigured()) return null
+  const { data: bound } = await db
+    .from('workspace_repositories')
+    .select('installation_id')
+    .eq('workspace_id', workspaceId)
+    .eq('repo_owner', repo.owner)
+    .eq('repo_name', repo.name)
+    .maybeSingle()
+  if (!bound?.installation_id) return null
+  try {
+    return await getInstallationToken(db, bound.installation_id)
+  } catch (e) {
+    console.error(`GitHub App installation ${bound.installation_id} token failed:`, e)
+    return null
+  }
+}
+
+/**
+ * Token for server-side calls on a workspace's repository: the installation token when the App covers it,
+ * else `fallback` (a request's OAuth cookie), else the OAuth token stored when a repository was bound.
+ */
+export async function resolveGitHubToken(db: Db, workspaceId: string, repo: RepoRef, fallback?: string | null): Promise<ResolvedGitHubToken | null> {
+  const installationToken = await installationTokenForRepo(db, workspaceId, repo)
+  if (installationToken) return { token: installationToken, source: 'installation' }
+  if (fallback) return { token: fallback, source: 'oauth' }
+  const { data: workspace } = await db.from('workspaces').select('github_access_token').eq('id', workspaceId).single()
+  return workspace?.github_access_token ? { token: workspace.github_access_token, source: 'oauth' } : null
+}
+
+// ---- Installations ----
+
+/** Fetch an installation with the App JWT (proving it belongs to this App) and store it */
+export async function saveInstallation(db: Db, installationId: number): Promise<GitHubInstallation> {
+  const installation = await ghFetch<InstallationPayload>(`/app/installations/${installationId}`, await appJwt())
+  const { data, error } = await db
+    .from('github_installations')
+    .upsert(installationRow(installation), { onConflict: 'installation_id' })
+    .select(INSTALLATION_COLUMNS)
+    .single()
+  if (error) throw new Error(error.message)
+  return data as GitHubInstallation
+}
+
+/**
+ * Whether the user behind a GitHub OAuth token can access an installation. The setup URL's installation_id comes
+ * from the query string, so it is checked against the user's own installations before it is linked anywhere
+ */
+export async function userCanAccessInstallation(userToken: string, installationId: number): Promise<boolean> {
+  for (let page = 1; page <= 10; page++) {
+    const { installations } = await ghFetch<{ installations: InstallationPayload[] }>(
+      `/user/installations?per_page=100&page=${page}`,
+      userToken,
+      { noCache: true },
+    )
+    if (installations.some((i) => i.id === installationId)) return true
+    if (installations.length < 100) break
+  }
+  return false
+}
+
+/**
+ * The installation covering a repository, stored if it isn't yet, with a token for it.
+ * Null when the App isn't configured or installed on the repository; lookup errors are logged and also give null,
+ * so binding falls back to the user's OAuth token.
+ */
+export async function findRepoInstallation(db: Db, owner: string, repo: string): Promise<{ id: number; token: string } | null> {
+  if (!isGitHubAppConfigured()) return null
+  try {
+    const installation = await ghFetch<InstallationPayload>(`/repos/${owner}/${repo}/installation`, await appJwt())
+    const { data: stored } = await db.from('github_installations').select('installation_id').eq('installation_id', installation.id).maybeSingle()
+    if (!stored) {
+      await db.from('github_installations').upsert(installationRow(installation), { onConflict: 'installation_id' })
+    }
+    return { id: installation.id, token: await getInstallationToken(db, installation.id) }
+  } catch (e) {
+    if (!(e instanceof GitHubAPIError && e.status === 404)) console.error(`GitHub App lookup for ${owner}/${repo} failed:`, e)
+    return null
+  }
+}
+
+/** Link an installation to a workspace and to the bound repositories it can read; returns those repositories */
+export async function linkInstallation(db: Db, workspaceId: string, installationId: number): Promise<string[]> {
+  const token = await getInstallationToken(db, installationId)
+  const covered = new Set<string>()
+  for (let page = 1; page <= 10; page++) {
+    const { repositories } = await ghFetch<{ repositories: Array<{ full_name: string }> }>(
+      `/installation/repositories?per_page=100&page=${page}`,
+      token,
+    )
+    for (const r of repositories) covered.add(r.full_name.toLowerCase())
+    if (repositories.length < 100) break
+  }
+
+  const linked = (await listWorkspaceRepositories(db, workspaceId)).filter((r) => covered.has(repoFullName(r).toLowerCase()))
+  for (const r of linked) {
+    await db.from('workspace_repositories').update({ installation_id: installationId, updated_at: new Date().toISOString() }).eq('id', r.id)
+  }
+  await db.from('workspaces').update({ github_installation_id: installationId, updated_at: new Date().toISOString() }).eq('id', workspaceId)
+  return linked.map(repoFullName)
+}
+
+async function setRepositoriesInstallation(db: Db, installationId: number, repositories: Array<{ full_name: string }>, covered: boolean) {
+  for (const { full_name } of repositories) {
+    const [owner, name] = full_name.split('/')
+    let query = db.from('workspace_repositories')
+      .update({ installation_id: covered ? installationId : null, updated_at: new Date().toISOString() })
+      .eq('repo_owner', owner)
+      .eq('repo_name', name)
+    if (!covered) query = query.eq('installation_id', installationId)
+    await query
+  }
+}
+
+/**
+ * `installation` and `installation_repositories` events from the App's webhook. Bound repositories follow
+ * the installation's repository list; a deleted installation unlinks them (ON DELETE SET NULL), which puts
+ * them back on the stored OAuth token.
+ */
+export async function handleInstallationEvent(db: Db, event: string, payload: Record<string, unknown>) {
+  const action = payload.action as string
+  const installation = payload.installation as InstallationPayload | undefined
+  if (!installation?.id) return
+  const id = installation.id
+
+  if (event === 'installation' && action === 'deleted') {
+    installationTokens.delete(id)
+    await db.from('github_installations').delete().eq('installation_id', id)
+    return
+  }
+
+  const row: Record<string, unknown> = installationRow(installation)
+  // Tokens minted before these don't carry the new permissions, or no longer work
+  if (['new_permissions_accepted', 'suspend', 'unsuspend'].includes(action)) {
+    installationTokens.delete(id)
+    row.access_token = null
+    row.access_token_expires_at = null
+  }
+  await db.from('github_installations').upsert(row, { onConflict: 'installation_id' })
+
+  if (event === 'installation' && action === 'created') {
+    await setRepositoriesInstallation(db, id, (payload.repositories as Array<{ full_name: string }>) ?? [], true)
+  } else if (event === 'installation_repositories') {
+    await setRepositoriesInstallation(db, id, (payload.repositories_added as Array<{ full_name: string }>) ?? [], true)
+    await setRepositoriesInstallation(db, id, (payload.repositories_removed as Array<{ full_name: string }>) ?? [], false)
+  }
+}
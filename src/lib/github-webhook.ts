@@ -0,0 +1,794 @@
+// GitHub webhook event handlers and the durable delivery log
+// Every verified delivery is stored in webhook_deliveries and queued (see job-queue.ts), so failures can be retried and replayed
+
+import crypto from 'crypto'
+import { createServiceClient } from './supabase'
+import { classifyCommit } from './semantic-analysis'
+import { calculateCycleTime, getHeuristicSettings } from './heuristics'
+import { fetchCompareCommits, handleMemberEvent, syncCodeowners, syncImportGraph } from './github-api'
+import { resolveGitHubToken } from './github-app'
+import { isModuleFile } from './import-graph'
+import { CODEOWNERS_LOCATIONS } from './codeowners'
+import { normalizeReviewState } from './reviews'
+import { changeLeadTimeSeconds, DEPLOYMENT_STATES, type DeploymentState } from './dora'
+
+// Supabase returns write errors instead of throwing; raise them so the delivery is marked failed and can be replayed
+function throwOnError<T extends { error: { message: string } | null }>(result: T, context: string): T {
+  if (result.error) throw new Error(`${context}: ${result.error.message}`)
+  return result
+}
+
+async function handlePushEvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const commits = (payload.commits as Array<{
+    id: string; message: string; author: { name: string; email: string; username?: string };
+    added: string[]; removed: string[]; modified: string[]; timestamp: string
+  }>) ?? []
+  const ref = (payload.ref as string) ?? ''
+  // Tag pushes are recorded from the create/delete events
+  if (ref.startsWith('refs/tags/')) return
+  const branch = ref.replace('refs/heads/', '')
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+  const created = (payload.created as boolean) ?? false
+
+  if (payload.deleted) {
+    await markBranchDeleted(db, workspaceId, repoOwner, repoName, branch)
+    return
+  }
+
+  // Upsert branch with created_at tracking for AR-VCS-011 branch lifetime
+  const branchData: Record<string, unknown> = {
+    workspace_id: workspaceId,
+    name: branch,
+    repo_owner: repoOwner,
+    repo_name: repoName,
+    author_github_username: commits[0]?.author?.username ?? null,
+    last_commit_at: new Date().toISOString(),
+    // A branch can be re-created under a name that was deleted before
+    is_deleted: false,
+    deleted_at: null,
+  }
+  if (created) {
+    branchData.created_at = new Date().toISOString()
+  }
+  await db.from('branches').upsert(branchData, { onConflict: 'workspace_id,name,repo_owner,repo_name' })
+
+  // GitHub token for the commit stats API: the App installation's when it covers the repo, else the stored OAuth token
+  const ghToken = (await resolveGitHubToken(db, workspaceId, { owner: repoOwner, name: repoName }))?.token
+
+  if (payload.forced && !created) {
+    await markUnreachableCommits(db, workspaceId, ghToken, repoOwner, repoName, payload.before as string, payload.after as string)
+  }
+
+  for (const commit of commits) {
+    const allFiles = [...(commit.added ?? []), ...(commit.modified ?? []), ...(commit.removed ?? [])]
+    const { type, summary, isHighImpact } = classifyCommit(commit.message, allFiles)
+
+    // AR-VCS-008/009: Fetch actual line stats from GitHub Commits API
+    let linesAdded = 0
+    let linesDeleted = 0
+    if (ghToken && repoOwner && repoName) {
+      try {
+        const statsRes = await fetch(`https://api.github.com/repos/${repoOwner}/${repoName}/commits/${commit.id}`, {
+          headers: { Authorization: `Bearer ${ghToken}`, Accept: 'application/json' },
+        })
+        if (statsRes.ok) {
+          const statsData = await statsRes.json() as { stats?: { additions?: number; deletions?: number }; files?: Array<{ filename: string; additions: number; deletions: number }> }
+          linesAdded = statsData.stats?.additions ?? 0
+          linesDeleted = statsData.stats?.deletions ?? 0
+
+          // AR-KNOW-002/003: Update file authorship with real line counts
+          if (statsData.files) {
+            for (const file of statsData.files) {
+              await db.from('file_authorship').upsert({
+                workspace_id: workspaceId,
+                repo_owner: repoOwner,
+                repo_name: repoName,
+                file_path: file.filename,
+                author_github_username: commit.author.username ?? commit.author.email,
+                lines_added: file.additions,
+                lines_modified: file.deletions,
+                commit_count: 1,
+                last_modified_at: commit.timestamp,
+                updated_at: new Date().toISOString(),
+              }, { onConflict: 'workspace_id,repo_owner,repo_name,file_path,author_github_username' })
+            }
+          }
+        }
+      } catch {
+        // Fallback: line stats stay 0 if API call fails
+      }
+    }
+
+    throwOnError(await db.from('commits').upsert({
+      workspace_id: workspaceId,
+      sha: commit.id,
+      message: commit.message,
+      author_name: commit.author.name,
+      author_email: commit.author.email,
+      author_github_username: commit.author.username ?? null,
+      branch,
+      repo_owner: repoOwner,
+      repo_name: repoName,
+      lines_added: linesAdded,
+      lines_deleted: linesDeleted,
+      files_changed: allFiles.length,
+      files_list: allFiles,
+      committed_at: commit.timestamp,
+      commit_type: type,
+      commit_summary: summary,
+      is_high_impact: isHighImpact,
+      // Pushed again after being dropped by a force push
+      is_unreachable: false,
+      unreachable_at: null,
+      raw_payload: commit as unknown as Record<string, unknown>,
+    }, { onConflict: 'workspace_id,sha' }), 'Store commit')
+
+    // Fallback file authorship if no GitHub token available
+    if (!ghToken) {
+      for (const file of commit.modified ?? []) {
+        await db.from('file_authorship').upsert({
+          workspace_id: workspaceId,
+          repo_owner: repoOwner,
+          repo_name: repoName,
+          file_path: file,
+          author_github_username: commit.author.username ?? commit.author.email,
+          lines_modified: 1,
+          commit_count: 1,
+          last_modified_at: commit.timestamp,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'workspace_id,repo_owner,repo_name,file_path,author_github_username' })
+      }
+      for (const file of commit.added ?? []) {
+        await db.from('file_authorship').upsert({
+          workspace_id: workspaceId,
+          repo_owner: repoOwner,
+          repo_name: repoName,
+          file_path: file,
+          author_github_username: commit.author.username ?? commit.author.email,
+          lines_added: 1,
+          commit_count: 1,
+          last_modified_at: commit.timestamp,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'workspace_id,repo_owner,repo_name,file_path,author_github_username' })
+      }
+    }
+  }
+
+  // AR-HEU-006: Refresh the import graph when module sources change on the default branch
+  const defaultBranch = (payload.repository as { default_branch?: string })?.default_branch
+  const touchesModules = commits.some((c) => [...(c.added ?? []), ...(c.modified ?? []), ...(c.removed ?? [])].some(isModuleFile))
+  if (ghToken && repoOwner && repoName && branch === defaultBranch && touchesModules) {
+    syncImportGraph(ghToken, repoOwner, repoName, workspaceId, branch).catch(console.error)
+  }
+  const touchesCodeowners = commits.some((c) => [...(c.added ?? []), ...(c.modified ?? []), ...(c.removed ?? [])].some((f) => CODEOWNERS_LOCATIONS.includes(f)))
+  if (ghToken && repoOwner && repoName && branch === defaultBranch && touchesCodeowners) {
+    syncCodeowners(ghToken, repoOwner, repoName, workspaceId, branch).catch(console.error)
+  }
+}
+
+async function markBranchDeleted(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  repoOwner: string,
+  repoName: string,
+  branch: string,
+) {
+  throwOnError(await db.from('branches')
+    .update({ is_deleted: true, deleted_at: new Date().toISOString() })
+    .eq('workspace_id', workspaceId)
+    .eq('repo_owner', repoOwner)
+    .eq('repo_name', repoName)
+    .eq('name', branch), 'Mark branch deleted')
+}
+
+/**
+ * Flag the commits a force push dropped from the branch. With a token the compare API lists every
+ * commit reachable from the old head but not the new one; without one, only the old head is known to be gone.
+ */
+async function markUnreachableCommits(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  ghToken: string | null | undefined,
+  repoOwner: string,
+  repoName: string,
+  before: string,
+  after: string,
+) {
+  if (!before || /^0+$/.test(before)) return
+  let shas = [before]
+  if (ghToken && after) {
+    try {
+      shas = await fetchCompareCommits(ghToken, repoOwner, repoName, after, before)
+    } catch {
+      // The old head may already be garbage-collected; fall back to flagging it alone
+    }
+  }
+  if (shas.length === 0) return
+  throwOnError(await db.from('commits')
+    .update({ is_unreachable: true, unreachable_at: new Date().toISOString() })
+    .eq('workspace_id', workspaceId)
+    .in('sha', shas), 'Flag unreachable commits')
+}
+
+async function recalculateCycleTime(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  repoOwner: string,
+  repoName: string,
+  prNumber: number,
+  headBranch: string | null,
+) {
+  // AR-FLOW-001: Get first commit on head branch for coding time calculation
+  let firstCommitAt: string | null = null
+  if (headBranch) {
+    const { data: firstCommit } = await db
+      .from('commits')
+      .select('committed_at')
+      .eq('workspace_id', workspaceId)
+      .eq('repo_owner', repoOwner)
+      .eq('repo_name', repoName)
+      .eq('branch', headBranch)
+      .eq('is_unreachable', false)
+      .order('committed_at', { ascending: true })
+      .limit(1)
+      .single()
+    firstCommitAt = firstCommit?.committed_at ?? null
+  }
+
+  // Calculate cycle time with coding time
+  const { data: saved } = await db
+    .from('pull_requests')
+    .select('id, opened_at, first_review_at, first_reviewed_at, merged_at, closed_at')
+    .eq('workspace_id', workspaceId)
+    .eq('github_pr_number', prNumber)
+    .eq('repo_owner', repoOwner)
+    .eq('repo_name', repoName)
+    .single()
+
+  if (saved) {
+    const settings = await getHeuristicSettings(db, workspaceId)
+    const ct = calculateCycleTime({ ...saved, first_commit_at: firstCommitAt }, settings)
+    if (ct.totalCycleTime !== null) {
+      await db.from('cycle_time_metrics').upsert({
+        workspace_id: workspaceId,
+        pull_request_id: saved.id,
+        coding_time_seconds: ct.codingTime,
+        pickup_time_seconds: ct.pickupTime,
+        review_time_seconds: ct.reviewTime,
+        deployment_time_seconds: ct.deploymentTime,
+        total_cycle_time_seconds: ct.totalCycleTime,
+        exceeds_threshold: ct.exceedsThreshold,
+        calculated_at: new Date().toISOString(),
+      }, { onConflict: 'pull_request_id' })
+    }
+  }
+}
+
+async function handlePREvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const pr = payload.pull_request as Record<string, unknown>
+  const action = payload.action as string
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+
+  const prData: Record<string, unknown> = {
+    workspace_id: workspaceId,
+    github_pr_number: pr.number as number,
+    title: pr.title as string,
+    body: pr.body as string,
+    state: pr.state as string,
+    author_github_username: (pr.user as { login?: string })?.login ?? null,
+    head_branch: (pr.head as { ref?: string })?.ref ?? null,
+    base_branch: (pr.base as { ref?: string })?.ref ?? null,
+    repo_owner: repoOwner,
+    repo_name: repoName,
+    lines_added: (pr.additions as number) ?? 0,
+    lines_deleted: (pr.deletions as number) ?? 0,
+    opened_at: pr.created_at as string,
+    updated_at: new Date().toISOString(),
+    raw_payload: pr,
+  }
+
+  if (action === 'closed' && pr.merged) {
+    prData.merged_at = pr.merged_at as string
+    prData.closed_at = pr.closed_at as string
+    // Mark branch as merged
+    await db.from('branches').update({ is_merged: true, merged_at: pr.merged_at as string })
+      .eq('workspace_id', workspaceId).eq('repo_owner', repoOwner).eq('repo_name', repoName)
+      .eq('name', (pr.head as { ref?: string })?.ref ?? '')
+  } else if (action === 'closed') {
+    prData.closed_at = pr.closed_at as string
+  }
+
+  // AR-VCS-010: PR open duration & fix review_requested bug
+  if (action === 'review_requested') {
+    // Only set first_review_at if not already set
+    const { data: existingPR } = await db.from('pull_requests')
+      .select('first_review_at')
+      .eq('workspace_id', workspaceId)
+      .eq('github_pr_number', pr.number as number)
+      .eq('repo_owner', repoOwner)
+      .eq('repo_name', repoName)
+      .single()
+    if (!existingPR?.first_review_at) {
+      prData.first_review_at = new Date().toISOString()
+    }
+  }
+
+  throwOnError(await db.from('pull_requests').upsert(prData, { onConflict: 'workspace_id,github_pr_number,repo_owner,repo_name' }), 'Store pull request')
+
+  await recalculateCycleTime(db, workspaceId, repoOwner, repoName, pr.number as number, (pr.head as { ref?: string })?.ref ?? null)
+}
+
+// AR-FLOW-002: Store submitted reviews and use the first real review for pickup time
+async function handlePRReviewEvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const review = payload.review as Record<string, unknown>
+  const pr = payload.pull_request as Record<string, unknown>
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+  const state = normalizeReviewState(review?.state as string)
+  if (!review?.id || !pr?.number || !state) return
+
+  const reviewer = (review.user as { login?: string })?.login ?? null
+  const submittedAt = (review.submitted_at as string) ?? new Date().toISOString()
+
+  // comment_count is left out so counts from earlier review comment events survive
+  throwOnError(await db.from('pr_reviews').upsert({
+    workspace_id: workspaceId,
+    github_review_id: review.id as number,
+    github_pr_number: pr.number as number,
+    repo_owner: repoOwner,
+    repo_name: repoName,
+    reviewer_github_username: reviewer,
+    state,
+    submitted_at: submittedAt,
+  }, { onConflict: 'workspace_id,github_review_id' }), 'Store review')
+
+  const author = (pr.user as { login?: string })?.login ?? null
+  if (!reviewer || reviewer === author || payload.action !== 'submitted') return
+
+  const { data: existingPR } = await db.from('pull_requests')
+    .select('first_reviewed_at')
+    .eq('workspace_id', workspaceId)
+    .eq('github_pr_number', pr.number as number)
+    .eq('repo_owner', repoOwner)
+    .eq('repo_name', repoName)
+    .maybeSingle()
+  if (!existingPR || (existingPR.first_reviewed_at && existingPR.first_reviewed_at <= submittedAt)) return
+
+  await db.from('pull_requests').update({ first_reviewed_at: submittedAt })
+    .eq('workspace_id', workspaceId)
+    .eq('github_pr_number', pr.number as number)
+    .eq('repo_owner', repoOwner)
+    .eq('repo_name', repoName)
+  await recalculateCycleTime(db, workspaceId, repoOwner, repoName, pr.number as number, (pr.head as { ref?: string })?.ref ?? null)
+}
+
+// Review comments count toward the review they belong to. Comments are stored by id and counted, so replayed
+// or retried deliveries can't make the count drift
+async function handlePRReviewCommentEvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const comment = payload.comment as Record<string, unknown>
+  const pr = payload.pull_request as Record<string, unknown>
+  const reviewId = comment?.pull_request_review_id as number | undefined
+  if (!reviewId || !comment?.id || !pr?.number || (payload.action !== 'created' && payload.action !== 'deleted')) return
+
+  if (payload.action === 'created') {
+    throwOnError(await db.from('pr_review_comments').upsert({
+      workspace_id: workspaceId,
+      github_comment_id: comment.id as number,
+      github_review_id: reviewId,
+    }, { onConflict: 'workspace_id,github_comment_id', ignoreDuplicates: true }), 'Store review comment')
+  } else {
+    throwOnError(await db.from('pr_review_comments').delete()
+      .eq('workspace_id', workspaceId)
+      .eq('github_comment_id', comment.id as number), 'Delete review comment')
+  }
+
+  const { count } = await db.from('pr_review_comments')
+    .select('id', { count: 'exact', head: true })
+    .eq('workspace_id', workspaceId)
+    .eq('github_review_id', reviewId)
+  const commentCount = count ?? 0
+
+  const { data: existing } = await db.from('pr_reviews')
+    .select('id')
+    .eq('workspace_id', workspaceId)
+    .eq('github_review_id', reviewId)
+    .maybeSingle()
+
+  if (existing) {
+    await db.from('pr_reviews').update({ comment_count: commentCount }).eq('id', existing.id)
+  } else if (commentCount > 0) {
+    // Comments can arrive before their review's submitted event
+    await db.from('pr_reviews').insert({
+      workspace_id: workspaceId,
+      github_review_id: reviewId,
+      github_pr_number: pr.number as number,
+      repo_owner: (payload.repository as { owner?: { login?: string } })?.owner?.login ?? '',
+      repo_name: (payload.repository as { name?: string })?.name ?? '',
+      reviewer_github_username: (comment.user as { login?: string })?.login ?? null,
+      state: 'commented',
+      submitted_at: (comment.created_at as string) ?? new Date().toISOString(),
+      comment_count: commentCount,
+    })
+  }
+}
+
+async function handleIssueEvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const issue = payload.issue as Record<string, unknown>
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+
+  throwOnError(await db.from('issues').upsert({
+    workspace_id: workspaceId,
+    github_issue_number: issue.number as number,
+    title: issue.title as string,
+    body: issue.body as string,
+    state: issue.state as string,
+    author_github_username: (issue.user as { login?: string })?.login ?? null,
+    assignee_github_username: (issue.assignee as { login?: string })?.login ?? null,
+    repo_owner: repoOwner,
+    repo_name: repoName,
+    labels: ((issue.labels as Array<{ name: string }>) ?? []).map((l) => l.name),
+    opened_at: issue.created_at as string,
+    closed_at: issue.closed_at as string ?? null,
+    updated_at: new Date().toISOString(),
+    raw_payload: issue,
+  }, { onConflict: 'workspace_id,github_issue_number,repo_owner,repo_name' }), 'Store issue')
+}
+
+// AR-FLOW-004: Handle deployment_status event for deployment time tracking
+async function handleDeploymentEvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const deploymentStatus = payload.deployment_status as Record<string, unknown>
+  const deployment = payload.deployment as Record<string, unknown>
+  const state = deploymentStatus?.state as DeploymentState
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+
+  // 'inactive' only marks a superseded deployment; keep its final state
+  if (!deployment?.id || !DEPLOYMENT_STATES.includes(state)) return
+
+  const sha = (deployment.sha as string) ?? null
+  const environment = (deploymentStatus.environment as string) || (deployment.environment as string) || 'production'
+  const statusAt = (deploymentStatus.created_at as string) ?? new Date().toISOString()
+  const finished = state === 'success' || state === 'failure' || state === 'error'
+
+  const { data: commit } = sha
+    ? await db.from('commits').select('branch, committed_at')
+      .eq('workspace_id', workspaceId).eq('repo_owner', repoOwner).eq('repo_name', repoName).eq('sha', sha).maybeSingle()
+    : { data: null }
+
+  // DORA lead time: age of every commit shipped since the previous successful deployment of this repository to this environment
+  let leadTimeSeconds: number | null = null
+  let commitCount = 0
+  if (state === 'success' && commit?.committed_at) {
+    const { data: previous } = await db
+      .from('deployments')
+      .select('sha')
+      .eq('workspace_id', workspaceId)
+      .eq('repo_owner', repoOwner)
+      .eq('repo_name', repoName)
+      .eq('environment', environment)
+      .eq('state', 'success')
+      .neq('github_deployment_id', deployment.id as number)
+      .lt('finished_at', statusAt)
+      .order('finished_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    const { data: previousCommit } = previous?.sha
+      ? await db.from('commits').select('committed_at')
+        .eq('workspace_id', workspaceId).eq('repo_owner', repoOwner).eq('repo_name', repoName).eq('sha', previous.sha).maybeSingle()
+      : { data: null }
+
+    let shipped = db
+      .from('commits')
+      .select('committed_at')
+      .eq('workspace_id', workspaceId)
+      .eq('repo_owner', repoOwner)
+      .eq('repo_name', repoName)
+      .lte('committed_at', commit.committed_at)
+    if (commit.branch) shipped = shipped.eq('branch', commit.branch)
+    if (previousCommit?.committed_at) shipped = shipped.gt('committed_at', previousCommit.committed_at)
+    const { data: shippedCommits } = await shipped.limit(500)
+
+    const commitTimes = (shippedCommits ?? []).map((c) => c.committed_at as string)
+    if (commitTimes.length === 0) commitTimes.push(commit.committed_at)
+    commitCount = commitTimes.length
+    leadTimeSeconds = changeLeadTimeSeconds(commitTimes, statusAt)
+  }
+
+  throwOnError(await db.from('deployments').upsert({
+    workspace_id: workspaceId,
+    github_deployment_id: deployment.id as number,
+    repo_owner: repoOwner,
+    repo_name: repoName,
+    environment,
+    sha,
+    ref: (deployment.ref as string) ?? null,
+    state,
+    created_at: (deployment.created_at as string) ?? statusAt,
+    status_at: statusAt,
+    finished_at: finished ? statusAt : null,
+    lead_time_seconds: leadTimeSeconds,
+    commit_count: commitCount,
+  }, { onConflict: 'workspace_id,github_deployment_id' }), 'Store deployment')
+
+  if (state !== 'success') return
+
+  // Find PR that was merged with this commit
+  if (commit?.branch) {
+    const { data: pr } = await db
+      .from('pull_requests')
+      .select('id, opened_at, first_review_at, first_reviewed_at, merged_at, closed_at')
+      .eq('workspace_id', workspaceId)
+      .eq('repo_owner', repoOwner)
+      .eq('repo_name', repoName)
+      .eq('head_branch', commit.branch)
+      .not('merged_at', 'is', null)
+      .order('merged_at', { ascending: false })
+      .limit(1)
+      .single()
+
+    if (pr) {
+      const deployedAt = statusAt
+      const settings = await getHeuristicSettings(db, workspaceId)
+      const ct = calculateCycleTime({ ...pr, deployed_at: deployedAt }, settings)
+      await db.from('cycle_time_metrics').upsert({
+        workspace_id: workspaceId,
+        pull_request_id: pr.id,
+        deployment_time_seconds: ct.deploymentTime,
+        total_cycle_time_seconds: ct.totalCycleTime,
+        exceeds_threshold: ct.exceedsThreshold,
+        calculated_at: deployedAt,
+      }, { onConflict: 'pull_request_id' })
+    }
+  }
+}
+
+// ---- Refs and releases ----
+
+export interface GitHubRelease {
+  id: number
+  tag_name: string
+  name: string | null
+  draft: boolean
+  prerelease: boolean
+  target_commitish: string | null
+  published_at: string | null
+  html_url: string | null
+  author?: { login?: string } | null
+}
+
+/** releases row for a release webhook; a deleted release leaves its tag behind */
+export function releaseRow(release: GitHubRelease, action: string): Record<string, unknown> {
+  if (action === 'deleted') {
+    return {
+      tag_name: release.tag_name, kind: 'tag', name: null, github_release_id: null,
+      is_draft: false, is_prerelease: false, published_at: null, url: null,
+    }
+  }
+  return {
+    tag_name: release.tag_name,
+    kind: 'release',
+    name: release.name || release.tag_name,
+    github_release_id: release.id,
+    is_draft: release.draft,
+    is_prerelease: release.prerelease,
+    author_github_username: release.author?.login ?? null,
+    target_commitish: release.target_commitish,
+    published_at: release.published_at,
+    url: release.html_url,
+    deleted_at: null,
+  }
+}
+
+async function handleReleaseEvent(db: ReturnType<typeof createServiceClient>, workspaceId: string, payload: Record<string, unknown>) {
+  const release = payload.release as GitHubRelease | undefined
+  if (!release?.tag_name) return
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+
+  throwOnError(await db.from('releases').upsert({
+    workspace_id: workspaceId,
+    repo_owner: repoOwner,
+    repo_name: repoName,
+    ...releaseRow(release, payload.action as string),
+    updated_at: new Date().toISOString(),
+    raw_payload: release as unknown as Record<string, unknown>,
+  }, { onConflict: 'workspace_id,repo_owner,repo_name,tag_name' }), 'Store release')
+}
+
+/** create / delete events: branch lifecycle and tags (tag pushes carry no commits) */
+async function handleRefEvent(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  event: 'create' | 'delete',
+  payload: Record<string, unknown>,
+) {
+  const ref = (payload.ref as string) ?? ''
+  const refType = payload.ref_type as string
+  const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+  const repoName = (payload.repository as { name?: string })?.name ?? ''
+  const sender = (payload.sender as { login?: string })?.login ?? null
+  if (!ref) return
+
+  if (refType === 'branch') {
+    if (event === 'delete') return markBranchDeleted(db, workspaceId, repoOwner, repoName, ref)
+    // The push for a new branch follows with the commits; only record its creation here
+    const { data: existing } = await db.from('branches').select('id')
+      .eq('workspace_id', workspaceId).eq('repo_owner', repoOwner).eq('repo_name', repoName).eq('name', ref)
+      .maybeSingle()
+    const now = new Date().toISOString()
+    if (existing) {
+      await db.from('branches').update({ is_deleted: false, deleted_at: null }).eq('id', existing.id)
+    } else {
+      await db.from('branches').insert({
+        workspace_id: workspaceId, name: ref, repo_owner: repoOwner, repo_name: repoName,
+        author_github_username: sender, created_at: now, last_commit_at: now,
+      })
+    }
+    return
+  }
+
+  if (refType !== 'tag') return
+  const { data: existing } = await db.from('releases').select('id')
+    .eq('workspace_id', workspaceId).eq('repo_owner', repoOwner).eq('repo_name', repoName).eq('tag_name', ref)
+    .maybeSingle()
+  const now = new Date().toISOString()
+
+  if (event === 'delete') {
+    if (existing) throwOnError(await db.from('releases').update({ deleted_at: now, updated_at: now }).eq('id', existing.id), 'Mark tag deleted')
+  } else if (existing) {
+    // Re-created tag, or the release event for this tag arrived first
+    throwOnError(await db.from('releases').update({ deleted_at: null, updated_at: now }).eq('id', existing.id), 'Store tag')
+  } else {
+    throwOnError(await db.from('releases').insert({
+      workspace_id: workspaceId, repo_owner: repoOwner, repo_name: repoName, tag_name: ref,
+      kind: 'tag', author_github_username: sender, created_at: now, updated_at: now,
+    }), 'Store tag')
+  }
+}
+
+/** Route one GitHub event to its handler; unknown events (e.g. ping) are accepted and ignored */
+export async function processGitHubEvent(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  event: string,
+  payload: Record<string, unknown>,
+) {
+  if (event === 'push') {
+    await handlePushEvent(db, workspaceId, payload)
+  } else if (event === 'pull_request') {
+    await handlePREvent(db, workspaceId, payload)
+  } else if (event === 'pull_request_review') {
+    await handlePRReviewEvent(db, workspaceId, payload)
+  } else if (event === 'pull_request_review_comment') {
+    await handlePRReviewCommentEvent(db, workspaceId, payload)
+  } else if (event === 'issues') {
+    await handleIssueEvent(db, workspaceId, payload)
+  } else if (event === 'deployment_status') {
+    await handleDeploymentEvent(db, workspaceId, payload)
+  } else if (event === 'create' || event === 'delete') {
+    await handleRefEvent(db, workspaceId, event, payload)
+  } else if (event === 'release') {
+    await handleReleaseEvent(db, workspaceId, payload)
+  } else if (event === 'member') {
+    // AR-VCS-028: Update collaborator data when repository permissions change
+    const repoOwner = (payload.repository as { owner?: { login?: string } })?.owner?.login ?? ''
+    const repoName = (payload.repository as { name?: string })?.name ?? ''
+    if (repoOwner && repoName) {
+      const resolved = await resolveGitHubToken(db, workspaceId, { owner: repoOwner, name: repoName })
+      if (resolved) {
+        handleMemberEvent(resolved.token, workspaceId, repoOwner, repoName).catch(console.error)
+      }
+    }
+  }
+}
+
+// ---- Delivery log ----
+
+/** Check X-Hub-Signature-256 against a webhook secret (per repository, or the GitHub App's) */
+export function verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
+  const hmac = crypto.createHmac('sha256', secret)
+  const digest = 'sha256=' + hmac.update(payload).digest('hex')
+  try {
+    return crypto.timingSafeEqual(Buffer.from(digest), Buffer.from(signature))
+  } catch {
+    return false
+  }
+}
+
+export type WebhookDeliveryStatus = 'received' | 'queued' | 'processing' | 'processed' | 'failed'
+
+export interface WebhookDelivery {
+  id: string
+  workspace_id: string
+  delivery_id: string
+  event: string
+  payload: Record<string, unknown>
+  status: WebhookDeliveryStatus
+  attempts: number
+  updated_at: string
+}
+
+export const WEBHOOK_DELIVERY_COLUMNS = 'id, workspace_id, delivery_id, event, payload, status, attempts, updated_at'
+
+// A delivery stuck in 'processing' this long (crashed function) may be picked up again
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000
+
+/** Whether a delivery is still being processed: in 'processing' and not yet past the timeout */
+export function isDeliveryInFlight(delivery: Pick<WebhookDelivery, 'status' | 'updated_at'>, now = new Date()) {
+  return delivery.status === 'processing' && now.getTime() - new Date(delivery.updated_at).getTime() < PROCESSING_TIMEOUT_MS
+}
+
+/** Whether a redelivered X-GitHub-Delivery id should be skipped: done already, waiting in the queue, or in flight */
+export function isDuplicateDelivery(existing: Pick<WebhookDelivery, 'status' | 'updated_at'>, now = new Date()) {
+  return existing.status === 'processed' || existing.status === 'queued' || isDeliveryInFlight(existing, now)
+}
+
+/**
+ * Persist a verified delivery before processing it. Returns the stored row, or `duplicate`
+ * when GitHub redelivers an id that was already processed (or is being processed).
+ */
+export async function recordDelivery(
+  db: ReturnType<typeof createServiceClient>,
+  workspaceId: string,
+  deliveryId: string,
+  event: string,
+  payload: Record<string, unknown>,
+): Promise<{ delivery: WebhookDelivery | null; duplicate: boolean; error?: string }> {
+  const { data: existing } = await db
+    .from('webhook_deliveries')
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .eq('workspace_id', workspaceId)
+    .eq('delivery_id', deliveryId)
+    .maybeSingle()
+  if (existing) {
+    return { delivery: existing as WebhookDelivery, duplicate: isDuplicateDelivery(existing as WebhookDelivery) }
+  }
+
+  const { data: inserted, error } = await db
+    .from('webhook_deliveries')
+    .insert({
+      workspace_id: workspaceId,
+      delivery_id: deliveryId,
+      event,
+      action: (payload.action as string) ?? null,
+      payload,
+      status: 'received',
+    })
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .single()
+  // 23505: a concurrent request stored the same delivery id first
+  if (error?.code === '23505') return { delivery: null, duplicate: true }
+  if (error) return { delivery: null, duplicate: false, error: error.message }
+  return { delivery: inserted as WebhookDelivery, duplicate: false }
+}
+
+/** Process a stored delivery and record the outcome on its row */
+export async function processDelivery(db: ReturnType<typeof createServiceClient>, delivery: WebhookDelivery) {
+  const start = Date.now()
+  await db.from('webhook_deliveries').update({
+    status: 'processing',
+    attempts: (delivery.attempts ?? 0) + 1,
+    updated_at: new Date().toISOString(),
+  }).eq('id', delivery.id)
+
+  let error: string | null = null
+  try {
+    await processGitHubEvent(db, delivery.workspace_id, delivery.event, delivery.payload)
+  } catch (e: unknown) {
+    error = e instanceof Error ? e.message : String(e)
+  }
+
+  const elapsed = Date.now() - start
+  await db.from('webhook_deliveries').update({
+    status: error ? 'failed' : 'processed',
+    error,
+    elapsed_ms: elapsed,
+    processed_at: error ? null : new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  }).eq('id', delivery.id)
+
+  return { ok: !error, error, elapsed_ms: elapsed }
+}
@@ -1,172 +1,356 @@
 // Heuristic detection for alerts
 
+import crypto from 'crypto'
 import { createServiceClient } from './supabase'
+import { runEscalationPolicy } from './escalation'
+import { buildImportEdges, componentEdges, findImportCycles, shortestCycle } from './import-graph'
+import { loadIdentityResolver, messageAuthor } from './identities'
+
+// Per-workspace thresholds (heuristic_settings table), falling back to these defaults
+export interface HeuristicSettings {
+  inactive_branch_days: number
+  stale_pr_hours: number
+  cycle_time_threshold_hours: number
+  wip_threshold: number
+  coding_time_threshold_hours: number
+  deployment_time_threshold_hours: number
+}
 
-const INACTIVE_BRANCH_DAYS = 3
-const STALE_PR_HOURS = 48
-const CYCLE_TIME_THRESHOLD_HOURS = 72
-const WIP_THRESHOLD = 3
-const CODING_TIME_THRESHOLD_HOURS = 48
-const DEPLOYMENT_TIME_THRESHOLD_HOURS = 24
+export const DEFAULT_HEURISTIC_SETTINGS: HeuristicSettings = {
+  inactive_branch_days: 3,
+  stale_pr_hours: 48,
+  cycle_time_threshold_hours: 72,
+  wip_threshold: 3,
+  coding_time_threshold_hours: 48,
+  deployment_time_threshold_hours: 24,
+}
 
-export async function runHeuristicDetection(workspaceId: string) {
-  const db = createServiceClient()
-  const now = new Date()
-  const alerts: Array<{ type: string; severity: string; title: string; description: string; metadata: object }> = []
+/** Merge a stored settings row over the defaults, ignoring null/missing columns */
+export function resolveHeuristicSettings(row: Partial<Record<keyof HeuristicSettings, number | null>> | null | undefined): HeuristicSettings {
+  const settings = { ...DEFAULT_HEURISTIC_SETTINGS }
+  if (!row) return settings
+  for (const key of Object.keys(DEFAULT_HEURISTIC_SETTINGS) as Array<keyof HeuristicSettings>) {
+    const value = row[key]
+    if (typeof value === 'number' && Number.isFinite(value)) settings[key] = value
+  }
+  return settings
+}
 
-  // AR-HEU-001: Inactive branches
-  const inactiveCutoff = new Date(now.getTime() - INACTIVE_BRANCH_DAYS * 24 * 3600 * 1000).toISOString()
-  const { data: inactiveBranches } = await db
-    .from('branches')
-    .select('name, author_github_username, last_commit_at')
+async function getHeuristicSettingsRow(db: ReturnType<typeof createServiceClient>, workspaceId: string) {
+  const { data } = await db
+    .from('heuristic_settings')
+    .select('*')
     .eq('workspace_id', workspaceId)
-    .eq('is_merged', false)
-    .lt('last_commit_at', inactiveCutoff)
+    .maybeSingle()
+  return data
+}
 
-  for (const branch of inactiveBranches ?? []) {
-    alerts.push({
-      type: 'inactive_branch',
-      severity: 'warning',
-      title: `Inactive branch: ${branch.name}`,
-      description: `Branch "${branch.name}" by ${branch.author_github_username} has had no commits for ${INACTIVE_BRANCH_DAYS}+ days.`,
-      metadata: { branch: branch.name, author: branch.author_github_username },
-    })
-  }
+export async function getHeuristicSettings(db: ReturnType<typeof createServiceClient>, workspaceId: string) {
+  return resolveHeuristicSettings(await getHeuristicSettingsRow(db, workspaceId))
+}
 
-  // AR-HEU-002: Stale PRs pending review
-  const stalePRCutoff = new Date(now.getTime() - STALE_PR_HOURS * 3600 * 1000).toISOString()
-  const { data: stalePRs } = await db
-    .from('pull_requests')
-    .select('github_pr_number, title, author_github_username, opened_at')
-    .eq('workspace_id', workspaceId)
-    .eq('state', 'open')
-    .lt('opened_at', stalePRCutoff)
+// ---- Rule registry ----
 
-  for (const pr of stalePRs ?? []) {
-    alerts.push({
-      type: 'stale_pr',
-      severity: 'warning',
-      title: `PR #${pr.github_pr_number} pending review`,
-      description: `"${pr.title}" by ${pr.author_github_username} has been open for ${STALE_PR_HOURS}+ hours without review.`,
-      metadata: { pr_number: pr.github_pr_number, title: pr.title },
-    })
-  }
+export type AlertSeverity = 'critical' | 'warning' | 'info'
 
-  // AR-HEU-003: Assigned issues without commits
-  const { data: openIssues } = await db
-    .from('issues')
-    .select('github_issue_number, title, assignee_github_username, opened_at')
-    .eq('workspace_id', workspaceId)
-    .eq('state', 'open')
-    .not('assignee_github_username', 'is', null)
-    .lt('opened_at', stalePRCutoff)
+export const ALERT_SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info']
 
-  for (const issue of openIssues ?? []) {
-    // Check if assignee has any recent commits
-    const { data: commits } = await db
-      .from('commits')
-      .select('id')
-      .eq('workspace_id', workspaceId)
-      .eq('author_github_username', issue.assignee_github_username)
-      .gt('committed_at', stalePRCutoff)
+export interface DetectedAlert {
+  type: string
+  severity: AlertSeverity
+  fingerprint: string
+  title: string
+  description: string
+  metadata: object
+}
 
-    if (!commits || commits.length === 0) {
-      alerts.push({
-        type: 'assigned_issue_no_commits',
-        severity: 'info',
-        title: `Issue #${issue.github_issue_number} assigned but no recent commits`,
-        description: `"${issue.title}" assigned to ${issue.assignee_github_username} with no recent commits.`,
-        metadata: { issue_number: issue.github_issue_number },
-      })
-    }
-  }
+export interface HeuristicContext {
+  db: ReturnType<typeof createServiceClient>
+  workspaceId: string
+  /**
+   * owner/name of the primary repository, or the workspace id when none is bound. Findings about
+   * one repository's rows key on that row's repository instead (see `rowRepo`)
+   */
+  repo: string
+  now: Date
+  settings: HeuristicSettings
+}
 
-  // AR-HEU-005: Cluster repeated blocker messages
-  const { data: blockers } = await db
-    .from('discord_messages')
-    .select('content, author_username')
-    .eq('workspace_id', workspaceId)
-    .eq('is_blocker', true)
-    .gt('sent_at', new Date(now.getTime() - 24 * 3600 * 1000).toISOString())
-
-  if (blockers && blockers.length >= 2) {
-    const uniqueAuthors = new Set(blockers.map((b) => b.author_username))
-    if (uniqueAuthors.size >= 2) {
-      alerts.push({
-        type: 'multiple_blockers',
-        severity: 'critical',
-        title: 'Multiple team members reporting blockers',
-        description: `${uniqueAuthors.size} team members reported blockers in the last 24 hours. Immediate attention needed.`,
-        metadata: { authors: [...uniqueAuthors], count: blockers.length },
-      })
-    }
+/** A rule's raw result; `key` identifies the underlying subject (PR, branch, author...) within the rule */
+export type RuleFinding = Omit<DetectedAlert, 'type' | 'severity' | 'fingerprint'> & { key: string }
+
+export interface HeuristicRule {
+  id: string
+  type: string
+  name: string
+  defaultSeverity: AlertSeverity
+  /** State-based rules: open alerts this pass no longer detects are resolved with reason 'auto' */
+  autoResolve?: boolean
+  evaluate: (ctx: HeuristicContext) => Promise<RuleFinding[]>
+}
+
+export interface RuleOverride {
+  enabled?: boolean
+  severity?: AlertSeverity
+}
+
+export type RuleOverrides = Record<string, RuleOverride>
+
+export const HEURISTIC_RULES: HeuristicRule[] = [
+  {
+    id: 'AR-HEU-001',
+    type: 'inactive_branch',
+    name: 'Inactive branches',
+    defaultSeverity: 'warning',
+    autoResolve: true,
+    evaluate: detectInactiveBranches,
+  },
+  {
+    id: 'AR-HEU-002',
+    type: 'stale_pr',
+    name: 'Stale pull requests',
+    defaultSeverity: 'warning',
+    autoResolve: true,
+    evaluate: detectStalePRs,
+  },
+  {
+    id: 'AR-HEU-003',
+    type: 'assigned_issue_no_commits',
+    name: 'Assigned issues without commits',
+    defaultSeverity: 'info',
+    autoResolve: true,
+    evaluate: detectIdleAssignedIssues,
+  },
+  {
+    id: 'AR-HEU-005',
+    type: 'multiple_blockers',
+    name: 'Blocker clusters',
+    defaultSeverity: 'critical',
+    evaluate: detectBlockerClusters,
+  },
+  {
+    id: 'AR-HEU-006',
+    type: 'circular_dependency',
+    name: 'Circular imports',
+    defaultSeverity: 'warning',
+    autoResolve: true,
+    evaluate: detectCircularDependencies,
+  },
+  {
+    id: 'AR-HEU-007',
+    type: 'high_wip',
+    name: 'High WIP',
+    defaultSeverity: 'warning',
+    autoResolve: true,
+    evaluate: detectHighWIP,
+  },
+  {
+    id: 'AR-HEU-007b',
+    type: 'dependency_overlap',
+    name: 'Dependency modification overlap',
+    defaultSeverity: 'warning',
+    autoResolve: true,
+    evaluate: detectDependencyOverlap,
+  },
+  {
+    id: 'AR-HEU-008',
+    type: 'escalation',
+    name: 'Critical alert escalation',
+    defaultSeverity: 'critical',
+    evaluate: runEscalationPolicy,
+  },
+]
+
+export function getHeuristicRule(ruleId: string) {
+  return HEURISTIC_RULES.find((rule) => rule.id === ruleId) ?? null
+}
+
+/** Keep only well-formed overrides for known rules from the stored rule_overrides column */
+export function resolveRuleOverrides(raw: unknown): RuleOverrides {
+  const overrides: RuleOverrides = {}
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return overrides
+  for (const [ruleId, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!getHeuristicRule(ruleId) || !value || typeof value !== 'object') continue
+    const { enabled, severity } = value as Record<string, unknown>
+    const override: RuleOverride = {}
+    if (typeof enabled === 'boolean') override.enabled = enabled
+    if (ALERT_SEVERITIES.includes(severity as AlertSeverity)) override.severity = severity as AlertSeverity
+    if (Object.keys(override).length > 0) overrides[ruleId] = override
   }
+  return overrides
+}
 
-  // AR-HEU-007: WIP exceeding threshold
-  const { data: openPRs } = await db
-    .from('pull_requests')
-    .select('author_github_username')
-    .eq('workspace_id', workspaceId)
-    .eq('state', 'open')
+export async function getRuleOverrides(db: ReturnType<typeof createServiceClient>, workspaceId: string) {
+  const row = await getHeuristicSettingsRow(db, workspaceId)
+  return resolveRuleOverrides(row?.rule_overrides)
+}
 
-  if (openPRs) {
-    const wipByAuthor: Record<string, number> = {}
-    openPRs.forEach((pr) => {
-      wipByAuthor[pr.author_github_username] = (wipByAuthor[pr.author_github_username] || 0) + 1
-    })
-    for (const [author, count] of Object.entries(wipByAuthor)) {
-      if (count > WIP_THRESHOLD) {
-        alerts.push({
-          type: 'high_wip',
-          severity: 'warning',
-          title: `High WIP for ${author}`,
-          description: `${author} has ${count} open pull requests (threshold: ${WIP_THRESHOLD}).`,
-          metadata: { author, wip_count: count },
-        })
-      }
-    }
+/** Registry entries with the workspace's enabled flag and effective severity applied */
+export function listHeuristicRules(overrides: RuleOverrides = {}) {
+  return HEURISTIC_RULES.map((rule) => ({
+    id: rule.id,
+    type: rule.type,
+    name: rule.name,
+    defaultSeverity: rule.defaultSeverity,
+    enabled: overrides[rule.id]?.enabled ?? true,
+    severity: overrides[rule.id]?.severity ?? rule.defaultSeverity,
+  }))
+}
+
+/** Stable identity of an alert across heuristic passes, e.g. `stale_pr:owner/repo#42` */
+export function alertFingerprint(type: string, key: string) {
+  return `${type}:${key}`
+}
+
+/**
+ * Decide what a fresh detection does given the newest stored alert with the same fingerprint:
+ * refresh it while open, otherwise raise a new one — unless a member resolved it within the last hour
+ */
+export function fingerprintAction(
+  latest: { resolved: boolean; resolved_reason?: string | null; resolved_at?: string | null } | null,
+  now: Date,
+): 'insert' | 'update' | 'skip' {
+  if (!latest) return 'insert'
+  if (!latest.resolved) return 'update'
+  const resolvedAt = latest.resolved_at ? new Date(latest.resolved_at).getTime() : 0
+  if (latest.resolved_reason !== 'auto' && now.getTime() - resolvedAt < 3600 * 1000) return 'skip'
+  return 'insert'
+}
+
+export async function runHeuristicDetection(workspaceId: string, options: { ruleId?: string } = {}) {
+  const db = createServiceClient()
+  const now = new Date()
+  const row = await getHeuristicSettingsRow(db, workspaceId)
+  const { data: workspace } = await db.from('workspaces').select('github_repo_owner, github_repo_name').eq('id', workspaceId).single()
+  const repo = workspace?.github_repo_owner && workspace?.github_repo_name
+    ? `${workspace.github_repo_owner}/${workspace.github_repo_name}`
+    : workspaceId
+  const ctx: HeuristicContext = { db, workspaceId, repo, now, settings: resolveHeuristicSettings(row) }
+  const rules = listHeuristicRules(resolveRuleOverrides(row?.rule_overrides))
+    .filter((rule) => (options.ruleId ? rule.id === options.ruleId : rule.enabled))
+
+  const alerts: DetectedAlert[] = []
+  const autoResolvable: Array<{ type: string; found: DetectedAlert[] }> = []
+  for (const rule of rules) {
+    const definition = getHeuristicRule(rule.id)!
+    const found = (await definition.evaluate(ctx)).map(({ key, ...alert }) => ({
+      type: rule.type,
+      severity: rule.severity,
+      fingerprint: alertFingerprint(rule.type, key),
+      ...alert,
+    }))
+    alerts.push(...found)
+    if (definition.autoResolve) autoResolvable.push({ type: rule.type, found })
   }
 
-  // Insert new alerts (deduplicate by type+title in last hour)
-  const oneHourAgo = new Date(now.getTime() - 3600 * 1000).toISOString()
+  // Deduplicate by fingerprint: an open alert is refreshed and counted instead of inserted again
   for (const alert of alerts) {
-    const { data: existing } = await db
+    const { data: latest } = await db
       .from('alerts')
-      .select('id')
+      .select('id, resolved, resolved_reason, resolved_at, occurrence_count')
       .eq('workspace_id', workspaceId)
-      .eq('type', alert.type)
-      .eq('title', alert.title)
-      .gt('created_at', oneHourAgo)
-      .single()
+      .eq('fingerprint', alert.fingerprint)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const action = fingerprintAction(latest, now)
+    if (action === 'update') {
+      await db.from('alerts').update({
+        severity: alert.severity,
+        title: alert.title,
+        description: alert.description,
+        metadata: alert.metadata,
+        occurrence_count: (latest!.occurrence_count ?? 1) + 1,
+        last_seen_at: now.toISOString(),
+      }).eq('id', latest!.id)
+    } else if (action === 'insert') {
+      await db.from('alerts').insert({ workspace_id: workspaceId, ...alert, occurrence_count: 1, last_seen_at: now.toISOString() })
+    }
+  }
 
-    if (!existing) {
-      await db.from('alerts').insert({ workspace_id: workspaceId, ...alert })
+  // Close alerts whose condition has cleared (e.g. the stale PR was merged, the branch got a new commit)
+  for (const { type, found } of autoResolvable) {
+    const { data: openAlerts } = await db
+      .from('alerts')
+      .select('id, fingerprint')
+      .eq('workspace_id', workspaceId)
+      .eq('type', type)
+      .eq('resolved', false)
+
+    const cleared = findClearedAlerts(openAlerts ?? [], found)
+    if (cleared.length > 0) {
+      await db
+        .from('alerts')
+        .update({ resolved: true, resolved_at: now.toISOString(), resolved_reason: 'auto' })
+        .in('id', cleared)
     }
   }
 
-  // AR-HEU-006: Detect circular module dependencies from import patterns in commits
-  await detectCircularDependencies(db, workspaceId, alerts)
+  return alerts
+}
 
-  // AR-HEU-007: Detect high dependency modification overlap
-  await detectDependencyOverlap(db, workspaceId, alerts, now)
+/**
+ * IDs of open alerts that the latest evaluation of their rule no longer reports. Alerts without a fingerprint
+ * can't be matched to a detection and are left for a member to resolve
+ */
+export function findClearedAlerts(openAlerts: Array<{ id: string; fingerprint: string | null }>, detected: Array<{ fingerprint: string }>) {
+  const stillDetected = new Set(detected.map((a) => a.fingerprint))
+  return openAlerts.filter((a) => a.fingerprint && !stillDetected.has(a.fingerprint)).map((a) => a.id)
+}
 
-  // AR-HEU-008: Escalate deployment-blocking issues
-  await escalateDeploymentBlockers(db, workspaceId, now)
+// ---- Run history ----
 
-  return alerts
+export type HeuristicRunTrigger = 'schedule' | 'manual' | 'webhook'
+
+/** Run detection and record start, duration, alert count and any error in heuristic_runs */
+export async function runRecordedHeuristicDetection(
+  workspaceId: string,
+  trigger: HeuristicRunTrigger,
+  options: { ruleId?: string } = {},
+) {
+  const db = createServiceClient()
+  const startedAt = new Date()
+  let alerts: DetectedAlert[] = []
+  let runError: string | null = null
+  try {
+    alerts = await runHeuristicDetection(workspaceId, options)
+  } catch (e: unknown) {
+    runError = e instanceof Error ? e.message : String(e)
+  }
+  const finishedAt = new Date()
+
+  const { data: run } = await db.from('heuristic_runs').insert({
+    workspace_id: workspaceId,
+    trigger,
+    rule_id: options.ruleId ?? null,
+    started_at: startedAt.toISOString(),
+    finished_at: finishedAt.toISOString(),
+    duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    alerts_generated: alerts.length,
+    error: runError,
+  }).select('id').single()
+
+  return { runId: (run?.id as string | undefined) ?? null, alerts, error: runError }
 }
 
 // AR-FLOW: cycle time metrics with coding time and deployment time
-export function calculateCycleTime(pr: {
-  opened_at: string | null
-  first_review_at: string | null
-  merged_at: string | null
-  closed_at: string | null
-  first_commit_at?: string | null
-  deployed_at?: string | null
-}) {
+export function calculateCycleTime(
+  pr: {
+    opened_at: string | null
+    first_review_at: string | null
+    /** First submitted review by someone other than the author; preferred over the review request */
+    first_reviewed_at?: string | null
+    merged_at: string | null
+    closed_at: string | null
+    first_commit_at?: string | null
+    deployed_at?: string | null
+  },
+  settings: Pick<HeuristicSettings, 'cycle_time_threshold_hours' | 'coding_time_threshold_hours' | 'deployment_time_threshold_hours'> = DEFAULT_HEURISTIC_SETTINGS,
+) {
   const open = pr.opened_at ? new Date(pr.opened_at).getTime() : null
-  const review = pr.first_review_at ? new Date(pr.first_review_at).getTime() : null
+  const firstReview = pr.first_reviewed_at ?? pr.first_review_at
+  const review = firstReview ? new Date(firstReview).getTime() : null
   const merged = pr.merged_at ? new Date(pr.merged_at).getTime() : null
   const closed = (merged ?? (pr.closed_at ? new Date(pr.closed_at).getTime() : null))
   const firstCommit = pr.first_commit_at ? new Date(pr.first_commit_at).getTime() : null
@@ -174,7 +358,7 @@ export function calculateCycleTime(pr: {
 
   // AR-FLOW-001: Coding Time = first commit on branch → PR opened
   const codingTime = firstCommit && open ? Math.floor((open - firstCommit) / 1000) : null
-  // AR-FLOW-002: Pickup Time = PR opened → first review requested
+  // AR-FLOW-002: Pickup Time = PR opened → first review (review request for PRs without review events)
   const pickupTime = open && review ? Math.floor((review - open) / 1000) : null
   // AR-FLOW-003: Review Time = first review → merged/closed
   const reviewTime = review && closed ? Math.floor((closed - review) / 1000) : null
@@ -183,9 +367,9 @@ export function calculateCycleTime(pr: {
   // AR-FLOW-005: Total Cycle Time = PR opened → closed/merged
   const totalCycleTime = open && closed ? Math.floor((closed - open) / 1000) : null
   // AR-FLOW-006: Flag exceeding threshold
-  const exceedsThreshold = totalCycleTime !== null && totalCycleTime > CYCLE_TIME_THRESHOLD_HOURS * 3600
-  const codingTimeExceedsThreshold = codingTime !== null && codingTime > CODING_TIME_THRESHOLD_HOURS * 3600
-  const deploymentTimeExceedsThreshold = deploymentTime !== null && deploymentTime > DEPLOYMENT_TIME_THRESHOLD_HOURS * 3600
+  const exceedsThreshold = totalCycleTime !== null && totalCycleTime > settings.cycle_time_threshold_hours * 3600
+  const codingTimeExceedsThreshold = codingTime !== null && codingTime > settings.coding_time_threshold_hours * 3600
+  const deploymentTimeExceedsThreshold = deploymentTime !== null && deploymentTime > settings.deployment_time_threshold_hours * 3600
 
   return {
     codingTime,
@@ -216,14 +400,27 @@ export async function calculateWIPPerUser(workspaceId: string) {
   return wipByAuthor
 }
 
+/**
+ * One author's knowledge of a file under either ownership model: cumulative lines added / modified
+ * (`file_authorship`), or current blame lines weighted by recency (`blame_ownership`, see blame-ownership.ts)
+ */
+export type KnowledgeShare = { author_github_username: string } & (
+  | { lines_added: number; lines_modified: number }
+  | { weighted_lines: number }
+)
+
+export function knowledgeWeight(share: KnowledgeShare): number {
+  return 'weighted_lines' in share ? share.weighted_lines : share.lines_added + share.lines_modified
+}
+
 // AR-KNOW: bus factor / knowledge concentration
 export function calculateKnowledgeConcentration(
-  authorships: Array<{ author_github_username: string; lines_added: number; lines_modified: number }>
+  authorships: KnowledgeShare[]
 ): { busFactor: number; dominant_author: string | null; concentration: number } {
   const totals: Record<string, number> = {}
   let total = 0
   for (const a of authorships) {
-    const contribution = a.lines_added + a.lines_modified
+    const contribution = knowledgeWeight(a)
     totals[a.author_github_username] = (totals[a.author_github_username] || 0) + contribution
     total += contribution
   }
@@ -246,154 +443,199 @@ export function calculateKnowledgeConcentration(
   return { busFactor, dominant_author, concentration }
 }
 
-// AR-HEU-006: Detect circular module dependencies from file import patterns
-async function detectCircularDependencies(
-  db: ReturnType<typeof createServiceClient>,
-  workspaceId: string,
-  alerts: Array<{ type: string; severity: string; title: string; description: string; metadata: object }>
-) {
-  // Get all files and their imports from recent commits
-  const { data: commits } = await db
-    .from('commits')
-    .select('files_list, message')
+/** owner/name of a row's repository; rows stored before multi-repo support fall back to the primary repo */
+export function rowRepo(row: { repo_owner?: string | null; repo_name?: string | null }, fallback: string) {
+  return row.repo_owner && row.repo_name ? `${row.repo_owner}/${row.repo_name}` : fallback
+}
+
+// AR-HEU-001: Inactive branches
+async function detectInactiveBranches({ db, workspaceId, repo, now, settings }: HeuristicContext): Promise<RuleFinding[]> {
+  const inactiveCutoff = new Date(now.getTime() - settings.inactive_branch_days * 24 * 3600 * 1000).toISOString()
+  const { data: inactiveBranches } = await db
+    .from('branches')
+    .select('name, repo_owner, repo_name, author_github_username, last_commit_at')
     .eq('workspace_id', workspaceId)
-    .order('committed_at', { ascending: false })
-    .limit(200)
+    .eq('is_merged', false)
+    .eq('is_deleted', false)
+    .lt('last_commit_at', inactiveCutoff)
 
-  if (!commits || commits.length === 0) return
+  return (inactiveBranches ?? []).map((branch) => ({
+    key: `${rowRepo(branch, repo)}:${branch.name}`,
+    title: `Inactive branch: ${branch.name}`,
+    description: `Branch "${branch.name}" by ${branch.author_github_username} has had no commits for ${settings.inactive_branch_days}+ days.`,
+    metadata: { repo: rowRepo(branch, repo), branch: branch.name, author: branch.author_github_username },
+  }))
+}
 
-  // Build adjacency from co-modified files (files changed together likely depend on each other)
-  const coModified: Record<string, Set<string>> = {}
-  for (const commit of commits) {
-    const files = (commit.files_list as string[]) ?? []
-    for (let i = 0; i < files.length; i++) {
-      for (let j = i + 1; j < files.length; j++) {
-        const a = files[i], b = files[j]
-        if (!coModified[a]) coModified[a] = new Set()
-        if (!coModified[b]) coModified[b] = new Set()
-        coModified[a].add(b)
-        coModified[b].add(a)
-      }
+// AR-HEU-002: Stale PRs pending review
+async function detectStalePRs({ db, workspaceId, repo, now, settings }: HeuristicContext): Promise<RuleFinding[]> {
+  const stalePRCutoff = new Date(now.getTime() - settings.stale_pr_hours * 3600 * 1000).toISOString()
+  const { data: stalePRs } = await db
+    .from('pull_requests')
+    .select('github_pr_number, repo_owner, repo_name, title, author_github_username, opened_at')
+    .eq('workspace_id', workspaceId)
+    .eq('state', 'open')
+    .lt('opened_at', stalePRCutoff)
+
+  return (stalePRs ?? []).map((pr) => ({
+    key: `${rowRepo(pr, repo)}#${pr.github_pr_number}`,
+    title: `PR #${pr.github_pr_number} pending review`,
+    description: `"${pr.title}" by ${pr.author_github_username} has been open for ${settings.stale_pr_hours}+ hours without review.`,
+    metadata: { repo: rowRepo(pr, repo), pr_number: pr.github_pr_number, title: pr.title },
+  }))
+}
+
+// AR-HEU-003: Assigned issues without commits
+async function detectIdleAssignedIssues({ db, workspaceId, repo, now, settings }: HeuristicContext) {
+  const stalePRCutoff = new Date(now.getTime() - settings.stale_pr_hours * 3600 * 1000).toISOString()
+  const { data: openIssues } = await db
+    .from('issues')
+    .select('github_issue_number, repo_owner, repo_name, title, assignee_github_username, opened_at')
+    .eq('workspace_id', workspaceId)
+    .eq('state', 'open')
+    .not('assignee_github_username', 'is', null)
+    .lt('opened_at', stalePRCutoff)
+
+  const found: RuleFinding[] = []
+  for (const issue of openIssues ?? []) {
+    // Check if assignee has any recent commits
+    const { data: commits } = await db
+      .from('commits')
+      .select('id')
+      .eq('workspace_id', workspaceId)
+      .eq('author_github_username', issue.assignee_github_username)
+      .eq('is_unreachable', false)
+      .gt('committed_at', stalePRCutoff)
+
+    if (!commits || commits.length === 0) {
+      found.push({
+        key: `${rowRepo(issue, repo)}#${issue.github_issue_number}`,
+        title: `Issue #${issue.github_issue_number} assigned but no recent commits`,
+        description: `"${issue.title}" assigned to ${issue.assignee_github_username} with no recent commits.`,
+        metadata: { repo: rowRepo(issue, repo), issue_number: issue.github_issue_number },
+      })
     }
   }
+  return found
+}
 
-  // Detect cycles using DFS
-  const visited = new Set<string>()
-  const inStack = new Set<string>()
-  const cycles: string[][] = []
+// AR-HEU-005: Cluster repeated blocker messages (Discord, in-app and WhatsApp); one person reporting on
+// several channels counts once
+async function detectBlockerClusters({ db, workspaceId, repo, now }: HeuristicContext): Promise<RuleFinding[]> {
+  const since = new Date(now.getTime() - 24 * 3600 * 1000).toISOString()
+  const [{ data: chat }, { data: whatsapp }] = await Promise.all([
+    db.from('discord_messages').select('author_discord_id, author_username, user_id')
+      .eq('workspace_id', workspaceId).eq('is_blocker', true).gt('sent_at', since),
+    db.from('communication_messages').select('author_identifier, author_name')
+      .eq('workspace_id', workspaceId).eq('source', 'whatsapp').eq('is_blocker', true).gt('sent_at', since),
+  ])
+
+  const count = (chat?.length ?? 0) + (whatsapp?.length ?? 0)
+  if (count < 2) return []
+  const identities = await loadIdentityResolver(db, workspaceId)
+  const uniqueAuthors = new Set([
+    ...(chat ?? []).map((b) => messageAuthor(identities, { user_id: b.user_id, discord_id: b.author_discord_id, name: b.author_username }).key),
+    ...(whatsapp ?? []).map((b) => messageAuthor(identities, { phone: b.author_identifier, name: b.author_name }).key),
+  ])
+  if (uniqueAuthors.size < 2) return []
+  return [{
+    key: repo,
+    title: 'Multiple team members reporting blockers',
+    description: `${uniqueAuthors.size} team members reported blockers in the last 24 hours. Immediate attention needed.`,
+    metadata: { authors: [...uniqueAuthors], count },
+  }]
+}
 
-  function dfs(node: string, path: string[]): void {
-    if (inStack.has(node)) {
-      const cycleStart = path.indexOf(node)
-      if (cycleStart >= 0) cycles.push(path.slice(cycleStart))
-      return
-    }
-    if (visited.has(node)) return
-    visited.add(node)
-    inStack.add(node)
+// AR-HEU-007: WIP exceeding threshold
+async function detectHighWIP({ db, workspaceId, repo, settings }: HeuristicContext): Promise<RuleFinding[]> {
+  const { data: openPRs } = await db
+    .from('pull_requests')
+    .select('author_github_username')
+    .eq('workspace_id', workspaceId)
+    .eq('state', 'open')
 
-    for (const neighbor of coModified[node] ?? []) {
-      dfs(neighbor, [...path, node])
-    }
-    inStack.delete(node)
+  const wipByAuthor: Record<string, number> = {}
+  for (const pr of openPRs ?? []) {
+    wipByAuthor[pr.author_github_username] = (wipByAuthor[pr.author_github_username] || 0) + 1
   }
+  return Object.entries(wipByAuthor)
+    .filter(([, count]) => count > settings.wip_threshold)
+    .map(([author, count]) => ({
+      key: `${repo}@${author}`,
+      title: `High WIP for ${author}`,
+      description: `${author} has ${count} open pull requests (threshold: ${settings.wip_threshold}).`,
+      metadata: { author, wip_count: count },
+    }))
+}
+
+// AR-HEU-006: Detect circular module dependencies in the import graph (module_imports, built during sync)
+async function detectCircularDependencies({ db, workspaceId, repo }: HeuristicContext): Promise<RuleFinding[]> {
+  const { data: modules } = await db
+    .from('module_imports')
+    .select('repo_owner, repo_name, file_path, imports')
+    .eq('workspace_id', workspaceId)
 
-  for (const file of Object.keys(coModified)) {
-    if (!visited.has(file)) dfs(file, [])
+  if (!modules || modules.length === 0) return []
+
+  // Each repository has its own import graph
+  const byRepo = new Map<string, typeof modules>()
+  for (const row of modules) {
+    const key = rowRepo(row, repo)
+    if (!byRepo.has(key)) byRepo.set(key, [])
+    byRepo.get(key)!.push(row)
   }
 
-  // Report top cycles (limit to 3 entries)
-  for (const cycle of cycles.slice(0, 3)) {
-    if (cycle.length >= 3) {
-      alerts.push({
-        type: 'circular_dependency',
-        severity: 'warning',
-        title: `Potential circular dependency detected`,
-        description: `Files frequently co-modified in a cycle: ${cycle.slice(0, 4).join(' -> ')}${cycle.length > 4 ? ' ...' : ''}`,
-        metadata: { files: cycle },
+  const found: RuleFinding[] = []
+  for (const [repoKey, rows] of byRepo) {
+    const edges = buildImportEdges(rows)
+    for (const component of findImportCycles(edges).slice(0, 5)) {
+      const cycle = shortestCycle(component, edges)
+      const shown = cycle.length > 6 ? [...cycle.slice(0, 5), '...', cycle[cycle.length - 1]] : cycle
+      found.push({
+        // The same cycle can be entered from any file, so hash its sorted members
+        key: `${repoKey}:${crypto.createHash('sha1').update(component.join('\n')).digest('hex').slice(0, 12)}`,
+        title: `Circular import between ${component.length} module${component.length !== 1 ? 's' : ''}`,
+        description: `Import cycle: ${shown.join(' -> ')}${component.length > cycle.length - 1 ? ` (${component.length} modules are mutually dependent)` : ''}`,
+        metadata: { repo: repoKey, files: component, cycle, edges: componentEdges(component, edges).slice(0, 50) },
       })
     }
   }
+  return found
 }
 
-// AR-HEU-007: Detect high dependency modification overlap (same files modified by many people simultaneously)
-async function detectDependencyOverlap(
-  db: ReturnType<typeof createServiceClient>,
-  workspaceId: string,
-  alerts: Array<{ type: string; severity: string; title: string; description: string; metadata: object }>,
-  now: Date
-) {
+// AR-HEU-007b: Detect high dependency modification overlap (same files modified by many people simultaneously)
+async function detectDependencyOverlap({ db, workspaceId, repo, now }: HeuristicContext): Promise<RuleFinding[]> {
   const recent = new Date(now.getTime() - 48 * 3600 * 1000).toISOString()
 
   const { data: recentCommits } = await db
     .from('commits')
-    .select('files_list, author_github_username')
+    .select('repo_owner, repo_name, files_list, author_github_username')
     .eq('workspace_id', workspaceId)
+    .eq('is_unreachable', false)
     .gt('committed_at', recent)
 
-  if (!recentCommits || recentCommits.length < 2) return
+  if (!recentCommits || recentCommits.length < 2) return []
 
-  // Track which authors modified which files
-  const fileAuthors: Record<string, Set<string>> = {}
+  // Track which authors modified which files, per repository
+  const fileAuthors = new Map<string, { repo: string; file: string; authors: Set<string> }>()
   for (const commit of recentCommits) {
     const files = (commit.files_list as string[]) ?? []
     const author = commit.author_github_username ?? 'unknown'
+    const commitRepo = rowRepo(commit, repo)
     for (const file of files) {
-      if (!fileAuthors[file]) fileAuthors[file] = new Set()
-      fileAuthors[file].add(author)
+      const key = `${commitRepo}:${file}`
+      if (!fileAuthors.has(key)) fileAuthors.set(key, { repo: commitRepo, file, authors: new Set() })
+      fileAuthors.get(key)!.authors.add(author)
     }
   }
 
   // Alert on files modified by 3+ different authors in 48h
-  for (const [file, authors] of Object.entries(fileAuthors)) {
-    if (authors.size >= 3) {
-      alerts.push({
-        type: 'dependency_overlap',
-        severity: 'warning',
-        title: `High modification overlap on ${file.split('/').pop()}`,
-        description: `${authors.size} authors modified "${file}" in the last 48 hours: ${[...authors].join(', ')}. Risk of merge conflicts.`,
-        metadata: { file, authors: [...authors] },
-      })
-    }
-  }
-}
-
-// AR-HEU-008: Escalate deployment-blocking issues
-async function escalateDeploymentBlockers(
-  db: ReturnType<typeof createServiceClient>,
-  workspaceId: string,
-  now: Date
-) {
-  // Find unresolved critical alerts older than 4 hours
-  const escalationCutoff = new Date(now.getTime() - 4 * 3600 * 1000).toISOString()
-
-  const { data: criticalAlerts } = await db
-    .from('alerts')
-    .select('id, type, title, created_at, severity')
-    .eq('workspace_id', workspaceId)
-    .eq('resolved', false)
-    .eq('severity', 'critical')
-    .lt('created_at', escalationCutoff)
-
-  for (const alert of criticalAlerts ?? []) {
-    // Check if already escalated
-    const { data: existing } = await db
-      .from('alerts')
-      .select('id')
-      .eq('workspace_id', workspaceId)
-      .eq('type', 'escalation')
-      .ilike('title', `%${alert.title.slice(0, 50)}%`)
-      .single()
-
-    if (!existing) {
-      await db.from('alerts').insert({
-        workspace_id: workspaceId,
-        type: 'escalation',
-        severity: 'critical',
-        title: `ESCALATED: ${alert.title}`,
-        description: `Critical alert "${alert.title}" has been unresolved for 4+ hours. Requires immediate attention.`,
-        metadata: { original_alert_id: alert.id, original_type: alert.type },
-      })
-    }
-  }
+  return [...fileAuthors.entries()]
+    .filter(([, { authors }]) => authors.size >= 3)
+    .map(([key, { repo: fileRepo, file, authors }]) => ({
+      key,
+      title: `High modification overlap on ${file.split('/').pop()}`,
+      description: `${authors.size} authors modified "${file}" in the last 48 hours: ${[...authors].join(', ')}. Risk of merge conflicts.`,
+      metadata: { repo: fileRepo, file, authors: [...authors] },
+    }))
 }
@@ -0,0 +1,233 @@
+// Resumable full-history import of a bound repository (repo_imports), run in slices by the job queue
+// Pages through every commit, PR and issue, waits out GitHub rate limits instead of failing, and saves
+// progress after each page so a restarted worker picks up where the last one stopped
+
+import { createServiceClient } from './supabase'
+import {
+  fetchCommitListPage,
+  fetchImportTotals,
+  fetchIssuePage,
+  fetchPullRequestPage,
+  GitHubAPIError,
+  importCommit,
+  issueRow,
+  pullRequestRow,
+  type RateLimit,
+} from './github-api'
+import { resolveGitHubToken } from './github-app'
+
+export type ImportStatus = 'queued' | 'running' | 'waiting' | 'completed' | 'failed'
+export type ImportPhase = 'commits' | 'pull_requests' | 'issues' | 'done'
+
+export interface RepoImport {
+  id: string
+  workspace_id: string
+  repo_owner: string
+  repo_name: string
+  status: ImportStatus
+  phase: ImportPhase
+  /** Default-branch head when the import started; commit pages are listed from it */
+  head_sha: string | null
+  commits_page: number
+  pull_requests_page: number
+  issues_page: number
+  commits_imported: number
+  commits_total: number | null
+  pull_requests_imported: number
+  pull_requests_total: number | null
+  issues_imported: number
+  issues_total: number | null
+  rate_limited_until: string | null
+  last_error: string | null
+  started_at: string
+  finished_at: string | null
+}
+
+type Db = ReturnType<typeof createServiceClient>
+
+export const REPO_IMPORT_COLUMNS = 'id, workspace_id, repo_owner, repo_name, status, phase, head_sha, ' +
+  'commits_page, pull_requests_page, issues_page, commits_imported, commits_total, pull_requests_imported, ' +
+  'pull_requests_total, issues_imported, issues_total, rate_limited_until, last_error, started_at, finished_at'
+
+export const ACTIVE_IMPORT_STATUSES: ImportStatus[] = ['queued', 'running', 'waiting']
+
+// Each job imports for this long, then queues its own continuation (well inside the worker's drain budget)
+export const IMPORT_SLICE_MS = 90_000
+const PAGE_SIZE = 100
+// Stop this many calls short of the limit, leaving room for webhooks and the dashboard
+const RATE_LIMIT_RESERVE = 50
+// A reset this close is slept through; a later one ends the slice and the next job is scheduled for it
+const MAX_INLINE_WAIT_MS = 60_000
+
+class RateLimited extends Error {
+  constructor(public until: number) {
+    super('GitHub rate limit reached')
+  }
+}
+
+/** How long to wait before the next call: until the reset once the remaining calls are down to the reserve */
+export function rateLimitDelayMs(rateLimit: Pick<RateLimit, 'remaining' | 'resetAt'> | null, now = Date.now()): number {
+  if (!rateLimit || rateLimit.remaining === null || rateLimit.resetAt === null) return 0
+  if (rateLimit.remaining > RATE_LIMIT_RESERVE) return 0
+  // A second of slack for clock skew between us and GitHub
+  return Math.max(0, rateLimit.resetAt - now) + 1000
+}
+
+/** Imported / total per kind, for "imported 4,200 / 12,000 commits" */
+export function importProgress(row: Pick<RepoImport,
+  'commits_imported' | 'commits_total' | 'pull_requests_imported' | 'pull_requests_total' | 'issues_imported' | 'issues_total'>) {
+  const part = (imported: number, total: number | null) => ({
+    imported,
+    total,
+    percent: total ? Math.min(100, Math.round((imported / total) * 100)) : total === 0 ? 100 : null,
+  })
+  return {
+    commits: part(row.commits_imported, row.commits_total),
+    pullRequests: part(row.pull_requests_imported, row.pull_requests_total),
+    issues: part(row.issues_imported, row.issues_total),
+  }
+}
+
+/** Start an import for a repository, or return the one already in progress */
+export async function createRepoImport(db: Db, workspaceId: string, owner: string, repo: string): Promise<{ repoImport: RepoImport | null; created: boolean; error?: string }> {
+  const { data: active } = await db
+    .from('repo_imports')
+    .select(REPO_IMPORT_COLUMNS)
+    .eq('workspace_id', workspaceId)
+    .eq('repo_owner', owner)
+    .eq('repo_name', repo)
+    .in('status', ACTIVE_IMPORT_STATUSES)
+    .maybeSingle()
+  if (active) return { repoImport: active as unknown as RepoImport, created: false }
+
+  const { data, error } = await db
+    .from('repo_imports')
+    .insert({ workspace_id: workspaceId, repo_owner: owner, repo_name: repo })
+    .select(REPO_IMPORT_COLUMNS)
+    .single()
+  if (error) return { repoImport: null, created: false, error: error.message }
+  return { repoImport: data as unknown as RepoImport, created: true }
+}
+
+export async function failRepoImport(db: Db, importId: string, error: string) {
+  await db.from('repo_imports').update({
+    status: 'failed',
+    last_error: error,
+    finished_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  }).eq('id', importId)
+}
+
+async function storedShas(db: Db, workspaceId: string, shas: string[]) {
+  if (shas.length === 0) return new Set<string>()
+  const { data } = await db.from('commits').select('sha').eq('workspace_id', workspaceId).in('sha', shas)
+  return new Set((data ?? []).map((c) => c.sha as string))
+}
+
+/**
+ * Run the import until it finishes or `deadline` passes. Returns when the next slice should run:
+ * null once the import is done (or gone), otherwise now or the rate-limit reset.
+ * Errors other than rate limits are recorded on the import and rethrown for the job queue to retry.
+ */
+export async function runRepoImport(db: Db, importId: string, deadline: number): Promise<{ resumeAt: Date | null }> {
+  const { data } = await db.from('repo_imports').select(REPO_IMPORT_COLUMNS).eq('id', importId).maybeSingle()
+  const row = data as unknown as RepoImport | null
+  if (!row || !ACTIVE_IMPORT_STATUSES.includes(row.status)) return { resumeAt: null }
+
+  const { repo_owner: owner, repo_name: repo, workspace_id: workspaceId } = row
+  const { data: bound } = await db.from('workspace_repositories').select('id')
+    .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', repo).maybeSingle()
+  if (!bound) {
+    await failRepoImport(db, row.id, 'Repository is no longer bound')
+    return { resumeAt: null }
+  }
+  // Resolved per slice: an installation token minted now outlasts the slice, and an App installed mid-import takes over
+  const token = (await resolveGitHubToken(db, workspaceId, { owner, name: repo }))?.token
+  if (!token) {
+    await failRepoImport(db, row.id, 'No GitHub token available for this workspace')
+    return { resumeAt: null }
+  }
+
+  const save = (patch: Partial<RepoImport>) =>
+    db.from('repo_imports').update({ ...patch, updated_at: new Date().toISOString() }).eq('id', row.id)
+  await save({ status: 'running', rate_limited_until: null })
+
+  let rateLimit: RateLimit | null = null
+  const throttle = async () => {
+    const delay = rateLimitDelayMs(rateLimit)
+    if (delay === 0) return
+    if (delay > MAX_INLINE_WAIT_MS || Date.now() + delay > deadline) throw new RateLimited(Date.now() + delay)
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    rateLimit = null
+  }
+
+  try {
+    if (row.commits_total === null) {
+      const totals = await fetchImportTotals(token, owner, repo)
+      row.head_sha = totals.headSha
+      row.commits_total = totals.commits
+      row.pull_requests_total = totals.pullRequests
+      row.issues_total = totals.issues
+      if (!row.head_sha) row.phase = 'pull_requests'
+      await save({
+        head_sha: row.head_sha, phase: row.phase,
+        commits_total: row.commits_total, pull_requests_total: row.pull_requests_total, issues_total: row.issues_total,
+      })
+    }
+
+    while (row.phase !== 'done' && Date.now() < deadline) {
+      await throttle()
+
+      if (row.phase === 'commits') {
+        const page = await fetchCommitListPage(token, owner, repo, row.head_sha!, row.commits_page + 1, PAGE_SIZE)
+        rateLimit = page.rateLimit
+        // Commits already stored by webhooks, the bind-time sync or an earlier slice cost no detail call
+        const stored = await storedShas(db, workspaceId, page.commits.map((c) => c.sha))
+        for (const c of page.commits) {
+          if (stored.has(c.sha)) continue
+          await throttle()
+          rateLimit = await importCommit(token, owner, repo, workspaceId, c)
+        }
+        row.commits_page++
+        row.commits_imported += page.commits.length
+        if (page.commits.length < PAGE_SIZE) row.phase = 'pull_requests'
+        await save({ commits_page: row.commits_page, commits_imported: row.commits_imported, phase: row.phase })
+      } else if (row.phase === 'pull_requests') {
+        const page = await fetchPullRequestPage(token, owner, repo, row.pull_requests_page + 1, PAGE_SIZE)
+        rateLimit = page.rateLimit
+        for (const pr of page.pullRequests) {
+          await db.from('pull_requests').upsert(pullRequestRow(pr, owner, repo, workspaceId), { onConflict: 'workspace_id,github_pr_number,repo_owner,repo_name' })
+        }
+        row.pull_requests_page++
+        row.pull_requests_imported += page.pullRequests.length
+        if (page.pullRequests.length < PAGE_SIZE) row.phase = 'issues'
+        await save({ pull_requests_page: row.pull_requests_page, pull_requests_imported: row.pull_requests_imported, phase: row.phase })
+      } else {
+        const page = await fetchIssuePage(token, owner, repo, row.issues_page + 1, PAGE_SIZE)
+        rateLimit = page.rateLimit
+        for (const issue of page.issues) {
+          await db.from('issues').upsert(issueRow(issue, owner, repo, workspaceId), { onConflict: 'workspace_id,github_issue_number,repo_owner,repo_name' })
+        }
+        row.issues_page++
+        row.issues_imported += page.issues.length
+        if (page.size < PAGE_SIZE) row.phase = 'done'
+        await save({ issues_page: row.issues_page, issues_imported: row.issues_imported, phase: row.phase })
+      }
+    }
+
+    if (row.phase === 'done') {
+      await save({ status: 'completed', last_error: null, finished_at: new Date().toISOString() })
+      return { resumeAt: null }
+    }
+    await save({ status: 'queued' })
+    return { resumeAt: new Date() }
+  } catch (e: unknown) {
+    const until = e instanceof RateLimited ? e.until : e instanceof GitHubAPIError ? e.rateLimitedUntil : null
+    if (until) {
+      await save({ status: 'waiting', rate_limited_until: new Date(until).toISOString() })
+      return { resumeAt: new Date(until) }
+    }
+    await save({ last_error: e instanceof Error ? e.message : String(e) })
+    throw e
+  }
+}
@@ -0,0 +1,361 @@
+// Contributor identity resolution: the emails, GitHub logins, Discord ids and phone numbers one human shows up
+// under, mapped to a single workspace person (workspace_people / person_identities). Workspace members are
+// people too without any registry entry, since their GitHub login, email and Discord id come from their account
+
+import { createServiceClient } from './supabase'
+
+type Db = ReturnType<typeof createServiceClient>
+
+export type IdentityKind = 'github' | 'email' | 'discord' | 'phone'
+
+export const IDENTITY_KINDS: IdentityKind[] = ['github', 'email', 'discord', 'phone']
+
+export interface Identity {
+  kind: IdentityKind
+  value: string
+}
+
+export interface WorkspacePerson {
+  id: string
+  display_name: string
+  identities: Identity[]
+}
+
+/** A workspace member's account, whose identities count as one person */
+export interface MemberAccount {
+  id: string
+  name: string | null
+  email: string | null
+  github_username: string | null
+  discord_id: string | null
+}
+
+export interface ResolvedPerson {
+  /** workspace_people.id, or `user:<id>` for a member with no registry entry */
+  id: string
+  name: string
+  /** What stats group the person under: their first GitHub login, else their name */
+  key: string
+}
+
+export interface IdentityResolver {
+  resolve(kind: IdentityKind, value: string | null | undefined): ResolvedPerson | null
+  resolveUser(userId: string | null | undefined): ResolvedPerson | null
+  /** Stats key of a commit / PR author, stored as a GitHub login or, without one, an email */
+  authorKey(author: string): string
+}
+
+/** An identity seen in commits, chat or member accounts, with the name it appeared under */
+export interface ObservedIdentity extends Identity {
+  name: string | null
+  /** Identities seen on the same record (a commit's login and email, a member's accounts) */
+  linked: Identity[]
+  /** Why the linked identities belong together */
+  linkReason?: string
+}
+
+export interface IdentityMergeSuggestion {
+  identities: Array<Identity & { name: string | null; person_id: string | null }>
+  reasons: string[]
+  display_name: string
+}
+
+export interface IdentityMergePlan {
+  /** Existing person to keep, or null to create one */
+  targetId: string | null
+  /** Other people whose identities move to the target before they are deleted */
+  mergedPeople: string[]
+  /** Identities not in the registry yet */
+  insert: Identity[]
+}
+
+const GITHUB_LOGIN = /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/
+const NOREPLY_EMAIL = /^(?:\d+\+)?([A-Za-z0-9-]+)@users\.noreply\.github\.com$/i
+// Names and email local parts shorter than this, or this generic, match too many people to suggest a merge
+const MIN_NAME_MATCH = 4
+const GENERIC_NAMES = new Set(['admin', 'info', 'contact', 'noreply', 'support', 'hello', 'team', 'root', 'user', 'unknown', 'github', 'bot'])
+
+/** An identity as stored, or null when it isn't one: `@login` → `login`, lowercase emails, `+` and digits for phones */
+export function normalizeIdentity(kind: IdentityKind, value: string | null | undefined): string | null {
+  const v = (value ?? '').trim()
+  if (!v) return null
+  switch (kind) {
+    case 'github': {
+      const login = v.replace(/^@/, '')
+      return GITHUB_LOGIN.test(login) ? login : null
+    }
+    case 'email':
+      return /^[^@\s]+@[^@\s]+$/.test(v) ? v.toLowerCase() : null
+    case 'discord':
+      return /^\S+$/.test(v) && v !== 'app' ? v : null
+    case 'phone': {
+      // Relays may send a WhatsApp JID (`15551234567@s.whatsapp.net`)
+      const number = v.split('@')[0]
+      const digits = number.replace(/\D/g, '')
+      return digits.length >= 7 ? `${number.startsWith('+') ? '+' : ''}${digits}` : null
+    }
+  }
+}
+
+// Relays don't agree on a leading `+`, so phone numbers compare on digits
+function indexKey(kind: IdentityKind, value: string) {
+  return `${kind}:${kind === 'phone' ? value.replace(/^\+/, '') : value.toLowerCase()}`
+}
+
+/** The GitHub login behind a `users.noreply.github.com` commit email, or null */
+export function noreplyLogin(email: string): string | null {
+  return NOREPLY_EMAIL.exec(email.trim())?.[1] ?? null
+}
+
+/** Commit and blame authors are stored as a GitHub login, or an email when GitHub couldn't link one */
+function authorIdentity(author: string): Identity {
+  return author.includes('@') ? { kind: 'email', value: author } : { kind: 'github', value: author }
+}
+
+export function createIdentityResolver(people: WorkspacePerson[], members: MemberAccount[] = []): IdentityResolver {
+  const index = new Map<string, ResolvedPerson>()
+  const byUser = new Map<string, ResolvedPerson>()
+  const add = (identity: Identity, person: ResolvedPerson) => {
+    const value = normalizeIdentity(identity.kind, identity.value)
+    if (value && !index.has(indexKey(identity.kind, value))) index.set(indexKey(identity.kind, value), person)
+  }
+
+  // Registry entries win over member accounts
+  for (const p of people) {
+    const github = p.identities.find((i) => i.kind === 'github')
+    const person = { id: p.id, name: p.display_name, key: github?.value ?? p.display_name }
+    for (const identity of p.identities) add(identity, person)
+  }
+
+  const lookup = (kind: IdentityKind, value: string | null | undefined) => {
+    const normalized = normalizeIdentity(kind, value)
+    return normalized ? index.get(indexKey(kind, normalized)) ?? null : null
+  }
+
+  for (const m of members) {
+    const identities: Identity[] = [
+      ...(m.github_username ? [{ kind: 'github' as const, value: m.github_username }] : []),
+      ...(m.email ? [{ kind: 'email' as const, value: m.email }] : []),
+      ...(m.discord_id ? [{ kind: 'discord' as const, value: m.discord_id }] : []),
+    ]
+    // A member registered under any of their identities is that person; their other accounts join them
+    const registered = identities.map((i) => lookup(i.kind, i.value)).find((p) => p !== null)
+    const person = registered ?? {
+      id: `user:${m.id}`,
+      name: m.name ?? m.github_username ?? m.email ?? 'Unknown',
+      key: m.github_username ?? m.name ?? m.email ?? m.id,
+    }
+    byUser.set(m.id, person)
+    for (const identity of identities) add(identity, person)
+  }
+
+  const resolve = (kind: IdentityKind, value: string | null | undefined): ResolvedPerson | null => {
+    const person = lookup(kind, value)
+    if (person || kind !== 'email' || !value) return person
+    const login = noreplyLogin(value)
+    return login ? lookup('github', login) : null
+  }
+
+  return {
+    resolve,
+    resolveUser: (userId) => (userId ? byUser.get(userId) ?? null : null),
+    authorKey(author) {
+      const { kind, value } = authorIdentity(author)
+      const person = resolve(kind, value)
+      if (person) return person.key
+      // Unregistered no-reply emails still name their GitHub account
+      return (kind === 'email' && noreplyLogin(value)) || author
+    },
+  }
+}
+
+/** Who wrote a chat message: the person behind its in-app user, Discord id or phone number, else the name it carries */
+export function messageAuthor(
+  resolver: IdentityResolver,
+  message: { user_id?: string | null; discord_id?: string | null; phone?: string | null; name: string | null },
+): { key: string; name: string; person: ResolvedPerson | null } {
+  const person = resolver.resolveUser(message.user_id)
+    ?? resolver.resolve('discord', message.discord_id)
+    ?? resolver.resolve('phone', message.phone)
+  const name = person?.name ?? message.name ?? 'Unknown'
+  return { key: person?.key ?? name, name, person }
+}
+
+/** Lowercase letters and digits only, accents removed: `José Núñez` and `jose-nunez` compare equal */
+function nameKey(name: string | null | undefined): string | null {
+  const key = (name ?? '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '')
+  return key.length >= MIN_NAME_MATCH && !GENERIC_NAMES.has(key) ? key : null
+}
+
+/**
+ * Group observed identities that look like the same person and aren't already resolved to one: identities seen
+ * on the same commit or account, no-reply emails and their login, email local parts equal to a login, and
+ * matching names (git author names, Discord and WhatsApp display names, GitHub logins).
+ */
+export function suggestIdentityMerges(observed: ObservedIdentity[], resolver: IdentityResolver, limit = 50): IdentityMergeSuggestion[] {
+  const nodes = new Map<string, { identity: Identity; names: Set<string> }>()
+  const node = (identity: Identity, name?: string | null) => {
+    const value = normalizeIdentity(identity.kind, identity.value)
+    if (!value) return null
+    const key = indexKey(identity.kind, value)
+    if (!nodes.has(key)) nodes.set(key, { identity: { kind: identity.kind, value }, names: new Set() })
+    if (name?.trim()) nodes.get(key)!.names.add(name.trim())
+    return key
+  }
+
+  // Union-find over identities, remembering why each pair was joined
+  const parent = new Map<string, string>()
+  const find = (k: string): string => {
+    const p = parent.get(k) ?? k
+    if (p === k) return k
+    const root = find(p)
+    parent.set(k, root)
+    return root
+  }
+  const reasons = new Map<string, Set<string>>()
+  const union = (a: string | null, b: string | null, reason: string) => {
+    if (!a || !b || a === b) return
+    const [ra, rb] = [find(a), find(b)]
+    const merged = new Set([...(reasons.get(ra) ?? []), ...(reasons.get(rb) ?? []), reason])
+    if (ra !== rb) parent.set(rb, ra)
+    reasons.set(ra, merged)
+  }
+
+  for (const o of observed) {
+    const key = node(o, o.name)
+    for (const linked of o.linked) union(key, node(linked), o.linkReason ?? 'Seen together')
+  }
+
+  for (const [key, n] of [...nodes]) {
+    const login = n.identity.kind === 'email' ? noreplyLogin(n.identity.value) : null
+    if (login) union(key, node({ kind: 'github', value: login }), 'GitHub no-reply email')
+  }
+
+  const byName = new Map<string, string>()
+  for (const [key, n] of nodes) {
+    const { kind, value } = n.identity
+    const names = [...n.names]
+    if (kind === 'github') names.push(value)
+    if (kind === 'email' && !noreplyLogin(value)) names.push(value.split('@')[0])
+    for (const name of names) {
+      const k = nameKey(name)
+      if (!k) continue
+      if (byName.has(k)) union(byName.get(k)!, key, `Matching name "${name}"`)
+      else byName.set(k, key)
+    }
+  }
+
+  const groups = new Map<string, string[]>()
+  for (const key of nodes.keys()) {
+    const root = find(key)
+    if (!groups.has(root)) groups.set(root, [])
+    groups.get(root)!.push(key)
+  }
+
+  const suggestions: IdentityMergeSuggestion[] = []
+  for (const [root, keys] of groups) {
+    if (keys.length < 2) continue
+    const identities = keys.map((k) => {
+      const { identity, names } = nodes.get(k)!
+      const person = resolver.resolve(identity.kind, identity.value)
+      return { ...identity, name: [...names][0] ?? null, person: person ?? null }
+    })
+    // Already one person: nothing to merge
+    const people = new Set(identities.map((i) => i.person?.id ?? `${i.kind}:${i.value}`))
+    if (people.size < 2) continue
+    const github = identities.find((i) => i.kind === 'github')
+    suggestions.push({
+      identities: identities
+        .map(({ person, ...i }) => ({ ...i, person_id: person && !person.id.startsWith('user:') ? person.id : null }))
+        .sort((a, b) => IDENTITY_KINDS.indexOf(a.kind) - IDENTITY_KINDS.indexOf(b.kind) || a.value.localeCompare(b.value)),
+      reasons: [...(reasons.get(root) ?? [])],
+      display_name: identities.find((i) => i.person)?.person?.name ?? identities.find((i) => i.name)?.name ?? github?.value ?? identities[0].value,
+    })
+  }
+  return suggestions.sort((a, b) => b.identities.length - a.identities.length).slice(0, limit)
+}
+
+/** Identities worth suggesting merges for, from commit authors, chat authors and member accounts */
+export function observedIdentities(sources: {
+  commits?: Array<{ author_github_username: string | null; author_email: string | null; author_name: string | null }>
+  discordMessages?: Array<{ author_discord_id: string | null; author_username: string | null }>
+  whatsappMessages?: Array<{ author_identifier: string | null; author_name: string | null }>
+  members?: MemberAccount[]
+}): ObservedIdentity[] {
+  const observed: ObservedIdentity[] = []
+  for (const c of sources.commits ?? []) {
+    const email: Identity[] = c.author_email ? [{ kind: 'email', value: c.author_email }] : []
+    const author = c.author_github_username ? authorIdentity(c.author_github_username) : null
+    if (author?.kind === 'github') observed.push({ ...author, name: c.author_name, linked: email, linkReason: 'Same commit author' })
+    else if (email.length > 0) observed.push({ ...email[0], name: c.author_name, linked: [] })
+  }
+  for (const m of sources.discordMessages ?? []) {
+    if (m.author_discord_id) observed.push({ kind: 'discord', value: m.author_discord_id, name: m.author_username, linked: [] })
+  }
+  for (const m of sources.whatsappMessages ?? []) {
+    if (m.author_identifier) observed.push({ kind: 'phone', value: m.author_identifier, name: m.author_name, linked: [] })
+  }
+  for (const m of sources.members ?? []) {
+    const identities: Identity[] = [
+      ...(m.github_username ? [{ kind: 'github' as const, value: m.github_username }] : []),
+      ...(m.email ? [{ kind: 'email' as const, value: m.email }] : []),
+      ...(m.discord_id ? [{ kind: 'discord' as const, value: m.discord_id }] : []),
+    ]
+    if (identities.length > 0) observed.push({ ...identities[0], name: m.name, linked: identities.slice(1), linkReason: 'Same workspace account' })
+  }
+  return observed
+}
+
+/**
+ * How to register `identities` as one person: keep `personId` (or the first person already holding one of
+ * them), fold in every other person holding one, and insert the rest.
+ */
+export function planIdentityMerge(
+  existing: Array<Identity & { person_id: string }>,
+  identities: Identity[],
+  personId: string | null = null,
+): IdentityMergePlan {
+  const owners = new Map(existing.map((e) => [indexKey(e.kind, e.value), e.person_id]))
+  const people: string[] = []
+  const insert: Identity[] = []
+  const seen = new Set<string>()
+  for (const identity of identities) {
+    const key = indexKey(identity.kind, identity.value)
+    if (seen.has(key)) continue
+    seen.add(key)
+    const owner = owners.get(key)
+    if (owner) { if (!people.includes(owner)) people.push(owner) }
+    else insert.push(identity)
+  }
+  const targetId = personId ?? people[0] ?? null
+  return { targetId, mergedPeople: people.filter((p) => p !== targetId), insert }
+}
+
+// ---- Loading ----
+
+export async function loadWorkspacePeople(db: Db, workspaceId: string): Promise<WorkspacePerson[]> {
+  const { data } = await db.from('workspace_people')
+    .select('id, display_name, identities:person_identities(kind, value, created_at)')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true })
+  return (data ?? []).map((p) => ({
+    id: p.id,
+    display_name: p.display_name,
+    identities: ((p.identities ?? []) as Array<Identity & { created_at: string }>)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(({ kind, value }) => ({ kind, value })),
+  }))
+}
+
+export async function loadMemberAccounts(db: Db, workspaceId: string): Promise<MemberAccount[]> {
+  const { data } = await db.from('workspace_members')
+    .select('user:users(id, name, email, github_username, discord_id)')
+    .eq('workspace_id', workspaceId)
+  return (data ?? []).map((m) => m.user as unknown as MemberAccount | null).filter((u): u is MemberAccount => !!u)
+}
+
+/** The workspace's identity registry and member accounts, ready to resolve authors */
+export async function loadIdentityResolver(db: Db, workspaceId: string): Promise<IdentityResolver> {
+  const [people, members] = await Promise.all([loadWorkspacePeople(db, workspaceId), loadMemberAccounts(db, workspaceId)])
+  return createIdentityResolver(people, members)
+}
@@ -0,0 +1,183 @@
+// AR-HEU-006: Module import graph for circular dependency detection
+// Sources are fetched during repo sync (see syncImportGraph in github-api.ts); this module only parses and analyses them
+
+import path from 'path'
+
+export const MODULE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']
+
+// Path aliases resolved relative to the repo root (Next.js / tsconfig default)
+const DEFAULT_ALIASES: Record<string, string> = { '@/': 'src/' }
+
+export interface ImportEdge {
+  from: string
+  to: string
+}
+
+export function isModuleFile(filePath: string) {
+  if (filePath.endsWith('.d.ts')) return false
+  if (/(^|\/)(node_modules|dist|build|\.next|coverage|vendor)\//.test(filePath)) return false
+  return MODULE_EXTENSIONS.includes(path.posix.extname(filePath))
+}
+
+/**
+ * Static import specifiers in a TS/JS source: `import ... from`, side-effect `import 'x'`,
+ * `export ... from` and `require('x')`. Type-only imports and dynamic `import()` are skipped
+ * because neither creates a load-time dependency.
+ */
+export function parseImports(source: string): string[] {
+  const code = source
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/^\s*\/\/.*$/gm, '')
+
+  const specifiers = new Set<string>()
+  const staticImport = /(?:^|[;\n}])\s*(import|export)\s+(type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?['"]([^'"\n]+)['"]/g
+  for (const match of code.matchAll(staticImport)) {
+    if (match[2]) continue
+    // `export const x = ...` never matches (no quoted specifier); `import x from` / `export * from` do
+    specifiers.add(match[3])
+  }
+  for (const match of code.matchAll(/\brequire\(\s*['"]([^'"\n]+)['"]\s*\)/g)) {
+    specifiers.add(match[1])
+  }
+  return [...specifiers]
+}
+
+/** Resolve a specifier to a repository file, or null for packages and files outside the graph */
+export function resolveImport(
+  fromFile: string,
+  specifier: string,
+  files: Set<string>,
+  aliases: Record<string, string> = DEFAULT_ALIASES,
+): string | null {
+  let base: string | null = null
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    base = path.posix.join(path.posix.dirname(fromFile), specifier)
+  } else {
+    const alias = Object.keys(aliases).find((prefix) => specifier.startsWith(prefix))
+    if (alias) base = path.posix.join(aliases[alias], specifier.slice(alias.length))
+  }
+  if (base === null) return null
+
+  const candidates = [base]
+  // TS ESM style: `./util.js` refers to `./util.ts`
+  const ext = path.posix.extname(base)
+  if (ext === '.js' || ext === '.jsx') {
+    const stem = base.slice(0, -ext.length)
+    candidates.push(`${stem}.ts`, `${stem}.tsx`)
+  }
+  for (const moduleExt of MODULE_EXTENSIONS) candidates.push(`${base}${moduleExt}`)
+  for (const moduleExt of MODULE_EXTENSIONS) candidates.push(`${base}/index${moduleExt}`)
+
+  return candidates.find((candidate) => files.has(candidate)) ?? null
+}
+
+export function buildImportEdges(modules: Array<{ file_path: string; imports: string[] | null }>): ImportEdge[] {
+  const edges: ImportEdge[] = []
+  for (const mod of modules) {
+    for (const target of new Set(mod.imports ?? [])) {
+      edges.push({ from: mod.file_path, to: target })
+    }
+  }
+  return edges
+}
+
+/**
+ * Tarjan's strongly connected components over the import graph (iterative, so deep graphs
+ * don't overflow the stack). Only components that contain a cycle are returned: two or more
+ * modules, or a module that imports itself.
+ */
+export function findImportCycles(edges: ImportEdge[]): string[][] {
+  const adjacency = new Map<string, string[]>()
+  for (const { from, to } of edges) {
+    if (!adjacency.has(from)) adjacency.set(from, [])
+    if (!adjacency.has(to)) adjacency.set(to, [])
+    adjacency.get(from)!.push(to)
+  }
+
+  let nextIndex = 0
+  const index = new Map<string, number>()
+  const lowlink = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const components: string[][] = []
+
+  for (const root of adjacency.keys()) {
+    if (index.has(root)) continue
+    const work: Array<{ node: string; next: number }> = [{ node: root, next: 0 }]
+    index.set(root, nextIndex)
+    lowlink.set(root, nextIndex)
+    nextIndex++
+    stack.push(root)
+    onStack.add(root)
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1]
+      const neighbours = adjacency.get(frame.node)!
+      if (frame.next < neighbours.length) {
+        const neighbour = neighbours[frame.next++]
+        if (!index.has(neighbour)) {
+          index.set(neighbour, nextIndex)
+          lowlink.set(neighbour, nextIndex)
+          nextIndex++
+          stack.push(neighbour)
+          onStack.add(neighbour)
+          work.push({ node: neighbour, next: 0 })
+        } else if (onStack.has(neighbour)) {
+          lowlink.set(frame.node, Math.min(lowlink.get(frame.node)!, index.get(neighbour)!))
+        }
+        continue
+      }
+
+      work.pop()
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.node)!))
+      }
+      if (lowlink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = []
+        let member: string
+        do {
+          member = stack.pop()!
+          onStack.delete(member)
+          component.push(member)
+        } while (member !== frame.node)
+        const selfLoop = component.length === 1 && adjacency.get(member)!.includes(member)
+        if (component.length > 1 || selfLoop) components.push(component.sort())
+      }
+    }
+  }
+
+  return components.sort((a, b) => b.length - a.length)
+}
+
+/** Import edges that stay inside a component — the edges that form its cycles */
+export function componentEdges(component: string[], edges: ImportEdge[]) {
+  const members = new Set(component)
+  return edges.filter((e) => members.has(e.from) && members.has(e.to))
+}
+
+/** One concrete cycle through the component, e.g. [a, b, c, a], via BFS back to the first module */
+export function shortestCycle(component: string[], edges: ImportEdge[]): string[] {
+  const start = component[0]
+  const internal = componentEdges(component, edges)
+  const previous = new Map<string, string>()
+  const queue = [start]
+  const seen = new Set<string>()
+
+  while (queue.length > 0) {
+    const node = queue.shift()!
+    for (const { to } of internal.filter((e) => e.from === node)) {
+      if (to === start) {
+        const cycle = [start]
+        for (let cur: string | undefined = node; cur && cur !== start; cur = previous.get(cur)) cycle.splice(1, 0, cur)
+        cycle.push(start)
+        return cycle
+      }
+      if (seen.has(to)) continue
+      seen.add(to)
+      previous.set(to, node)
+      queue.push(to)
+    }
+  }
+  return [...component, start]
+}
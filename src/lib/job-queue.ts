@@ -0,0 +1,210 @@
+// Postgres-backed job queue (jobs table) drained by the /api/cron/jobs worker
+// Slow work such as GitHub webhook processing is enqueued so the request can return quickly;
+// failed jobs are retried with exponential backoff until max_attempts
+
+import { createServiceClient } from './supabase'
+import { processDelivery, WEBHOOK_DELIVERY_COLUMNS, type WebhookDelivery } from './github-webhook'
+import { resyncWorkspace } from './resync'
+import { failRepoImport, IMPORT_SLICE_MS, runRepoImport } from './history-import'
+import { syncWorkspaceBlame } from './blame-ownership'
+
+export type JobType = 'github_delivery' | 'repo_resync' | 'repo_import' | 'blame_sync'
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface Job {
+  id: string
+  workspace_id: string
+  type: JobType
+  payload: Record<string, unknown>
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_at: string | null
+}
+
+export interface JobResult {
+  id: string
+  workspace_id: string
+  type: JobType
+  status: JobStatus
+  error: string | null
+  elapsed_ms: number
+}
+
+type Db = ReturnType<typeof createServiceClient>
+
+const JOB_COLUMNS = 'id, workspace_id, type, payload, status, attempts, max_attempts, run_at, locked_at'
+
+export const DEFAULT_MAX_ATTEMPTS = 5
+// 30s, 1m, 2m, 4m, ... capped at an hour
+const RETRY_BASE_SECONDS = 30
+const RETRY_MAX_SECONDS = 3600
+// A job still 'running' after this long belongs to a worker that died, and may be claimed again
+const STALE_LOCK_MS = 10 * 60 * 1000
+
+/** Local test mode: with JOB_QUEUE_INLINE=true jobs run inside the request that enqueued them */
+export function isInlineJobMode() {
+  return process.env.JOB_QUEUE_INLINE === 'true'
+}
+
+/** Backoff before retrying a job that has failed `attempts` times */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_SECONDS)
+}
+
+/** Row update after an attempt: done, queued again with backoff, or failed for good once attempts run out */
+export function nextJobState(job: Pick<Job, 'attempts' | 'max_attempts'>, error: string | null, now = new Date()) {
+  if (!error) return { status: 'succeeded' as JobStatus, last_error: null, locked_at: null, finished_at: now.toISOString() }
+  if (job.attempts >= job.max_attempts) return { status: 'failed' as JobStatus, last_error: error, locked_at: null, finished_at: now.toISOString() }
+  return {
+    status: 'queued' as JobStatus,
+    last_error: error,
+    locked_at: null,
+    run_at: new Date(now.getTime() + retryDelaySeconds(job.attempts) * 1000).toISOString(),
+  }
+}
+
+// ---- Handlers ----
+
+async function runGitHubDelivery(db: Db, job: Job) {
+  const { data: delivery } = await db
+    .from('webhook_deliveries')
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .eq('id', job.payload.delivery_id as string)
+    .maybeSingle()
+  // Deleted with its workspace, or already replayed from Settings
+  if (!delivery || delivery.status === 'processed') return
+
+  const result = await processDelivery(db, delivery as WebhookDelivery)
+  if (!result.ok) throw new Error(result.error ?? 'Processing failed')
+}
+
+// Scheduled by /api/cron/resync; a repository that fails keeps its cursors and fails the job so it is retried
+async function runRepoResync(db: Db, job: Job) {
+  const { results, error } = await resyncWorkspace(db, job.workspace_id, { repo: (job.payload.repo as string) ?? null })
+  if (error) throw new Error(error)
+  const failed = results.filter((r) => r.error)
+  if (failed.length > 0) throw new Error(failed.map((r) => `${r.repo}: ${r.error}`).join('; '))
+}
+
+// One slice of a full-history import; the slice queues the next one, at the rate-limit reset when it hit the limit
+async function runRepoImportSlice(db: Db, job: Job) {
+  const importId = job.payload.import_id as string
+  try {
+    const { resumeAt } = await runRepoImport(db, importId, Date.now() + IMPORT_SLICE_MS)
+    if (resumeAt) {
+      const { error } = await enqueueJob(db, job.workspace_id, 'repo_import', job.payload, job.max_attempts, resumeAt)
+      if (error) throw new Error(error)
+    }
+  } catch (e: unknown) {
+    if (job.attempts >= job.max_attempts) await failRepoImport(db, importId, e instanceof Error ? e.message : String(e))
+    throw e
+  }
+}
+
+// Recompute blame ownership; files stored before a failure are skipped as unchanged when the job is retried
+async function runBlameSync(db: Db, job: Job) {
+  const results = await syncWorkspaceBlame(db, job.workspace_id, (job.payload.repo as string) ?? null)
+  const failed = results.filter((r) => r.error)
+  if (failed.length > 0) throw new Error(failed.map((r) => `${r.repo}: ${r.error}`).join('; '))
+}
+
+const JOB_HANDLERS: Record<JobType, (db: Db, job: Job) => Promise<void>> = {
+  github_delivery: runGitHubDelivery,
+  repo_resync: runRepoResync,
+  repo_import: runRepoImportSlice,
+  blame_sync: runBlameSync,
+}
+
+// ---- Queue ----
+
+export async function enqueueJob(
+  db: Db,
+  workspaceId: string,
+  type: JobType,
+  payload: Record<string, unknown>,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  runAt?: Date,
+): Promise<{ job: Job | null; error?: string }> {
+  const { data, error } = await db
+    .from('jobs')
+    .insert({ workspace_id: workspaceId, type, payload, max_attempts: maxAttempts, ...(runAt && { run_at: runAt.toISOString() }) })
+    .select(JOB_COLUMNS)
+    .single()
+  if (error) return { job: null, error: error.message }
+  return { job: data as Job }
+}
+
+/**
+ * Take a job for this worker. The update only matches while status and attempts are unchanged,
+ * so when two workers race for the same row exactly one of them gets it back.
+ */
+async function claimJob(db: Db, job: Job): Promise<Job | null> {
+  const { data } = await db
+    .from('jobs')
+    .update({
+      status: 'running',
+      attempts: job.attempts + 1,
+      locked_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', job.status)
+    .eq('attempts', job.attempts)
+    .select(JOB_COLUMNS)
+    .maybeSingle()
+  return (data as Job) ?? null
+}
+
+/** Claim and run one job, recording the outcome. Returns null when another worker claimed it first. */
+export async function runJob(db: Db, job: Job): Promise<JobResult | null> {
+  const claimed = await claimJob(db, job)
+  if (!claimed) return null
+
+  const start = Date.now()
+  let error: string | null = null
+  try {
+    await JOB_HANDLERS[claimed.type](db, claimed)
+  } catch (e: unknown) {
+    error = e instanceof Error ? e.message : String(e)
+  }
+
+  const elapsed = Date.now() - start
+  const next = nextJobState(claimed, error)
+  await db.from('jobs').update({
+    ...next,
+    elapsed_ms: elapsed,
+    updated_at: new Date().toISOString(),
+  }).eq('id', claimed.id)
+
+  return { id: claimed.id, workspace_id: claimed.workspace_id, type: claimed.type, status: next.status, error, elapsed_ms: elapsed }
+}
+
+/** Run due jobs oldest first until the queue is empty, `limit` jobs have run, or the deadline passes */
+export async function drainJobs(db: Db, { limit = 100, deadline = Date.now() + 60_000 } = {}): Promise<JobResult[]> {
+  const results: JobResult[] = []
+  const seen = new Set<string>()
+
+  while (results.length < limit && Date.now() < deadline) {
+    const now = new Date().toISOString()
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS).toISOString()
+    const batchSize = Math.min(25, limit - results.length)
+    const [{ data: queued }, { data: stale }] = await Promise.all([
+      db.from('jobs').select(JOB_COLUMNS).eq('status', 'queued').lte('run_at', now).order('run_at').limit(batchSize),
+      db.from('jobs').select(JOB_COLUMNS).eq('status', 'running').lt('locked_at', staleBefore).limit(batchSize),
+    ])
+    // Jobs re-queued with a backoff during this drain are not due again, so `seen` only guards lost claims
+    const batch = [...(stale ?? []), ...(queued ?? [])].filter((j) => !seen.has(j.id)) as Job[]
+    if (batch.length === 0) break
+
+    for (const job of batch) {
+      if (results.length >= limit || Date.now() >= deadline) break
+      seen.add(job.id)
+      const result = await runJob(db, job)
+      if (result) results.push(result)
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,188 @@
+// AR-KNOW: "what if X leaves" — knowledge concentration recomputed with some contributors removed
+// A file or directory is orphaned when nobody left holds at least `threshold` of what was known about it
+
+import { calculateKnowledgeConcentration, knowledgeWeight, type KnowledgeShare } from './heuristics'
+
+export interface KnowledgeLossOptions {
+  /** Share of a file's (or directory's) knowledge someone remaining must hold for it not to be orphaned */
+  threshold?: number
+  /** Orphaned files and directories returned, largest first */
+  limit?: number
+}
+
+export interface OrphanedFile {
+  repo: string | null
+  file: string
+  /** Estimated lines: blame lines, or lines added + modified under the authorship model */
+  lines: number
+  /** Share of the file's knowledge held by the departing contributors (0–100) */
+  departingShare: number
+  busFactorBefore: number
+  /** Best-placed remaining author and their share (0–100), if anyone remains */
+  remainingAuthor: string | null
+  remainingShare: number
+}
+
+export interface OrphanedDirectory {
+  /** With several repositories the first segment is `owner/name` */
+  path: string
+  files: number
+  orphanedFiles: number
+  lines: number
+  remainingAuthor: string | null
+  remainingShare: number
+}
+
+export interface KnowledgeLossSimulation {
+  departing: string[]
+  threshold: number
+  busFactorBefore: number
+  busFactorAfter: number
+  files: number
+  /** Files the departing contributors hold any knowledge of */
+  affectedFiles: number
+  orphanedFileCount: number
+  orphanedDirectoryCount: number
+  /** Estimated lines written by the departing contributors */
+  affectedLines: number
+  /** Estimated lines in orphaned files */
+  orphanedLines: number
+  orphanedFiles: OrphanedFile[]
+  orphanedDirectories: OrphanedDirectory[]
+}
+
+export const ORPHAN_THRESHOLD = 0.2
+
+type SimulationRow = KnowledgeShare & { file_path: string; repo?: string | null; lines?: number }
+
+interface Tally {
+  total: number
+  lines: number
+  departing: number
+  remaining: Map<string, number>
+}
+
+function tally(): Tally {
+  return { total: 0, lines: 0, departing: 0, remaining: new Map() }
+}
+
+function topRemaining(t: Tally): { author: string | null; share: number } {
+  let author: string | null = null
+  let weight = 0
+  for (const [a, w] of t.remaining) if (w > weight) { author = a; weight = w }
+  return { author, share: t.total > 0 ? weight / t.total : 0 }
+}
+
+function pct(share: number) {
+  return Math.round(share * 1000) / 10
+}
+
+function busFactorOf(weights: Map<string, number>) {
+  return calculateKnowledgeConcentration([...weights.entries()].map(([author_github_username, weighted_lines]) => ({ author_github_username, weighted_lines }))).busFactor
+}
+
+/** Remove `departing` (GitHub usernames, case-insensitive) and report what loses its remaining owners */
+export function simulateDeparture(rows: SimulationRow[], departing: string[], options: KnowledgeLossOptions = {}): KnowledgeLossSimulation {
+  const threshold = options.threshold ?? ORPHAN_THRESHOLD
+  const limit = options.limit ?? 100
+  const leaving = new Set(departing.map((d) => d.toLowerCase()))
+  const byRepo = new Set(rows.map((r) => r.repo || '')).size > 1
+
+  // Per file: each author's weight and lines, and the directories it sits in
+  const files = new Map<string, { repo: string | null; file: string; dirs: string[]; authors: Map<string, { weight: number; lines: number }> }>()
+  for (const row of rows) {
+    const repo = row.repo || null
+    const key = `${repo ?? ''}:${row.file_path}`
+    if (!files.has(key)) {
+      const prefix = byRepo ? `${repo ?? '(unknown repository)'}/` : ''
+      const segments = row.file_path.split('/').filter(Boolean)
+      const dirs = segments.slice(0, -1).map((_, i) => prefix + segments.slice(0, i + 1).join('/'))
+      if (byRepo) dirs.unshift(prefix.slice(0, -1))
+      files.set(key, { repo, file: row.file_path, dirs, authors: new Map() })
+    }
+    const authors = files.get(key)!.authors
+    const weight = knowledgeWeight(row)
+    const prev = authors.get(row.author_github_username) ?? { weight: 0, lines: 0 }
+    authors.set(row.author_github_username, { weight: prev.weight + weight, lines: prev.lines + (row.lines ?? weight) })
+  }
+
+  const everyone = new Map<string, number>()
+  const remainingEveryone = new Map<string, number>()
+  const directories = new Map<string, Tally & { files: number; orphanedFiles: number }>()
+  const orphanedFiles: OrphanedFile[] = []
+  let affectedFiles = 0
+  let affectedLines = 0
+  let orphanedLines = 0
+
+  for (const f of files.values()) {
+    const t = tally()
+    for (const [author, { weight, lines }] of f.authors) {
+      everyone.set(author, (everyone.get(author) ?? 0) + weight)
+      t.total += weight
+      t.lines += lines
+      if (leaving.has(author.toLowerCase())) {
+        t.departing += weight
+        affectedLines += lines
+      } else {
+        t.remaining.set(author, weight)
+        remainingEveryone.set(author, (remainingEveryone.get(author) ?? 0) + weight)
+      }
+    }
+
+    const top = topRemaining(t)
+    const orphaned = t.departing > 0 && top.share < threshold
+    if (t.departing > 0) affectedFiles++
+    if (orphaned) {
+      orphanedLines += t.lines
+      orphanedFiles.push({
+        repo: f.repo,
+        file: f.file,
+        lines: Math.round(t.lines),
+        departingShare: pct(t.departing / t.total),
+        busFactorBefore: busFactorOf(new Map([...f.authors].map(([a, { weight }]) => [a, weight]))),
+        remainingAuthor: top.author,
+        remainingShare: pct(top.share),
+      })
+    }
+
+    for (const path of f.dirs) {
+      if (!directories.has(path)) directories.set(path, { ...tally(), files: 0, orphanedFiles: 0 })
+      const d = directories.get(path)!
+      d.total += t.total
+      d.lines += t.lines
+      d.departing += t.departing
+      d.files++
+      if (orphaned) d.orphanedFiles++
+      for (const [author, weight] of t.remaining) d.remaining.set(author, (d.remaining.get(author) ?? 0) + weight)
+    }
+  }
+
+  const orphanedDirectories: OrphanedDirectory[] = []
+  for (const [path, d] of directories) {
+    const top = topRemaining(d)
+    if (d.departing <= 0 || top.share >= threshold) continue
+    orphanedDirectories.push({
+      path,
+      files: d.files,
+      orphanedFiles: d.orphanedFiles,
+      lines: Math.round(d.lines),
+      remainingAuthor: top.author,
+      remainingShare: pct(top.share),
+    })
+  }
+
+  return {
+    departing,
+    threshold,
+    busFactorBefore: busFactorOf(everyone),
+    busFactorAfter: busFactorOf(remainingEveryone),
+    files: files.size,
+    affectedFiles,
+    orphanedFileCount: orphanedFiles.length,
+    orphanedDirectoryCount: orphanedDirectories.length,
+    affectedLines: Math.round(affectedLines),
+    orphanedLines: Math.round(orphanedLines),
+    orphanedFiles: orphanedFiles.sort((a, b) => b.lines - a.lines).slice(0, limit),
+    orphanedDirectories: orphanedDirectories.sort((a, b) => b.lines - a.lines).slice(0, limit),
+  }
+}
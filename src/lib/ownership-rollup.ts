@@ -0,0 +1,132 @@
+// AR-KNOW: bus factor rolled up the directory tree, from per-file ownership (file_authorship or blame_ownership)
+// A directory's knowledge is the sum of its files' per-author weights, so its bus factor answers
+// "how many people cover half of what's known about everything under here"
+
+import { calculateKnowledgeConcentration, knowledgeWeight, type KnowledgeShare } from './heuristics'
+
+export interface OwnershipNode {
+  /** Slash-separated path from the root; with several repositories the first segment is `owner/name` */
+  path: string
+  name: string
+  type: 'repository' | 'directory' | 'file'
+  /** Files under this node (1 for a file) */
+  files: number
+  /** Total knowledge weight: lines added + modified, or recency-weighted blame lines */
+  weight: number
+  busFactor: number
+  dominant_author: string | null
+  concentration: number
+  authorCount: number
+  /** Files under this node with concentration above CRITICAL_CONCENTRATION */
+  criticalFiles: number
+  children: OwnershipNode[]
+}
+
+// Same threshold as the critical files list
+export const CRITICAL_CONCENTRATION = 80
+
+interface BuildNode {
+  path: string
+  name: string
+  type: OwnershipNode['type']
+  authors: Map<string, number>
+  files: number
+  criticalFiles: number
+  children: Map<string, BuildNode>
+}
+
+function buildNode(path: string, name: string, type: OwnershipNode['type']): BuildNode {
+  return { path, name, type, authors: new Map(), files: 0, criticalFiles: 0, children: new Map() }
+}
+
+function finish(node: BuildNode): OwnershipNode {
+  const shares = [...node.authors.entries()].map(([author_github_username, weighted_lines]) => ({ author_github_username, weighted_lines }))
+  const { busFactor, dominant_author, concentration } = calculateKnowledgeConcentration(shares)
+  return {
+    path: node.path,
+    name: node.name,
+    type: node.type,
+    files: node.files,
+    weight: shares.reduce((s, a) => s + a.weighted_lines, 0),
+    busFactor,
+    dominant_author,
+    concentration: Math.round(concentration),
+    authorCount: shares.length,
+    criticalFiles: node.criticalFiles,
+    children: [...node.children.values()].map(finish).sort((a, b) => b.weight - a.weight),
+  }
+}
+
+/**
+ * Build the ownership tree. Rows from more than one repository are grouped under a node per repository,
+ * since the same path in two repositories is two different files.
+ */
+export function rollupOwnership(rows: Array<KnowledgeShare & { file_path: string; repo?: string | null }>): OwnershipNode {
+  const repos = new Set(rows.map((r) => r.repo || ''))
+  const byRepo = repos.size > 1
+
+  // Per-file author weights first, so a file's own concentration decides whether it is critical
+  const files = new Map<string, { repo: string; file_path: string; authors: Map<string, number> }>()
+  for (const row of rows) {
+    const repo = byRepo ? row.repo || '' : ''
+    const key = `${repo}:${row.file_path}`
+    if (!files.has(key)) files.set(key, { repo, file_path: row.file_path, authors: new Map() })
+    const authors = files.get(key)!.authors
+    authors.set(row.author_github_username, (authors.get(row.author_github_username) ?? 0) + knowledgeWeight(row))
+  }
+
+  const root = buildNode('', '', 'directory')
+  for (const { repo, file_path, authors } of files.values()) {
+    const fileShares = [...authors.entries()].map(([author_github_username, weighted_lines]) => ({ author_github_username, weighted_lines }))
+    const critical = calculateKnowledgeConcentration(fileShares).concentration > CRITICAL_CONCENTRATION
+
+    const segments = file_path.split('/').filter(Boolean)
+    const chain = [root]
+    let node = root
+    if (byRepo) {
+      const name = repo || '(unknown repository)'
+      if (!node.children.has(name)) node.children.set(name, buildNode(name, name, 'repository'))
+      node = node.children.get(name)!
+      chain.push(node)
+    }
+    segments.forEach((segment, i) => {
+      const isFile = i === segments.length - 1
+      if (!node.children.has(segment)) {
+        node.children.set(segment, buildNode(node.path ? `${node.path}/${segment}` : segment, segment, isFile ? 'file' : 'directory'))
+      }
+      node = node.children.get(segment)!
+      chain.push(node)
+    })
+
+    for (const n of chain) {
+      n.files++
+      if (critical) n.criticalFiles++
+      for (const [author, weight] of authors) n.authors.set(author, (n.authors.get(author) ?? 0) + weight)
+    }
+  }
+  return finish(root)
+}
+
+/** The node at `path` ('' is the root), or null */
+export function findOwnershipNode(root: OwnershipNode, path: string): OwnershipNode | null {
+  let node = root
+  while (node.path !== path) {
+    const next = node.children.find((c) => path === c.path || path.startsWith(`${c.path}/`))
+    if (!next) return null
+    node = next
+  }
+  return node
+}
+
+/** Nodes from the root down to `path`, itself included, for drill-down breadcrumbs */
+export function ownershipBreadcrumbs(root: OwnershipNode, path: string): Array<{ path: string; name: string }> {
+  const crumbs = [{ path: '', name: 'All files' }]
+  let node: OwnershipNode = root
+  while (node.path !== path) {
+    const next = node.children.find((c) => path === c.path || path.startsWith(`${c.path}/`))
+    if (!next) break
+    crumbs.push({ path: next.path, name: next.name })
+    node = next
+  }
+  return crumbs
+}
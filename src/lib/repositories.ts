@@ -0,0 +1,89 @@
+// Repositories bound to a workspace (workspace_repositories), each with its own webhook and secret
+// The github_repo_* columns on workspaces mirror the first bound repository for single-repo readers
+
+import { createServiceClient } from './supabase'
+
+export interface WorkspaceRepository {
+  id: string
+  repo_owner: string
+  repo_name: string
+  repo_url: string | null
+  github_repo_id: number | null
+  default_branch: string | null
+  is_private: boolean | null
+  webhook_id: number | null
+  /** GitHub App installation covering the repository (src/lib/github-app.ts); null means OAuth tokens */
+  installation_id: number | null
+  /** Resync cursors (src/lib/resync.ts): newest commit date and PR / issue update time seen */
+  commits_cursor: string | null
+  pull_requests_cursor: string | null
+  issues_cursor: string | null
+  last_resync_at: string | null
+  last_resync_summary: Record<string, unknown> | null
+  created_at: string
+}
+
+export interface RepoRef {
+  owner: string
+  name: string
+}
+
+type Db = ReturnType<typeof createServiceClient>
+
+const REPOSITORY_COLUMNS = 'id, repo_owner, repo_name, repo_url, github_repo_id, default_branch, is_private, webhook_id, installation_id, commits_cursor, pull_requests_cursor, issues_cursor, last_resync_at, last_resync_summary, created_at'
+
+export function repoFullName(repo: { repo_owner: string; repo_name: string }) {
+  return `${repo.repo_owner}/${repo.repo_name}`
+}
+
+/** Parse an `owner/name` repo filter; anything else is null */
+export function parseRepoParam(value: string | null | undefined): RepoRef | null {
+  const match = (value ?? '').trim().match(/^([\w.-]+)\/([\w.-]+)$/)
+  return match ? { owner: match[1], name: match[2] } : null
+}
+
+/** Bound repositories, oldest first (the first one is the workspace's primary repository) */
+export async function listWorkspaceRepositories(db: Db, workspaceId: string): Promise<WorkspaceRepository[]> {
+  const { data } = await db
+    .from('workspace_repositories')
+    .select(REPOSITORY_COLUMNS)
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true })
+  return (data ?? []) as WorkspaceRepository[]
+}
+
+/**
+ * Resolve a `?repo=owner/name` query parameter against the workspace's repositories.
+ * No parameter means every repository; an unknown or malformed one is an error.
+ */
+export async function resolveRepoFilter(db: Db, workspaceId: string, value: string | null) {
+  const repos = await listWorkspaceRepositories(db, workspaceId)
+  if (!value) return { repos, repo: null }
+  const ref = parseRepoParam(value)
+  const repo = ref ? repos.find((r) => r.repo_owner === ref.owner && r.repo_name === ref.name) : undefined
+  if (!repo) return { repos, repo: null, error: `repo must be one of: ${repos.map(repoFullName).join(', ') || '(none bound)'}` }
+  return { repos, repo }
+}
+
+/**
+ * Point the workspace's github_repo_* columns at its oldest remaining repository, or clear them. The webhook secret
+ * moves too: the webhook route accepts the workspace secret, so an unbound repository's hook must stop matching it
+ */
+export async function syncPrimaryRepository(db: Db, workspaceId: string) {
+  const [primary] = await listWorkspaceRepositories(db, workspaceId)
+  // Secrets aren't among REPOSITORY_COLUMNS, so listings never carry them
+  const { data: secret } = primary
+    ? await db.from('workspace_repositories').select('webhook_secret').eq('id', primary.id).single()
+    : { data: null }
+  await db.from('workspaces').update({
+    github_repo_url: primary?.repo_url ?? null,
+    github_repo_owner: primary?.repo_owner ?? null,
+    github_repo_name: primary?.repo_name ?? null,
+    github_repo_id: primary?.github_repo_id ?? null,
+    github_repo_default_branch: primary?.default_branch ?? null,
+    github_repo_private: primary?.is_private ?? null,
+    github_webhook_id: primary?.webhook_id ?? null,
+    github_webhook_secret: secret?.webhook_secret ?? null,
+    updated_at: new Date().toISOString(),
+  }).eq('id', workspaceId)
+}
@@ -0,0 +1,243 @@
+// Incremental resync of bound repositories: fetch only what changed on GitHub since the stored cursors
+// (last seen commit date, PR and issue update times) and reconcile it with what the webhooks stored,
+// so missed deliveries don't leave the data silently drifting
+
+import { createServiceClient } from './supabase'
+import {
+  fetchCommitsSince,
+  fetchIssuesUpdatedSince,
+  fetchPullRequestsUpdatedSince,
+  issueRow,
+  pullRequestRow,
+  storeCommits,
+  syncCodeowners,
+} from './github-api'
+import { resolveGitHubToken } from './github-app'
+import { listWorkspaceRepositories, repoFullName, type WorkspaceRepository } from './repositories'
+
+export interface ResyncCounts {
+  added: number
+  updated: number
+  unchanged: number
+}
+
+export interface RepoResyncSummary {
+  repo: string
+  commits: ResyncCounts
+  pullRequests: ResyncCounts
+  issues: ResyncCounts
+  /** What was added or changed: commit SHAs, PR and issue numbers */
+  changes: { commits: string[]; pullRequests: number[]; issues: number[] }
+  /** Listings that hit the page cap; their cursors stay put, since the oldest part of the window wasn't fetched */
+  truncated: Array<'commits' | 'pullRequests' | 'issues'>
+  error: string | null
+  elapsed_ms: number
+}
+
+export type ResyncChange = 'added' | 'updated' | 'unchanged'
+
+type Db = ReturnType<typeof createServiceClient>
+
+// Commit dates are author dates, which can predate the push that brought the commit in
+const COMMIT_CURSOR_OVERLAP_MS = 3 * 24 * 3600 * 1000
+// PR and issue update times come from GitHub's clock; the overlap covers updates landing while a resync runs
+const UPDATE_CURSOR_OVERLAP_MS = 10 * 60 * 1000
+
+// Fields GitHub can change after creation; a stored row differing on any of them is reconciled
+const PR_FIELDS = ['title', 'state', 'head_branch', 'base_branch', 'closed_at', 'merged_at'] as const
+const ISSUE_FIELDS = ['title', 'state', 'assignee_github_username', 'labels', 'closed_at'] as const
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T/
+
+/** Start of the resync window: the stored cursor (or bind time when none) minus an overlap */
+export function cursorSince(cursor: string | null, fallback: string, overlapMs: number): string {
+  const from = new Date(cursor ?? fallback).getTime()
+  return new Date(from - overlapMs).toISOString()
+}
+
+/**
+ * The cursor to store after a listing: the newest timestamp seen, unless the listing was truncated. Listings run
+ * newest first, so moving past a truncated one would skip its unfetched older part for good
+ */
+export function nextCursor(cursor: string | null, seen: Array<string | null | undefined>, truncated: boolean): string | null {
+  return truncated ? cursor : advanceCursor(cursor, seen)
+}
+
+/** Advance a cursor to the newest timestamp seen, never moving it backwards */
+export function advanceCursor(cursor: string | null, seen: Array<string | null | undefined>): string | null {
+  let latest = cursor ? new Date(cursor).getTime() : null
+  for (const value of seen) {
+    if (!value) continue
+    const time = new Date(value).getTime()
+    if (!Number.isNaN(time) && (latest === null || time > latest)) latest = time
+  }
+  return latest === null ? null : new Date(latest).toISOString()
+}
+
+// Postgres returns timestamps as `+00:00` where GitHub sends `Z`, and null where the REST row has undefined
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a == null || b == null) return a == null && b == null
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => sameValue(v, b[i]))
+  }
+  if (typeof a === 'string' && typeof b === 'string' && ISO_TIMESTAMP.test(a) && ISO_TIMESTAMP.test(b)) {
+    return new Date(a).getTime() === new Date(b).getTime()
+  }
+  return a === b
+}
+
+/** Compare the stored row with the one built from GitHub on the fields that can change */
+export function classifyChange(
+  stored: Record<string, unknown> | undefined,
+  incoming: Record<string, unknown>,
+  fields: readonly string[],
+): ResyncChange {
+  if (!stored) return 'added'
+  return fields.every((f) => sameValue(stored[f], incoming[f])) ? 'unchanged' : 'updated'
+}
+
+function countChanges(changes: ResyncChange[]): ResyncCounts {
+  return {
+    added: changes.filter((c) => c === 'added').length,
+    updated: changes.filter((c) => c === 'updated').length,
+    unchanged: changes.filter((c) => c === 'unchanged').length,
+  }
+}
+
+function chunks<T>(items: T[], size = 200): T[][] {
+  const out: T[][] = []
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size))
+  return out
+}
+
+/** Resync one repository from its cursors, store what changed and move the cursors forward */
+export async function resyncRepository(db: Db, token: string, workspaceId: string, repo: WorkspaceRepository): Promise<RepoResyncSummary> {
+  const start = Date.now()
+  const { repo_owner: owner, repo_name: name } = repo
+  const empty = { added: 0, updated: 0, unchanged: 0 }
+  const summary: RepoResyncSummary = {
+    repo: repoFullName(repo),
+    commits: empty, pullRequests: empty, issues: empty,
+    changes: { commits: [], pullRequests: [], issues: [] },
+    truncated: [],
+    error: null,
+    elapsed_ms: 0,
+  }
+
+  try {
+    const [commitListing, prListing, issueListing] = await Promise.all([
+      fetchCommitsSince(token, owner, name, cursorSince(repo.commits_cursor, repo.created_at, COMMIT_CURSOR_OVERLAP_MS)),
+      fetchPullRequestsUpdatedSince(token, owner, name, cursorSince(repo.pull_requests_cursor, repo.created_at, UPDATE_CURSOR_OVERLAP_MS)),
+      fetchIssuesUpdatedSince(token, owner, name, cursorSince(repo.issues_cursor, repo.created_at, UPDATE_CURSOR_OVERLAP_MS)),
+    ])
+    const commits = commitListing.items
+    const prs = prListing.items
+    const issues = issueListing.items
+
+    // Commits: store the ones no webhook delivered; ones a force push had dropped are reachable again
+    const storedCommits = new Map<string, { is_unreachable: boolean | null }>()
+    for (const shas of chunks(commits.map((c) => c.sha))) {
+      const { data } = await db.from('commits').select('sha, is_unreachable').eq('workspace_id', workspaceId).in('sha', shas)
+      for (const c of data ?? []) storedCommits.set(c.sha, c)
+    }
+    const commitChanges = commits.map((c): ResyncChange => {
+      const stored = storedCommits.get(c.sha)
+      return !stored ? 'added' : stored.is_unreachable ? 'updated' : 'unchanged'
+    })
+    const missing = commits.filter((_, i) => commitChanges[i] === 'added')
+    const restored = commits.filter((_, i) => commitChanges[i] === 'updated').map((c) => c.sha)
+    await storeCommits(token, owner, name, workspaceId, missing)
+    for (const shas of chunks(restored)) {
+      await db.from('commits').update({ is_unreachable: false, unreachable_at: null }).eq('workspace_id', workspaceId).in('sha', shas)
+    }
+
+    // Pull requests
+    const prRows = prs.map((pr) => pullRequestRow(pr, owner, name, workspaceId))
+    const storedPRs = new Map<number, Record<string, unknown>>()
+    for (const numbers of chunks(prRows.map((r) => r.github_pr_number))) {
+      const { data } = await db.from('pull_requests').select(`github_pr_number, ${PR_FIELDS.join(', ')}`)
+        .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', name).in('github_pr_number', numbers)
+      for (const row of (data ?? []) as unknown as Array<Record<string, unknown>>) storedPRs.set(row.github_pr_number as number, row)
+    }
+    const prChanges = prRows.map((r) => classifyChange(storedPRs.get(r.github_pr_number), r, PR_FIELDS))
+    const changedPRs = prRows.filter((_, i) => prChanges[i] !== 'unchanged')
+    // One row at a time: a bulk upsert would null the line counts the list endpoint doesn't return
+    for (const row of changedPRs) {
+      await db.from('pull_requests').upsert(row, { onConflict: 'workspace_id,github_pr_number,repo_owner,repo_name' })
+    }
+
+    // Issues
+    const issueRows = issues.map((issue) => issueRow(issue, owner, name, workspaceId))
+    const storedIssues = new Map<number, Record<string, unknown>>()
+    for (const numbers of chunks(issueRows.map((r) => r.github_issue_number))) {
+      const { data } = await db.from('issues').select(`github_issue_number, ${ISSUE_FIELDS.join(', ')}`)
+        .eq('workspace_id', workspaceId).eq('repo_owner', owner).eq('repo_name', name).in('github_issue_number', numbers)
+      for (const row of (data ?? []) as unknown as Array<Record<string, unknown>>) storedIssues.set(row.github_issue_number as number, row)
+    }
+    const issueChanges = issueRows.map((r) => classifyChange(storedIssues.get(r.github_issue_number), r, ISSUE_FIELDS))
+    const changedIssues = issueRows.filter((_, i) => issueChanges[i] !== 'unchanged')
+    for (const row of changedIssues) {
+      await db.from('issues').upsert(row, { onConflict: 'workspace_id,github_issue_number,repo_owner,repo_name' })
+    }
+
+    // CODEOWNERS can change without any commit reaching a webhook; not worth failing the resync over
+    if (repo.default_branch) await syncCodeowners(token, owner, name, workspaceId, repo.default_branch).catch(console.error)
+
+    summary.commits = countChanges(commitChanges)
+    summary.pullRequests = countChanges(prChanges)
+    summary.issues = countChanges(issueChanges)
+    summary.changes = {
+      commits: [...missing.map((c) => c.sha), ...restored],
+      pullRequests: changedPRs.map((r) => r.github_pr_number),
+      issues: changedIssues.map((r) => r.github_issue_number),
+    }
+    summary.truncated = ([['commits', commitListing], ['pullRequests', prListing], ['issues', issueListing]] as const)
+      .filter(([, listing]) => listing.truncated).map(([kind]) => kind)
+    summary.elapsed_ms = Date.now() - start
+
+    await db.from('workspace_repositories').update({
+      commits_cursor: nextCursor(repo.commits_cursor, commits.map((c) => c.commit.author.date), commitListing.truncated),
+      pull_requests_cursor: nextCursor(repo.pull_requests_cursor, prs.map((pr) => pr.updated_at), prListing.truncated),
+      issues_cursor: nextCursor(repo.issues_cursor, issues.map((issue) => issue.updated_at), issueListing.truncated),
+      last_resync_at: new Date().toISOString(),
+      last_resync_summary: summary,
+      updated_at: new Date().toISOString(),
+    }).eq('id', repo.id)
+  } catch (e: unknown) {
+    // Cursors stay put so the next resync covers the same window
+    summary.error = e instanceof Error ? e.message : String(e)
+    summary.elapsed_ms = Date.now() - start
+    await db.from('workspace_repositories').update({
+      last_resync_at: new Date().toISOString(),
+      last_resync_summary: summary,
+      updated_at: new Date().toISOString(),
+    }).eq('id', repo.id)
+  }
+
+  return summary
+}
+
+/** True when a resync stored or changed anything */
+export function resyncChangedData(summaries: RepoResyncSummary[]) {
+  return summaries.some((s) => [s.commits, s.pullRequests, s.issues].some((c) => c.added + c.updated > 0))
+}
+
+/**
+ * Resync every bound repository of a workspace, or only `repo` (`owner/name`). Each repository uses the
+ * GitHub App installation token when one covers it, else the given token, else the one stored at bind time.
+ */
+export async function resyncWorkspace(
+  db: Db,
+  workspaceId: string,
+  { token, repo }: { token?: string | null; repo?: string | null } = {},
+): Promise<{ results: RepoResyncSummary[]; error?: string }> {
+  const repos = (await listWorkspaceRepositories(db, workspaceId)).filter((r) => !repo || repoFullName(r) === repo)
+  const results: RepoResyncSummary[] = []
+  // Sequential on purpose: each repository already runs its three listings in parallel
+  for (const r of repos) {
+    const resolved = await resolveGitHubToken(db, workspaceId, { owner: r.repo_owner, name: r.repo_name }, token)
+    if (!resolved) return { results, error: 'No GitHub token available for this workspace' }
+    results.push(await resyncRepository(db, resolved.token, workspaceId, r))
+  }
+  return { results }
+}
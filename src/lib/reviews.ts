@@ -0,0 +1,285 @@
+// AR-FLOW-002: Pull request reviews from pull_request_review / pull_request_review_comment webhooks
+// Pickup time is measured to the first real review rather than to the first review request
+
+import { createServiceClient } from './supabase'
+import { calculateKnowledgeConcentration } from './heuristics'
+
+export type ReviewState = 'approved' | 'changes_requested' | 'commented' | 'dismissed'
+
+export const REVIEW_STATES: ReviewState[] = ['approved', 'changes_requested', 'commented', 'dismissed']
+
+export interface PullRequestReview {
+  github_pr_number: number
+  repo_owner: string
+  repo_name: string
+  reviewer_github_username: string | null
+  state: string
+  submitted_at: string | null
+  comment_count: number | null
+}
+
+export interface ReviewedPullRequest {
+  github_pr_number: number
+  repo_owner: string
+  repo_name: string
+  state: string
+  author_github_username: string | null
+  opened_at: string | null
+  first_review_at: string | null
+  /** Logins from the PR payload's requested_reviewers */
+  requested_reviewers: string[]
+}
+
+export interface ReviewerStats {
+  reviewer: string
+  reviews: number
+  prsReviewed: number
+  approvals: number
+  changesRequested: number
+  comments: number
+  /** Open PRs currently waiting on this reviewer */
+  pendingRequests: number
+  medianResponseHours: number | null
+}
+
+/** GitHub sends review states upper-case in the REST API and lower-case in webhooks */
+export function normalizeReviewState(state: string | null | undefined): ReviewState | null {
+  const normalized = (state ?? '').toLowerCase() as ReviewState
+  return REVIEW_STATES.includes(normalized) ? normalized : null
+}
+
+/** Earliest submitted review by someone other than the PR author; replies from the author don't count */
+export function firstRealReviewAt(reviews: PullRequestReview[], author: string | null): string | null {
+  const times = reviews
+    .filter((r) => r.submitted_at && r.reviewer_github_username && r.reviewer_github_username !== author)
+    .map((r) => r.submitted_at!)
+    .sort()
+  return times[0] ?? null
+}
+
+/** PR numbers repeat across a workspace's repositories */
+export function pullRequestKey(pr: { repo_owner: string; repo_name: string; github_pr_number: number }): string {
+  return `${pr.repo_owner}/${pr.repo_name}#${pr.github_pr_number}`
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Per-reviewer load and responsiveness. Response time runs from the review request
+ * (or PR open when no request was recorded) to the reviewer's first review on that PR.
+ */
+export function computeReviewerStats(reviews: PullRequestReview[], prs: ReviewedPullRequest[]): ReviewerStats[] {
+  const prByKey = new Map(prs.map((pr) => [pullRequestKey(pr), pr]))
+  const stats = new Map<string, ReviewerStats>()
+  // Earliest review per reviewer per PR, for response times
+  const firstReviews = new Map<string, Map<string, string>>()
+  const entry = (reviewer: string) => {
+    if (!stats.has(reviewer)) {
+      stats.set(reviewer, {
+        reviewer, reviews: 0, prsReviewed: 0, approvals: 0, changesRequested: 0, comments: 0,
+        pendingRequests: 0, medianResponseHours: null,
+      })
+      firstReviews.set(reviewer, new Map())
+    }
+    return stats.get(reviewer)!
+  }
+
+  for (const review of reviews) {
+    const reviewer = review.reviewer_github_username
+    const key = pullRequestKey(review)
+    const pr = prByKey.get(key)
+    if (!reviewer || reviewer === pr?.author_github_username) continue
+    const s = entry(reviewer)
+    const reviewed = firstReviews.get(reviewer)!
+    s.reviews++
+    s.comments += review.comment_count ?? 0
+    if (review.state === 'approved') s.approvals++
+    if (review.state === 'changes_requested') s.changesRequested++
+    const first = reviewed.get(key)
+    if (first === undefined || (review.submitted_at && (first === '' || review.submitted_at < first))) {
+      reviewed.set(key, review.submitted_at ?? '')
+    }
+  }
+
+  for (const s of stats.values()) {
+    const reviewed = firstReviews.get(s.reviewer)!
+    s.prsReviewed = reviewed.size
+    const responses: number[] = []
+    for (const [key, reviewedAt] of reviewed) {
+      const pr = prByKey.get(key)
+      const start = pr?.first_review_at ?? pr?.opened_at
+      if (!reviewedAt || !start) continue
+      const hours = (new Date(reviewedAt).getTime() - new Date(start).getTime()) / 3600000
+      if (hours >= 0) responses.push(hours)
+    }
+    const responseHours = median(responses)
+    s.medianResponseHours = responseHours === null ? null : Math.round(responseHours * 10) / 10
+  }
+
+  for (const pr of prs) {
+    if (pr.state !== 'open') continue
+    for (const reviewer of pr.requested_reviewers) entry(reviewer).pendingRequests++
+  }
+
+  return [...stats.values()]
+    .sort((a, b) => b.reviews + b.pendingRequests - (a.reviews + a.pendingRequests) || a.reviewer.localeCompare(b.reviewer))
+}
+
+/** Reviewer stats for the last `days` of reviews, including pending requests on open PRs */
+export async function getReviewerStats(db: ReturnType<typeof createServiceClient>, workspaceId: string, days = 30) {
+  const since = new Date(Date.now() - days * 24 * 3600 * 1000).toISOString()
+  const { data: reviews } = await db
+    .from('pr_reviews')
+    .select('github_pr_number, repo_owner, repo_name, reviewer_github_username, state, submitted_at, comment_count')
+    .eq('workspace_id', workspaceId)
+    .gt('submitted_at', since)
+    .limit(5000)
+
+  // Reviewed PRs (for authors and request times) plus open PRs (for pending review requests)
+  const prColumns = 'github_pr_number, repo_owner, repo_name, state, author_github_username, opened_at, first_review_at, raw_payload'
+  const reviewedKeys = new Set((reviews ?? []).map(pullRequestKey))
+  const prNumbers = [...new Set((reviews ?? []).map((r) => r.github_pr_number as number))]
+  const [{ data: reviewedPRs }, { data: openPRs }] = await Promise.all([
+    prNumbers.length > 0
+      ? db.from('pull_requests').select(prColumns).eq('workspace_id', workspaceId).in('github_pr_number', prNumbers)
+      : Promise.resolve({ data: [] as Array<Record<string, unknown>> }),
+    db.from('pull_requests').select(prColumns).eq('workspace_id', workspaceId).eq('state', 'open'),
+  ])
+
+  // The number lookup also returns other repositories' PRs with the same numbers
+  const prs = new Map<string, Record<string, unknown>>()
+  for (const pr of (reviewedPRs ?? []) as Array<Record<string, unknown>>) {
+    const key = pullRequestKey(pr as unknown as ReviewedPullRequest)
+    if (reviewedKeys.has(key)) prs.set(key, pr)
+  }
+  for (const pr of (openPRs ?? []) as Array<Record<string, unknown>>) prs.set(pullRequestKey(pr as unknown as ReviewedPullRequest), pr)
+
+  return computeReviewerStats(reviews ?? [], [...prs.values()].map((pr) => ({
+    github_pr_number: pr.github_pr_number as number,
+    repo_owner: pr.repo_owner as string,
+    repo_name: pr.repo_name as string,
+    state: pr.state as string,
+    author_github_username: (pr.author_github_username as string) ?? null,
+    opened_at: (pr.opened_at as string) ?? null,
+    first_review_at: (pr.first_review_at as string) ?? null,
+    requested_reviewers: requestedReviewers(pr.raw_payload),
+  })))
+}
+
+/** Logins from a stored pull_request payload's requested_reviewers */
+export function requestedReviewers(rawPayload: unknown): string[] {
+  return ((rawPayload as { requested_reviewers?: Array<{ login?: string }> } | null)?.requested_reviewers ?? [])
+    .map((r) => r.login)
+    .filter((login): login is string => !!login)
+}
+
+// ---- AR-FLOW: Reviewer suggestions ----
+
+export interface ReviewerSuggestion {
+  reviewer: string
+  score: number
+  /** Average share of the changed files' authorship, 0–1 */
+  ownership: number
+  pendingRequests: number
+  medianResponseHours: number | null
+  alreadyRequested: boolean
+  reasons: string[]
+}
+
+export const REVIEWER_SCORE_WEIGHTS = { ownership: 0.5, availability: 0.3, responsiveness: 0.2 }
+
+// Same cut-off the dashboard uses for critical (single-owner) files
+const DOMINANT_CONCENTRATION = 80
+// Ownership of files a candidate already dominates counts half, so reviews also reach the next most knowledgeable people
+const DOMINANT_OWNERSHIP_FACTOR = 0.5
+
+/**
+ * Rank reviewers for a PR by knowledge of the changed files, open review load and recent
+ * review latency. The PR author is never suggested.
+ */
+export function suggestReviewers({
+  changedFiles,
+  authorship,
+  reviewerStats,
+  prAuthor,
+  requested = [],
+  limit = 3,
+}: {
+  changedFiles: string[]
+  authorship: Array<{ file_path: string; author_github_username: string; lines_added: number; lines_modified: number }>
+  reviewerStats: ReviewerStats[]
+  prAuthor: string | null
+  requested?: string[]
+  limit?: number
+}): ReviewerSuggestion[] {
+  const changed = new Set(changedFiles)
+  const byFile = new Map<string, typeof authorship>()
+  for (const row of authorship) {
+    if (!changed.has(row.file_path)) continue
+    if (!byFile.has(row.file_path)) byFile.set(row.file_path, [])
+    byFile.get(row.file_path)!.push(row)
+  }
+
+  const ownership = new Map<string, { share: number; files: number; dominated: number }>()
+  for (const rows of byFile.values()) {
+    const total = rows.reduce((s, r) => s + r.lines_added + r.lines_modified, 0)
+    if (total === 0) continue
+    const { dominant_author, concentration } = calculateKnowledgeConcentration(rows)
+    const perAuthor = new Map<string, number>()
+    for (const r of rows) perAuthor.set(r.author_github_username, (perAuthor.get(r.author_github_username) ?? 0) + r.lines_added + r.lines_modified)
+    for (const [author, lines] of perAuthor) {
+      const dominant = author === dominant_author && concentration > DOMINANT_CONCENTRATION
+      const entry = ownership.get(author) ?? { share: 0, files: 0, dominated: 0 }
+      entry.share += (lines / total) * (dominant ? DOMINANT_OWNERSHIP_FACTOR : 1)
+      entry.files++
+      if (dominant) entry.dominated++
+      ownership.set(author, entry)
+    }
+  }
+
+  const statsByReviewer = new Map(reviewerStats.map((s) => [s.reviewer, s]))
+  const candidates = new Set([...ownership.keys(), ...statsByReviewer.keys()])
+  if (prAuthor) candidates.delete(prAuthor)
+
+  const filesWithHistory = Math.max(1, [...byFile.values()].length)
+  const suggestions: ReviewerSuggestion[] = []
+  for (const reviewer of candidates) {
+    const owned = ownership.get(reviewer)
+    const stats = statsByReviewer.get(reviewer)
+    const pending = stats?.pendingRequests ?? 0
+    const responseHours = stats?.medianResponseHours ?? null
+
+    const ownershipScore = owned ? owned.share / filesWithHistory : 0
+    const availability = 1 / (1 + pending)
+    // 1 for an immediate response, 0.5 at a day; unknown latency scores neutral
+    const responsiveness = responseHours === null ? 0.5 : 24 / (24 + responseHours)
+    const score = REVIEWER_SCORE_WEIGHTS.ownership * ownershipScore +
+      REVIEWER_SCORE_WEIGHTS.availability * availability +
+      REVIEWER_SCORE_WEIGHTS.responsiveness * responsiveness
+
+    const reasons: string[] = []
+    if (owned) reasons.push(`Knows ${owned.files} of ${changed.size} changed file${changed.size !== 1 ? 's' : ''} (${Math.round(ownershipScore * 100)}% ownership)`)
+    if (owned?.dominated) reasons.push(`Dominant author of ${owned.dominated} changed file${owned.dominated !== 1 ? 's' : ''}, weighted down to spread knowledge`)
+    reasons.push(pending === 0 ? 'No open review requests' : `${pending} open review request${pending !== 1 ? 's' : ''}`)
+    reasons.push(responseHours === null ? 'No recent reviews' : `Median review response ${responseHours}h`)
+
+    suggestions.push({
+      reviewer,
+      score: Math.round(score * 100) / 100,
+      ownership: Math.round(ownershipScore * 100) / 100,
+      pendingRequests: pending,
+      medianResponseHours: responseHours,
+      alreadyRequested: requested.includes(reviewer),
+      reasons,
+    })
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.reviewer.localeCompare(b.reviewer))
+    .slice(0, limit)
+}
@@ -0,0 +1,70 @@
+// Treemap layout for the Bus Factor tab's directory view; free of server imports so the dashboard page can use it
+
+export interface TreemapRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Squarified treemap layout (Bruls, Huizing & van Wijk): tiles with areas proportional to `values`, returned
+ * in input order, filling a `width` × `height` box with tiles as close to square as the values allow.
+ */
+export function squarify(values: number[], width: number, height: number): TreemapRect[] {
+  const rects: TreemapRect[] = values.map(() => ({ x: 0, y: 0, width: 0, height: 0 }))
+  const total = values.reduce((s, v) => s + Math.max(0, v), 0)
+  if (total <= 0 || width <= 0 || height <= 0) return rects
+
+  const scale = (width * height) / total
+  const area = (i: number) => values[i] * scale
+  const order = values.map((_, i) => i).filter((i) => values[i] > 0).sort((a, b) => values[b] - values[a])
+  let x = 0, y = 0, w = width, h = height
+
+  // Worst aspect ratio of a row laid along a side of length `side`
+  const worst = (row: number[], side: number) => {
+    const sum = row.reduce((s, i) => s + area(i), 0)
+    const areas = row.map(area)
+    return Math.max((side * side * Math.max(...areas)) / (sum * sum), (sum * sum) / (side * side * Math.min(...areas)))
+  }
+
+  const layoutRow = (row: number[]) => {
+    const sum = row.reduce((s, i) => s + area(i), 0)
+    if (w >= h) {
+      // Column along the left edge
+      const columnWidth = Math.min(w, sum / h)
+      let cy = y
+      for (const i of row) {
+        const tileHeight = area(i) / columnWidth
+        rects[i] = { x, y: cy, width: columnWidth, height: tileHeight }
+        cy += tileHeight
+      }
+      x += columnWidth
+      w = Math.max(0, w - columnWidth)
+    } else {
+      // Row along the top edge
+      const rowHeight = Math.min(h, sum / w)
+      let cx = x
+      for (const i of row) {
+        const tileWidth = area(i) / rowHeight
+        rects[i] = { x: cx, y, width: tileWidth, height: rowHeight }
+        cx += tileWidth
+      }
+      y += rowHeight
+      h = Math.max(0, h - rowHeight)
+    }
+  }
+
+  let row: number[] = []
+  for (const i of order) {
+    const side = Math.min(w, h)
+    if (row.length === 0 || worst([...row, i], side) <= worst(row, side)) {
+      row.push(i)
+    } else {
+      layoutRow(row)
+      row = [i]
+    }
+  }
+  if (row.length > 0) layoutRow(row)
+  return rects
+}
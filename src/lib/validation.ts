@@ -53,6 +53,65 @@ export const resolveAlertSchema = z.object({
   alert_id: z.string().uuid('Invalid alert ID'),
 })
 
+// PATCH /alerts — a bare { alert_id } still resolves, as before the lifecycle actions existed
+export const updateAlertSchema = resolveAlertSchema.extend({
+  action: z.enum(['resolve', 'reopen', 'acknowledge', 'unacknowledge', 'snooze', 'unsnooze', 'assign']).default('resolve'),
+  snoozed_until: z.string().datetime({ offset: true }).optional(),
+  assigned_to: z.string().uuid('Invalid user ID').nullable().optional(),
+}).refine((b) => b.action !== 'snooze' || !!b.snoozed_until, { message: 'snoozed_until is required to snooze', path: ['snoozed_until'] })
+  .refine((b) => b.action !== 'assign' || b.assigned_to !== undefined, { message: 'assigned_to is required to assign', path: ['assigned_to'] })
+
+export const createAlertCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment is required').max(2000),
+})
+
+// === Heuristic settings schemas ===
+
+export const ruleOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  severity: z.enum(['critical', 'warning', 'info']).optional(),
+})
+
+export const heuristicSettingsSchema = z.object({
+  inactive_branch_days: z.number().int().min(1).max(90).optional(),
+  stale_pr_hours: z.number().int().min(1).max(720).optional(),
+  cycle_time_threshold_hours: z.number().int().min(1).max(2160).optional(),
+  wip_threshold: z.number().int().min(1).max(50).optional(),
+  coding_time_threshold_hours: z.number().int().min(1).max(2160).optional(),
+  deployment_time_threshold_hours: z.number().int().min(1).max(2160).optional(),
+  rule_overrides: z.record(z.string(), ruleOverrideSchema).optional(),
+})
+
+export const runHeuristicsSchema = z.object({
+  rule_id: z.string().min(1).max(50).optional(),
+})
+
+// === Escalation policy schemas ===
+
+export const escalationPolicySchema = z.object({
+  steps: z.array(z.object({
+    after_hours: z.number().min(0).max(168),
+    action: z.enum(['notify_assignee', 'notify_admins', 'discord', 'create_alert']),
+  })).min(1, 'At least one step is required').max(10),
+})
+
+// === Notification schemas ===
+
+export const markNotificationsReadSchema = z.object({
+  notification_ids: z.array(z.string().uuid()).max(100).optional(),
+})
+
+// === Identity schemas ===
+
+export const mergeIdentitiesSchema = z.object({
+  identities: z.array(z.object({
+    kind: z.enum(['github', 'email', 'discord', 'phone']),
+    value: z.string().trim().min(1).max(255),
+  })).min(1, 'At least one identity is required').max(50),
+  display_name: z.string().trim().min(1).max(100).optional(),
+  person_id: z.string().uuid('Invalid person ID').optional(),
+})
+
 // === Webhook schemas ===
 
 export const discordWebhookMessageSchema = z.object({
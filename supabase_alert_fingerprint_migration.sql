@@ -0,0 +1,47 @@
+-- Add fingerprint-based deduplication columns to alerts
+-- Run this in Supabase SQL Editor after supabase_alert_lifecycle_migration.sql
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS occurrence_count INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Existing escalations keep pointing at their original alert
+UPDATE alerts SET fingerprint = 'escalation:' || (metadata->>'original_alert_id')
+WHERE type = 'escalation' AND fingerprint IS NULL AND metadata ? 'original_alert_id';
+
+-- Open alerts raised before fingerprints get the one their rule computes now, so the next pass refreshes them
+-- (keeping acknowledgement, assignee, snooze and comments) instead of raising a copy. Those alerts predate
+-- multi-repository workspaces, so their subject is in the workspace's own repository
+WITH legacy AS (
+  SELECT a.id, a.workspace_id, a.created_at,
+    a.type || ':' || CASE a.type
+      WHEN 'inactive_branch' THEN r.repo || ':' || (a.metadata->>'branch')
+      WHEN 'stale_pr' THEN r.repo || '#' || (a.metadata->>'pr_number')
+      WHEN 'assigned_issue_no_commits' THEN r.repo || '#' || (a.metadata->>'issue_number')
+      WHEN 'multiple_blockers' THEN r.repo
+      WHEN 'high_wip' THEN r.repo || '@' || (a.metadata->>'author')
+      WHEN 'dependency_overlap' THEN r.repo || ':' || (a.metadata->>'file')
+    END AS fingerprint
+  FROM alerts a
+  JOIN workspaces w ON w.id = a.workspace_id
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(NULLIF(w.github_repo_owner, '') || '/' || NULLIF(w.github_repo_name, ''), a.workspace_id::text) AS repo
+  ) r
+  WHERE a.resolved = false AND a.fingerprint IS NULL
+),
+-- Only the newest of several legacy copies, and none that an open fingerprinted alert already covers
+ranked AS (
+  SELECT l.id, l.fingerprint, ROW_NUMBER() OVER (PARTITION BY l.workspace_id, l.fingerprint ORDER BY l.created_at DESC) AS n
+  FROM legacy l
+  WHERE l.fingerprint IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM alerts o WHERE o.workspace_id = l.workspace_id AND o.fingerprint = l.fingerprint AND o.resolved = false
+    )
+)
+UPDATE alerts SET fingerprint = ranked.fingerprint
+FROM ranked
+WHERE alerts.id = ranked.id AND ranked.n = 1;
+
+-- At most one open alert per fingerprint
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alerts_open_fingerprint ON alerts(workspace_id, fingerprint) WHERE resolved = false AND fingerprint IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_alerts_fingerprint ON alerts(workspace_id, fingerprint, created_at DESC);
@@ -0,0 +1,24 @@
+-- Add alert lifecycle columns (acknowledge, snooze, assign, resolution reason) and create alert_comments table
+-- Run this in Supabase SQL Editor
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolved_by UUID REFERENCES users(id) ON DELETE SET NULL;
+-- 'manual' when a member resolves it, 'auto' when a heuristic pass no longer detects the condition
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS resolved_reason TEXT CHECK (resolved_reason IN ('manual', 'auto'));
+
+CREATE TABLE IF NOT EXISTS alert_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES alerts(id) ON DELETE CASCADE,
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes for alert thread lookups and the assignee view
+CREATE INDEX IF NOT EXISTS idx_alert_comments_alert ON alert_comments(alert_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_alerts_assigned ON alerts(workspace_id, assigned_to) WHERE resolved = false;
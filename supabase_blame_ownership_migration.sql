@@ -0,0 +1,22 @@
+-- Create blame_ownership table: current git blame of the default branch per file and author
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS blame_ownership (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  repo_owner TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  author_github_username TEXT NOT NULL,
+  -- Lines of the file this author last touched
+  lines INTEGER NOT NULL DEFAULT 0,
+  -- Same lines weighted by the age of their commit at computed_at (half-life 180 days)
+  weighted_lines DOUBLE PRECISION NOT NULL DEFAULT 0,
+  last_commit_at TIMESTAMPTZ,
+  -- Blob the blame was computed from; unchanged files are skipped on the next run
+  blob_sha TEXT,
+  computed_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workspace_id, repo_owner, repo_name, file_path, author_github_username)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blame_ownership_workspace ON blame_ownership(workspace_id, repo_owner, repo_name);
@@ -0,0 +1,7 @@
+-- Add CODEOWNERS columns to workspace_repositories (fetched during repo sync)
+-- Run this in Supabase SQL Editor
+
+-- Where GitHub found the file (.github/CODEOWNERS, CODEOWNERS or docs/CODEOWNERS); NULL when the repository has none
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS codeowners_path TEXT;
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS codeowners_content TEXT;
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS codeowners_synced_at TIMESTAMPTZ;
@@ -0,0 +1,20 @@
+-- Create deployments table fed by deployment_status webhooks, used for DORA metrics
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS deployments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  github_deployment_id BIGINT NOT NULL,
+  environment TEXT NOT NULL DEFAULT 'production',
+  sha TEXT,
+  ref TEXT,
+  state TEXT NOT NULL CHECK (state IN ('pending', 'queued', 'in_progress', 'success', 'failure', 'error')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  status_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  lead_time_seconds INTEGER,
+  commit_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (workspace_id, github_deployment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployments_workspace_env_finished ON deployments(workspace_id, environment, finished_at DESC);
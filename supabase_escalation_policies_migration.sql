@@ -0,0 +1,33 @@
+-- Create escalation_policies and notifications tables, and record escalation history on alerts
+-- Run this in Supabase SQL Editor after supabase_alert_fingerprint_migration.sql
+
+-- Ordered steps, e.g. [{ "after_hours": 0, "action": "notify_assignee" }, { "after_hours": 2, "action": "notify_admins" }, { "after_hours": 4, "action": "discord" }]
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  workspace_id UUID PRIMARY KEY REFERENCES workspaces(id) ON DELETE CASCADE,
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  alert_id UUID REFERENCES alerts(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE alerts ADD COLUMN IF NOT EXISTS escalation_log JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Alerts escalated before policies existed count as having run the default 4h create_alert step
+UPDATE alerts a SET escalation_log = jsonb_build_array(jsonb_build_object(
+  'action', 'create_alert', 'after_hours', 4, 'executed_at', e.created_at, 'result', 'sent'
+))
+FROM alerts e
+WHERE e.type = 'escalation' AND e.metadata->>'original_alert_id' = a.id::text AND a.escalation_log = '[]'::jsonb;
+
+-- Index for the header notification bell
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(workspace_id, user_id, created_at DESC);
@@ -0,0 +1,25 @@
+-- Create github_installations table and link workspaces / repositories to GitHub App installations
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS github_installations (
+  installation_id BIGINT PRIMARY KEY,
+  account_login TEXT NOT NULL,
+  account_type TEXT,
+  -- 'all' or 'selected' repositories of the account
+  repository_selection TEXT,
+  suspended_at TIMESTAMPTZ,
+  -- Last minted installation token, shared across server instances until shortly before it expires
+  access_token TEXT,
+  access_token_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Installation added from the workspace's Settings
+ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS github_installation_id BIGINT
+  REFERENCES github_installations(installation_id) ON DELETE SET NULL;
+-- Installation that can read this repository; its token is used instead of the binding user's OAuth token
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS installation_id BIGINT
+  REFERENCES github_installations(installation_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workspace_repositories_installation ON workspace_repositories(installation_id);
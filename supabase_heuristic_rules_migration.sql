@@ -0,0 +1,5 @@
+-- Add per-workspace heuristic rule overrides (enable/disable, severity) to heuristic_settings
+-- Run this in Supabase SQL Editor after supabase_heuristic_settings_migration.sql
+
+-- Keyed by rule id, e.g. { "AR-HEU-002": { "enabled": false }, "AR-HEU-007": { "severity": "critical" } }
+ALTER TABLE heuristic_settings ADD COLUMN IF NOT EXISTS rule_overrides JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,18 @@
+-- Create heuristic_runs table recording every heuristic detection pass (scheduled, manual or webhook-triggered)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS heuristic_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual', 'webhook')),
+  rule_id TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  alerts_generated INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Index for the Alerts tab history (latest runs first)
+CREATE INDEX IF NOT EXISTS idx_heuristic_runs_workspace ON heuristic_runs(workspace_id, started_at DESC);
@@ -0,0 +1,14 @@
+-- Create heuristic_settings table for per-workspace heuristic thresholds
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS heuristic_settings (
+  workspace_id UUID PRIMARY KEY REFERENCES workspaces(id) ON DELETE CASCADE,
+  inactive_branch_days INTEGER NOT NULL DEFAULT 3 CHECK (inactive_branch_days BETWEEN 1 AND 90),
+  stale_pr_hours INTEGER NOT NULL DEFAULT 48 CHECK (stale_pr_hours BETWEEN 1 AND 720),
+  cycle_time_threshold_hours INTEGER NOT NULL DEFAULT 72 CHECK (cycle_time_threshold_hours BETWEEN 1 AND 2160),
+  wip_threshold INTEGER NOT NULL DEFAULT 3 CHECK (wip_threshold BETWEEN 1 AND 50),
+  coding_time_threshold_hours INTEGER NOT NULL DEFAULT 48 CHECK (coding_time_threshold_hours BETWEEN 1 AND 2160),
+  deployment_time_threshold_hours INTEGER NOT NULL DEFAULT 24 CHECK (deployment_time_threshold_hours BETWEEN 1 AND 2160),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,30 @@
+-- Create contributor identity registry: one workspace person per human, however many emails, GitHub logins,
+-- Discord ids and phone numbers they show up under
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS workspace_people (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_people_workspace ON workspace_people(workspace_id);
+
+CREATE TABLE IF NOT EXISTS person_identities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES workspace_people(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('github', 'email', 'discord', 'phone')),
+  -- GitHub logins keep their case for display; emails are lowercased, phone numbers kept as + and digits
+  value TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- An identity belongs to at most one person (GitHub logins and emails are case-insensitive)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_person_identities_value ON person_identities(workspace_id, kind, lower(value));
+CREATE INDEX IF NOT EXISTS idx_person_identities_person ON person_identities(person_id);
+
+-- In-app chat messages record their author's user id, so blockers can be attributed to a person
+CREATE INDEX IF NOT EXISTS idx_discord_messages_user ON discord_messages(workspace_id, user_id);
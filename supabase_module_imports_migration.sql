@@ -0,0 +1,12 @@
+-- Create module_imports table holding the TS/JS import graph used for circular dependency detection (AR-HEU-006)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS module_imports (
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  file_path TEXT NOT NULL,
+  blob_sha TEXT NOT NULL,
+  specifiers TEXT[] NOT NULL DEFAULT '{}',
+  imports TEXT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (workspace_id, file_path)
+);
@@ -0,0 +1,34 @@
+-- Create pr_reviews table from pull_request_review / pull_request_review_comment webhooks (AR-FLOW-002)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS pr_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  github_review_id BIGINT NOT NULL,
+  github_pr_number INTEGER NOT NULL,
+  repo_owner TEXT NOT NULL DEFAULT '',
+  repo_name TEXT NOT NULL DEFAULT '',
+  reviewer_github_username TEXT,
+  state TEXT NOT NULL CHECK (state IN ('approved', 'changes_requested', 'commented', 'dismissed')),
+  submitted_at TIMESTAMPTZ DEFAULT NOW(),
+  comment_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (workspace_id, github_review_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pr_reviews_workspace_submitted ON pr_reviews(workspace_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pr_reviews_pr ON pr_reviews(workspace_id, github_pr_number);
+
+-- Review comments by id; pr_reviews.comment_count is recounted from here so replayed deliveries don't drift it.
+-- No foreign key to pr_reviews: a comment can arrive before its review's submitted event
+CREATE TABLE IF NOT EXISTS pr_review_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  github_comment_id BIGINT NOT NULL,
+  github_review_id BIGINT NOT NULL,
+  UNIQUE (workspace_id, github_comment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pr_review_comments_review ON pr_review_comments(workspace_id, github_review_id);
+
+-- First submitted review by someone other than the author; first_review_at keeps the first review request
+ALTER TABLE pull_requests ADD COLUMN IF NOT EXISTS first_reviewed_at TIMESTAMPTZ;
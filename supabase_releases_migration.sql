@@ -0,0 +1,35 @@
+-- Create releases table (tags and GitHub releases from create/delete/release webhooks),
+-- and track deleted branches and commits dropped by force pushes
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS releases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  repo_owner TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  tag_name TEXT NOT NULL,
+  -- 'tag' until a GitHub release is published for the tag
+  kind TEXT NOT NULL DEFAULT 'tag' CHECK (kind IN ('tag', 'release')),
+  name TEXT,
+  github_release_id BIGINT,
+  is_draft BOOLEAN NOT NULL DEFAULT FALSE,
+  is_prerelease BOOLEAN NOT NULL DEFAULT FALSE,
+  author_github_username TEXT,
+  target_commitish TEXT,
+  url TEXT,
+  published_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  raw_payload JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workspace_id, repo_owner, repo_name, tag_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_releases_workspace_created ON releases(workspace_id, created_at DESC);
+
+ALTER TABLE branches ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE branches ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Commits a force push removed from their branch; kept for history but excluded from activity
+ALTER TABLE commits ADD COLUMN IF NOT EXISTS is_unreachable BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE commits ADD COLUMN IF NOT EXISTS unreachable_at TIMESTAMPTZ;
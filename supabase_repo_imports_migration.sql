@@ -0,0 +1,34 @@
+-- Create repo_imports table: progress of resumable full-history imports (run in slices by the job queue)
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS repo_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  repo_owner TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  -- waiting: paused until rate_limited_until, when the next slice is scheduled
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'waiting', 'completed', 'failed')),
+  phase TEXT NOT NULL DEFAULT 'commits' CHECK (phase IN ('commits', 'pull_requests', 'issues', 'done')),
+  -- Default-branch head at the start; commit pages are listed from it so they stay stable
+  head_sha TEXT,
+  -- Last page finished per listing; a resumed import continues from the next one
+  commits_page INTEGER NOT NULL DEFAULT 0,
+  pull_requests_page INTEGER NOT NULL DEFAULT 0,
+  issues_page INTEGER NOT NULL DEFAULT 0,
+  commits_imported INTEGER NOT NULL DEFAULT 0,
+  commits_total INTEGER,
+  pull_requests_imported INTEGER NOT NULL DEFAULT 0,
+  pull_requests_total INTEGER,
+  issues_imported INTEGER NOT NULL DEFAULT 0,
+  issues_total INTEGER,
+  rate_limited_until TIMESTAMPTZ,
+  last_error TEXT,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_repo_imports_workspace_started ON repo_imports(workspace_id, started_at DESC);
+-- At most one import in progress per repository
+CREATE UNIQUE INDEX IF NOT EXISTS idx_repo_imports_active
+  ON repo_imports(workspace_id, repo_owner, repo_name) WHERE status IN ('queued', 'running', 'waiting');
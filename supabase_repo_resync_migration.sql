@@ -0,0 +1,10 @@
+-- Add resync cursors to workspace_repositories for incremental resync and gap backfill
+-- Run this in Supabase SQL Editor
+
+-- Newest commit date and PR / issue update time seen; a resync fetches only what changed after them
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS commits_cursor TIMESTAMPTZ;
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS pull_requests_cursor TIMESTAMPTZ;
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS issues_cursor TIMESTAMPTZ;
+-- Diff summary of the last resync (counts, changed commits / PRs / issues, error)
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS last_resync_at TIMESTAMPTZ;
+ALTER TABLE workspace_repositories ADD COLUMN IF NOT EXISTS last_resync_summary JSONB;
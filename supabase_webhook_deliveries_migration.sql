@@ -0,0 +1,23 @@
+-- Create webhook_deliveries table: every verified GitHub delivery is stored before processing so failures can be replayed
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  delivery_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  action TEXT,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processing', 'processed', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  elapsed_ms INTEGER,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- X-GitHub-Delivery is reused when GitHub redelivers, which makes redeliveries idempotent
+  UNIQUE (workspace_id, delivery_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_workspace_received ON webhook_deliveries(workspace_id, received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_failed ON webhook_deliveries(workspace_id, status) WHERE status = 'failed';
@@ -0,0 +1,55 @@
+-- Create workspace_repositories table so a workspace can bind several GitHub repositories,
+-- each with its own webhook; file-level tables gain repository columns so paths from different repos don't collide
+-- Run this in Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS workspace_repositories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  repo_owner TEXT NOT NULL,
+  repo_name TEXT NOT NULL,
+  repo_url TEXT,
+  github_repo_id BIGINT,
+  default_branch TEXT,
+  is_private BOOLEAN,
+  webhook_id BIGINT,
+  webhook_secret TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (workspace_id, repo_owner, repo_name)
+);
+
+-- Existing single-repo bindings become the workspace's first repository (and keep their webhook secret)
+INSERT INTO workspace_repositories (workspace_id, repo_owner, repo_name, repo_url, github_repo_id, default_branch, is_private, webhook_id, webhook_secret)
+SELECT id, github_repo_owner, github_repo_name, github_repo_url, github_repo_id, github_repo_default_branch, github_repo_private, github_webhook_id, github_webhook_secret
+FROM workspaces
+WHERE github_repo_owner IS NOT NULL AND github_repo_name IS NOT NULL
+ON CONFLICT (workspace_id, repo_owner, repo_name) DO NOTHING;
+
+-- file_authorship: one row per repository, file and author
+ALTER TABLE file_authorship ADD COLUMN IF NOT EXISTS repo_owner TEXT NOT NULL DEFAULT '';
+ALTER TABLE file_authorship ADD COLUMN IF NOT EXISTS repo_name TEXT NOT NULL DEFAULT '';
+UPDATE file_authorship fa SET repo_owner = w.github_repo_owner, repo_name = w.github_repo_name
+FROM workspaces w
+WHERE fa.workspace_id = w.id AND fa.repo_owner = '' AND w.github_repo_owner IS NOT NULL AND w.github_repo_name IS NOT NULL;
+-- Default name Postgres gave UNIQUE (workspace_id, file_path, author_github_username)
+ALTER TABLE file_authorship DROP CONSTRAINT IF EXISTS file_authorship_workspace_id_file_path_author_github_userna_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_file_authorship_repo_file_author
+  ON file_authorship(workspace_id, repo_owner, repo_name, file_path, author_github_username);
+
+-- module_imports: one import graph per repository
+ALTER TABLE module_imports ADD COLUMN IF NOT EXISTS repo_owner TEXT NOT NULL DEFAULT '';
+ALTER TABLE module_imports ADD COLUMN IF NOT EXISTS repo_name TEXT NOT NULL DEFAULT '';
+UPDATE module_imports mi SET repo_owner = w.github_repo_owner, repo_name = w.github_repo_name
+FROM workspaces w
+WHERE mi.workspace_id = w.id AND mi.repo_owner = '' AND w.github_repo_owner IS NOT NULL AND w.github_repo_name IS NOT NULL;
+ALTER TABLE module_imports DROP CONSTRAINT IF EXISTS module_imports_pkey;
+ALTER TABLE module_imports ADD PRIMARY KEY (workspace_id, repo_owner, repo_name, file_path);
+
+-- deployments: previous-deployment and lead-time lookups stay within one repository
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS repo_owner TEXT NOT NULL DEFAULT '';
+ALTER TABLE deployments ADD COLUMN IF NOT EXISTS repo_name TEXT NOT NULL DEFAULT '';
+UPDATE deployments d SET repo_owner = w.github_repo_owner, repo_name = w.github_repo_name
+FROM workspaces w
+WHERE d.workspace_id = w.id AND d.repo_owner = '' AND w.github_repo_owner IS NOT NULL AND w.github_repo_name IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_deployments_repo_env_finished
+  ON deployments(workspace_id, repo_owner, repo_name, environment, finished_at DESC);